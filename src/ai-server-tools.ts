@@ -1,19 +1,37 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CreateMessageResultSchema,
+  type ServerNotification,
+  type ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
 
 import {
   handleAnalyzeCodebaseUnified,
   handleParseSpecUnified,
   handleFindSimilarUnified,
+  handleMergeSpecUnified,
   handleValidateImplementationUnified,
   handleGenerateGherkinUnified,
   handleAnalyzeSpecQualityUnified,
   handleGenerateTasksUnified,
   handleAnalyzeSpecComprehensiveUnified,
-  handleReverseSpecUnified
+  handleReverseSpecUnified,
+  handleImportIssuesUnified
 } from './unified-ai-tools.js';
+import type { AIToolContext } from './ai/shared/sampling.js';
 import { generateCodebaseAnalysisExample, generateMinimalExample, generateReverseSpecAnalysisExample, getSchemaDocumentation } from './utils/schema-examples.js';
 
+// Answering a needs_ai_analysis response; the prepared arguments are kept on the server
+const continuationInput = {
+  continuation_id: z.string().optional().describe('ID of the prepared analysis this call answers, from continuation_args'),
+  prompt_hash: z.string().optional().describe('Hash of the answered analysis prompt, from continuation_args; required with continuation_id to catch answers sent with the arguments of another continuation')
+};
+
+// Completions of large analysis prompts can take minutes
+const SAMPLING_TIMEOUT_MS = 5 * 60 * 1000;
+
 /**
  * Helper function to wrap tool results in MCP content format
  */
@@ -29,9 +47,13 @@ function wrapMcpResponse(result: any) {
 /**
  * Helper function to handle tool execution with proper MCP response format
  */
-async function handleToolExecution(toolHandler: (args: any) => Promise<any>, args: any) {
+async function handleToolExecution(
+  toolHandler: (args: any, context: AIToolContext) => Promise<any>,
+  args: any,
+  context: AIToolContext = {}
+) {
   try {
-    const result = await toolHandler(args);
+    const result = await toolHandler(args, context);
     return wrapMcpResponse(result);
   } catch (error) {
     return wrapMcpResponse({
@@ -43,6 +65,28 @@ async function handleToolExecution(toolHandler: (args: any) => Promise<any>, arg
 
 
 
+/**
+ * Lets a tool call sample the client's model when the client supports MCP
+ * sampling. Requests go out as part of the tool call, so they reach the
+ * right session over HTTP.
+ */
+function createToolContext(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): AIToolContext {
+  if (!server.server.getClientCapabilities()?.sampling) {
+    return {};
+  }
+
+  return {
+    sampler: params => extra.sendRequest(
+      { method: 'sampling/createMessage', params },
+      CreateMessageResultSchema,
+      { timeout: SAMPLING_TIMEOUT_MS }
+    )
+  };
+}
+
 /**
  * Register AI-leveraged tools with the MCP server.
  * Public workflows are single-step MCP tools even when they use internal AI continuation.
@@ -135,13 +179,14 @@ export function registerAITools(server: McpServer) {
         include_reverse_spec: z.boolean().optional().default(false).describe('Force reverse specification analysis (automatic when enabled in config and no features exist)'),
         feature_discovery_mode: z.enum(['features', 'components', 'apis', 'all']).optional().default('features').describe('Type of features to discover during reverse analysis'),
         confidence_threshold: z.number().min(0).max(1).optional().default(0.7).describe('Minimum confidence threshold for feature discovery (0.0 to 1.0)'),
-        analysis_scope: z.enum(['new_code', 'full_codebase', 'incremental', 'since_date']).optional().default('full_codebase').describe('Scope of reverse specification analysis'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)'),
+        analysis_scope: z.enum(['new_code', 'full_codebase', 'incremental', 'since_date']).optional().default('full_codebase').describe('Scope of reverse specification analysis: incremental sends files changed since the last analysis, new_code sends files never analyzed or added in git, since_date sends files changed since since_date'),
+        since_date: z.string().optional().describe('ISO date for the since_date scope (defaults to the last reverse spec analysis)'),
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput,
         contextFiles: z.object({}).passthrough().optional().describe('Pre-computed context files (advanced usage)')
       }
     },
-    async (args) => handleToolExecution(handleAnalyzeCodebaseUnified, args)
+    async (args, extra) => handleToolExecution(handleAnalyzeCodebaseUnified, args, createToolContext(server, extra))
   );
 
   // Unified Specification Parsing
@@ -151,18 +196,18 @@ export function registerAITools(server: McpServer) {
       title: 'Parse Specification',
       description: 'Process specification and create SpecLinter tasks with AI analysis',
       inputSchema: {
-        spec: z.string().describe('The specification text to parse'),
-        feature_name: z.string().describe('Name for the feature (used for directory)'),
+        spec: z.string().optional().describe('The specification text to parse (not needed with continuation_id)'),
+        feature_name: z.string().optional().describe('Name for the feature (used for directory) (not needed with continuation_id)'),
         context: z.string().optional().describe('Additional context about the implementation'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to current working directory)'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)'),
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput,
         deduplication_strategy: z.enum(['prompt', 'merge', 'replace', 'skip']).optional().default('prompt').describe('How to handle duplicate/similar features'),
         similarity_threshold: z.number().optional().describe('Similarity threshold for detecting duplicates (0.0 to 1.0)'),
         skip_similarity_check: z.boolean().optional().default(false).describe('Skip similarity checking entirely')
       }
     },
-    async (args) => handleToolExecution(handleParseSpecUnified, args)
+    async (args, extra) => handleToolExecution(handleParseSpecUnified, args, createToolContext(server, extra))
   );
 
   // Unified Similarity Analysis
@@ -170,16 +215,39 @@ export function registerAITools(server: McpServer) {
     'speclinter_find_similar',
     {
       title: 'Find Similar Features',
-      description: 'Find similar features using AI analysis against existing specifications',
+      description: 'Find features and tasks similar to a specification using local embeddings, or AI analysis with mode "ai"',
       inputSchema: {
-        spec: z.string().describe('Specification to find similarities for'),
+        spec: z.string().optional().describe('Specification to find similarities for (not needed with continuation_id)'),
         threshold: z.number().optional().default(0.8).describe('Similarity threshold (0.0 to 1.0)'),
+        mode: z.enum(['local', 'ai']).optional().default('local').describe('local: cosine similarity of stored embeddings, answered immediately; ai: semantic comparison of the closest features by the AI'),
+        task_threshold: z.number().min(0).max(1).optional().describe('Similarity threshold for tasks in local mode (defaults to deduplication.taskSimilarityThreshold)'),
+        project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput
+      }
+    },
+    async (args, extra) => handleToolExecution(handleFindSimilarUnified, args, createToolContext(server, extra))
+  );
+
+  // Spec Merge with Provenance
+  server.registerTool(
+    'speclinter_merge_spec',
+    {
+      title: 'Merge Specification',
+      description: 'Merge a specification into an existing feature\'s spec requirement by requirement, dropping duplicates and recording where each requirement came from',
+      inputSchema: {
+        feature_name: z.string().optional().describe('Feature whose spec the new specification is merged into (not needed with continuation_id)'),
+        spec: z.string().optional().describe('Specification to merge in (not needed with continuation_id)'),
+        mode: z.enum(['local', 'ai']).optional().default('local').describe('local: drop near-identical requirements by embedding similarity; ai: semantic merge that also resolves contradicting requirements'),
+        threshold: z.number().min(0).max(1).optional().describe('Similarity at which requirements count as duplicates in local mode (default: 0.85)'),
+        dry_run: z.boolean().optional().default(false).describe('Return the merged spec without saving it'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)')
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        base_revision: z.number().int().optional().describe('Revision the analysis merged into; the merge is rejected if the feature has a newer revision'),
+        ...continuationInput
       }
     },
-    async (args) => handleToolExecution(handleFindSimilarUnified, args)
+    async (args, extra) => handleToolExecution(handleMergeSpecUnified, args, createToolContext(server, extra))
   );
 
   // Unified Implementation Validation
@@ -189,13 +257,13 @@ export function registerAITools(server: McpServer) {
       title: 'Validate Implementation',
       description: 'Validate feature implementation using AI analysis of codebase',
       inputSchema: {
-        feature_name: z.string().describe('Name of the feature to validate'),
+        feature_name: z.string().optional().describe('Name of the feature to validate (not needed with continuation_id)'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)')
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput
       }
     },
-    async (args) => handleToolExecution(handleValidateImplementationUnified, args)
+    async (args, extra) => handleToolExecution(handleValidateImplementationUnified, args, createToolContext(server, extra))
   );
 
   // Unified Gherkin Generation
@@ -205,15 +273,15 @@ export function registerAITools(server: McpServer) {
       title: 'Generate Gherkin Scenarios',
       description: 'Generate BDD scenarios using AI analysis for a specific task',
       inputSchema: {
-        task: z.object({}).passthrough().describe('Task object with title, summary, implementation, and acceptance criteria'),
-        feature_name: z.string().describe('Name of the feature this task belongs to'),
+        task: z.object({}).passthrough().optional().describe('Task object with title, summary, implementation, and acceptance criteria (not needed with continuation_id)'),
+        feature_name: z.string().optional().describe('Name of the feature this task belongs to (not needed with continuation_id)'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)'),
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput,
         task_id: z.string().optional().describe('ID of the task being processed (for advanced usage)')
       }
     },
-    async (args) => handleToolExecution(handleGenerateGherkinUnified, args)
+    async (args, extra) => handleToolExecution(handleGenerateGherkinUnified, args, createToolContext(server, extra))
   );
 
   // Unified Spec Quality Analysis
@@ -223,16 +291,37 @@ export function registerAITools(server: McpServer) {
       title: 'Analyze Specification Quality',
       description: 'Analyze specification quality using AI with semantic understanding',
       inputSchema: {
-        spec: z.string().describe('The specification text to analyze'),
-        feature_name: z.string().describe('Name for the feature'),
+        spec: z.string().optional().describe('The specification text to analyze (not needed with continuation_id)'),
+        feature_name: z.string().optional().describe('Name for the feature (not needed with continuation_id)'),
         context: z.string().optional().describe('Additional context about the specification'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
         analysis_depth: z.enum(['quick', 'standard', 'comprehensive']).optional().default('standard').describe('Depth of quality analysis to perform'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)')
+        record_grade: z.boolean().optional().default(false).describe('Store the resulting grade and score on the saved feature (used for imported features)'),
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput
+      }
+    },
+    async (args, extra) => handleToolExecution(handleAnalyzeSpecQualityUnified, args, createToolContext(server, extra))
+  );
+
+  // Issue Tracker Import with Spec Quality Grading
+  server.registerTool(
+    'speclinter_import_issues',
+    {
+      title: 'Import Issues',
+      description: 'Import GitHub issues JSON or a Jira CSV export as features and tasks, then grade each imported spec with AI',
+      inputSchema: {
+        format: z.enum(['github', 'jira-csv']).describe('github: REST API or `gh issue list --json` output; jira-csv: Jira CSV export'),
+        file_path: z.string().optional().describe('Path to the export file, relative to the project root'),
+        content: z.string().optional().describe('Export content, used instead of file_path'),
+        feature_name: z.string().optional().describe('Import every issue into this feature (defaults to grouping by milestone or epic)'),
+        deduplication_strategy: z.enum(['prompt', 'merge', 'replace', 'skip']).optional().describe('How to handle imported features similar to existing ones (defaults to the configured strategy)'),
+        similarity_threshold: z.number().min(0).max(1).optional().describe('Similarity threshold for duplicate detection'),
+        skip_similarity_check: z.boolean().optional().default(false).describe('Skip duplicate detection'),
+        project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
       }
     },
-    async (args) => handleToolExecution(handleAnalyzeSpecQualityUnified, args)
+    async (args, extra) => handleToolExecution(handleImportIssuesUnified, args, createToolContext(server, extra))
   );
 
   // Unified Task Generation
@@ -242,17 +331,17 @@ export function registerAITools(server: McpServer) {
       title: 'Generate Tasks from Specification',
       description: 'Generate comprehensive task breakdown using AI analysis',
       inputSchema: {
-        spec: z.string().describe('The specification text to break down into tasks'),
-        feature_name: z.string().describe('Name for the feature'),
+        spec: z.string().optional().describe('The specification text to break down into tasks (not needed with continuation_id)'),
+        feature_name: z.string().optional().describe('Name for the feature (not needed with continuation_id)'),
         quality_analysis: z.object({}).passthrough().optional().describe('Previous quality analysis results'),
         context: z.string().optional().describe('Additional context about the specification'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
         task_complexity: z.enum(['basic', 'standard', 'comprehensive']).optional().default('standard').describe('Complexity level for task generation'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)')
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput
       }
     },
-    async (args) => handleToolExecution(handleGenerateTasksUnified, args)
+    async (args, extra) => handleToolExecution(handleGenerateTasksUnified, args, createToolContext(server, extra))
   );
 
   // Dedicated Reverse Specification Discovery Tool
@@ -266,13 +355,14 @@ export function registerAITools(server: McpServer) {
         analysis_depth: z.enum(['quick', 'standard', 'comprehensive']).optional().default('standard').describe('Depth of feature discovery analysis'),
         feature_discovery_mode: z.enum(['features', 'components', 'apis', 'all']).optional().default('features').describe('Type of features to discover'),
         confidence_threshold: z.number().min(0).max(1).optional().default(0.7).describe('Minimum confidence threshold for feature discovery'),
-        analysis_scope: z.enum(['new_code', 'full_codebase', 'incremental', 'since_date']).optional().default('full_codebase').describe('Scope of reverse specification analysis'),
+        analysis_scope: z.enum(['new_code', 'full_codebase', 'incremental', 'since_date']).optional().default('full_codebase').describe('Scope of reverse specification analysis: incremental sends files changed since the last analysis, new_code sends files never analyzed or added in git, since_date sends files changed since since_date'),
+        since_date: z.string().optional().describe('ISO date for the since_date scope (defaults to the last reverse spec analysis)'),
         max_features: z.number().optional().default(10).describe('Maximum number of features to discover'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI reverse spec analysis (advanced usage)')
+        analysis: z.object({}).passthrough().optional().describe('AI reverse spec analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput
       }
     },
-    async (args) => handleToolExecution(handleReverseSpecUnified, args)
+    async (args, extra) => handleToolExecution(handleReverseSpecUnified, args, createToolContext(server, extra))
   );
 
   // Unified Comprehensive Spec Analysis
@@ -282,17 +372,17 @@ export function registerAITools(server: McpServer) {
       title: 'Comprehensive Specification Analysis',
       description: 'Comprehensive AI analysis combining quality assessment and task generation',
       inputSchema: {
-        spec: z.string().describe('The specification text to analyze comprehensively'),
-        feature_name: z.string().describe('Name for the feature'),
+        spec: z.string().optional().describe('The specification text to analyze comprehensively (not needed with continuation_id)'),
+        feature_name: z.string().optional().describe('Name for the feature (not needed with continuation_id)'),
         context: z.string().optional().describe('Additional context about the specification'),
         project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)'),
         analysis_depth: z.enum(['quick', 'standard', 'comprehensive']).optional().default('standard').describe('Depth of comprehensive analysis to perform'),
         focus_areas: z.array(z.string()).optional().default([]).describe('Specific areas to focus analysis on'),
-        // Advanced usage: pre-computed analysis
-        analysis: z.object({}).passthrough().optional().describe('Pre-computed AI analysis (advanced usage)')
+        analysis: z.object({}).passthrough().optional().describe('AI analysis answering the prepared analysis given by continuation_id'),
+        ...continuationInput
       }
     },
-    async (args) => handleToolExecution(handleAnalyzeSpecComprehensiveUnified, args)
+    async (args, extra) => handleToolExecution(handleAnalyzeSpecComprehensiveUnified, args, createToolContext(server, extra))
   );
 }
 
@@ -25,8 +25,13 @@ export {
 } from './ai/spec/parse-spec.js';
 export {
   handleFindSimilarAI,
+  handleFindSimilarLocal,
   handleProcessSimilarityAnalysisAI
 } from './ai/spec/similarity.js';
+export {
+  handleMergeSpecAI,
+  handleProcessSpecMergeAI
+} from './ai/spec/merge.js';
 export {
   handleAnalyzeSpecQuality,
   handleProcessSpecQualityAnalysis,
@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import type { CollectedFile } from './support.js';
+
+const execFileAsync = promisify(execFile);
+
+export type ReverseSpecScope = 'new_code' | 'full_codebase' | 'incremental' | 'since_date';
+
+/**
+ * File paths (relative to the project root) reported by git, or null when the
+ * project is not inside a git work tree.
+ */
+export interface GitChanges {
+  changed: string[];
+  added: string[];
+}
+
+export interface FileSelection {
+  files: CollectedFile[];
+  effectiveScope: ReverseSpecScope;
+  changedFiles: string[];
+  neighbourFiles: string[];
+  skippedUnchanged: number;
+}
+
+export interface FileSelectionOptions {
+  previousHashes: Record<string, string>;
+  gitChanges: GitChanges | null;
+  modifiedSince?: Set<string>;
+  limit: number;
+}
+
+const RESOLVABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+export function hashFileContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Reads the per-file hash map stored in reverse_spec_state.analyzed_files.
+ * Rows written before hashes were tracked hold an empty object.
+ */
+export function readStoredHashes(analyzedFiles: unknown): Record<string, string> {
+  if (!analyzedFiles || typeof analyzedFiles !== 'object' || Array.isArray(analyzedFiles)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(analyzedFiles).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+/**
+ * Picks the files to send to the AI for the requested scope:
+ * - full_codebase: the first `limit` files
+ * - incremental: files whose content hash differs from the last analysis
+ * - new_code: files never analyzed before or added in git since the last analysis
+ * - since_date: files changed in git (or modified on disk) since the given date
+ * Changed files are followed by the files they import and the files importing
+ * them. Scopes fall back to full_codebase when there is nothing to compare against.
+ */
+export function selectFilesForScope(
+  files: CollectedFile[],
+  scope: ReverseSpecScope,
+  options: FileSelectionOptions
+): FileSelection {
+  const { previousHashes, gitChanges, modifiedSince, limit } = options;
+  const hasHistory = Object.keys(previousHashes).length > 0;
+
+  let changed: CollectedFile[] | null = null;
+  if (scope === 'incremental' && hasHistory) {
+    changed = files.filter(file => previousHashes[file.path] !== hashFileContent(file.content));
+  } else if (scope === 'new_code' && (hasHistory || gitChanges)) {
+    const added = new Set(gitChanges?.added ?? []);
+    changed = files.filter(file => (hasHistory && !(file.path in previousHashes)) || added.has(file.path));
+  } else if (scope === 'since_date' && (gitChanges || modifiedSince)) {
+    const since = new Set([...(gitChanges?.changed ?? []), ...(modifiedSince ?? [])]);
+    changed = files.filter(file => since.has(file.path));
+  }
+
+  if (!changed) {
+    return {
+      files: files.slice(0, limit),
+      effectiveScope: 'full_codebase',
+      changedFiles: [],
+      neighbourFiles: [],
+      skippedUnchanged: 0
+    };
+  }
+
+  const changedPaths = new Set(changed.map(file => file.path));
+  const neighbours = findImportNeighbours(files, changedPaths).filter(file => !changedPaths.has(file.path));
+  const selected = [...changed, ...neighbours].slice(0, limit);
+
+  return {
+    files: selected,
+    effectiveScope: scope,
+    changedFiles: changed.map(file => file.path),
+    neighbourFiles: neighbours.filter(file => selected.includes(file)).map(file => file.path),
+    skippedUnchanged: files.length - changed.length
+  };
+}
+
+/**
+ * Files imported by, or importing, any of the given files. Only relative
+ * JavaScript/TypeScript imports are followed.
+ */
+export function findImportNeighbours(files: CollectedFile[], targets: Set<string>): CollectedFile[] {
+  const byPath = new Map(files.map(file => [file.path, file]));
+  const neighbours = new Set<string>();
+
+  for (const file of files) {
+    for (const imported of resolveRelativeImports(file, byPath)) {
+      if (targets.has(file.path)) neighbours.add(imported);
+      if (targets.has(imported)) neighbours.add(file.path);
+    }
+  }
+
+  return files.filter(file => neighbours.has(file.path));
+}
+
+function resolveRelativeImports(file: CollectedFile, byPath: Map<string, CollectedFile>): string[] {
+  const specifiers = [
+    ...file.content.matchAll(/(?:import|export)\s[^'"]*?from\s+['"](\.{1,2}\/[^'"]+)['"]/g),
+    ...file.content.matchAll(/(?:import|require)\s*\(\s*['"](\.{1,2}\/[^'"]+)['"]\s*\)/g),
+    ...file.content.matchAll(/import\s+['"](\.{1,2}\/[^'"]+)['"]/g)
+  ].map(match => match[1]);
+
+  const resolved: string[] = [];
+  for (const specifier of specifiers) {
+    const base = path.posix.normalize(path.posix.join(path.posix.dirname(toPosix(file.path)), specifier));
+    // TypeScript ESM sources import './module.js' for './module.ts'
+    const withoutJs = base.replace(/\.(m|c)?js$/, '');
+    const candidates = [
+      base,
+      ...RESOLVABLE_EXTENSIONS.map(ext => `${withoutJs}${ext}`),
+      ...RESOLVABLE_EXTENSIONS.map(ext => `${base}/index${ext}`)
+    ];
+    const match = candidates.map(fromPosix).find(candidate => byPath.has(candidate));
+    if (match) resolved.push(match);
+  }
+
+  return resolved;
+}
+
+/**
+ * Files changed in git since `since` (committed, staged, unstaged and untracked),
+ * and the subset that was newly added. Returns null outside a git work tree.
+ */
+export async function getGitChanges(rootDir: string, since?: string): Promise<GitChanges | null> {
+  const git = async (...args: string[]): Promise<string[] | null> => {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: rootDir, timeout: 10000, maxBuffer: 16 * 1024 * 1024 });
+      return stdout.split('\n').map(line => line.trim()).filter(Boolean).map(fromPosix);
+    } catch {
+      return null;
+    }
+  };
+
+  if (!await git('rev-parse', '--is-inside-work-tree')) {
+    return null;
+  }
+
+  const untracked = await git('ls-files', '--others', '--exclude-standard') ?? [];
+  const uncommitted = await git('diff', '--name-only', '--relative', 'HEAD') ?? [];
+  const stagedAdded = await git('diff', '--name-only', '--relative', '--diff-filter=A', 'HEAD') ?? [];
+  const committed = since
+    ? await git('log', `--since=${since}`, '--name-only', '--relative', '--pretty=format:') ?? []
+    : [];
+  const committedAdded = since
+    ? await git('log', `--since=${since}`, '--name-only', '--relative', '--diff-filter=A', '--pretty=format:') ?? []
+    : [];
+
+  return {
+    changed: [...new Set([...committed, ...uncommitted, ...untracked])],
+    added: [...new Set([...committedAdded, ...stagedAdded, ...untracked])]
+  };
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join(path.posix.sep);
+}
+
+function fromPosix(filePath: string): string {
+  return filePath.split(path.posix.sep).join(path.sep);
+}
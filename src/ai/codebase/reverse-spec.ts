@@ -3,13 +3,23 @@ import path from 'path';
 import { AIReverseSpecAnalysisSchema, AIPromptTemplates } from '../../types/ai-schemas.js';
 import { resolveProjectRoot } from '../../tools.js';
 import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
 import { collectRelevantFiles } from './support.js';
-import type { ReverseEngineeredFeatureRecord, ReverseSpecStateWrite } from '../../types/index.js';
+import type { CollectedFile } from './support.js';
+import {
+  getGitChanges,
+  hashFileContent,
+  readStoredHashes,
+  selectFilesForScope
+} from './incremental.js';
+import type { FileSelection, ReverseSpecScope } from './incremental.js';
+import type { ReverseEngineeredFeatureRecord, ReverseSpecStateSnapshot, ReverseSpecStateWrite } from '../../types/index.js';
 
 export async function handleReverseSpecAnalysis(args: any) {
   const {
     project_root,
     analysis_scope = 'full_codebase',
+    since_date,
     confidence_threshold = 0.7,
     feature_discovery_mode = 'features',
     analysis_depth = 'standard'
@@ -17,8 +27,9 @@ export async function handleReverseSpecAnalysis(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
     const projectContext = await storage.loadProjectContext();
 
@@ -30,9 +41,10 @@ export async function handleReverseSpecAnalysis(args: any) {
       };
     }
 
+    // Narrower scopes compare against the whole tree, so they collect more candidates
     const files = await collectRelevantFiles(
       rootDir,
-      config.reverseSpec.maxFeaturesPerAnalysis * 5,
+      config.reverseSpec.maxFeaturesPerAnalysis * (analysis_scope === 'full_codebase' ? 5 : 50),
       100000
     );
 
@@ -49,7 +61,18 @@ export async function handleReverseSpecAnalysis(args: any) {
       existingState = await loadReverseSpecState(storage);
     }
 
-    const filesToAnalyze = filterFilesForAnalysis(files, analysis_scope, existingState);
+    const selection = await filterFilesForAnalysis(rootDir, files, analysis_scope, existingState, since_date);
+    const filesToAnalyze = selection.files;
+
+    if (filesToAnalyze.length === 0) {
+      return {
+        success: true,
+        action: 'no_changes',
+        project_root: rootDir,
+        analysis_scope: selection.effectiveScope,
+        message: `No files changed for scope '${selection.effectiveScope}' since the last reverse spec analysis (${existingState?.lastAnalysis ?? 'never'})`
+      };
+    }
 
     const analysisPrompt = generateReverseSpecPrompt({
       projectRoot: rootDir,
@@ -73,7 +96,11 @@ export async function handleReverseSpecAnalysis(args: any) {
       context: {
         project_root: rootDir,
         files_analyzed: filesToAnalyze.length,
-        analysis_scope,
+        analysis_scope: selection.effectiveScope,
+        changed_files: selection.changedFiles,
+        neighbour_files: selection.neighbourFiles,
+        unchanged_files_skipped: selection.skippedUnchanged,
+        file_hashes: Object.fromEntries(filesToAnalyze.map(file => [file.path, hashFileContent(file.content)])),
         confidence_threshold,
         discovery_mode: feature_discovery_mode,
         analysis_depth
@@ -85,6 +112,8 @@ export async function handleReverseSpecAnalysis(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -100,9 +129,10 @@ export async function handleProcessReverseSpecAnalysis(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const validatedAnalysis = AIReverseSpecAnalysisSchema.parse(analysis);
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
 
     const createdFiles: string[] = [];
@@ -122,7 +152,7 @@ export async function handleProcessReverseSpecAnalysis(args: any) {
     }
 
     if (config.reverseSpec.stateTrackingEnabled) {
-      await updateReverseSpecState(storage, validatedAnalysis, args.context);
+      await updateReverseSpecState(storage, validatedAnalysis, args.context, rootDir);
     }
 
     return {
@@ -155,6 +185,8 @@ export async function handleProcessReverseSpecAnalysis(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -169,7 +201,9 @@ export async function shouldAutoDiscoverFeatures(storage: { getFeatureCount(): P
   }
 }
 
-async function loadReverseSpecState(storage: { getLatestReverseSpecState(): Promise<unknown> }): Promise<unknown> {
+async function loadReverseSpecState(
+  storage: { getLatestReverseSpecState(): Promise<ReverseSpecStateSnapshot | null> }
+): Promise<ReverseSpecStateSnapshot | null> {
   try {
     return await storage.getLatestReverseSpecState();
   } catch {
@@ -177,12 +211,34 @@ async function loadReverseSpecState(storage: { getLatestReverseSpecState(): Prom
   }
 }
 
-function filterFilesForAnalysis(files: any[], analysisScope: string, existingState: any): any[] {
-  const limit = 50;
-  if (analysisScope && existingState) {
-    return files.slice(0, limit);
+async function filterFilesForAnalysis(
+  rootDir: string,
+  files: CollectedFile[],
+  analysisScope: ReverseSpecScope,
+  existingState: ReverseSpecStateSnapshot | null,
+  sinceDate?: string
+): Promise<FileSelection> {
+  const since = sinceDate ?? existingState?.lastAnalysis;
+  const gitChanges = analysisScope === 'full_codebase' ? null : await getGitChanges(rootDir, since);
+
+  // Outside git, since_date falls back to file modification times
+  let modifiedSince: Set<string> | undefined;
+  if (analysisScope === 'since_date' && !gitChanges && since) {
+    const sinceTime = new Date(since).getTime();
+    const modified = await Promise.all(files.map(async file => {
+      const stats = await fs.stat(path.join(rootDir, file.path)).catch(() => null);
+      return stats && stats.mtimeMs >= sinceTime ? file.path : null;
+    }));
+    modifiedSince = new Set(modified.filter((filePath): filePath is string => filePath !== null));
   }
-  return files.slice(0, limit);
+
+  return selectFilesForScope(files, analysisScope, {
+    previousHashes: readStoredHashes(existingState?.analyzedFiles),
+    // since_date needs a date to compare against git history
+    gitChanges: analysisScope === 'since_date' && !since ? null : gitChanges,
+    modifiedSince,
+    limit: 50
+  });
 }
 
 function generateReverseSpecPrompt(context: any): string {
@@ -359,11 +415,24 @@ ${feature.integrationPoints.length > 0 ?
 }
 
 async function updateReverseSpecState(
-  storage: { appendReverseSpecState(state: ReverseSpecStateWrite): Promise<void> },
+  storage: {
+    appendReverseSpecState(state: ReverseSpecStateWrite): Promise<void>;
+    getLatestReverseSpecState(): Promise<ReverseSpecStateSnapshot | null>;
+  },
   analysis: any,
-  context: any
+  context: any,
+  rootDir: string
 ): Promise<void> {
   try {
+    // Keep hashes of files analyzed in earlier runs, dropping files that no longer exist
+    const previousHashes = readStoredHashes((await loadReverseSpecState(storage))?.analyzedFiles);
+    const hashes: Record<string, string> = { ...previousHashes, ...readStoredHashes(context?.file_hashes) };
+    for (const filePath of Object.keys(hashes)) {
+      if (!await fs.access(path.join(rootDir, filePath)).then(() => true, () => false)) {
+        delete hashes[filePath];
+      }
+    }
+
     await storage.appendReverseSpecState({
       discoveredFeatures: analysis.discoveredFeatures.map((feature: any) => feature.name),
       analysisScope: (analysis.analysisScope ?? context?.analysis_scope ?? 'full_codebase'),
@@ -371,7 +440,7 @@ async function updateReverseSpecState(
       analysisDepth: (analysis.analysisDepth ?? context?.analysis_depth ?? 'standard'),
       totalFilesAnalyzed: analysis.codebaseInsights.totalFilesAnalyzed,
       featuresDiscovered: analysis.discoveredFeatures.length,
-      analyzedFiles: {},
+      analyzedFiles: hashes,
       lastAnalysis: new Date().toISOString()
     });
   } catch (error) {
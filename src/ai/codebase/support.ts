@@ -247,7 +247,8 @@ export async function collectRelevantFiles(
           relativePath.startsWith('node_modules') ||
           relativePath.startsWith('dist') ||
           relativePath.startsWith('build') ||
-          relativePath.startsWith('.speclinter')
+          relativePath.startsWith('.speclinter') ||
+          relativePath.startsWith('speclinter-tasks')
         ) {
           continue;
         }
@@ -19,11 +19,13 @@ export async function handleAnalyzeCodebase(args: any) {
     include_reverse_spec,
     feature_discovery_mode = 'features',
     confidence_threshold = 0.7,
-    analysis_scope = 'full_codebase'
+    analysis_scope = 'full_codebase',
+    since_date
   } = args;
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: any;
   try {
     const files = await collectRelevantFiles(rootDir, max_files, max_file_size);
 
@@ -79,7 +81,7 @@ ${AIPromptTemplates.contextFileGeneration}
 
 Please provide both the codebase analysis AND complete context files in your response matching AICodebaseAnalysisWithContextSchema.`;
 
-    const storage: any = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
 
     const shouldPerformReverseSpec = include_reverse_spec === true ||
@@ -89,6 +91,7 @@ Please provide both the codebase analysis AND complete context files in your res
       return await handleReverseSpecAnalysis({
         project_root,
         analysis_scope: analysis_scope || config.reverseSpec.analysisScope || 'full_codebase',
+        since_date,
         confidence_threshold: confidence_threshold || config.reverseSpec.confidenceThreshold,
         feature_discovery_mode: feature_discovery_mode || config.reverseSpec.discoveryMode,
         analysis_depth: analysis_depth || config.reverseSpec.analysisDepth
@@ -116,6 +119,8 @@ Please provide both the codebase analysis AND complete context files in your res
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -44,4 +44,6 @@ export interface ProjectContextSnapshot {
 export interface TaskMapperResult {
   tasks: Task[];
   parseResult: ParseResult;
+  /** AI dependencies dropped because they would close a cycle */
+  warnings: string[];
 }
@@ -1,7 +1,9 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
 import { AIGherkinAnalysisSchema, AIPromptTemplates } from '../../types/ai-schemas.js';
+import { lintGherkin } from '../../core/gherkin-lint.js';
 import { resolveProjectRoot } from '../../tools.js';
 import { loadProjectContextSnapshot } from '../shared/project-context.js';
 
@@ -21,9 +23,10 @@ export async function handleGenerateGherkinPrepare(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const projectContext = await loadProjectContextSnapshot(rootDir);
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
 
     const acceptanceCriteriaText = Array.isArray(task.acceptanceCriteria)
@@ -70,6 +73,8 @@ export async function handleGenerateGherkinPrepare(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -90,11 +95,12 @@ export async function handleProcessGherkinAnalysis(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const validatedAnalysis = AIGherkinAnalysisSchema.parse(analysis);
     const gherkinContent = formatGherkinFromAnalysis(validatedAnalysis);
 
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
 
     const tasksDir = path.join(rootDir, config.storage.tasksDir);
@@ -107,6 +113,7 @@ export async function handleProcessGherkinAnalysis(args: any) {
     const filePath = path.join(gherkinDir, filename);
 
     await fs.writeFile(filePath, gherkinContent);
+    const lint = lintGherkin(gherkinContent, config.generation.gherkinQuality);
 
     return {
       success: true,
@@ -118,10 +125,12 @@ export async function handleProcessGherkinAnalysis(args: any) {
       quality_metrics: validatedAnalysis.qualityMetrics,
       automation_readiness: validatedAnalysis.automationReadiness,
       ai_confidence: validatedAnalysis.aiInsights.confidence,
+      lint,
       next_steps: [
         `Generated ${validatedAnalysis.feature.scenarios.length} specific scenarios`,
         `Coverage score: ${validatedAnalysis.qualityMetrics.coverageScore}/100`,
         `Automation readiness: ${validatedAnalysis.automationReadiness.score}/100`,
+        ...(lint.issues.length > 0 ? [`Fix ${lint.errors} lint error(s) and ${lint.warnings} warning(s) reported by speclinter_lint_gherkin`] : []),
         'Review scenarios and customize as needed'
       ]
     };
@@ -140,6 +149,8 @@ export async function handleProcessGherkinAnalysis(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -167,10 +178,11 @@ function formatGherkinFromAnalysis(analysis: any): string {
     }
 
     if (scenario.tags && scenario.tags.length > 0) {
-      gherkinContent += `  ${scenario.tags.map((tag: string) => `@${tag}`).join(' ')}\n`;
+      gherkinContent += `  ${scenario.tags.map((tag: string) => `@${tag.replace(/^@/, '')}`).join(' ')}\n`;
     }
 
-    gherkinContent += `  Scenario: ${scenario.title}\n`;
+    const isOutline = scenario.examples && scenario.examples.length > 0;
+    gherkinContent += `  ${isOutline ? 'Scenario Outline' : 'Scenario'}: ${scenario.title}\n`;
 
     if (scenario.description) {
       gherkinContent += `    ${scenario.description}\n`;
@@ -180,21 +192,28 @@ function formatGherkinFromAnalysis(analysis: any): string {
       gherkinContent += `    ${step.type.charAt(0).toUpperCase() + step.type.slice(1)} ${step.text}\n`;
     });
 
-    if (scenario.examples && scenario.examples.length > 0) {
+    if (isOutline) {
+      // One header row of column names, then one row of values per example
+      const columns: string[] = [...new Set<string>(scenario.examples.flatMap((example: any) => Object.keys(example.data)))];
       gherkinContent += '\n    Examples:\n';
+      gherkinContent += `      | ${columns.map(escapeTableCell).join(' | ')} |\n`;
       scenario.examples.forEach((example: any) => {
-        gherkinContent += `      | ${example.description} |\n`;
-        Object.entries(example.data).forEach(([key, value]) => {
-          gherkinContent += `      | ${key} | ${value} |\n`;
-        });
+        if (example.description) {
+          gherkinContent += `      # ${example.description}\n`;
+        }
+        gherkinContent += `      | ${columns.map(column => escapeTableCell(example.data[column] ?? '')).join(' | ')} |\n`;
       });
     }
   });
 
   if (feature.testingNotes) {
     gherkinContent += '\n\n# Testing Notes:\n';
-    gherkinContent += `# ${feature.testingNotes}\n`;
+    gherkinContent += feature.testingNotes.split('\n').map((line: string) => `# ${line}\n`).join('');
   }
 
   return gherkinContent;
 }
+
+function escapeTableCell(value: string): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,208 @@
+import { createHash, randomUUID } from 'crypto';
+import { StorageManager } from '../../core/storage-manager.js';
+import { resolveProjectRoot } from '../../tools.js';
+import { formatZodError, getAnalysisSchema } from './sampling.js';
+import type { Storage } from '../../core/storage.js';
+import type { AIContinuation } from '../../types/index.js';
+
+// How long a prepared analysis waits for the client's answer
+export const AI_CONTINUATION_TTL_MS = 60 * 60 * 1000;
+
+// Arguments of the answering call that are not part of the prepared inputs
+const ANSWER_ARGUMENTS = ['analysis', 'continuation_id', 'prompt_hash'];
+
+export interface PreparedContinuation {
+  tool: string;
+  prompt: string;
+  schema: string;
+  inputs: Record<string, any>;
+}
+
+export type ResumedContinuation =
+  | { success: true; args: Record<string, any>; continuationId?: string }
+  | { success: false; error: string; error_type: string; [key: string]: any };
+
+export function hashAnalysisPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+async function getLatestFeatureRevision(storage: Storage, featureName: string | null): Promise<number | null> {
+  if (!featureName) return null;
+  const revisions = await storage.getFeatureRevisions(featureName);
+  return revisions.length > 0 ? revisions[revisions.length - 1].revision : null;
+}
+
+/**
+ * Stores a prepared analysis so the client only has to send back its ID and
+ * the analysis, together with the feature's latest spec revision. Expired
+ * continuations of the project are dropped on the way.
+ */
+export async function createAIContinuation(rootDir: string, prepared: PreparedContinuation): Promise<AIContinuation> {
+  const now = new Date();
+  const inputs = Object.fromEntries(
+    Object.entries(prepared.inputs).filter(([key, value]) => value !== undefined && !ANSWER_ARGUMENTS.includes(key))
+  );
+  const featureName = typeof inputs.feature_name === 'string' ? inputs.feature_name : null;
+
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    const continuation: AIContinuation = {
+      id: randomUUID(),
+      tool: prepared.tool,
+      featureName,
+      featureRevision: await getLatestFeatureRevision(storage, featureName),
+      schema: prepared.schema,
+      promptHash: hashAnalysisPrompt(prepared.prompt),
+      inputs,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + AI_CONTINUATION_TTL_MS).toISOString()
+    };
+
+    await storage.deleteExpiredAIContinuations(now);
+    await storage.saveAIContinuation(continuation);
+    return continuation;
+  } finally {
+    storage.close();
+  }
+}
+
+/**
+ * Turns a call answering a stored continuation into the arguments of the
+ * prepared call plus the analysis. The continuation must belong to the tool,
+ * must not have expired, its feature must still be at the revision the
+ * analysis was prepared against, and the analysis must match its schema.
+ * prompt_hash only catches an answer sent back with the arguments of another
+ * continuation; the client echoes it, so it proves nothing about the answer.
+ * The continuation is kept until completeAIContinuation reports that the tool
+ * processed the analysis, so a rejected or failed answer can be corrected and
+ * sent again. Calls without continuation_id are returned unchanged unless
+ * they carry an analysis, which is rejected.
+ */
+export async function resumeAIContinuation(toolName: string, args: Record<string, any>): Promise<ResumedContinuation> {
+  const prepareAgain = `Call ${toolName} without continuation_id and analysis to prepare a new analysis.`;
+  if (!args.continuation_id) {
+    if (args.analysis) {
+      return {
+        success: false,
+        error: 'An analysis is only accepted as the answer to a prepared continuation: pass the continuation_id it answers',
+        error_type: 'validation',
+        suggestions: [prepareAgain]
+      };
+    }
+    return { success: true, args };
+  }
+
+  const id = String(args.continuation_id);
+  if (!args.analysis) {
+    return {
+      success: false,
+      error: `Continuation '${id}' needs the analysis result in the "analysis" field`,
+      error_type: 'validation'
+    };
+  }
+  if (!args.prompt_hash) {
+    return {
+      success: false,
+      error: `Continuation '${id}' needs the prompt_hash returned with it`,
+      error_type: 'validation',
+      suggestions: ['Send back every field of continuation_args together with the analysis.']
+    };
+  }
+
+  const storage = await StorageManager.createInitializedStorage(await resolveProjectRoot(args.project_root));
+  try {
+    const continuation = await storage.getAIContinuation(id);
+    if (!continuation) {
+      return {
+        success: false,
+        error: `Continuation '${id}' not found: it was already answered, abandoned or never prepared in this project`,
+        error_type: 'validation',
+        suggestions: [prepareAgain]
+      };
+    }
+
+    if (continuation.tool !== toolName) {
+      return {
+        success: false,
+        error: `Continuation '${id}' was prepared by ${continuation.tool}, not ${toolName}`,
+        error_type: 'validation',
+        suggestions: [`Call ${continuation.tool} with this continuation_id instead.`]
+      };
+    }
+
+    if (new Date(continuation.expiresAt).getTime() <= Date.now()) {
+      await storage.deleteAIContinuation(id);
+      return {
+        success: false,
+        error: `Continuation '${id}' expired at ${continuation.expiresAt}`,
+        error_type: 'validation',
+        suggestions: [prepareAgain]
+      };
+    }
+
+    if (args.prompt_hash !== continuation.promptHash) {
+      return {
+        success: false,
+        error: `The analysis answers a different prompt than continuation '${id}' was prepared with`,
+        error_type: 'validation',
+        suggestions: [`Answer the analysis_prompt returned with continuation '${id}'.`, prepareAgain]
+      };
+    }
+
+    const featureRevision = await getLatestFeatureRevision(storage, continuation.featureName);
+    if (featureRevision !== continuation.featureRevision) {
+      await storage.deleteAIContinuation(id);
+      return {
+        success: false,
+        error: `Feature '${continuation.featureName}' changed since continuation '${id}' was prepared: ` +
+          `it was at ${continuation.featureRevision === null ? 'no revision' : `revision ${continuation.featureRevision}`}, ` +
+          `now ${featureRevision === null ? 'it has none' : `revision ${featureRevision}`}`,
+        error_type: 'validation',
+        suggestions: [prepareAgain]
+      };
+    }
+
+    const schema = getAnalysisSchema(continuation.schema);
+    const validation = schema?.safeParse(args.analysis);
+    if (validation && !validation.success) {
+      return {
+        success: false,
+        error: `The analysis does not match ${continuation.schema}`,
+        error_type: 'validation',
+        validation_errors: formatZodError(validation.error).split('\n'),
+        suggestions: [`Correct the analysis and call ${toolName} again with continuation_id '${id}'.`]
+      };
+    }
+
+    return {
+      success: true,
+      args: {
+        ...continuation.inputs,
+        project_root: args.project_root ?? continuation.inputs.project_root,
+        analysis: args.analysis
+      },
+      continuationId: id
+    };
+  } finally {
+    storage.close();
+  }
+}
+
+/**
+ * Uses up the continuation a resumed call answered once the tool reports
+ * success, and passes the tool's result through. Failed results keep the
+ * continuation so the answer can be sent again.
+ */
+export async function completeAIContinuation<T extends { success: boolean }>(resumed: ResumedContinuation, result: T): Promise<T> {
+  if (!resumed.success || !resumed.continuationId || !result.success) {
+    return result;
+  }
+
+  const storage = await StorageManager.createInitializedStorage(await resolveProjectRoot(resumed.args.project_root));
+  try {
+    await storage.deleteAIContinuation(resumed.continuationId);
+  } finally {
+    storage.close();
+  }
+  return result;
+}
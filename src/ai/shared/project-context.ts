@@ -32,8 +32,14 @@ async function readOptionalFile(filePath: string): Promise<string> {
 
 export async function loadProjectContextSnapshot(rootDir: string): Promise<ProjectContextSnapshot> {
   const storage = await StorageManager.createInitializedStorage(rootDir);
-  const config = await storage.getConfig();
-  const rawContext = await storage.loadProjectContext();
+  let config;
+  let rawContext;
+  try {
+    config = await storage.getConfig();
+    rawContext = await storage.loadProjectContext();
+  } finally {
+    storage.close();
+  }
   const architecturePath = path.join(rootDir, config.context.contextDir, 'architecture.md');
   const architectureContent = await readOptionalFile(architecturePath);
 
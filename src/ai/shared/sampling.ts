@@ -0,0 +1,146 @@
+import type { ZodError, ZodTypeAny } from 'zod';
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  SamplingMessage
+} from '@modelcontextprotocol/sdk/types.js';
+import * as AISchemas from '../../types/ai-schemas.js';
+import { StorageManager } from '../../core/storage-manager.js';
+
+/**
+ * Requests a completion from the client's model through MCP sampling
+ * (sampling/createMessage).
+ */
+export type AISampler = (params: CreateMessageRequest['params']) => Promise<CreateMessageResult>;
+
+/**
+ * What an AI tool call can use besides its arguments. The sampler is only
+ * set when the connected client supports sampling.
+ */
+export interface AIToolContext {
+  sampler?: AISampler;
+}
+
+export type SampledAnalysis =
+  | { success: true; analysis: unknown; attempts: number }
+  | { success: false; attempts: number; errors: string[] };
+
+const SAMPLING_MAX_TOKENS = 16000;
+
+const SAMPLING_SYSTEM_PROMPT = 'You are the analysis step of SpecLinter. Reply with a single JSON object that matches the requested schema, without markdown fences or commentary.';
+
+/**
+ * Looks up a schema exported from ai-schemas by the name a prepare step
+ * returns in its `schema` field.
+ */
+export function getAnalysisSchema(schemaName: string): ZodTypeAny | undefined {
+  const schema = (AISchemas as Record<string, unknown>)[schemaName];
+  return isZodSchema(schema) ? schema : undefined;
+}
+
+/**
+ * Asks the client's model for the analysis and validates the reply against
+ * the named schema. Rejected replies are retried up to maxRetries times with
+ * the validation errors added to the conversation. A sampling request the
+ * client refuses is not retried.
+ */
+export async function sampleAIAnalysis(
+  sampler: AISampler,
+  prompt: string,
+  schemaName: string,
+  maxRetries: number
+): Promise<SampledAnalysis> {
+  const schema = getAnalysisSchema(schemaName);
+  if (!schema) {
+    return { success: false, attempts: 0, errors: [`Unknown analysis schema '${schemaName}'`] };
+  }
+
+  const messages: SamplingMessage[] = [{ role: 'user', content: { type: 'text', text: prompt } }];
+  const errors: string[] = [];
+  let attempts = 0;
+
+  while (attempts <= maxRetries) {
+    attempts++;
+
+    let result: CreateMessageResult;
+    try {
+      result = await sampler({
+        messages,
+        systemPrompt: SAMPLING_SYSTEM_PROMPT,
+        includeContext: 'none',
+        maxTokens: SAMPLING_MAX_TOKENS
+      });
+    } catch (error) {
+      errors.push(`Sampling request failed: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+      break;
+    }
+
+    const parsed = parseAnalysisJson(result.content.type === 'text' ? result.content.text : '');
+    let error: string;
+    if ('error' in parsed) {
+      error = parsed.error;
+    } else {
+      const validation = schema.safeParse(parsed.value);
+      if (validation.success) {
+        return { success: true, analysis: parsed.value, attempts };
+      }
+      error = formatZodError(validation.error);
+    }
+
+    errors.push(`Attempt ${attempts}: ${error}`);
+    messages.push(
+      { role: 'assistant', content: result.content },
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `The response was rejected:\n${error}\n\nReply again with the corrected JSON object matching ${schemaName}.`
+        }
+      }
+    );
+  }
+
+  return { success: false, attempts, errors };
+}
+
+/**
+ * generation.specAnalysis.maxRetries from the project config.
+ */
+export async function loadSamplingMaxRetries(rootDir: string): Promise<number> {
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    return (await storage.getConfig()).generation.specAnalysis.maxRetries;
+  } finally {
+    storage.close();
+  }
+}
+
+/**
+ * Reads the JSON object from a model reply, ignoring markdown fences and
+ * any text around the object.
+ */
+function parseAnalysisJson(text: string): { value: unknown } | { error: string } {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { error: 'The response does not contain a JSON object' };
+  }
+
+  try {
+    return { value: JSON.parse(body.slice(start, end + 1)) };
+  } catch (error) {
+    return { error: `The response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+}
+
+export function formatZodError(error: ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+function isZodSchema(value: unknown): value is ZodTypeAny {
+  return typeof value === 'object' && value !== null && typeof (value as ZodTypeAny).safeParse === 'function';
+}
@@ -15,6 +15,79 @@ function slugify(value: string): string {
   return value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
 }
 
+function normalizeTitle(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Turns the AI's dependency references into task IDs. A reference matches a
+ * task when it names its ID or contains its title, so "Create user model -
+ * needed for storage" matches the task "Create user model"; the longest
+ * matching title wins. References to no other task of the feature are dropped.
+ */
+function resolveDependencies(references: string[], taskTitles: string[], index: number): string[] {
+  const ids = new Set<string>();
+
+  for (const reference of references) {
+    const normalized = ` ${normalizeTitle(reference)} `;
+    let match: { index: number; length: number } | undefined;
+
+    taskTitles.forEach((title, candidate) => {
+      const normalizedTitle = normalizeTitle(title);
+      if (candidate === index || !normalizedTitle) {
+        return;
+      }
+      const named = normalized.includes(` ${normalizeTitle(createTaskId(candidate))} `) ||
+        normalized.includes(` ${normalizedTitle} `);
+      if (named && (!match || normalizedTitle.length > match.length)) {
+        match = { index: candidate, length: normalizedTitle.length };
+      }
+    });
+
+    if (match) {
+      ids.add(createTaskId(match.index));
+    }
+  }
+
+  return [...ids];
+}
+
+/**
+ * Drops the AI dependencies that would close a cycle, so a contradictory
+ * answer still saves. Dependencies are kept in task order, so the later task
+ * loses the edge. Returns the tasks and a warning per dropped dependency.
+ */
+export function dropCyclicDependencies(tasks: Task[]): { tasks: Task[]; warnings: string[] } {
+  const prerequisites = new Map<string, string[]>();
+  const titles = new Map(tasks.map(task => [task.id, task.title]));
+  const warnings: string[] = [];
+
+  const dependsOn = (taskId: string, targetId: string, seen = new Set<string>()): boolean => {
+    if (taskId === targetId) return true;
+    seen.add(taskId);
+    return (prerequisites.get(taskId) ?? []).some(id => !seen.has(id) && dependsOn(id, targetId, seen));
+  };
+
+  const kept = tasks.map(task => {
+    const dependencies: string[] = [];
+    prerequisites.set(task.id, dependencies);
+
+    for (const dependencyId of task.dependencies ?? []) {
+      if (dependsOn(dependencyId, task.id)) {
+        warnings.push(
+          `Dropped the dependency of ${task.id} "${task.title}" on ${dependencyId} "${titles.get(dependencyId)}": it would close a dependency cycle`
+        );
+        continue;
+      }
+      dependencies.push(dependencyId);
+    }
+
+    return { ...task, dependencies };
+  });
+
+  return { tasks: kept, warnings };
+}
+
 function mapPatternAnchors(patterns: string[]): Array<{ name: string; anchor: string }> {
   return patterns.map(pattern => ({
     name: pattern,
@@ -25,7 +98,8 @@ function mapPatternAnchors(patterns: string[]): Array<{ name: string; anchor: st
 export function mapSpecAnalysisTask(
   task: SpecAnalysis['tasks'][number],
   featureName: string,
-  index: number
+  index: number,
+  taskTitles: string[] = []
 ): Task {
   return {
     id: createTaskId(index),
@@ -40,7 +114,8 @@ export function mapSpecAnalysisTask(
     testFile: `${slugify(task.title)}.feature`,
     coverageTarget: '90%',
     notes: task.testingNotes,
-    relevantPatterns: mapPatternAnchors(task.relevantPatterns)
+    relevantPatterns: mapPatternAnchors(task.relevantPatterns),
+    dependencies: resolveDependencies(task.dependencies, taskTitles, index)
   };
 }
 
@@ -51,8 +126,14 @@ function buildImplementationText(task: GeneratedTaskAnalysisTask | Comprehensive
 export function mapGeneratedTask(
   task: GeneratedTaskAnalysisTask | ComprehensiveGeneratedTask,
   featureName: string,
-  index: number
+  index: number,
+  taskTitles: string[] = []
 ): Task {
+  // "enhances" links are nice to have; only blocking and enabling tasks must be done first
+  const prerequisites = task.dependencies
+    .filter(dependency => dependency.relationship !== 'enhances')
+    .map(dependency => dependency.taskTitle);
+
   return {
     id: createTaskId(index),
     title: task.title,
@@ -66,17 +147,19 @@ export function mapGeneratedTask(
     testFile: `${slugify(task.title)}.feature`,
     coverageTarget: '90%',
     notes: `Business Value: ${task.businessValue.userImpact}\nComplexity: ${task.estimatedEffort.complexity}\nRisks: ${task.implementation.riskFactors.join('; ')}`,
-    relevantPatterns: mapPatternAnchors(task.implementation.codePatterns)
+    relevantPatterns: mapPatternAnchors(task.implementation.codePatterns),
+    dependencies: resolveDependencies(prerequisites, taskTitles, index)
   };
 }
 
 export function mapComprehensiveGeneratedTask(
   task: ComprehensiveGeneratedTask,
   featureName: string,
-  index: number
+  index: number,
+  taskTitles: string[] = []
 ): Task {
   return {
-    ...mapGeneratedTask(task, featureName, index),
+    ...mapGeneratedTask(task, featureName, index, taskTitles),
     implementation: `${buildImplementationText(task)}\n\nRisks: ${task.implementation.riskFactors.join('; ')}`,
     notes: `Business Value: ${task.businessValue.userImpact}\nComplexity: ${task.estimatedEffort.complexity}\nPriority: ${task.businessValue.priority}`
   };
@@ -87,10 +170,14 @@ export function buildParseResultFromSpecAnalysis(
   featureName: string,
   analysis: SpecAnalysis
 ): TaskMapperResult {
-  const tasks = analysis.tasks.map((task, index) => mapSpecAnalysisTask(task, featureName, index));
+  const taskTitles = analysis.tasks.map(task => task.title);
+  const { tasks, warnings } = dropCyclicDependencies(
+    analysis.tasks.map((task, index) => mapSpecAnalysisTask(task, featureName, index, taskTitles))
+  );
 
   return {
     tasks,
+    warnings,
     parseResult: {
       spec: sourceSpec,
       grade: analysis.quality.grade,
@@ -107,12 +194,14 @@ export function buildParseResultFromComprehensiveAnalysis(
   featureName: string,
   analysis: ComprehensiveSpecAnalysis
 ): TaskMapperResult {
-  const tasks = analysis.taskGeneration.tasks.map((task, index) =>
-    mapComprehensiveGeneratedTask(task, featureName, index)
-  );
+  const taskTitles = analysis.taskGeneration.tasks.map(task => task.title);
+  const { tasks, warnings } = dropCyclicDependencies(analysis.taskGeneration.tasks.map((task, index) =>
+    mapComprehensiveGeneratedTask(task, featureName, index, taskTitles)
+  ));
 
   return {
     tasks,
+    warnings,
     parseResult: {
       spec: sourceSpec,
       grade: analysis.qualityAnalysis.grade,
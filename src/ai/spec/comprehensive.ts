@@ -1,4 +1,5 @@
 import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
 import { resolveProjectRoot } from '../../tools.js';
 import { createErrorResponse } from '../../utils/validation.js';
 import { ConfigManager } from '../../utils/config-manager.js';
@@ -10,6 +11,7 @@ import {
 } from '../../types/ai-schemas.js';
 import {
   buildParseResultFromComprehensiveAnalysis,
+  dropCyclicDependencies,
   mapGeneratedTask
 } from '../shared/task-mappers.js';
 import { loadProjectContextSnapshot } from '../shared/project-context.js';
@@ -33,8 +35,9 @@ export async function handleAnalyzeSpecQuality(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
     const projectContext = await loadProjectContextSnapshot(rootDir);
 
@@ -77,6 +80,8 @@ export async function handleAnalyzeSpecQuality(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -85,7 +90,8 @@ export async function handleProcessSpecQualityAnalysis(args: any) {
     analysis,
     feature_name,
     project_root,
-    analysis_depth = 'standard'
+    analysis_depth = 'standard',
+    record_grade = false
   } = args;
 
   if (!analysis) {
@@ -97,6 +103,7 @@ export async function handleProcessSpecQualityAnalysis(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const validatedAnalysis = AISpecQualityAnalysisSchema.parse(analysis);
 
@@ -118,11 +125,18 @@ export async function handleProcessSpecQualityAnalysis(args: any) {
       };
     }
 
+    // Imported features are saved before they are graded; record the grade on request
+    if (record_grade) {
+      storage = await StorageManager.createInitializedStorage(rootDir);
+      await storage.updateFeatureGrade(feature_name, validatedAnalysis.grade, validatedAnalysis.overallScore);
+    }
+
     return {
       success: true,
       feature_name,
       project_root: rootDir,
       analysis_depth,
+      grade_recorded: Boolean(record_grade),
       quality_analysis: {
         overallScore: validatedAnalysis.overallScore,
         grade: validatedAnalysis.grade,
@@ -162,6 +176,8 @@ export async function handleProcessSpecQualityAnalysis(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -184,8 +200,9 @@ export async function handleGenerateTasksFromSpec(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
     const projectContext = await loadProjectContextSnapshot(rootDir);
 
@@ -237,6 +254,8 @@ Key Issues: ${quality_analysis.semantic_issues?.slice(0, 3).map((issue: any) =>
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -278,7 +297,10 @@ export async function handleProcessTaskGeneration(args: any) {
       };
     }
 
-    const tasks = validatedAnalysis.tasks.map((task, index) => mapGeneratedTask(task, feature_name, index));
+    const taskTitles = validatedAnalysis.tasks.map(task => task.title);
+    const { tasks, warnings } = dropCyclicDependencies(
+      validatedAnalysis.tasks.map((task, index) => mapGeneratedTask(task, feature_name, index, taskTitles))
+    );
 
     return {
       success: true,
@@ -286,6 +308,7 @@ export async function handleProcessTaskGeneration(args: any) {
       project_root: rootDir,
       task_complexity,
       tasks,
+      ...(warnings.length > 0 && { warnings }),
       task_generation: {
         taskCount: validatedAnalysis.qualityMetrics.taskCount,
         averageComplexity: validatedAnalysis.qualityMetrics.averageComplexity,
@@ -339,8 +362,9 @@ export async function handleAnalyzeSpecComprehensive(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const config = await storage.getConfig();
     const projectContext = await loadProjectContextSnapshot(rootDir);
 
@@ -390,6 +414,8 @@ export async function handleAnalyzeSpecComprehensive(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -412,6 +438,7 @@ export async function handleProcessComprehensiveSpecAnalysis(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const validatedAnalysis: ComprehensiveSpecAnalysis = AISpecParserAnalysisSchema.parse(analysis);
 
@@ -462,13 +489,13 @@ export async function handleProcessComprehensiveSpecAnalysis(args: any) {
       };
     }
 
-    const { tasks, parseResult } = buildParseResultFromComprehensiveAnalysis(
+    const { tasks, parseResult, warnings } = buildParseResultFromComprehensiveAnalysis(
       sourceSpec,
       feature_name,
       validatedAnalysis
     );
 
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const saveResult = await storage.saveFeatureFromAI(
       feature_name,
       tasks,
@@ -476,7 +503,8 @@ export async function handleProcessComprehensiveSpecAnalysis(args: any) {
       validatedAnalysis,
       {
         onSimilarFound: 'prompt',
-        skipSimilarityCheck: false
+        skipSimilarityCheck: false,
+        source: 'parse'
       }
     );
 
@@ -487,6 +515,7 @@ export async function handleProcessComprehensiveSpecAnalysis(args: any) {
       analysis_depth,
       parse_result: parseResult,
       files_created: saveResult.files,
+      ...(warnings.length > 0 && { warnings }),
       merge_result: saveResult.mergeResult,
       comprehensive_analysis: {
         qualityAnalysis: {
@@ -534,5 +563,7 @@ export async function handleProcessComprehensiveSpecAnalysis(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
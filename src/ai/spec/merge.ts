@@ -0,0 +1,149 @@
+import { AISpecMergeSchema, AIPromptTemplates } from '../../types/ai-schemas.js';
+import { resolveProjectRoot } from '../../tools.js';
+import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
+import { extractRequirements, normalizeRequirement } from '../../core/spec-diff.js';
+import { getLatestRevision, mergeSpecs, readProvenance, renderMergedSpec, revisionSources } from '../../core/spec-merge.js';
+
+export async function handleMergeSpecAI(args: any) {
+  const { feature_name, spec, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const latest = await getLatestRevision(storage, feature_name);
+
+    // The local merge points the AI at likely duplicates and contradictions
+    const baseline = mergeSpecs(latest.spec, spec, revisionSources(latest));
+    const hints = [
+      ...baseline.duplicates.map(duplicate => `- Likely duplicate (${duplicate.similarity}): "${duplicate.dropped}" ~ "${duplicate.kept}"`),
+      ...baseline.possibleConflicts.map(conflict => `- Possible conflict (${conflict.similarity}): "${conflict.incoming}" vs "${conflict.existing}"`)
+    ];
+
+    const analysisPrompt = `${AIPromptTemplates.specMerge}
+
+**Existing Specification (${feature_name}, revision ${latest.revision}):**
+${extractRequirements(latest.spec).map(requirement => `- ${requirement}`).join('\n')}
+
+**Incoming Specification:**
+${spec}
+
+**Local Similarity Hints:**
+${hints.length > 0 ? hints.join('\n') : '- None found'}
+
+Return a JSON response matching the AISpecMergeSchema.`;
+
+    return {
+      success: true,
+      action: 'ai_analysis_required',
+      project_root: rootDir,
+      feature_name,
+      original_spec: spec,
+      analysis_prompt: analysisPrompt,
+      follow_up_tool: 'process_spec_merge_ai',
+      schema: 'AISpecMergeSchema',
+      base_revision: latest.revision,
+      next_steps: [
+        'AI will merge the specifications requirement by requirement',
+        `The merged spec will be saved as revision ${latest.revision + 1} with the source of each requirement`
+      ]
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      project_root: rootDir
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleProcessSpecMergeAI(args: any) {
+  const { analysis, feature_name, spec, original_spec, base_revision, dry_run = false, project_root } = args;
+
+  if (!analysis) {
+    return {
+      success: false,
+      error: 'No analysis data provided'
+    };
+  }
+
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    const validatedAnalysis = AISpecMergeSchema.parse(analysis);
+    const incomingSpec = original_spec ?? spec;
+    if (!incomingSpec) {
+      return {
+        success: false,
+        error: 'Incoming specification is required to save the merged spec',
+        project_root: rootDir
+      };
+    }
+
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const latest = await getLatestRevision(storage, feature_name);
+
+    // Saving a merge of an older revision would drop what was added since
+    if (base_revision !== undefined && latest.revision !== base_revision) {
+      return {
+        success: false,
+        error: `Feature '${feature_name}' changed since the merge was prepared: the analysis merged revision ${base_revision}, the latest is revision ${latest.revision}`,
+        project_root: rootDir,
+        next_steps: ['Prepare the merge again so the analysis sees the latest revision']
+      };
+    }
+
+    const { existingSource, incomingSource } = revisionSources(latest);
+    const recorded = readProvenance(latest.spec);
+
+    const requirements = validatedAnalysis.requirements.map(requirement => {
+      const existingSources = recorded.get(normalizeRequirement(requirement.text)) ?? [existingSource];
+      const sources = requirement.source === 'incoming'
+        ? [incomingSource]
+        : requirement.source === 'existing' ? existingSources : [...existingSources, incomingSource];
+      return { text: requirement.text, sources: [...new Set(sources)] };
+    });
+    const mergedSpec = renderMergedSpec(latest.spec, incomingSpec, requirements);
+    const revision = dry_run ? null : await storage.updateFeatureSpec(feature_name, mergedSpec);
+
+    return {
+      success: true,
+      feature_name,
+      method: 'ai',
+      base_revision: latest.revision,
+      revision,
+      spec: mergedSpec,
+      requirements,
+      duplicates: validatedAnalysis.duplicates,
+      conflicts: validatedAnalysis.conflicts,
+      summary: validatedAnalysis.summary,
+      next_steps: [
+        ...(revision === null
+          ? ['Nothing was saved: run again without dry_run to save the merged spec']
+          : [`Run speclinter_diff_spec to see which tasks revision ${revision} affects`]),
+        ...(validatedAnalysis.conflicts.length > 0 ? [`Confirm how ${validatedAnalysis.conflicts.length} conflicting requirement(s) were resolved`] : [])
+      ]
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'AI analysis response does not match expected schema',
+        validation_errors: error.message,
+        project_root: rootDir
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      project_root: rootDir
+    };
+  } finally {
+    storage?.close();
+  }
+}
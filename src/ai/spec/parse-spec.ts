@@ -1,6 +1,7 @@
 import { AISpecAnalysisSchema, AIPromptTemplates } from '../../types/ai-schemas.js';
 import { resolveProjectRoot } from '../../tools.js';
 import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
 import { buildParseResultFromSpecAnalysis } from '../shared/task-mappers.js';
 import { loadProjectContextSnapshot } from '../shared/project-context.js';
 import type { AIContinuationRequest, SpecAnalysis } from '../contracts.js';
@@ -84,6 +85,7 @@ export async function handleProcessSpecAnalysisAI(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const validatedAnalysis: SpecAnalysis = AISpecAnalysisSchema.parse(analysis);
     const sourceSpec = original_spec ?? spec;
@@ -94,13 +96,13 @@ export async function handleProcessSpecAnalysisAI(args: any) {
         project_root: rootDir
       };
     }
-    const { tasks, parseResult } = buildParseResultFromSpecAnalysis(
+    const { tasks, parseResult, warnings } = buildParseResultFromSpecAnalysis(
       sourceSpec,
       feature_name,
       validatedAnalysis
     );
 
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const saveResult = await storage.saveFeatureFromAI(
       feature_name,
       tasks,
@@ -109,18 +111,43 @@ export async function handleProcessSpecAnalysisAI(args: any) {
       {
         onSimilarFound: deduplication_strategy,
         similarityThreshold: similarity_threshold,
-        skipSimilarityCheck: skip_similarity_check
+        skipSimilarityCheck: skip_similarity_check,
+        source: 'parse'
       }
     );
 
+    // Re-parsing an existing feature keeps matched task IDs and statuses, so report what was saved
+    const reconciliation = saveResult.reconciliation;
+    const orphanedIds = new Set(reconciliation?.orphaned.map(task => task.taskId));
+    const savedTasks = reconciliation
+      ? (await storage.getFeatureTasks(feature_name)).filter(task => !orphanedIds.has(task.id))
+      : tasks;
+
     return {
       success: true,
       feature_name,
       grade: validatedAnalysis.quality.grade,
       score: validatedAnalysis.quality.score,
-      tasks,
+      tasks: savedTasks,
       files_created: saveResult.files,
+      ...(warnings.length > 0 && { warnings }),
       merge_result: saveResult.mergeResult,
+      duplicate_info: saveResult.duplicateInfo,
+      similar_tasks: saveResult.similarTasks ?? saveResult.duplicateInfo?.similarTasks,
+      ...(reconciliation && {
+        task_reconciliation: {
+          matched: reconciliation.matched.map(task => ({
+            task_id: task.taskId,
+            generated_id: task.generatedId,
+            title: task.title,
+            previous_title: task.previousTitle,
+            status: task.status,
+            similarity: task.similarity
+          })),
+          added: reconciliation.added.map(task => ({ task_id: task.taskId, generated_id: task.generatedId, title: task.title })),
+          orphaned: reconciliation.orphaned.map(task => ({ task_id: task.taskId, title: task.title, status: task.status }))
+        }
+      }),
       ai_insights: {
         technicalConsiderations: validatedAnalysis.technicalConsiderations,
         businessValue: validatedAnalysis.businessValue,
@@ -129,6 +156,9 @@ export async function handleProcessSpecAnalysisAI(args: any) {
         strengths: validatedAnalysis.quality.strengths
       },
       next_steps: [
+        ...(reconciliation && reconciliation.orphaned.length > 0
+          ? [`Review ${reconciliation.orphaned.length} orphaned task(s) no longer in the spec: ${reconciliation.orphaned.map(task => task.taskId).join(', ')}`]
+          : []),
         `Review generated tasks for ${feature_name}`,
         'Use speclinter_validate_implementation after code changes are complete',
         'Review AI-generated technical considerations',
@@ -150,5 +180,7 @@ export async function handleProcessSpecAnalysisAI(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
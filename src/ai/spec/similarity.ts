@@ -1,17 +1,75 @@
 import { AISimilarityAnalysisSchema, AIPromptTemplates } from '../../types/ai-schemas.js';
 import { resolveProjectRoot } from '../../tools.js';
 import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
 import { createErrorResponse } from '../../utils/validation.js';
 
+// Features sent to the AI for comparison, picked by local embedding similarity
+const AI_CANDIDATE_LIMIT = 10;
+
+/**
+ * Finds similar features and tasks with the locally stored embeddings, without an AI round-trip.
+ */
+export async function handleFindSimilarLocal(args: any) {
+  const { spec, threshold = 0.8, task_threshold, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const config = await storage.getConfig();
+    const taskThreshold = task_threshold ?? config.deduplication.taskSimilarityThreshold;
+
+    const similarFeatures = await storage.findSimilar(spec, threshold);
+    const similarTasks = await storage.findSimilarTasks(spec, taskThreshold, { matchSegments: true });
+
+    return {
+      success: true,
+      method: 'local_embeddings',
+      threshold,
+      task_threshold: taskThreshold,
+      similar_features: similarFeatures.map(feature => ({
+        feature_name: feature.featureName,
+        similarity: Number(feature.score.toFixed(3)),
+        summary: feature.summary,
+        task_count: feature.taskCount,
+        status: feature.status
+      })),
+      similar_tasks: similarTasks.map(task => ({
+        feature_name: task.featureName,
+        task_id: task.taskId,
+        title: task.title,
+        similarity: Number(task.score.toFixed(3))
+      })),
+      next_steps: similarFeatures.length > 0 || similarTasks.length > 0 ? [
+        'Review similar features and tasks before creating a new feature',
+        'Use deduplication_strategy "merge" with speclinter_parse_spec to extend an existing feature',
+        'Call speclinter_find_similar with mode "ai" for a semantic comparison with recommendations'
+      ] : [
+        'No similar features found - proceed with implementation'
+      ]
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      project_root: rootDir
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
 export async function handleFindSimilarAI(args: any) {
   const { spec, threshold = 0.8, project_root } = args;
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
-    const storage = await StorageManager.createInitializedStorage(rootDir);
-    const existingFeatures = await storage.getAllFeatures();
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const allFeatures = await storage.getAllFeatures();
 
-    if (existingFeatures.length === 0) {
+    if (allFeatures.length === 0) {
       return {
         success: true,
         similar_features: [],
@@ -19,6 +77,10 @@ export async function handleFindSimilarAI(args: any) {
       };
     }
 
+    // Only the closest features by local similarity go into the prompt, so it stays small as the project grows
+    const candidates = new Set((await storage.findSimilar(spec, 0)).slice(0, AI_CANDIDATE_LIMIT).map(feature => feature.featureName));
+    const existingFeatures = allFeatures.filter(feature => candidates.has(feature.name));
+
     const analysisPrompt = `${AIPromptTemplates.similarityAnalysis}
 
 **New Specification to Analyze:**
@@ -42,7 +104,8 @@ Please analyze semantic similarity between the new specification and existing fe
       follow_up_tool: 'process_similarity_analysis_ai',
       schema: 'AISimilarityAnalysisSchema',
       threshold,
-      existing_features_count: existingFeatures.length,
+      existing_features_count: allFeatures.length,
+      compared_features: existingFeatures.map(feature => feature.name),
       next_steps: [
         'AI will perform semantic similarity analysis',
         'Results will be processed and returned in SpecLinter format',
@@ -55,6 +118,8 @@ Please analyze semantic similarity between the new specification and existing fe
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
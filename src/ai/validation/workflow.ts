@@ -1,11 +1,13 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { StorageManager } from '../../core/storage-manager.js';
+import type { Storage } from '../../core/storage.js';
 import { AIFeatureValidationSchema } from '../../types/ai-schemas.js';
 import { resolveProjectRoot } from '../../tools.js';
 import { createErrorResponse } from '../../utils/validation.js';
 import { loadProjectContextSnapshot } from '../shared/project-context.js';
 import type { FeatureValidationAnalysis } from '../contracts.js';
+import type { TaskCoverage } from '../../types/index.js';
 
 export async function handleValidateImplementationPrepare(args: any) {
   const { feature_name, project_root } = args;
@@ -20,8 +22,9 @@ export async function handleValidateImplementationPrepare(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     const tasks = await storage.getFeatureTasks(feature_name);
 
     if (tasks.length === 0) {
@@ -36,6 +39,14 @@ export async function handleValidateImplementationPrepare(args: any) {
     const projectContext = await loadProjectContextSnapshot(rootDir);
     const featureFiles = await scanFeatureImplementation(rootDir, feature_name, tasks);
     const gherkinScenarios = await loadGherkinScenarios(rootDir, feature_name);
+    const testResults = await storage.getLatestTestResults(feature_name);
+    const testTotals = testResults.reduce(
+      (totals, result) => ({ passed: totals.passed + result.passed, failed: totals.failed + result.failed }),
+      { passed: 0, failed: 0 }
+    );
+    const passRate = testTotals.passed + testTotals.failed > 0
+      ? Math.round((testTotals.passed / (testTotals.passed + testTotals.failed)) * 100)
+      : null;
 
     const validationPrompt = `# AI Implementation Validation Analysis
 
@@ -74,6 +85,18 @@ ${scenario.content}
 \`\`\`
 `).join('\n') : 'No Gherkin scenarios found'}
 
+## Latest Test Results
+${testResults.length > 0 ? `**Overall Pass Rate**: ${passRate ?? 'n/a'}${passRate !== null ? '%' : ''} (${testTotals.passed} passed, ${testTotals.failed} failed)
+${testResults.map((result) => {
+  const executed = result.passed + result.failed;
+  const failures = result.details.filter((detail) => detail.status === 'failed').slice(0, 5);
+  return `
+**${result.taskId ?? 'Feature-level run'}**: ${executed > 0 ? Math.round((result.passed / executed) * 100) : 0}% pass rate (${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped) - recorded ${result.runAt}${failures.map((detail) => `
+- ❌ ${detail.scenario}${detail.error ? `: ${detail.error}` : ''}`).join('')}`;
+}).join('\n')}
+
+Treat these outcomes as evidence: failing tests contradict a "completed" assessment for their task.` : 'No test results recorded. Use speclinter_run_scenarios or speclinter_ingest_test_results to record them.'}
+
 ## Implementation Files Found
 ${featureFiles.length > 0 ? featureFiles.map((file) => `
 **File**: ${file.path}
@@ -125,6 +148,7 @@ Return a detailed JSON response matching the AIFeatureValidationSchema.`;
         tasks: tasks.length,
         files_found: featureFiles.length,
         gherkin_scenarios: gherkinScenarios.length,
+        test_pass_rate: passRate,
         current_status: featureStatus.overallStatus
       },
       next_steps: [
@@ -140,6 +164,8 @@ Return a detailed JSON response matching the AIFeatureValidationSchema.`;
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -162,12 +188,19 @@ export async function handleValidateImplementationProcess(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
 
+  let storage: Storage | undefined;
   try {
     const validatedAnalysis: FeatureValidationAnalysis = AIFeatureValidationSchema.parse(analysis);
 
-    const storage = await StorageManager.createInitializedStorage(rootDir);
+    storage = await StorageManager.createInitializedStorage(rootDir);
     await storage.updateValidationResults(feature_name, validatedAnalysis);
 
+    const statusesBefore = new Map(
+      (await storage.getFeatureTasks(feature_name)).map((task) => [task.id, task.status])
+    );
+
+    const unmatchedCriteria: Array<{ task_id: string; criteria: string }> = [];
+
     for (const taskValidation of validatedAnalysis.taskValidations) {
       const currentTask = await storage.getTask(feature_name, taskValidation.taskId);
 
@@ -175,6 +208,16 @@ export async function handleValidateImplementationProcess(args: any) {
         continue;
       }
 
+      const criteriaUpdate = await storage.updateCriteriaValidation(
+        feature_name,
+        taskValidation.taskId,
+        taskValidation.acceptanceCriteriaValidation,
+        taskValidation.implementationFiles
+      );
+      unmatchedCriteria.push(
+        ...criteriaUpdate.unmatched.map((criteria) => ({ task_id: taskValidation.taskId, criteria }))
+      );
+
       if (
         taskValidation.implementationStatus === 'fully_implemented' &&
         taskValidation.qualityScore >= 80 &&
@@ -184,7 +227,8 @@ export async function handleValidateImplementationProcess(args: any) {
           feature_name,
           taskValidation.taskId,
           'completed',
-          `Auto-updated based on AI validation (Quality Score: ${taskValidation.qualityScore})`
+          `Auto-updated based on AI validation (Quality Score: ${taskValidation.qualityScore})`,
+          'ai_validation'
         );
       } else if (
         taskValidation.implementationStatus === 'not_implemented' &&
@@ -194,12 +238,37 @@ export async function handleValidateImplementationProcess(args: any) {
           feature_name,
           taskValidation.taskId,
           'in_progress',
-          'Reverted based on AI validation - implementation not found'
+          'Reverted based on AI validation - implementation not found',
+          'ai_validation'
         );
       }
     }
 
-    const summary = generateValidationSummary(validatedAnalysis);
+    // Status updates cascade to dependent tasks, so diff the whole feature
+    const statusChanges = (await storage.getFeatureTasks(feature_name))
+      .filter((task) => statusesBefore.get(task.id) !== task.status)
+      .map((task) => ({
+        task_id: task.id,
+        title: task.title,
+        previous_status: statusesBefore.get(task.id),
+        status: task.status,
+        blocked_by: task.blockedBy ?? []
+      }));
+
+    // Re-render task files so checkboxes reflect the validated criteria, keeping unsynced file edits
+    const taskFileSync = await storage.syncTaskFiles(feature_name);
+    if (statusChanges.length > 0) {
+      await storage.updateActiveFile(feature_name);
+    }
+
+    // Validation may have changed each task's implementation files, so remap the last coverage report
+    await storage.refreshTaskCoverage(feature_name);
+
+    const storedTasks = await storage.getFeatureTasks(feature_name);
+    const criteriaByTask = new Map(storedTasks.map((task) => [task.id, task.criteria ?? []]));
+    const coverageByTask = new Map(storedTasks.map((task) => [task.id, task.coverage]));
+
+    const summary = generateValidationSummary(validatedAnalysis, coverageByTask);
 
     return {
       success: true,
@@ -228,8 +297,18 @@ export async function handleValidateImplementationProcess(args: any) {
         quality_score: task.qualityScore,
         files: task.implementationFiles,
         issues: task.codeQualityIssues.length,
-        recommendations: task.recommendations.length
+        recommendations: task.recommendations.length,
+        criteria: (criteriaByTask.get(task.taskId) ?? []).map((criterion) => ({
+          id: criterion.id,
+          text: criterion.text,
+          status: criterion.status,
+          evidence_files: criterion.evidenceFiles
+        })),
+        coverage: formatTaskCoverage(coverageByTask.get(task.taskId))
       })),
+      status_changes: statusChanges,
+      unmatched_criteria: unmatchedCriteria,
+      task_file_conflicts: taskFileSync.conflicts.filter((conflict) => conflict.resolution === 'unresolved').length,
       architectural_assessment: validatedAnalysis.architecturalAlignment,
       test_coverage: validatedAnalysis.testCoverage,
       security_assessment: validatedAnalysis.securityConsiderations,
@@ -262,6 +341,8 @@ export async function handleValidateImplementationProcess(args: any) {
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       project_root: rootDir
     };
+  } finally {
+    storage?.close();
   }
 }
 
@@ -480,8 +561,24 @@ async function directoryExists(dirPath: string): Promise<boolean> {
   }
 }
 
-function generateValidationSummary(validation: FeatureValidationAnalysis): any {
+function formatTaskCoverage(coverage: TaskCoverage | undefined) {
+  if (!coverage) return null;
+
+  return {
+    percentage: coverage.percentage,
+    target: coverage.target,
+    status: coverage.met === null ? 'no_target' : coverage.met ? 'met' : 'unmet',
+    files: coverage.files.map((file) => ({ file: file.file, percentage: file.percentage }))
+  };
+}
+
+function generateValidationSummary(
+  validation: FeatureValidationAnalysis,
+  coverageByTask: Map<string, TaskCoverage | undefined> = new Map()
+): any {
   const coverage = validation.testCoverage.coverage ?? 0;
+  const measured = [...coverageByTask.entries()].filter((entry): entry is [string, TaskCoverage] => entry[1] !== undefined);
+  const belowTarget = measured.filter(([, taskCoverage]) => taskCoverage.met === false).map(([taskId]) => taskId);
   const totalTasks = validation.taskValidations.length;
   const implementedTasks = validation.taskValidations.filter((task) =>
     task.implementationStatus === 'fully_implemented'
@@ -508,6 +605,10 @@ function generateValidationSummary(validation: FeatureValidationAnalysis): any {
     immediateActions.push('Improve test coverage (currently below 70%)');
   }
 
+  if (belowTarget.length > 0) {
+    immediateActions.push(`Raise test coverage to the target for ${belowTarget.length} task(s): ${belowTarget.join(', ')}`);
+  }
+
   if (partiallyImplementedTasks > 0) {
     immediateActions.push(`Complete ${partiallyImplementedTasks} partially implemented tasks`);
   }
@@ -528,6 +629,9 @@ function generateValidationSummary(validation: FeatureValidationAnalysis): any {
       : coverage >= 60
         ? 'Fair'
         : 'Poor',
+    coverage_targets: measured.length > 0
+      ? `${measured.filter(([, taskCoverage]) => taskCoverage.met === true).length}/${measured.length} measured tasks meet their coverage target`
+      : 'No coverage report ingested for this feature\'s implementation files',
     immediate_actions: immediateActions.length > 0 ? immediateActions : ['Continue with planned development'],
     overall_recommendation: validation.completionPercentage >= 90
       ? 'Feature is ready for production'
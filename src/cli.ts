@@ -1,10 +1,20 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
+import path from 'path';
+import { promises as fs } from 'fs';
 import { Storage } from './core/storage.js';
+import { exportFeature } from './core/task-export.js';
+import { runFeatureScenarios } from './core/scenario-runner.js';
+import { ingestTestReport } from './core/test-report-import.js';
+import { ingestCoverageReport } from './core/coverage-import.js';
+import { diffFeatureSpec } from './core/spec-diff.js';
+import { mergeFeatureSpec } from './core/spec-merge.js';
+import { CoverageFormatSchema, ExportFormatSchema, TestReportFormatSchema } from './types/index.js';
 import { validateProjectContext } from './utils/validation.js';
 import { resolveProjectRoot } from './tools.js';
+import type { RunningHttpServer } from './http-server.js';
 
 const program = new Command();
 
@@ -15,10 +25,43 @@ program
 
 program
   .command('serve')
-  .description('Start the MCP server')
-  .action(async () => {
-    const { startServer } = await import('./server.js');
-    await startServer();
+  .description('Start the MCP server (stdio by default)')
+  .option('--http', 'Serve streamable HTTP at /mcp instead of stdio, shared by several clients')
+  .option('--port <port>', 'HTTP port', parsePort, 3000)
+  .option('--host <host>', 'HTTP host to bind', '127.0.0.1')
+  .option('--token <token>', 'Bearer token required from HTTP clients (default: $SPECLINTER_HTTP_TOKEN); required unless the host is a loopback address')
+  .option('--allowed-host <hosts...>', 'Extra Host header values (name:port) HTTP clients may use besides the loopback names and the bound host')
+  .option('--session-timeout <minutes>', 'Close HTTP sessions idle for this many minutes', parsePositiveNumber, 30)
+  .action(async options => {
+    if (!options.http) {
+      const { startServer } = await import('./server.js');
+      await startServer();
+      return;
+    }
+
+    const { startHttpServer } = await import('./http-server.js');
+    const token = options.token ?? process.env.SPECLINTER_HTTP_TOKEN;
+    let running: RunningHttpServer;
+    try {
+      running = await startHttpServer({
+        port: options.port,
+        host: options.host,
+        token,
+        allowedHosts: options.allowedHost,
+        sessionIdleTimeoutMs: options.sessionTimeout * 60 * 1000
+      });
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+    console.error(`SpecLinter MCP server running on ${running.url}${token ? ' (bearer token required)' : ''}`);
+
+    const shutdown = async () => {
+      await running.close();
+      process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
   });
 
 program
@@ -42,6 +85,128 @@ program
     await showFeatureStatus(feature);
   });
 
+program
+  .command('history <feature>')
+  .description('Show the status change timeline of a feature\'s tasks')
+  .option('-t, --task <taskId>', 'Only show the history of one task')
+  .action(async (feature, options) => {
+    await showTaskHistory(feature, options.task);
+  });
+
+program
+  .command('sync [feature]')
+  .description('Sync edited task markdown files with the database')
+  .option('--prefer <side>', 'Resolve conflicts by keeping the "file" or "database" value')
+  .action(async (feature, options) => {
+    await syncTasks(feature, options.prefer);
+  });
+
+program
+  .command('export <feature>')
+  .description('Export a feature\'s tasks to an issue tracker import format')
+  .requiredOption('-f, --format <format>', 'github, gitlab, jira-csv or json')
+  .option('-o, --output <file>', 'Write the export to a file instead of stdout')
+  .action(async (feature, options) => {
+    await exportFeatureTasks(feature, options.format, options.output);
+  });
+
+program
+  .command('test <feature>')
+  .description('Run a feature\'s Gherkin scenarios against its step definitions')
+  .option('-t, --task <taskId>', 'Only run the scenarios of one task')
+  .option('-s, --steps <paths...>', 'Extra step definition files or directories')
+  .option('--tags <tags...>', 'Only run scenarios with one of these tags')
+  .action(async (feature, options) => {
+    await runFeatureScenarioTests(feature, options);
+  });
+
+program
+  .command('ingest-results <file>')
+  .description('Record the outcomes in a JUnit XML or Vitest/Jest JSON report against matching tasks')
+  .option('-f, --format <format>', 'junit or json (detected from the content by default)')
+  .option('--feature <feature>', 'Only map test cases onto this feature\'s tasks')
+  .action(async (file, options) => {
+    await ingestTestResults(file, options.format, options.feature);
+  });
+
+program
+  .command('ingest-coverage <file>')
+  .description('Check tasks against their coverage targets using an lcov.info or coverage-final.json report')
+  .option('-f, --format <format>', 'lcov or istanbul (detected from the content by default)')
+  .option('--feature <feature>', 'Only recompute coverage for this feature\'s tasks')
+  .action(async (file, options) => {
+    await ingestCoverage(file, options.format, options.feature);
+  });
+
+program
+  .command('diff <feature>')
+  .description('Show how a feature\'s spec changed between revisions and which tasks are affected')
+  .option('--from <revision>', 'Revision to compare from', value => parseInt(value, 10))
+  .option('--to <revision>', 'Revision to compare to (default: latest)', value => parseInt(value, 10))
+  .option('--spec-file <file>', 'Compare the latest revision with a new spec file instead')
+  .action(async (feature, options) => {
+    await diffSpec(feature, options);
+  });
+
+program
+  .command('merge <feature>')
+  .description('Merge a spec file into a feature\'s spec, dropping duplicate requirements')
+  .requiredOption('--spec-file <file>', 'Spec file to merge in')
+  .option('--threshold <value>', 'Similarity at which requirements count as duplicates', parseFloat)
+  .option('--dry-run', 'Print the merged spec without saving it')
+  .action(async (feature, options) => {
+    await mergeSpec(feature, options);
+  });
+
+program
+  .command('continuations')
+  .description('List the prepared AI analyses waiting for an answer, or abandon one')
+  .option('--abandon <id>', 'Discard the continuation with this ID')
+  .action(async (options) => {
+    await manageContinuations(options);
+  });
+
+program
+  .command('features')
+  .description('List all features with grade, task counts and status')
+  .action(async () => {
+    await listFeatures();
+  });
+
+program
+  .command('dashboard')
+  .description('Show all features sorted by risk and write speclinter-tasks/_overview.md')
+  .action(async () => {
+    await showDashboard();
+  });
+
+program
+  .command('rename <feature> <newName>')
+  .description('Rename a feature and its task folder')
+  .action(async (feature, newName) => {
+    await renameFeature(feature, newName);
+  });
+
+program
+  .command('rm <feature>')
+  .description('Delete a feature, its tasks, results and task folder')
+  .option('-y, --yes', 'Skip the confirmation check')
+  .action(async (feature, options) => {
+    await deleteFeature(feature, options.yes === true);
+  });
+
+const db = program
+  .command('db')
+  .description('Manage the SpecLinter database');
+
+db
+  .command('migrate')
+  .description('Apply pending schema migrations to .speclinter/speclinter.db')
+  .option('--dry-run', 'List pending migrations without applying them')
+  .action(async (options) => {
+    await migrateDatabase(options.dryRun === true);
+  });
+
 async function initializeSpecLinter(): Promise<void> {
   const spinner = ora('Initializing SpecLinter...').start();
 
@@ -74,7 +239,23 @@ async function initializeSpecLinter(): Promise<void> {
   }
 }
 
-async function createCliStorage(): Promise<Storage> {
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new InvalidArgumentError('Expected a port number from 1 to 65535.');
+  }
+  return port;
+}
+
+function parsePositiveNumber(value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new InvalidArgumentError('Expected a positive number.');
+  }
+  return number;
+}
+
+async function createCliStorage(options: { migrate?: boolean } = {}): Promise<Storage> {
   const projectRoot = await resolveProjectRoot(process.cwd());
   const validation = await validateProjectContext(projectRoot);
 
@@ -83,7 +264,7 @@ async function createCliStorage(): Promise<Storage> {
   }
 
   const storage = new Storage(validation.rootDir);
-  await storage.initialize();
+  await storage.initialize(options);
   return storage;
 }
 
@@ -159,4 +340,453 @@ async function showFeatureStatus(feature: string): Promise<void> {
   }
 }
 
+async function showTaskHistory(feature: string, taskId?: string): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const history = await storage.getTaskHistory(feature, taskId);
+
+    if (history.length === 0) {
+      console.log(chalk.yellow(`\nNo status history recorded for ${taskId ? `${feature}/${taskId}` : feature}`));
+      return;
+    }
+
+    const sourceLabels = {
+      manual: chalk.blue('manual'),
+      ai_validation: chalk.magenta('ai validation'),
+      parse: chalk.gray('parse'),
+      merge: chalk.gray('merge'),
+      import: chalk.gray('import'),
+      markdown_sync: chalk.cyan('markdown sync')
+    };
+
+    console.log(chalk.green(`\n🕒 Task history for ${feature}:`));
+    for (const entry of history) {
+      const transition = entry.oldStatus
+        ? `${entry.oldStatus} → ${entry.newStatus}`
+        : entry.newStatus;
+      console.log(`  ${chalk.gray(entry.changedAt)}  ${chalk.bold(entry.taskId)}  ${transition}  [${sourceLabels[entry.source]}]`);
+      if (entry.notes) {
+        console.log(chalk.gray(`      ${entry.notes.replace(/\n/g, '\n      ')}`));
+      }
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function syncTasks(feature?: string, prefer?: string): Promise<void> {
+  try {
+    if (prefer !== undefined && prefer !== 'file' && prefer !== 'database') {
+      throw new Error(`--prefer must be "file" or "database", got "${prefer}"`);
+    }
+
+    const storage = await createCliStorage();
+    const featureNames = feature ? [feature] : await storage.getFeatureNames();
+    let unresolved = 0;
+
+    for (const name of featureNames) {
+      const result = await storage.syncTaskFiles(name, { prefer });
+
+      console.log(chalk.green(`\n🔄 ${name}`));
+      for (const update of result.updatedFromFiles) {
+        console.log(chalk.blue(`  ⬆️  ${update.taskId}: ${update.fields.join(', ')} from file`));
+      }
+      for (const file of result.rerenderedFiles) {
+        console.log(chalk.gray(`  ⬇️  ${path.relative(process.cwd(), file)} re-rendered`));
+      }
+      for (const conflict of result.conflicts) {
+        const label = conflict.resolution === 'unresolved'
+          ? chalk.red('conflict')
+          : chalk.yellow(`kept ${conflict.resolution}`);
+        console.log(`  ⚠️  ${conflict.taskId}.${conflict.field} [${label}] file: ${JSON.stringify(conflict.fileValue)} / database: ${JSON.stringify(conflict.databaseValue)}`);
+        if (conflict.resolution === 'unresolved') unresolved++;
+      }
+      for (const error of result.errors) {
+        console.log(chalk.red(`  ❌ ${path.relative(process.cwd(), error.file)}: ${error.message}`));
+      }
+      if (result.updatedFromFiles.length + result.rerenderedFiles.length + result.conflicts.length + result.errors.length === 0) {
+        console.log(chalk.gray('  Up to date'));
+      }
+    }
+
+    if (unresolved > 0) {
+      console.log(chalk.yellow(`\n${unresolved} conflict(s) left untouched. Re-run with --prefer file or --prefer database.`));
+      process.exitCode = 1;
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function exportFeatureTasks(feature: string, format: string, output?: string): Promise<void> {
+  try {
+    const parsedFormat = ExportFormatSchema.safeParse(format);
+    if (!parsedFormat.success) {
+      throw new Error(`Unknown export format "${format}". Use one of: ${ExportFormatSchema.options.join(', ')}`);
+    }
+
+    const storage = await createCliStorage();
+    const content = exportFeature(await storage.getFeatureExport(feature), parsedFormat.data);
+
+    if (output) {
+      await fs.mkdir(path.dirname(path.resolve(output)), { recursive: true });
+      await fs.writeFile(output, content);
+      console.error(chalk.green(`📦 Exported ${feature} as ${parsedFormat.data} to ${output}`));
+    } else {
+      process.stdout.write(content);
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function runFeatureScenarioTests(feature: string, options: { task?: string; steps?: string[]; tags?: string[] }): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const run = await runFeatureScenarios(storage, process.cwd(), feature, {
+      taskId: options.task,
+      stepDefinitions: options.steps,
+      tags: options.tags
+    });
+
+    const statusLabels = {
+      passed: chalk.green('✅ passed'),
+      failed: chalk.red('❌ failed'),
+      skipped: chalk.yellow('⏭️  skipped'),
+      undefined: chalk.yellow('❔ undefined')
+    };
+
+    if (run.stepDefinitionFiles.length === 0) {
+      console.log(chalk.yellow(`\nNo step definitions found. Add modules to speclinter-tasks/${feature}/steps or .speclinter/steps, or pass --steps.`));
+    }
+
+    for (const { file, error } of run.stepDefinitionErrors) {
+      console.log(chalk.yellow(`\n⚠️  Could not load ${path.relative(process.cwd(), file)}: ${error}`));
+    }
+
+    for (const task of run.tasks) {
+      console.log(chalk.green(`\n🧪 ${task.taskId} (${task.testFile})`));
+      for (const scenario of task.scenarios) {
+        console.log(`  ${statusLabels[scenario.status]}  ${scenario.scenario}`);
+        if (scenario.error && scenario.status === 'failed') {
+          console.log(chalk.gray(`      ${scenario.error}`));
+        }
+      }
+    }
+
+    if (run.undefinedSteps.length > 0) {
+      console.log(chalk.yellow('\nUndefined steps:'));
+      for (const step of run.undefinedSteps) {
+        console.log(chalk.gray(`  ${step.keyword} ${step.text}  (${step.file}:${step.line})`));
+      }
+    }
+
+    console.log(`\n${chalk.green(`${run.passed} passed`)}, ${chalk.red(`${run.failed} failed`)}, ${chalk.yellow(`${run.skipped} skipped`)}`);
+    if (run.failed > 0) {
+      process.exitCode = 1;
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function ingestTestResults(file: string, format?: string, feature?: string): Promise<void> {
+  try {
+    const parsedFormat = TestReportFormatSchema.optional().safeParse(format);
+    if (!parsedFormat.success) {
+      throw new Error(`Unknown report format "${format}". Use one of: ${TestReportFormatSchema.options.join(', ')}`);
+    }
+
+    const storage = await createCliStorage();
+    const content = await fs.readFile(file, 'utf-8');
+    const ingested = await ingestTestReport(storage, content, { format: parsedFormat.data, featureName: feature });
+
+    console.log(chalk.green(`\n📥 Read ${ingested.caseCount} test case(s) from ${file} (${ingested.format})`));
+    for (const task of ingested.tasks) {
+      const { passed, failed, skipped } = task.result;
+      const label = failed > 0 ? chalk.red(`${failed} failed`) : chalk.green('all passing');
+      console.log(`  ${task.target.featureName}/${chalk.bold(task.target.taskId)}  ${passed} passed, ${failed} failed, ${skipped} skipped  [${label}]`);
+    }
+
+    if (ingested.unmatched.length > 0) {
+      console.log(chalk.yellow(`\n${ingested.unmatched.length} test case(s) did not match any task:`));
+      for (const testCase of ingested.unmatched.slice(0, 20)) {
+        console.log(chalk.gray(`  ${testCase.fullName}${testCase.file ? ` (${testCase.file})` : ''}`));
+      }
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function ingestCoverage(file: string, format?: string, feature?: string): Promise<void> {
+  try {
+    const parsedFormat = CoverageFormatSchema.optional().safeParse(format);
+    if (!parsedFormat.success) {
+      throw new Error(`Unknown coverage format "${format}". Use one of: ${CoverageFormatSchema.options.join(', ')}`);
+    }
+
+    const storage = await createCliStorage();
+    const projectRoot = await resolveProjectRoot(process.cwd());
+    const content = await fs.readFile(file, 'utf-8');
+    const ingested = await ingestCoverageReport(storage, projectRoot, content, { format: parsedFormat.data, featureName: feature });
+
+    console.log(chalk.green(`\n📊 Read coverage for ${ingested.fileCount} file(s) from ${file} (${ingested.format})`));
+    let measured = 0;
+    for (const { featureName, tasks } of ingested.features) {
+      for (const { taskId, coverage } of tasks) {
+        if (!coverage) continue;
+        measured++;
+        const label = coverage.met === null
+          ? chalk.gray('no numeric target')
+          : coverage.met ? chalk.green(`✅ met (target ${coverage.target}%)`) : chalk.red(`❌ unmet (target ${coverage.target}%)`);
+        console.log(`  ${featureName}/${chalk.bold(taskId)}  ${coverage.percentage}%  ${label}`);
+      }
+    }
+
+    if (measured === 0) {
+      console.log(chalk.yellow('\nNo task could be measured. Coverage is mapped onto the implementation files recorded by AI validation; validate the feature first.'));
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function diffSpec(feature: string, options: { from?: number; to?: number; specFile?: string }): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const spec = options.specFile ? await fs.readFile(options.specFile, 'utf-8') : undefined;
+    const diff = await diffFeatureSpec(storage, feature, { fromRevision: options.from, toRevision: options.to, spec });
+    const toLabel = diff.to.revision === null ? options.specFile : `revision ${diff.to.revision}`;
+
+    console.log(chalk.green(`\n📝 ${feature}: revision ${diff.from.revision} → ${toLabel} (${diff.revisions.length} revision(s) saved)`));
+    if (diff.textDiff === '') {
+      console.log(chalk.gray('\nThe specs are identical.'));
+      return;
+    }
+
+    console.log('');
+    for (const line of diff.textDiff.split('\n')) {
+      console.log(line.startsWith('+') ? chalk.green(line) : line.startsWith('-') ? chalk.red(line) : line.startsWith('@@') ? chalk.cyan(line) : line);
+    }
+
+    const { requirements, proposals } = diff;
+    console.log(chalk.bold(`\nRequirements: ${requirements.added.length} added, ${requirements.removed.length} removed, ${requirements.changed.length} changed, ${requirements.unchanged.length} unchanged`));
+    for (const task of proposals.obsolete) {
+      console.log(`  ${chalk.red('obsolete')} ${chalk.bold(task.taskId)} ${task.title} (${task.status}) - ${task.recommendation}`);
+    }
+    for (const task of proposals.changed) {
+      console.log(`  ${chalk.yellow('changed')}  ${chalk.bold(task.taskId)} ${task.title} (${task.status})`);
+      for (const change of task.changes) {
+        console.log(chalk.gray(`           ${change.from} → ${change.to ?? 'removed'}`));
+      }
+    }
+    for (const task of proposals.new) {
+      console.log(`  ${chalk.green('new')}      ${task.suggestedTitle}`);
+    }
+    console.log(chalk.gray('\nNo tasks were changed; statuses are kept.'));
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function mergeSpec(feature: string, options: { specFile: string; threshold?: number; dryRun?: boolean }): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const spec = await fs.readFile(options.specFile, 'utf-8');
+    const merge = await mergeFeatureSpec(storage, feature, spec, { threshold: options.threshold, dryRun: options.dryRun === true });
+
+    console.log(chalk.green(`\n🔀 ${feature}: merged ${options.specFile} into revision ${merge.baseRevision}`));
+    console.log(`  ${merge.added.length} requirement(s) added, ${merge.duplicates.length} duplicate(s) dropped`);
+    for (const duplicate of merge.duplicates) {
+      console.log(chalk.gray(`  = ${duplicate.dropped} (same as: ${duplicate.kept})`));
+    }
+    for (const conflict of merge.possibleConflicts) {
+      console.log(chalk.yellow(`  ? ${conflict.incoming} (may contradict: ${conflict.existing})`));
+    }
+
+    if (merge.revision === null) {
+      console.log(`\n${merge.spec}`);
+      console.log(chalk.gray('Dry run: nothing was saved.'));
+    } else {
+      console.log(chalk.gray(`\nSaved as revision ${merge.revision}. Run \`speclinter diff ${feature}\` to see which tasks it affects.`));
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function manageContinuations(options: { abandon?: string }): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+
+    if (options.abandon) {
+      if (!await storage.deleteAIContinuation(options.abandon)) {
+        throw new Error(`Continuation '${options.abandon}' not found`);
+      }
+      console.log(chalk.green(`\n🗑️  Abandoned continuation ${options.abandon}`));
+      return;
+    }
+
+    await storage.deleteExpiredAIContinuations();
+    const continuations = await storage.listAIContinuations();
+    if (continuations.length === 0) {
+      console.log(chalk.yellow('\nNo AI analyses are waiting for an answer.'));
+      return;
+    }
+
+    console.log(chalk.green(`\n⏳ Pending continuations (${continuations.length}):`));
+    for (const continuation of continuations) {
+      const feature = continuation.featureName ? ` ${chalk.bold(continuation.featureName)}` : '';
+      console.log(`  ${continuation.id}  ${continuation.tool}${feature}  ${chalk.gray(`expires ${continuation.expiresAt}`)}`);
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function listFeatures(): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const features = await storage.listFeatures();
+
+    if (features.length === 0) {
+      console.log(chalk.yellow('\nNo features found. Parse a spec with speclinter_parse_spec to create one.'));
+      return;
+    }
+
+    console.log(chalk.green(`\n📚 Features (${features.length}):`));
+    for (const feature of features) {
+      const { completedTasks, totalTasks, blockedTasks, overallStatus } = feature.status;
+      const blocked = blockedTasks > 0 ? chalk.red(` 🚫 ${blockedTasks} blocked`) : '';
+      console.log(
+        `  ${chalk.bold(feature.name)}  ${chalk.blue(`grade ${feature.grade} (${feature.score})`)}  ` +
+        `${completedTasks}/${totalTasks} tasks  ${chalk.gray(overallStatus)}${blocked}`
+      );
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function showDashboard(): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const overview = await storage.getProjectOverview();
+    const overviewFile = await storage.updateOverviewFile(overview);
+    const { totals } = overview;
+
+    console.log(chalk.green('\n📊 Project Dashboard'));
+    console.log(chalk.blue(`  📚 Features: ${totals.features}`));
+    console.log(chalk.blue(`  📝 Tasks: ${totals.completedTasks}/${totals.tasks} completed`));
+    console.log(chalk.yellow(`  🔄 In Progress: ${totals.inProgressTasks}`));
+    console.log(chalk.red(`  🚫 Blocked: ${totals.blockedTasks}`));
+
+    if (overview.features.length > 0) {
+      const riskColors = { high: chalk.red, medium: chalk.yellow, low: chalk.green };
+
+      console.log(chalk.green('\n⚠️  Features by risk:'));
+      for (const feature of overview.features) {
+        const validation = feature.validation
+          ? `quality ${feature.validation.qualityScore}/100, ${feature.validation.completionPercentage}% complete`
+          : 'not validated';
+        console.log(
+          `  ${riskColors[feature.riskLevel](`${feature.riskLevel.padEnd(6)} ${String(feature.riskScore).padStart(3)}`)}  ` +
+          `${chalk.bold(feature.name)}  grade ${feature.grade}  ` +
+          `${feature.status.completedTasks}/${feature.status.totalTasks} tasks  ${chalk.gray(validation)}`
+        );
+      }
+    }
+
+    console.log(chalk.gray(`\n📄 Overview written to ${overviewFile}`));
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function renameFeature(feature: string, newName: string): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    await storage.renameFeature(feature, newName);
+    console.log(chalk.green(`\n✅ Renamed ${feature} to ${newName}`));
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function deleteFeature(feature: string, confirmed: boolean): Promise<void> {
+  try {
+    const storage = await createCliStorage();
+    const status = await storage.getFeatureStatus(feature);
+
+    if (!confirmed) {
+      console.log(chalk.yellow(`\n⚠️  This deletes ${feature} with ${status.totalTasks} task(s), their history, validation and test results, and its task folder.`));
+      console.log(chalk.gray(`Re-run with --yes to delete: speclinter rm ${feature} --yes`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const result = await storage.deleteFeature(feature);
+    console.log(chalk.green(`\n🗑️  Deleted ${feature} (${result.tasksDeleted} task(s))`));
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
+async function migrateDatabase(dryRun: boolean): Promise<void> {
+  try {
+    const storage = await createCliStorage({ migrate: false });
+    const plan = storage.migrateDatabase({ dryRun });
+    storage.close();
+
+    console.log(chalk.blue(`🗄️  Schema version: ${plan.currentVersion} (latest ${plan.targetVersion})`));
+
+    if (plan.pending.length === 0) {
+      console.log(chalk.green('✅ Database schema is up to date'));
+      return;
+    }
+
+    console.log(chalk.yellow(dryRun ? '\n📋 Pending migrations:' : '\n🔧 Applied migrations:'));
+    for (const migration of plan.pending) {
+      console.log(`  ${String(migration.version).padStart(3, '0')} ${migration.name}`);
+    }
+
+    if (dryRun) {
+      console.log(chalk.gray('\nDry run: no changes were made. Run without --dry-run to apply.'));
+    } else {
+      console.log(chalk.green(`\n✅ Database migrated to version ${plan.targetVersion}`));
+    }
+
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    process.exitCode = 1;
+  }
+}
+
 program.parse();
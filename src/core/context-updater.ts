@@ -1,11 +1,14 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { AICodebaseAnalysis, AIContextFiles } from '../types/ai-schemas.js';
+import { emitStorageChange } from './storage-events.js';
 
 export class ContextUpdater {
+  private projectRoot: string;
   private speclinterDir: string;
 
   constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
     this.speclinterDir = path.join(projectRoot, '.speclinter');
   }
 
@@ -33,6 +36,10 @@ export class ContextUpdater {
     await fs.writeFile(architecturePath, contextFiles.architectureMd);
     updatedFiles.push(architecturePath);
 
+    for (const file of updatedFiles) {
+      emitStorageChange({ type: 'context', rootDir: this.projectRoot, file: path.basename(file) });
+    }
+
     return updatedFiles;
   }
 }
@@ -0,0 +1,198 @@
+import path from 'path';
+import type { Storage } from './storage.js';
+import type { CoverageFormat, TaskCoverage } from '../types/index.js';
+
+/**
+ * Line coverage of one source file, with the path relative to the project root.
+ */
+export interface FileCoverage {
+  file: string;
+  coveredLines: number;
+  totalLines: number;
+}
+
+/**
+ * Detects the format from the content when none is given: JSON is istanbul's
+ * coverage-final.json, anything else must be lcov.
+ */
+export function parseCoverageReport(
+  content: string,
+  rootDir: string,
+  format?: CoverageFormat
+): { format: CoverageFormat; files: FileCoverage[] } {
+  const detected = format ?? (content.trimStart().startsWith('{') ? 'istanbul' : 'lcov');
+  const files = detected === 'istanbul' ? parseIstanbulJson(content) : parseLcov(content);
+
+  return {
+    format: detected,
+    files: files.map(file => ({ ...file, file: normalizeCoveragePath(file.file, rootDir) }))
+  };
+}
+
+/**
+ * Stores a coverage report as the project's current coverage and recomputes
+ * task coverage for one feature, or every feature.
+ */
+export async function ingestCoverageReport(
+  storage: Storage,
+  rootDir: string,
+  content: string,
+  options: { format?: CoverageFormat; featureName?: string } = {}
+): Promise<{
+  format: CoverageFormat;
+  fileCount: number;
+  features: Array<{ featureName: string; tasks: Awaited<ReturnType<Storage['refreshTaskCoverage']>> }>;
+}> {
+  const { format, files } = parseCoverageReport(content, rootDir, options.format);
+  await storage.replaceCoverageFiles(files);
+
+  const featureNames = options.featureName ? [options.featureName] : await storage.getFeatureNames();
+  const features = [];
+  for (const featureName of featureNames) {
+    features.push({ featureName, tasks: await storage.refreshTaskCoverage(featureName) });
+  }
+
+  return { format, fileCount: files.length, features };
+}
+
+/**
+ * Reads SF/LF/LH records from lcov.info, counting DA lines when a record has
+ * no LF/LH summary.
+ */
+export function parseLcov(content: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: { file: string; found?: number; hit?: number; lines: Map<number, number> } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const key = separator >= 0 ? line.slice(0, separator) : line;
+    const value = separator >= 0 ? line.slice(separator + 1) : '';
+
+    if (key === 'SF') {
+      current = { file: value, lines: new Map() };
+    } else if (!current) {
+      continue;
+    } else if (key === 'DA') {
+      const [lineNumber, hits] = value.split(',').map(Number);
+      current.lines.set(lineNumber, Math.max(current.lines.get(lineNumber) ?? 0, hits || 0));
+    } else if (key === 'LF') {
+      current.found = Number(value);
+    } else if (key === 'LH') {
+      current.hit = Number(value);
+    } else if (key === 'end_of_record') {
+      files.push({
+        file: current.file,
+        totalLines: current.found ?? current.lines.size,
+        coveredLines: current.hit ?? [...current.lines.values()].filter(hits => hits > 0).length
+      });
+      current = null;
+    }
+  }
+
+  if (files.length === 0) {
+    throw new Error('Not an lcov report: no SF/end_of_record entries found');
+  }
+  return files;
+}
+
+/**
+ * Reads istanbul's coverage-final.json. A line counts as covered when any
+ * statement starting on it ran, matching how istanbul reports line coverage.
+ */
+export function parseIstanbulJson(content: string): FileCoverage[] {
+  let report: Record<string, any>;
+  try {
+    report = JSON.parse(content);
+  } catch {
+    throw new Error('Not an istanbul coverage report: content is not valid JSON');
+  }
+
+  const entries = Object.entries(report ?? {}).filter(([, data]) => data && typeof data === 'object' && data.statementMap && data.s);
+  if (entries.length === 0) {
+    throw new Error('Not an istanbul coverage report: no entries with statementMap found');
+  }
+
+  return entries.map(([key, data]) => {
+    const lines = new Map<number, boolean>();
+    for (const [id, location] of Object.entries<any>(data.statementMap)) {
+      const line = location?.start?.line;
+      if (typeof line !== 'number') continue;
+      lines.set(line, (lines.get(line) ?? false) || (data.s[id] ?? 0) > 0);
+    }
+
+    return {
+      file: typeof data.path === 'string' ? data.path : key,
+      totalLines: lines.size,
+      coveredLines: [...lines.values()].filter(Boolean).length
+    };
+  });
+}
+
+/**
+ * Reads a percentage out of a free-text coverage target such as "90%",
+ * "at least 85% line coverage" or "0.8". Returns null when there is no number.
+ */
+export function parseCoverageTarget(target: string): number | null {
+  const match = target.match(/(\d+(?:\.\d+)?)\s*(%)?/);
+  if (!match) return null;
+
+  const value = Number(match[1]);
+  const percentage = !match[2] && value <= 1 && match[1].includes('.') ? value * 100 : value;
+  return percentage >= 0 && percentage <= 100 ? percentage : null;
+}
+
+/**
+ * Combines the coverage of a task's implementation files and compares it to
+ * the task's target. Implementation file paths are matched to coverage paths
+ * exactly, or when one is a path suffix of the other. A suffix without a
+ * directory, such as a bare "index.ts", only counts when a single coverage
+ * path ends with it. Returns null when no implementation file appears in the
+ * report.
+ */
+export function computeTaskCoverage(
+  implementationFiles: string[],
+  coverage: FileCoverage[],
+  coverageTarget: string,
+  rootDir: string
+): Omit<TaskCoverage, 'measuredAt'> | null {
+  const matched = new Map<string, FileCoverage>();
+
+  for (const implementationFile of implementationFiles) {
+    const wanted = normalizeCoveragePath(implementationFile, rootDir);
+    const suffixMatches = coverage.filter(file => file.file.endsWith(`/${wanted}`) || wanted.endsWith(`/${file.file}`));
+    const hit = coverage.find(file => file.file === wanted)
+      ?? suffixMatches.find(file => (file.file.length < wanted.length ? file.file : wanted).includes('/'))
+      ?? (suffixMatches.length === 1 ? suffixMatches[0] : undefined);
+    if (hit) matched.set(hit.file, hit);
+  }
+
+  if (matched.size === 0) return null;
+
+  const files = [...matched.values()];
+  const coveredLines = files.reduce((sum, file) => sum + file.coveredLines, 0);
+  const totalLines = files.reduce((sum, file) => sum + file.totalLines, 0);
+  const percentage = totalLines > 0 ? round(coveredLines / totalLines * 100) : 100;
+  const target = parseCoverageTarget(coverageTarget);
+
+  return {
+    percentage,
+    target,
+    met: target === null ? null : percentage >= target,
+    coveredLines,
+    totalLines,
+    files: files.map(file => ({
+      ...file,
+      percentage: file.totalLines > 0 ? round(file.coveredLines / file.totalLines * 100) : 100
+    }))
+  };
+}
+
+export function normalizeCoveragePath(filePath: string, rootDir: string): string {
+  const relative = path.isAbsolute(filePath) ? path.relative(rootDir, filePath) : filePath;
+  return relative.split(path.sep).join('/').replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
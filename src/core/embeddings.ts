@@ -0,0 +1,119 @@
+/**
+ * Offline text embeddings for similarity search. Texts are hashed into a fixed
+ * number of buckets from word unigrams, word bigrams and character trigrams,
+ * so the same text always produces the same vector and no corpus statistics
+ * need to be kept up to date as features are added.
+ */
+
+export const EMBEDDING_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'i', 'if', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'this', 'to', 'was', 'we',
+  'when', 'will', 'with', 'want', 'should', 'must', 'user', 'users'
+]);
+
+const UNIGRAM_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.8;
+const TRIGRAM_WEIGHT = 0.3;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+export function embedText(text: string): Float32Array {
+  const tokens = tokenize(text);
+  const features = new Map<string, { weight: number; count: number }>();
+  const add = (feature: string, weight: number) => {
+    const entry = features.get(feature);
+    if (entry) {
+      entry.count++;
+    } else {
+      features.set(feature, { weight, count: 1 });
+    }
+  };
+
+  tokens.forEach((token, index) => {
+    add(`w:${token}`, UNIGRAM_WEIGHT);
+    if (index > 0) add(`b:${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  for (const [feature, { weight, count }] of features) {
+    const hash = fnv1a(feature);
+    // Sublinear term frequency keeps repeated words from dominating
+    const value = weight * (1 + Math.log(count));
+    vector[hash % EMBEDDING_DIMENSIONS] += (hash & 0x80000000) ? -value : value;
+  }
+
+  return normalize(vector);
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  // Vectors are unit length, so the dot product is the cosine; clamp rounding noise
+  return Math.max(0, Math.min(1, dot));
+}
+
+export function serializeEmbedding(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Returns null for missing blobs or blobs written with different dimensions,
+ * which callers treat as "needs re-embedding".
+ */
+export function deserializeEmbedding(blob: Buffer | null | undefined): Float32Array | null {
+  if (!blob || blob.byteLength !== EMBEDDING_DIMENSIONS * Float32Array.BYTES_PER_ELEMENT) {
+    return null;
+  }
+
+  const copy = new Uint8Array(blob);
+  return new Float32Array(copy.buffer);
+}
+
+/**
+ * Splits a spec into lines and sentences so each requirement can be matched
+ * against individual tasks.
+ */
+export function splitIntoSegments(text: string): string[] {
+  return text
+    .split(/\r?\n|(?<=[.!?])\s+/)
+    .map(segment => segment.replace(/^\s*(?:[-*#]+|\d+\.)\s*/, '').trim())
+    .filter(segment => tokenize(segment).length >= 2);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,5 +1,7 @@
 import { Task, TestResult } from '../types/index.js';
 import { StorageManager } from './storage-manager.js';
+import { runFeatureScenarios } from './scenario-runner.js';
+import { resolveProjectRoot } from '../tools.js';
 
 export class TaskGenerator {
   async createTasks(parseResult: any, featureName: string): Promise<Task[]> {
@@ -10,27 +12,35 @@ export class TaskGenerator {
     }));
   }
 
+  /**
+   * Runs a feature's Gherkin scenarios against its step definitions, records the
+   * results per task and returns them combined.
+   */
   async runFeatureTests(featureName: string, taskId?: string, projectRoot?: string): Promise<TestResult> {
-    void taskId;
-    void projectRoot;
+    const rootDir = await resolveProjectRoot(projectRoot);
+    const storage = await StorageManager.createInitializedStorage(rootDir);
+    try {
+      const run = await runFeatureScenarios(storage, rootDir, featureName, { taskId });
 
-    return {
-      passed: 0,
-      failed: 1,
-      skipped: 0,
-      coverage: 0,
-      details: [{
-        scenario: featureName,
-        status: 'failed',
-        error: 'runFeatureTests is deprecated. Generated Gherkin scenarios are not directly executable in this package. Use speclinter_validate_implementation for validation workflows.'
-      }]
-    };
+      return {
+        passed: run.passed,
+        failed: run.failed,
+        skipped: run.skipped,
+        coverage: 0,
+        details: run.tasks.flatMap(task => task.result.details)
+      };
+    } finally {
+      storage.close();
+    }
   }
 
-  async updateActiveFile(featureName: string): Promise<void> {
+  async updateActiveFile(featureName: string, projectRoot?: string): Promise<void> {
     // This is handled by Storage class
-    const { StorageManager } = await import('./storage-manager.js');
-    const storage = await StorageManager.createInitializedStorage();
-    await storage.updateActiveFile(featureName);
+    const storage = await StorageManager.createInitializedStorage(await resolveProjectRoot(projectRoot));
+    try {
+      await storage.updateActiveFile(featureName);
+    } finally {
+      storage.close();
+    }
   }
 }
@@ -0,0 +1,182 @@
+import type { Config } from '../types/config.js';
+import type { Task } from '../types/index.js';
+
+export type GherkinGenerationSettings = Pick<Config['generation'], 'gherkinStyle' | 'gherkinQuality'>;
+
+interface GeneratedScenario {
+  title: string;
+  tags: string[];
+  steps: string[];
+  examples?: { header: string[]; rows: string[][] };
+}
+
+const PERFORMANCE_BUDGET_SECONDS = 2;
+const CONCURRENT_USERS = 50;
+
+/**
+ * Builds a .feature file from a task without AI help: one scenario per
+ * acceptance criterion, then error handling and boundary (edge case),
+ * security and performance scenarios as enabled by gherkinQuality.
+ *
+ * The scenario count is kept within minScenarioCount..maxScenarioCount.
+ * When there are more criteria than slots, the last criterion scenario asserts
+ * the remaining criteria too, so every criterion stays covered; when there are
+ * too few, error handling and boundary scenarios are added even if edge cases
+ * are turned off.
+ */
+export function generateFallbackGherkin(task: Task, settings: GherkinGenerationSettings): string {
+  const quality = settings.gherkinQuality;
+  const imperative = settings.gherkinStyle === 'imperative';
+  const maxScenarios = Math.max(1, quality.maxScenarioCount);
+
+  const extras: GeneratedScenario[] = [];
+  if (quality.includeEdgeCases) {
+    extras.push(errorScenario(task, imperative), boundaryScenario(task, imperative));
+  } else if (quality.requireDataTables) {
+    extras.push(boundaryScenario(task, imperative));
+  }
+  if (quality.includeSecurityScenarios) extras.push(securityScenario(task, imperative));
+  if (quality.includePerformanceScenarios) extras.push(performanceScenario(task, imperative));
+
+  const criteria = task.acceptanceCriteria.map(cleanCriterion).filter(Boolean);
+  const criterionSlots = Math.max(1, maxScenarios - extras.length);
+  const scenarios = [...criterionScenarios(task, criteria.length > 0 ? criteria : [cleanCriterion(task.summary) || task.title], criterionSlots, imperative), ...extras]
+    .slice(0, maxScenarios);
+
+  const padding = [errorScenario(task, imperative), boundaryScenario(task, imperative)]
+    .filter(candidate => !scenarios.some(scenario => scenario.title === candidate.title));
+  while (scenarios.length < quality.minScenarioCount && padding.length > 0 && scenarios.length < maxScenarios) {
+    scenarios.push(padding.shift()!);
+  }
+
+  const lines = [`Feature: ${task.title}`];
+  if (task.summary) lines.push(`  ${task.summary}`);
+  lines.push('');
+
+  if (quality.requireBackground) {
+    lines.push('  Background:', ...backgroundSteps(task, imperative).map(step => `    ${step}`), '');
+  }
+
+  for (const scenario of uniqueTitles(scenarios)) {
+    if (scenario.tags.length > 0) lines.push(`  ${scenario.tags.join(' ')}`);
+    lines.push(`  ${scenario.examples ? 'Scenario Outline' : 'Scenario'}: ${scenario.title}`);
+    lines.push(...scenario.steps.map(step => `    ${step}`));
+    if (scenario.examples) {
+      lines.push('', '    Examples:', ...formatTable([scenario.examples.header, ...scenario.examples.rows]).map(row => `      ${row}`));
+    }
+    lines.push('');
+  }
+
+  lines.push('# Generated from the task\'s acceptance criteria without AI; refine the steps before automating them');
+  return `${lines.join('\n')}\n`;
+}
+
+function criterionScenarios(task: Task, criteria: string[], slots: number, imperative: boolean): GeneratedScenario[] {
+  const own = criteria.slice(0, slots - 1);
+  const rest = criteria.slice(slots - 1);
+
+  return [...own.map(criterion => [criterion]), rest].filter(group => group.length > 0).map(group => ({
+    title: group.length > 1 ? `${capitalize(group[0])} and ${group.length - 1} more criteria` : capitalize(group[0]),
+    tags: [],
+    steps: [
+      ...actionSteps(task, imperative),
+      ...group.map((criterion, index) => `${index === 0 ? 'Then' : 'And'} ${outcome(criterion, imperative)}`)
+    ]
+  }));
+}
+
+function errorScenario(task: Task, imperative: boolean): GeneratedScenario {
+  return {
+    title: `Invalid input is rejected for ${task.title}`,
+    tags: ['@error'],
+    steps: imperative
+      ? [`Given I am on the "${task.title}" page`, 'When I fill in the required fields with invalid values', 'And I press "Submit"', 'Then I should see a validation error for each invalid field', 'And nothing should be saved']
+      : [`Given the "${task.title}" feature is available`, `When the user completes "${task.title}" with invalid input`, 'Then the request is rejected with a validation error', 'And no data is changed']
+  };
+}
+
+function boundaryScenario(task: Task, imperative: boolean): GeneratedScenario {
+  return {
+    title: `Boundary values for ${task.title}`,
+    tags: ['@edge-case'],
+    steps: imperative
+      ? [`Given I am on the "${task.title}" page`, 'When I enter <input>', 'And I press "Submit"', 'Then I should see that the input is <result>']
+      : [`Given the "${task.title}" feature is available`, `When the user completes "${task.title}" with <input>`, 'Then the input is <result>'],
+    examples: {
+      header: ['input', 'result'],
+      rows: [
+        ['an empty value', 'rejected'],
+        ['the smallest allowed value', 'accepted'],
+        ['the largest allowed value', 'accepted'],
+        ['a value just over the limit', 'rejected']
+      ]
+    }
+  };
+}
+
+function securityScenario(task: Task, imperative: boolean): GeneratedScenario {
+  return {
+    title: `Unauthorized users cannot use ${task.title}`,
+    tags: ['@security'],
+    steps: imperative
+      ? ['Given I am not signed in', `When I open the "${task.title}" page`, 'Then I should be redirected to the sign in page', 'And nothing should be saved']
+      : ['Given the user is not authorized', `When the user attempts "${task.title}"`, 'Then the request is denied with an authorization error', 'And no data is changed']
+  };
+}
+
+function performanceScenario(task: Task, imperative: boolean): GeneratedScenario {
+  const steps = imperative
+    ? [`Given ${CONCURRENT_USERS} users are on the "${task.title}" page`, 'When they all press "Submit" at the same time']
+    : [`Given ${CONCURRENT_USERS} users are active`, `When they complete "${task.title}" at the same time`];
+
+  return {
+    title: `${task.title} responds within ${PERFORMANCE_BUDGET_SECONDS} seconds under load`,
+    tags: ['@performance'],
+    steps: [...steps, `Then each request completes within ${PERFORMANCE_BUDGET_SECONDS} seconds`, 'And no request fails']
+  };
+}
+
+function backgroundSteps(task: Task, imperative: boolean): string[] {
+  return imperative
+    ? ['Given the application is running', 'And I have opened the home page']
+    : ['Given the application is running', `And the "${task.title}" feature is enabled`];
+}
+
+function actionSteps(task: Task, imperative: boolean): string[] {
+  return imperative
+    ? [`Given I am on the "${task.title}" page`, 'When I fill in the required fields', 'And I press "Submit"']
+    : [`Given the "${task.title}" feature is available`, `When the user completes "${task.title}"`];
+}
+
+function outcome(criterion: string, imperative: boolean): string {
+  const text = lowerFirst(criterion);
+  return imperative ? `I should see that ${text}` : text;
+}
+
+function cleanCriterion(criterion: string): string {
+  return criterion.trim().replace(/^[-*]\s*(\[[ xX]\]\s*)?/, '').replace(/[.;:]+$/, '').replace(/\s+/g, ' ');
+}
+
+function uniqueTitles(scenarios: GeneratedScenario[]): GeneratedScenario[] {
+  const seen = new Map<string, number>();
+  return scenarios.map(scenario => {
+    const key = scenario.title.toLowerCase();
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return count > 1 ? { ...scenario, title: `${scenario.title} (${count})` } : scenario;
+  });
+}
+
+function formatTable(rows: string[][]): string[] {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Keeps acronyms such as "API returns..." intact
+function lowerFirst(text: string): string {
+  return /^[A-Z][A-Z]/.test(text) ? text : text.charAt(0).toLowerCase() + text.slice(1);
+}
@@ -0,0 +1,178 @@
+import { parseGherkin, type GherkinScenario } from './gherkin.js';
+import type { Config } from '../types/config.js';
+
+export type GherkinQualitySettings = Config['generation']['gherkinQuality'];
+
+export type GherkinLintRule =
+  | 'syntax'
+  | 'examples'
+  | 'duplicate_title'
+  | 'missing_then'
+  | 'vague_step'
+  | 'scenario_count'
+  | 'background'
+  | 'data_tables';
+
+export interface GherkinLintIssue {
+  rule: GherkinLintRule;
+  severity: 'error' | 'warning';
+  line: number;
+  message: string;
+}
+
+export interface GherkinLintReport {
+  /** 0-100: errors cost 15 points, warnings 5 */
+  score: number;
+  scenarioCount: number;
+  errors: number;
+  warnings: number;
+  issues: GherkinLintIssue[];
+}
+
+const ERROR_PENALTY = 15;
+const WARNING_PENALTY = 5;
+
+// Wording that says a step passes without saying what is observed
+const VAGUE_WORDING = /\b(works?|working|correctly|properly|as expected|appropriate(ly)?|gracefully|etc|some|various|relevant|something|somehow|handled)\b/i;
+
+/**
+ * Lints one .feature file: syntax and Examples problems from the parser,
+ * duplicate scenario titles, scenarios without a Then step and vague step
+ * wording, plus the scenario count, Background and data table expectations
+ * of the gherkinQuality settings.
+ */
+export function lintGherkin(content: string, settings: GherkinQualitySettings): GherkinLintReport {
+  const { feature, errors } = parseGherkin(content);
+  const issues: GherkinLintIssue[] = errors.map(error => ({
+    rule: /Examples/.test(error.message) ? 'examples' : 'syntax',
+    severity: 'error',
+    line: error.line,
+    message: error.message
+  }));
+
+  const scenarios = feature?.scenarios ?? [];
+  const seenTitles = new Map<string, number>();
+
+  for (const scenario of scenarios) {
+    const title = scenario.name.trim().replace(/\s+/g, ' ').toLowerCase();
+    const firstLine = seenTitles.get(title);
+    if (firstLine !== undefined) {
+      issues.push({
+        rule: 'duplicate_title',
+        severity: 'error',
+        line: scenario.line,
+        message: `Scenario title "${scenario.name}" is already used on line ${firstLine}`
+      });
+    } else {
+      seenTitles.set(title, scenario.line);
+    }
+
+    if (!scenario.steps.some(step => step.type === 'Then')) {
+      issues.push({
+        rule: 'missing_then',
+        severity: 'error',
+        line: scenario.line,
+        message: `Scenario "${scenario.name}" has no Then step, so nothing is asserted`
+      });
+    }
+
+    if (scenario.outline) {
+      issues.push(...lintExamples(scenario));
+    }
+  }
+
+  for (const step of [...(feature?.background?.steps ?? []), ...scenarios.flatMap(scenario => scenario.steps)]) {
+    const vague = step.text.match(VAGUE_WORDING);
+    if (vague) {
+      issues.push({
+        rule: 'vague_step',
+        severity: 'warning',
+        line: step.line,
+        message: `Step "${step.keyword} ${step.text}" uses vague wording ("${vague[0]}"); name the observable outcome instead`
+      });
+    }
+  }
+
+  if (feature) {
+    if (scenarios.length < settings.minScenarioCount) {
+      issues.push({
+        rule: 'scenario_count',
+        severity: 'warning',
+        line: feature.line,
+        message: `Feature has ${scenarios.length} scenario(s); at least ${settings.minScenarioCount} are expected`
+      });
+    } else if (scenarios.length > settings.maxScenarioCount) {
+      issues.push({
+        rule: 'scenario_count',
+        severity: 'warning',
+        line: feature.line,
+        message: `Feature has ${scenarios.length} scenarios; at most ${settings.maxScenarioCount} are expected`
+      });
+    }
+
+    if (settings.requireBackground && !feature.background) {
+      issues.push({ rule: 'background', severity: 'warning', line: feature.line, message: 'Feature has no Background for its shared setup' });
+    }
+
+    const hasData = scenarios.some(scenario => scenario.outline || scenario.steps.some(step => step.dataTable));
+    if (settings.requireDataTables && !hasData) {
+      issues.push({ rule: 'data_tables', severity: 'warning', line: feature.line, message: 'Feature has no data tables or Scenario Outline examples' });
+    }
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return {
+    score: Math.max(0, 100 - errorCount * ERROR_PENALTY - warningCount * WARNING_PENALTY),
+    scenarioCount: scenarios.length,
+    errors: errorCount,
+    warnings: warningCount,
+    issues
+  };
+}
+
+function lintExamples(scenario: GherkinScenario): GherkinLintIssue[] {
+  const issues: GherkinLintIssue[] = [];
+  const placeholders = new Set<string>();
+  for (const text of [scenario.name, ...scenario.steps.flatMap(step => [step.text, step.docString ?? '', ...(step.dataTable ?? []).flat()])]) {
+    for (const match of text.matchAll(/<([^<>]+)>/g)) {
+      placeholders.add(match[1]);
+    }
+  }
+
+  for (const examples of scenario.examples) {
+    // An empty Examples block is already reported by the parser
+    if (examples.header.length === 0) continue;
+
+    const columns = new Set(examples.header);
+    if (columns.size !== examples.header.length) {
+      issues.push({ rule: 'examples', severity: 'error', line: examples.line, message: `Examples of "${scenario.name}" repeat a column name` });
+    }
+
+    for (const placeholder of placeholders) {
+      if (!columns.has(placeholder)) {
+        issues.push({
+          rule: 'examples',
+          severity: 'error',
+          line: examples.line,
+          message: `Examples of "${scenario.name}" have no <${placeholder}> column`
+        });
+      }
+    }
+
+    for (const column of columns) {
+      if (!placeholders.has(column)) {
+        issues.push({
+          rule: 'examples',
+          severity: 'warning',
+          line: examples.line,
+          message: `Examples column "${column}" is not used by any step of "${scenario.name}"`
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,282 @@
+/**
+ * Parser for the subset of Gherkin that SpecLinter generates: tags, Feature,
+ * Background, Scenario / Scenario Outline with Examples, steps with data tables
+ * and doc strings, and # comments. Problems are collected rather than thrown so
+ * callers can report every error in a file at once.
+ */
+
+export type StepKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But' | '*';
+
+export interface GherkinStep {
+  keyword: StepKeyword;
+  /** Given, When or Then, with And/But/* resolved to the preceding step's type */
+  type: 'Given' | 'When' | 'Then';
+  text: string;
+  line: number;
+  dataTable?: string[][];
+  docString?: string;
+}
+
+export interface GherkinExamples {
+  name: string;
+  line: number;
+  tags: string[];
+  header: string[];
+  rows: string[][];
+}
+
+export interface GherkinScenario {
+  name: string;
+  line: number;
+  tags: string[];
+  outline: boolean;
+  steps: GherkinStep[];
+  examples: GherkinExamples[];
+}
+
+export interface GherkinFeature {
+  name: string;
+  description: string;
+  line: number;
+  tags: string[];
+  background?: { line: number; steps: GherkinStep[] };
+  scenarios: GherkinScenario[];
+}
+
+export interface GherkinParseError {
+  line: number;
+  message: string;
+}
+
+export interface GherkinDocument {
+  feature: GherkinFeature | null;
+  errors: GherkinParseError[];
+}
+
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+
+export function parseGherkin(content: string): GherkinDocument {
+  const lines = content.split(/\r?\n/);
+  const errors: GherkinParseError[] = [];
+  let feature: GherkinFeature | null = null;
+  let pendingTags: string[] = [];
+  let stepContainer: GherkinStep[] | null = null;
+  let currentScenario: GherkinScenario | null = null;
+  let currentExamples: GherkinExamples | null = null;
+  let lastStep: GherkinStep | null = null;
+  // Free text is allowed right after a Feature, Background, Scenario or Examples header
+  let inDescription = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    if (line.startsWith('"""') || line.startsWith('```')) {
+      const fence = line.slice(0, 3);
+      // Only the indentation of the opening fence is stripped from the content
+      const indentation = lines[index].length - lines[index].trimStart().length;
+      const body: string[] = [];
+      let closed = false;
+      for (index++; index < lines.length; index++) {
+        if (lines[index].trim() === fence) {
+          closed = true;
+          break;
+        }
+        const content = lines[index];
+        body.push(content.slice(Math.min(indentation, content.length - content.trimStart().length)));
+      }
+      if (!closed) {
+        errors.push({ line: lineNumber, message: 'Doc string is never closed' });
+      } else if (lastStep && !lastStep.dataTable && lastStep.docString === undefined) {
+        lastStep.docString = body.join('\n');
+      } else {
+        errors.push({ line: lineNumber, message: 'Doc string must directly follow a step' });
+      }
+      continue;
+    }
+
+    if (line.startsWith('|')) {
+      const cells = parseTableRow(line);
+      if (!cells) {
+        errors.push({ line: lineNumber, message: 'Table row must start and end with |' });
+      } else if (currentExamples) {
+        if (currentExamples.header.length === 0) {
+          currentExamples.header = cells;
+        } else if (cells.length !== currentExamples.header.length) {
+          errors.push({ line: lineNumber, message: `Examples row has ${cells.length} cells but the header has ${currentExamples.header.length}` });
+        } else {
+          currentExamples.rows.push(cells);
+        }
+      } else if (lastStep && lastStep.docString === undefined) {
+        lastStep.dataTable ??= [];
+        const width = lastStep.dataTable[0]?.length;
+        if (width !== undefined && cells.length !== width) {
+          errors.push({ line: lineNumber, message: `Data table row has ${cells.length} cells but the first row has ${width}` });
+        } else {
+          lastStep.dataTable.push(cells);
+        }
+      } else {
+        errors.push({ line: lineNumber, message: 'Table rows must follow a step or an Examples header' });
+      }
+      continue;
+    }
+
+    if (line.startsWith('@')) {
+      pendingTags.push(...line.split(/\s+/).filter(tag => tag.startsWith('@')));
+      continue;
+    }
+
+    const keyword = line.match(/^(Feature|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/);
+    if (keyword) {
+      const [, name, title] = keyword;
+      inDescription = true;
+      lastStep = null;
+
+      if (name === 'Feature') {
+        if (feature) {
+          errors.push({ line: lineNumber, message: 'Only one Feature is allowed per file' });
+        } else {
+          feature = { name: title, description: '', line: lineNumber, tags: pendingTags, scenarios: [] };
+        }
+      } else if (!feature) {
+        errors.push({ line: lineNumber, message: `${name} must be inside a Feature` });
+      } else if (name === 'Background') {
+        if (feature.background || feature.scenarios.length > 0) {
+          errors.push({ line: lineNumber, message: 'Background must come once, before the first Scenario' });
+        }
+        feature.background = { line: lineNumber, steps: [] };
+        stepContainer = feature.background.steps;
+        currentScenario = null;
+        currentExamples = null;
+      } else if (name === 'Examples' || name === 'Scenarios') {
+        if (!currentScenario?.outline) {
+          errors.push({ line: lineNumber, message: 'Examples are only allowed in a Scenario Outline' });
+          currentExamples = null;
+        } else {
+          currentExamples = { name: title, line: lineNumber, tags: pendingTags, header: [], rows: [] };
+          currentScenario.examples.push(currentExamples);
+        }
+        stepContainer = null;
+      } else {
+        currentScenario = {
+          name: title,
+          line: lineNumber,
+          tags: pendingTags,
+          outline: name === 'Scenario Outline' || name === 'Scenario Template',
+          steps: [],
+          examples: []
+        };
+        feature.scenarios.push(currentScenario);
+        stepContainer = currentScenario.steps;
+        currentExamples = null;
+      }
+
+      pendingTags = [];
+      continue;
+    }
+
+    const step = line.match(STEP_PATTERN);
+    if (step) {
+      inDescription = false;
+      if (!stepContainer) {
+        errors.push({ line: lineNumber, message: `Step "${line}" must be inside a Scenario or Background` });
+        continue;
+      }
+
+      const stepKeyword = step[1] as StepKeyword;
+      const previousType = stepContainer[stepContainer.length - 1]?.type;
+      if ((stepKeyword === 'And' || stepKeyword === 'But') && !previousType) {
+        errors.push({ line: lineNumber, message: `"${stepKeyword}" cannot be the first step` });
+      }
+
+      lastStep = {
+        keyword: stepKeyword,
+        type: stepKeyword === 'Given' || stepKeyword === 'When' || stepKeyword === 'Then'
+          ? stepKeyword
+          : previousType ?? 'Given',
+        text: step[2].trim(),
+        line: lineNumber
+      };
+      stepContainer.push(lastStep);
+      continue;
+    }
+
+    if (inDescription && feature) {
+      if (feature.scenarios.length === 0 && !feature.background) {
+        feature.description = feature.description ? `${feature.description}\n${line}` : line;
+      }
+      continue;
+    }
+
+    errors.push({ line: lineNumber, message: `Unexpected line: "${line}"` });
+  }
+
+  if (!feature) {
+    errors.push({ line: 1, message: 'No Feature found' });
+  }
+
+  for (const scenario of feature?.scenarios ?? []) {
+    if (scenario.outline && scenario.examples.every(examples => examples.rows.length === 0)) {
+      errors.push({ line: scenario.line, message: `Scenario Outline "${scenario.name}" has no Examples rows` });
+    }
+  }
+
+  return { feature, errors };
+}
+
+/**
+ * Turns a Scenario Outline into one concrete scenario per Examples row, with
+ * <placeholders> substituted in step text, data tables and doc strings.
+ * Plain scenarios are returned unchanged.
+ */
+export function expandScenario(scenario: GherkinScenario): GherkinScenario[] {
+  if (!scenario.outline) {
+    return [scenario];
+  }
+
+  return scenario.examples.flatMap(examples => examples.rows.map((row, rowIndex) => {
+    const values = Object.fromEntries(examples.header.map((column, columnIndex) => [column, row[columnIndex]]));
+    const substitute = (text: string) => text.replace(/<([^<>]+)>/g, (match, name) => values[name] ?? match);
+
+    return {
+      name: `${substitute(scenario.name)} (${examples.name || 'Examples'} #${rowIndex + 1})`,
+      line: scenario.line,
+      tags: [...scenario.tags, ...examples.tags],
+      outline: false,
+      examples: [],
+      steps: scenario.steps.map(step => ({
+        ...step,
+        text: substitute(step.text),
+        ...(step.dataTable && { dataTable: step.dataTable.map(cells => cells.map(substitute)) }),
+        ...(step.docString !== undefined && { docString: substitute(step.docString) })
+      }))
+    };
+  }));
+}
+
+function parseTableRow(line: string): string[] | null {
+  if (!line.startsWith('|') || !line.endsWith('|') || line.length < 2) {
+    return null;
+  }
+
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 1; i < line.length - 1; i++) {
+    const char = line[i];
+    if (char === '\\' && i + 1 < line.length - 1) {
+      const next = line[++i];
+      cell += next === 'n' ? '\n' : next;
+    } else if (char === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
@@ -0,0 +1,278 @@
+import { IssueImportFormat, Task, TaskStatus } from '../types/index.js';
+
+/**
+ * A tracker issue reduced to the fields SpecLinter maps onto tasks.
+ */
+export interface ImportedIssue {
+  key: string;
+  aliases: string[];
+  title: string;
+  body: string;
+  labels: string[];
+  status: TaskStatus;
+  group: string | null;
+  url: string | null;
+  blockedBy: string[];
+}
+
+export interface ImportedFeature {
+  featureName: string;
+  spec: string;
+  tasks: Task[];
+  issueKeys: string[];
+}
+
+export function parseIssues(content: string, format: IssueImportFormat): ImportedIssue[] {
+  return format === 'github' ? parseGitHubIssues(content) : parseJiraCsv(content);
+}
+
+/**
+ * Parses GitHub issues as returned by the REST API or `gh issue list --json`.
+ * Pull requests in the list are ignored.
+ */
+export function parseGitHubIssues(content: string): ImportedIssue[] {
+  const data = JSON.parse(content);
+  const issues: any[] = Array.isArray(data) ? data : data.issues;
+  if (!Array.isArray(issues)) {
+    throw new Error('GitHub issues JSON must be an array of issues or an object with an "issues" array');
+  }
+
+  return issues
+    .filter(issue => !issue.pull_request)
+    .map(issue => {
+      if (issue.number === undefined || !issue.title) {
+        throw new Error('Every GitHub issue needs a "number" and a "title"');
+      }
+
+      const labels: string[] = (issue.labels ?? []).map((label: any) => typeof label === 'string' ? label : label.name);
+      const body: string = issue.body ?? '';
+      const closed = String(issue.state ?? '').toLowerCase() === 'closed';
+      const blockedBy = [...body.matchAll(/\b(?:depends on|blocked by)\s+#(\d+)/gi)].map(match => `#${match[1]}`);
+
+      return {
+        key: `#${issue.number}`,
+        aliases: [],
+        title: issue.title,
+        body,
+        labels,
+        status: closed ? 'completed' : statusFromLabels(labels),
+        group: issue.milestone?.title ?? null,
+        url: issue.html_url ?? issue.url ?? null,
+        blockedBy
+      };
+    });
+}
+
+const JIRA_STATUS_MAP: Array<[RegExp, TaskStatus]> = [
+  [/^(done|closed|resolved|complete(d)?)$/i, 'completed'],
+  [/^(in progress|in review|review|in development)$/i, 'in_progress'],
+  [/^blocked$/i, 'blocked']
+];
+
+/**
+ * Parses a Jira CSV export. Repeated columns such as "Labels" and
+ * "Inward issue link (Blocks)" are collected into lists.
+ */
+export function parseJiraCsv(content: string): ImportedIssue[] {
+  // Jira exports start with a byte order mark, which would end up in the first column name
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (!header || !header.includes('Summary')) {
+    throw new Error('Jira CSV must have a header row with a "Summary" column');
+  }
+
+  const values = (row: string[], column: string) =>
+    header.flatMap((name, index) => name === column && row[index]?.trim() ? [row[index].trim()] : []);
+  const value = (row: string[], column: string) => values(row, column)[0] ?? '';
+
+  return rows
+    .filter(row => row.some(cell => cell.trim()))
+    .map((row, index) => {
+      const issueKey = value(row, 'Issue key');
+      const issueId = value(row, 'Issue id') || value(row, 'Issue Id');
+      const status = value(row, 'Status');
+
+      return {
+        key: issueKey || issueId || `row-${index + 1}`,
+        aliases: issueKey && issueId ? [issueId] : [],
+        title: value(row, 'Summary'),
+        body: value(row, 'Description'),
+        labels: values(row, 'Labels'),
+        status: JIRA_STATUS_MAP.find(([pattern]) => pattern.test(status))?.[1] ?? 'not_started',
+        group: value(row, 'Parent summary') || value(row, 'Custom field (Epic Link)') || value(row, 'Parent') || null,
+        url: null,
+        blockedBy: values(row, 'Inward issue link (Blocks)')
+      };
+    });
+}
+
+/**
+ * Groups issues into features (by milestone or epic unless a feature name is
+ * given) and maps each issue to a task. Dependencies on issues outside the
+ * feature are kept in the task notes.
+ */
+export function buildImportedFeatures(
+  issues: ImportedIssue[],
+  format: IssueImportFormat,
+  featureName?: string
+): ImportedFeature[] {
+  const groups = new Map<string, ImportedIssue[]>();
+
+  for (const issue of issues) {
+    const name = featureName ?? (issue.group ? slugify(issue.group) : 'imported-issues');
+    groups.set(name, [...(groups.get(name) ?? []), issue]);
+  }
+
+  return [...groups.entries()].map(([name, groupIssues]) => {
+    const idsByKey = new Map<string, string>();
+    for (const issue of groupIssues) {
+      const taskId = toTaskId(issue.key, format);
+      idsByKey.set(issue.key, taskId);
+      issue.aliases.forEach(alias => idsByKey.set(alias, taskId));
+    }
+
+    const tasks = groupIssues.map(issue => {
+      const dependencies = issue.blockedBy.filter(key => idsByKey.has(key)).map(key => idsByKey.get(key)!);
+      const external = issue.blockedBy.filter(key => !idsByKey.has(key));
+      const source = format === 'github' ? `GitHub issue ${issue.key}` : `Jira issue ${issue.key}`;
+      const notes = [
+        `Imported from ${source}${issue.url ? ` (${issue.url})` : ''}`,
+        issue.labels.length > 0 ? `Labels: ${issue.labels.join(', ')}` : '',
+        external.length > 0 ? `Depends on issues outside this feature: ${external.join(', ')}` : ''
+      ].filter(Boolean).join('\n');
+
+      const task: Task = {
+        id: idsByKey.get(issue.key)!,
+        title: issue.title,
+        summary: extractSummary(issue),
+        implementation: issue.body.trim() || issue.title,
+        status: issue.status,
+        statusEmoji: STATUS_EMOJI[issue.status],
+        featureName: name,
+        slug: slugify(issue.title).slice(0, 40).replace(/-+$/, ''),
+        dependencies,
+        acceptanceCriteria: extractAcceptanceCriteria(issue.body),
+        testFile: '',
+        coverageTarget: '90%',
+        notes
+      };
+      return task;
+    });
+
+    const spec = [
+      `# ${name}`,
+      ...groupIssues.map(issue => `## ${issue.title} (${issue.key})\n\n${issue.body.trim() || 'No description provided.'}`)
+    ].join('\n\n');
+
+    return { featureName: name, spec, tasks, issueKeys: groupIssues.map(issue => issue.key) };
+  });
+}
+
+const STATUS_EMOJI: Record<TaskStatus, string> = {
+  not_started: '⏳',
+  in_progress: '🔄',
+  completed: '✅',
+  blocked: '🚫'
+};
+
+function statusFromLabels(labels: string[]): TaskStatus {
+  const normalized = labels.map(label => label.toLowerCase());
+  if (normalized.some(label => label.includes('blocked'))) return 'blocked';
+  if (normalized.some(label => /in[ -]progress|wip/.test(label))) return 'in_progress';
+  return 'not_started';
+}
+
+function toTaskId(key: string, format: IssueImportFormat): string {
+  const base = key.replace(/^#/, '').toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  return format === 'github' ? `gh_${base}` : base;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'issue';
+}
+
+function extractSummary(issue: ImportedIssue): string {
+  const paragraph = issue.body
+    .split(/\r?\n\s*\r?\n/)
+    .map(block => block.trim())
+    .find(block => block && !/^(#{1,6}\s|h[1-6]\.\s|[-*]\s|\d+\.\s)/.test(block));
+
+  return paragraph ? paragraph.replace(/\s+/g, ' ') : issue.title;
+}
+
+/**
+ * Finds acceptance criteria in an issue body: list items under an
+ * "Acceptance Criteria" heading (markdown or Jira wiki), otherwise any
+ * task-list checkboxes in the body.
+ */
+export function extractAcceptanceCriteria(body: string): string[] {
+  const lines = body.split(/\r?\n/);
+  const listItem = /^\s*(?:[-*#]+|\d+\.)\s+(?:\[[ xX]\]\s+|\([/!x?]\)\s+)?(.+)$/;
+  const heading = /^\s*(?:#{1,6}\s+|h[1-6]\.\s+|\*\*)?acceptance criteria\**:?\s*$/i;
+
+  const start = lines.findIndex(line => heading.test(line));
+  if (start !== -1) {
+    const criteria: string[] = [];
+    for (const line of lines.slice(start + 1)) {
+      if (/^\s*(#{1,6}\s|h[1-6]\.\s)/.test(line)) break;
+      const match = line.match(listItem);
+      if (match) {
+        criteria.push(match[1].trim());
+      } else if (line.trim() && criteria.length > 0) {
+        break;
+      }
+    }
+    if (criteria.length > 0) return criteria;
+  }
+
+  return lines
+    .map(line => line.match(/^\s*[-*]\s+\[[ xX]\]\s+(.+)$/)?.[1].trim())
+    .filter((text): text is string => Boolean(text));
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain commas, doubled quotes and newlines.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
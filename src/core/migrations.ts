@@ -0,0 +1,440 @@
+import Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export interface MigrationPlan {
+  currentVersion: number;
+  targetVersion: number;
+  pending: Array<Pick<Migration, 'version' | 'name'>>;
+  applied: boolean;
+}
+
+/**
+ * Adds a column unless it already exists. Databases created before versioned
+ * migrations may already contain columns that later migrations introduce.
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(col => col.name);
+  if (!columns.includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Ordered schema migrations. Never edit or reorder a released migration;
+ * append a new one with the next version number instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS features (
+          id TEXT PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          spec TEXT NOT NULL,
+          grade TEXT NOT NULL,
+          score INTEGER NOT NULL,
+          embedding BLOB,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tasks (
+          id TEXT PRIMARY KEY,
+          feature_name TEXT NOT NULL,
+          sequence INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          slug TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          implementation TEXT NOT NULL,
+          status TEXT NOT NULL,
+          acceptance_criteria TEXT NOT NULL,
+          test_file TEXT NOT NULL,
+          coverage_target TEXT NOT NULL,
+          notes TEXT NOT NULL,
+          dependencies TEXT,
+          blocks TEXT,
+          relevant_patterns TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS test_results (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          feature_name TEXT NOT NULL,
+          task_id TEXT,
+          passed INTEGER NOT NULL,
+          failed INTEGER NOT NULL,
+          skipped INTEGER NOT NULL,
+          coverage REAL NOT NULL,
+          details TEXT NOT NULL,
+          run_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS validation_results (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          feature_name TEXT NOT NULL,
+          overall_status TEXT NOT NULL,
+          completion_percentage REAL NOT NULL,
+          quality_score REAL NOT NULL,
+          validation_data TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'reverse_spec',
+    up: db => {
+      addColumnIfMissing(db, 'features', 'source_type', `TEXT DEFAULT 'specification'`);
+      addColumnIfMissing(db, 'features', 'discovery_confidence', 'REAL');
+      addColumnIfMissing(db, 'features', 'file_mappings', 'TEXT');
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS reverse_spec_state (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          last_analysis DATETIME NOT NULL,
+          analyzed_files TEXT NOT NULL,
+          discovered_features TEXT NOT NULL,
+          analysis_scope TEXT NOT NULL,
+          confidence_threshold REAL NOT NULL,
+          analysis_depth TEXT NOT NULL,
+          total_files_analyzed INTEGER NOT NULL,
+          features_discovered INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'task_blocking',
+    up: db => {
+      addColumnIfMissing(db, 'tasks', 'blocked_by', 'TEXT');
+      addColumnIfMissing(db, 'tasks', 'status_before_block', 'TEXT');
+    }
+  },
+  {
+    version: 4,
+    name: 'task_status_history',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_status_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          feature_name TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          old_status TEXT,
+          new_status TEXT NOT NULL,
+          notes TEXT NOT NULL,
+          source TEXT NOT NULL,
+          changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'task_file_sync',
+    up: db => {
+      addColumnIfMissing(db, 'tasks', 'checked_criteria', 'TEXT');
+      addColumnIfMissing(db, 'tasks', 'rendered_state', 'TEXT');
+    }
+  },
+  {
+    version: 6,
+    name: 'acceptance_criteria',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS acceptance_criteria (
+          id TEXT NOT NULL,
+          feature_name TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          sequence INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'unclear',
+          evidence TEXT NOT NULL DEFAULT '',
+          evidence_files TEXT NOT NULL DEFAULT '[]',
+          confidence REAL,
+          last_validated DATETIME,
+          PRIMARY KEY (feature_name, id),
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+
+      // Move checkbox state from tasks.checked_criteria into one record per criterion
+      const tasks = db.prepare(`
+        SELECT id, feature_name, acceptance_criteria, checked_criteria FROM tasks
+      `).all() as Array<{ id: string; feature_name: string; acceptance_criteria: string; checked_criteria: string | null }>;
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO acceptance_criteria (id, feature_name, task_id, sequence, text, status)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+
+      for (const task of tasks) {
+        const checked: string[] = JSON.parse(task.checked_criteria || '[]');
+        (JSON.parse(task.acceptance_criteria) as string[]).forEach((text, index) => {
+          insert.run(
+            `${task.id}_ac_${String(index + 1).padStart(2, '0')}`,
+            task.feature_name,
+            task.id,
+            index,
+            text,
+            checked.includes(text) ? 'met' : 'unclear'
+          );
+        });
+      }
+
+      db.exec('ALTER TABLE tasks DROP COLUMN checked_criteria');
+    }
+  },
+  {
+    version: 7,
+    name: 'task_embeddings',
+    up: db => {
+      // Existing rows are embedded lazily by Storage on the next similarity lookup
+      addColumnIfMissing(db, 'tasks', 'embedding', 'BLOB');
+    }
+  },
+  {
+    version: 8,
+    name: 'coverage',
+    up: db => {
+      // Per-file line coverage from the most recently ingested report, for the whole project
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS coverage_files (
+          file TEXT PRIMARY KEY,
+          covered_lines INTEGER NOT NULL,
+          total_lines INTEGER NOT NULL,
+          ingested_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS task_coverage (
+          feature_name TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          percentage REAL NOT NULL,
+          target REAL,
+          met INTEGER,
+          covered_lines INTEGER NOT NULL,
+          total_lines INTEGER NOT NULL,
+          files TEXT NOT NULL,
+          measured_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (feature_name, task_id),
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'feature_revisions',
+    up: db => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS feature_revisions (
+          feature_name TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          spec TEXT NOT NULL,
+          grade TEXT NOT NULL,
+          score INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (feature_name, revision),
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+
+      // The spec each feature was last saved with becomes its first revision
+      db.exec(`
+        INSERT OR IGNORE INTO feature_revisions (feature_name, revision, spec, grade, score, created_at)
+        SELECT name, 1, spec, grade, score, created_at FROM features
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'ai_continuations',
+    up: db => {
+      // Prepared AI analyses waiting for the client's answer; inputs is the JSON tool arguments
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ai_continuations (
+          id TEXT PRIMARY KEY,
+          tool TEXT NOT NULL,
+          feature_name TEXT,
+          schema TEXT NOT NULL,
+          prompt_hash TEXT NOT NULL,
+          inputs TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'task_ids_per_feature',
+    up: db => {
+      // Every feature numbers its tasks from task_01, so a task is keyed by feature and ID
+      const columns = `
+        id, feature_name, sequence, title, slug, summary, implementation, status,
+        acceptance_criteria, test_file, coverage_target, notes, dependencies, blocks,
+        relevant_patterns, created_at, updated_at, blocked_by, status_before_block,
+        rendered_state, embedding
+      `;
+      db.exec(`
+        CREATE TABLE tasks_by_feature (
+          id TEXT NOT NULL,
+          feature_name TEXT NOT NULL,
+          sequence INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          slug TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          implementation TEXT NOT NULL,
+          status TEXT NOT NULL,
+          acceptance_criteria TEXT NOT NULL,
+          test_file TEXT NOT NULL,
+          coverage_target TEXT NOT NULL,
+          notes TEXT NOT NULL,
+          dependencies TEXT,
+          blocks TEXT,
+          relevant_patterns TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          blocked_by TEXT,
+          status_before_block TEXT,
+          rendered_state TEXT,
+          embedding BLOB,
+          PRIMARY KEY (feature_name, id),
+          FOREIGN KEY (feature_name) REFERENCES features(name)
+        )
+      `);
+      db.exec(`INSERT INTO tasks_by_feature (${columns}) SELECT ${columns} FROM tasks`);
+      db.exec('DROP TABLE tasks');
+      db.exec('ALTER TABLE tasks_by_feature RENAME TO tasks');
+    }
+  },
+  {
+    version: 12,
+    name: 'ai_continuation_feature_revision',
+    up: db => {
+      // Latest spec revision of the feature when the analysis was prepared; NULL when it had none
+      addColumnIfMissing(db, 'ai_continuations', 'feature_revision', 'INTEGER');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * MigrationRunner tracks applied migrations in `schema_migrations` and brings
+ * a database up to the schema version this code expects.
+ */
+export class MigrationRunner {
+  constructor(
+    private db: Database.Database,
+    private migrations: Migration[] = MIGRATIONS
+  ) {}
+
+  get latestVersion(): number {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  private hasMigrationsTable(): boolean {
+    return this.db.prepare(`
+      SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+    `).get() !== undefined;
+  }
+
+  getCurrentVersion(): number {
+    if (!this.hasMigrationsTable()) return 0;
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  getAppliedMigrations(): AppliedMigration[] {
+    if (!this.hasMigrationsTable()) return [];
+    const rows = this.db.prepare(`
+      SELECT version, name, applied_at FROM schema_migrations ORDER BY version
+    `).all() as Array<{ version: number; name: string; applied_at: string }>;
+
+    return rows.map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+  }
+
+  getPendingMigrations(): Migration[] {
+    const current = this.getCurrentVersion();
+    return this.migrations.filter(migration => migration.version > current);
+  }
+
+  /**
+   * Throws if the database was migrated by a newer release than this one.
+   */
+  assertSupported(): void {
+    const current = this.getCurrentVersion();
+    if (current > this.latestVersion) {
+      throw new Error(
+        `Database schema version ${current} is newer than this version of SpecLinter supports (${this.latestVersion}). ` +
+        'Upgrade speclinter before opening this project.'
+      );
+    }
+  }
+
+  /**
+   * Applies all pending migrations in a single transaction, or only reports
+   * them when `dryRun` is set.
+   */
+  migrate(options: { dryRun?: boolean } = {}): MigrationPlan {
+    this.assertSupported();
+
+    const currentVersion = this.getCurrentVersion();
+    const pending = this.getPendingMigrations();
+    const plan: MigrationPlan = {
+      currentVersion,
+      targetVersion: this.latestVersion,
+      pending: pending.map(({ version, name }) => ({ version, name })),
+      applied: false
+    };
+
+    if (options.dryRun || pending.length === 0) {
+      return plan;
+    }
+
+    this.db.transaction(() => {
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      const record = this.db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+      for (const migration of pending) {
+        migration.up(this.db);
+        record.run(migration.version, migration.name);
+      }
+    })();
+
+    return { ...plan, applied: true };
+  }
+}
@@ -0,0 +1,454 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { pathToFileURL } from 'url';
+import { expandScenario, parseGherkin, GherkinScenario, GherkinStep } from './gherkin.js';
+import type { TestResult } from '../types/index.js';
+import type { Storage } from './storage.js';
+
+/**
+ * Step handlers receive the values captured by the pattern, followed by the
+ * step's data table or doc string when it has one. `this` is a fresh object per
+ * scenario for sharing state between steps. Returning 'pending' marks the
+ * scenario as skipped.
+ */
+export type StepHandler = (this: Record<string, unknown>, ...args: any[]) => unknown;
+
+export interface StepDefinition {
+  type?: 'Given' | 'When' | 'Then';
+  pattern: string | RegExp;
+  handler: StepHandler;
+  source?: string;
+}
+
+export type ScenarioStatus = 'passed' | 'failed' | 'skipped' | 'undefined';
+
+export interface UndefinedStep {
+  keyword: string;
+  text: string;
+  file: string;
+  line: number;
+}
+
+export interface ScenarioResult {
+  scenario: string;
+  status: ScenarioStatus;
+  file: string;
+  line: number;
+  error?: string;
+}
+
+export interface TaskScenarioRun {
+  taskId: string;
+  testFile: string;
+  scenarios: ScenarioResult[];
+  result: TestResult;
+}
+
+export interface ScenarioSource {
+  taskId: string;
+  testFile: string;
+  content: string | null;
+}
+
+export interface ScenarioRunOptions {
+  stepTimeoutMs?: number;
+  /** Only run scenarios carrying at least one of these tags */
+  tags?: string[];
+}
+
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+const SKIP_TAGS = new Set(['@skip', '@ignore', '@wip']);
+const STEP_MODULE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.ts', '.mts']);
+const TYPESCRIPT_EXTENSIONS = new Set(['.ts', '.mts']);
+
+const PARAMETER_TYPES: Record<string, { pattern: string; convert: (value: string) => unknown }> = {
+  int: { pattern: '(-?\\d+)', convert: value => parseInt(value, 10) },
+  float: { pattern: '(-?\\d*\\.?\\d+)', convert: value => parseFloat(value) },
+  word: { pattern: '([^\\s]+)', convert: value => value },
+  string: { pattern: '(?:"([^"]*)"|\'([^\']*)\')', convert: value => value },
+  '': { pattern: '(.*)', convert: value => value }
+};
+
+interface CompiledDefinition {
+  definition: StepDefinition;
+  regex: RegExp;
+  converters: Array<(value: string) => unknown>;
+}
+
+/**
+ * Collects step definitions. Step definition modules export a default (or
+ * `register`) function that receives the registry:
+ *
+ *   export default ({ Given, When, Then }) => {
+ *     Given('a cart with {int} items', function (count) { this.cart = new Cart(count); });
+ *   };
+ *
+ * String patterns support the {int}, {float}, {word}, {string} and {}
+ * placeholders; regular expressions pass their capture groups through.
+ */
+export class StepRegistry {
+  private definitions: CompiledDefinition[] = [];
+  private currentSource?: string;
+
+  readonly Given = (pattern: string | RegExp, handler: StepHandler) => this.define({ type: 'Given', pattern, handler });
+  readonly When = (pattern: string | RegExp, handler: StepHandler) => this.define({ type: 'When', pattern, handler });
+  readonly Then = (pattern: string | RegExp, handler: StepHandler) => this.define({ type: 'Then', pattern, handler });
+  readonly defineStep = (pattern: string | RegExp, handler: StepHandler) => this.define({ pattern, handler });
+
+  define(definition: StepDefinition): void {
+    const { regex, converters } = compilePattern(definition.pattern);
+    this.definitions.push({
+      definition: { ...definition, source: definition.source ?? this.currentSource },
+      regex,
+      converters
+    });
+  }
+
+  get size(): number {
+    return this.definitions.length;
+  }
+
+  /**
+   * Imports a step definition module and registers its steps. The module URL
+   * carries the file's modification time, so an edited module is imported
+   * again instead of being served from the module cache; every edited version
+   * stays in memory until the process exits.
+   */
+  async load(file: string): Promise<void> {
+    const { mtimeMs } = await fs.stat(file);
+    const module = await import(`${pathToFileURL(file).href}?mtime=${mtimeMs}`);
+    const register = typeof module.default === 'function' ? module.default : module.register;
+    if (typeof register !== 'function') {
+      throw new Error(`Step definition module ${file} must export a default or "register" function`);
+    }
+
+    this.currentSource = file;
+    try {
+      await register(this);
+    } finally {
+      this.currentSource = undefined;
+    }
+  }
+
+  /**
+   * Finds the definition for a step. Definitions registered with Given/When/Then
+   * only match steps of that type; defineStep matches any step.
+   */
+  match(step: GherkinStep): { definition: StepDefinition; args: unknown[] } | { ambiguous: StepDefinition[] } | null {
+    const matches = this.definitions
+      .filter(compiled => !compiled.definition.type || compiled.definition.type === step.type)
+      .map(compiled => ({ compiled, match: compiled.regex.exec(step.text) }))
+      .filter((candidate): candidate is { compiled: CompiledDefinition; match: RegExpExecArray } => candidate.match !== null);
+
+    if (matches.length === 0) {
+      return null;
+    }
+    if (matches.length > 1) {
+      return { ambiguous: matches.map(candidate => candidate.compiled.definition) };
+    }
+
+    const { compiled, match } = matches[0];
+    const captures = match.slice(1);
+    const args = compiled.converters.length > 0
+      ? groupCaptures(captures, compiled.converters)
+      : captures;
+
+    return { definition: compiled.definition, args };
+  }
+}
+
+/**
+ * Finds step definition modules in the given files and directories (searched
+ * recursively). Missing paths are ignored so default locations can be optional.
+ */
+export async function findStepDefinitionFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  const visit = async (target: string): Promise<void> => {
+    const stat = await fs.stat(target).catch(() => null);
+    if (!stat) return;
+
+    if (stat.isFile()) {
+      if (STEP_MODULE_EXTENSIONS.has(path.extname(target)) && !target.endsWith('.d.ts')) {
+        files.push(target);
+      }
+      return;
+    }
+
+    const entries = await fs.readdir(target, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      await visit(path.join(target, entry.name));
+    }
+  };
+
+  for (const target of paths) {
+    await visit(target);
+  }
+
+  return [...new Set(files)];
+}
+
+/**
+ * Runs every scenario in each task's Gherkin file against the registered steps.
+ * A scenario fails on the first failing or ambiguous step, is 'undefined' when a
+ * step has no definition, and is skipped when a step returns 'pending' or it is
+ * tagged @skip, @ignore or @wip. Code coverage is not measured here, so each
+ * result reports a coverage of 0.
+ */
+export async function runScenarios(
+  sources: ScenarioSource[],
+  registry: StepRegistry,
+  options: ScenarioRunOptions = {}
+): Promise<{ tasks: TaskScenarioRun[]; undefinedSteps: UndefinedStep[] }> {
+  const stepTimeout = options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+  const undefinedSteps = new Map<string, UndefinedStep>();
+  const tasks: TaskScenarioRun[] = [];
+
+  for (const source of sources) {
+    const scenarios: ScenarioResult[] = [];
+
+    if (source.content === null) {
+      scenarios.push({ scenario: source.testFile, status: 'failed', file: source.testFile, line: 0, error: 'Gherkin file not found' });
+    } else {
+      const { feature, errors } = parseGherkin(source.content);
+
+      if (!feature || errors.length > 0) {
+        scenarios.push({
+          scenario: feature?.name || source.testFile,
+          status: 'failed',
+          file: source.testFile,
+          line: errors[0]?.line ?? 0,
+          error: `Gherkin syntax errors: ${errors.map(error => `line ${error.line}: ${error.message}`).join('; ')}`
+        });
+      } else {
+        const background = feature.background?.steps ?? [];
+
+        for (const scenario of feature.scenarios.flatMap(expandScenario)) {
+          const tags = [...feature.tags, ...scenario.tags];
+          if (options.tags?.length && !tags.some(tag => options.tags!.includes(tag))) {
+            continue;
+          }
+
+          const result = tags.some(tag => SKIP_TAGS.has(tag))
+            ? { status: 'skipped' as const }
+            : await runScenario(scenario, background, registry, stepTimeout, step => {
+              const key = `${step.type} ${step.text}`;
+              if (!undefinedSteps.has(key)) {
+                undefinedSteps.set(key, { keyword: step.type, text: step.text, file: source.testFile, line: step.line });
+              }
+            });
+
+          scenarios.push({ scenario: scenario.name, file: source.testFile, line: scenario.line, ...result });
+        }
+      }
+    }
+
+    tasks.push({
+      taskId: source.taskId,
+      testFile: source.testFile,
+      scenarios,
+      result: summarizeScenarios(scenarios, source.taskId)
+    });
+  }
+
+  return { tasks, undefinedSteps: [...undefinedSteps.values()] };
+}
+
+export function summarizeScenarios(scenarios: ScenarioResult[], taskId?: string): TestResult {
+  return {
+    passed: scenarios.filter(scenario => scenario.status === 'passed').length,
+    failed: scenarios.filter(scenario => scenario.status === 'failed').length,
+    skipped: scenarios.filter(scenario => scenario.status === 'skipped' || scenario.status === 'undefined').length,
+    coverage: 0,
+    details: scenarios.map(scenario => ({
+      scenario: scenario.scenario,
+      status: scenario.status,
+      ...(taskId && { taskId }),
+      file: scenario.file,
+      line: scenario.line,
+      ...(scenario.error && { error: scenario.error })
+    }))
+  };
+}
+
+async function runScenario(
+  scenario: GherkinScenario,
+  background: GherkinStep[],
+  registry: StepRegistry,
+  stepTimeout: number,
+  onUndefined: (step: GherkinStep) => void
+): Promise<{ status: ScenarioStatus; error?: string }> {
+  const steps = [...background, ...scenario.steps];
+  const world: Record<string, unknown> = {};
+
+  // Resolve every step first so all undefined steps are reported, not just the first
+  const resolved = steps.map(step => ({ step, match: registry.match(step) }));
+  const missing = resolved.filter(entry => entry.match === null);
+  if (missing.length > 0) {
+    missing.forEach(entry => onUndefined(entry.step));
+    return {
+      status: 'undefined',
+      error: `Undefined step${missing.length > 1 ? 's' : ''}: ${missing.map(entry => `${entry.step.type} ${entry.step.text}`).join('; ')}`
+    };
+  }
+
+  for (const { step, match } of resolved) {
+    if (match && 'ambiguous' in match) {
+      return {
+        status: 'failed',
+        error: `Ambiguous step "${step.text}" (line ${step.line}) matches ${match.ambiguous.length} definitions`
+      };
+    }
+
+    const args = [...match!.args];
+    if (step.dataTable) args.push(step.dataTable);
+    if (step.docString !== undefined) args.push(step.docString);
+
+    try {
+      const outcome = await withTimeout(
+        Promise.resolve().then(() => match!.definition.handler.apply(world, args)),
+        stepTimeout,
+        `Step "${step.text}" timed out after ${stepTimeout}ms`
+      );
+      if (outcome === 'pending') {
+        return { status: 'skipped', error: `Step "${step.text}" is pending` };
+      }
+    } catch (error) {
+      return {
+        status: 'failed',
+        error: `Step "${step.text}" (line ${step.line}) failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  return { status: 'passed' };
+}
+
+function compilePattern(pattern: string | RegExp): { regex: RegExp; converters: Array<(value: string) => unknown> } {
+  if (pattern instanceof RegExp) {
+    return { regex: pattern, converters: [] };
+  }
+
+  const converters: Array<(value: string) => unknown> = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(/\{(int|float|word|string|)\}/g)) {
+    source += escapeRegExp(pattern.slice(lastIndex, match.index));
+    const parameter = PARAMETER_TYPES[match[1]];
+    source += parameter.pattern;
+    converters.push(parameter.convert);
+    lastIndex = match.index! + match[0].length;
+  }
+  source += escapeRegExp(pattern.slice(lastIndex));
+
+  return { regex: new RegExp(`^${source}$`), converters };
+}
+
+/**
+ * {string} captures with two alternative groups (double or single quotes);
+ * collapse captures back to one value per placeholder.
+ */
+function groupCaptures(captures: Array<string | undefined>, converters: Array<(value: string) => unknown>): unknown[] {
+  const values: unknown[] = [];
+  let index = 0;
+
+  for (const convert of converters) {
+    if (convert === PARAMETER_TYPES.string.convert) {
+      values.push(captures[index] ?? captures[index + 1] ?? '');
+      index += 2;
+    } else {
+      values.push(convert(captures[index] ?? ''));
+      index += 1;
+    }
+  }
+
+  return values;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export interface StepDefinitionError {
+  file: string;
+  error: string;
+}
+
+export interface FeatureScenarioRun {
+  featureName: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  stepDefinitionFiles: string[];
+  /** Modules that could not be loaded; their steps count as undefined */
+  stepDefinitionErrors: StepDefinitionError[];
+  tasks: TaskScenarioRun[];
+  undefinedSteps: UndefinedStep[];
+}
+
+/**
+ * Loads step definitions from the default locations plus any extra paths,
+ * runs the feature's scenarios and records one test_results row per task.
+ * A module that fails to load is reported and the run carries on without it.
+ */
+export async function runFeatureScenarios(
+  storage: Storage,
+  rootDir: string,
+  featureName: string,
+  options: ScenarioRunOptions & { taskId?: string; stepDefinitions?: string[] } = {}
+): Promise<FeatureScenarioRun> {
+  const sources = await storage.getScenarioSources(featureName, options.taskId);
+  const stepDefinitionFiles = await findStepDefinitionFiles([
+    ...sources.stepDirs,
+    ...(options.stepDefinitions ?? []).map(target => path.resolve(rootDir, target))
+  ]);
+
+  const registry = new StepRegistry();
+  const stepDefinitionErrors: StepDefinitionError[] = [];
+  for (const file of stepDefinitionFiles) {
+    try {
+      await registry.load(file);
+    } catch (error) {
+      stepDefinitionErrors.push({ file, error: describeLoadError(file, error) });
+    }
+  }
+
+  const { tasks, undefinedSteps } = await runScenarios(sources.files, registry, options);
+  for (const task of tasks) {
+    await storage.updateTestResults(featureName, task.result, task.taskId);
+  }
+
+  return {
+    featureName,
+    passed: tasks.reduce((sum, task) => sum + task.result.passed, 0),
+    failed: tasks.reduce((sum, task) => sum + task.result.failed, 0),
+    skipped: tasks.reduce((sum, task) => sum + task.result.skipped, 0),
+    stepDefinitionFiles,
+    stepDefinitionErrors,
+    tasks,
+    undefinedSteps
+  };
+}
+
+function describeLoadError(file: string, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  if (TYPESCRIPT_EXTENSIONS.has(path.extname(file)) && (error as { code?: string })?.code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+    return `${message}. TypeScript step modules need the server to run under a TypeScript loader such as tsx`;
+  }
+  return message;
+}
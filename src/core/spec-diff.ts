@@ -0,0 +1,297 @@
+import { cosineSimilarity, embedText } from './embeddings.js';
+import type { Storage } from './storage.js';
+import type { FeatureRevision, Task, TaskStatus } from '../types/index.js';
+
+export interface RequirementDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ from: string; to: string; similarity: number }>;
+  unchanged: string[];
+}
+
+export interface TaskChangeProposals {
+  /** Tasks whose requirements were all removed */
+  obsolete: Array<{ taskId: string; title: string; status: TaskStatus; removedRequirements: string[]; recommendation: string }>;
+  /** Tasks backed by a requirement that was reworded or dropped */
+  changed: Array<{ taskId: string; title: string; status: TaskStatus; changes: Array<{ from: string; to: string | null }> }>;
+  /** Added requirements that no existing task covers */
+  new: Array<{ requirement: string; suggestedTitle: string }>;
+}
+
+export interface SpecDiff {
+  featureName: string;
+  revisions: FeatureRevision[];
+  from: FeatureRevision;
+  /** null revision when comparing against a proposed spec that has not been saved */
+  to: Omit<FeatureRevision, 'revision'> & { revision: number | null };
+  textDiff: string;
+  requirements: RequirementDiff;
+  proposals: TaskChangeProposals;
+}
+
+// Requirements this similar are treated as one requirement reworded
+const CHANGED_REQUIREMENT_THRESHOLD = 0.5;
+// A task covers a requirement when its title, summary or a criterion is this similar
+const TASK_LINK_THRESHOLD = 0.4;
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Compares two revisions of a feature's spec, or its latest revision with a
+ * proposed spec, and proposes task changes. Nothing is written: task statuses
+ * stay as they are until the spec is saved again.
+ */
+export async function diffFeatureSpec(
+  storage: Storage,
+  featureName: string,
+  options: { fromRevision?: number; toRevision?: number; spec?: string } = {}
+): Promise<SpecDiff> {
+  const revisions = await storage.getFeatureRevisions(featureName);
+  if (revisions.length === 0) {
+    throw new Error(`Feature '${featureName}' not found`);
+  }
+
+  const findRevision = (revision: number) => {
+    const found = revisions.find(entry => entry.revision === revision);
+    if (!found) {
+      throw new Error(`Feature '${featureName}' has no revision ${revision} (revisions 1-${revisions[revisions.length - 1].revision})`);
+    }
+    return found;
+  };
+  const latest = revisions[revisions.length - 1];
+
+  let from: FeatureRevision;
+  let to: SpecDiff['to'];
+  if (options.spec !== undefined) {
+    from = options.fromRevision !== undefined ? findRevision(options.fromRevision) : latest;
+    to = { featureName, revision: null, spec: options.spec, grade: '', score: 0, createdAt: new Date().toISOString() };
+  } else {
+    to = options.toRevision !== undefined ? findRevision(options.toRevision) : latest;
+    if (options.fromRevision === undefined && to.revision === 1) {
+      throw new Error(`Feature '${featureName}' has only one revision; pass a spec to compare against a new version`);
+    }
+    from = findRevision(options.fromRevision ?? to.revision! - 1);
+  }
+
+  const requirements = diffRequirements(extractRequirements(from.spec), extractRequirements(to.spec));
+
+  return {
+    featureName,
+    revisions,
+    from,
+    to,
+    textDiff: diffText(from.spec, to.spec, `revision ${from.revision}`, to.revision === null ? 'proposed spec' : `revision ${to.revision}`),
+    requirements,
+    proposals: proposeTaskChanges(await storage.getFeatureTasks(featureName), requirements)
+  };
+}
+
+/**
+ * Splits a spec into requirement statements: each list item, and each
+ * sentence of the remaining prose. Headings, code blocks, HTML comments and
+ * lead-in lines ending in a colon are skipped.
+ */
+export function extractRequirements(spec: string): string[] {
+  const requirements: string[] = [];
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  const flushParagraph = () => {
+    const text = paragraph.join(' ').replace(/\s+/g, ' ').trim();
+    requirements.push(...text.split(/(?<=[.!?])\s+/));
+    paragraph = [];
+  };
+
+  for (const rawLine of spec.split(/\r?\n/)) {
+    // Provenance comments written by spec merges are not part of the requirement
+    const line = rawLine.replace(/<!--.*?-->/g, '').trim();
+    if (line.startsWith('```')) {
+      flushParagraph();
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/);
+    if (line === '' || /^#{1,6}\s/.test(line) || /^[=-]{3,}$/.test(line) || listItem) {
+      flushParagraph();
+      if (listItem) requirements.push(listItem[1]);
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  const seen = new Set<string>();
+  return requirements
+    .map(requirement => requirement.trim().replace(/\s+/g, ' '))
+    .filter(requirement => requirement !== '' && !requirement.endsWith(':'))
+    .filter(requirement => {
+      const key = normalizeRequirement(requirement);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Pairs identical requirements first, then the most similar remaining pairs
+ * above the threshold as changed; whatever is left was removed or added.
+ */
+export function diffRequirements(before: string[], after: string[], threshold = CHANGED_REQUIREMENT_THRESHOLD): RequirementDiff {
+  const afterKeys = new Set(after.map(normalizeRequirement));
+  const beforeKeys = new Set(before.map(normalizeRequirement));
+  const unchanged = before.filter(requirement => afterKeys.has(normalizeRequirement(requirement)));
+  const removedCandidates = before.filter(requirement => !afterKeys.has(normalizeRequirement(requirement)));
+  const addedCandidates = after.filter(requirement => !beforeKeys.has(normalizeRequirement(requirement)));
+
+  const afterVectors = addedCandidates.map(embedText);
+  const pairs = removedCandidates.flatMap((from, fromIndex) => {
+    const vector = embedText(from);
+    return afterVectors.map((toVector, toIndex) => ({ fromIndex, toIndex, similarity: cosineSimilarity(vector, toVector) }));
+  })
+    .filter(pair => pair.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const pairedFrom = new Set<number>();
+  const pairedTo = new Set<number>();
+  const changed: RequirementDiff['changed'] = [];
+  for (const pair of pairs) {
+    if (pairedFrom.has(pair.fromIndex) || pairedTo.has(pair.toIndex)) continue;
+    pairedFrom.add(pair.fromIndex);
+    pairedTo.add(pair.toIndex);
+    changed.push({ from: removedCandidates[pair.fromIndex], to: addedCandidates[pair.toIndex], similarity: round(pair.similarity) });
+  }
+  changed.sort((a, b) => before.indexOf(a.from) - before.indexOf(b.from));
+
+  return {
+    added: addedCandidates.filter((_, index) => !pairedTo.has(index)),
+    removed: removedCandidates.filter((_, index) => !pairedFrom.has(index)),
+    changed,
+    unchanged
+  };
+}
+
+/**
+ * Maps requirement changes onto the tasks that cover them. A task is obsolete
+ * when every requirement it covered was removed, and changed when one of its
+ * requirements was reworded or removed while others remain.
+ */
+export function proposeTaskChanges(tasks: Task[], diff: RequirementDiff, threshold = TASK_LINK_THRESHOLD): TaskChangeProposals {
+  const taskVectors = tasks.map(task => [task.title, task.summary, ...task.acceptanceCriteria].filter(Boolean).map(embedText));
+  const covers = (taskIndex: number, requirement: string) => {
+    const vector = embedText(requirement);
+    return taskVectors[taskIndex].some(segment => cosineSimilarity(vector, segment) >= threshold);
+  };
+
+  const proposals: TaskChangeProposals = { obsolete: [], changed: [], new: [] };
+  const remaining = [...diff.unchanged, ...diff.changed.map(change => change.to), ...diff.added];
+
+  tasks.forEach((task, index) => {
+    const reworded = diff.changed.filter(change => covers(index, change.from));
+    const removed = diff.removed.filter(requirement => covers(index, requirement));
+    if (reworded.length === 0 && removed.length === 0) return;
+
+    if (reworded.length === 0 && !remaining.some(requirement => covers(index, requirement))) {
+      proposals.obsolete.push({
+        taskId: task.id,
+        title: task.title,
+        status: task.status,
+        removedRequirements: removed,
+        recommendation: task.status === 'not_started'
+          ? 'Remove the task; nothing has been done on it yet'
+          : `Review before removing: the task is ${task.status.replace('_', ' ')}`
+      });
+      return;
+    }
+
+    proposals.changed.push({
+      taskId: task.id,
+      title: task.title,
+      status: task.status,
+      changes: [
+        ...reworded.map(change => ({ from: change.from, to: change.to })),
+        ...removed.map(requirement => ({ from: requirement, to: null }))
+      ]
+    });
+  });
+
+  for (const requirement of diff.added) {
+    if (!tasks.some((_, index) => covers(index, requirement))) {
+      proposals.new.push({ requirement, suggestedTitle: suggestTitle(requirement) });
+    }
+  }
+
+  return proposals;
+}
+
+/**
+ * Line-based unified diff with DIFF_CONTEXT_LINES lines of context around each
+ * change. Returns an empty string when the texts are equal.
+ */
+export function diffText(before: string, after: string, fromLabel = 'before', toLabel = 'after'): string {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: ' ' | '-' | '+'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+
+  const changedIndexes = ops.flatMap((op, index) => op.type === ' ' ? [] : [index]);
+  if (changedIndexes.length === 0) return '';
+
+  // Group changes whose context windows touch into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changedIndexes) {
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, index + DIFF_CONTEXT_LINES);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [start, end] of hunks) {
+    const preceding = ops.slice(0, start);
+    const body = ops.slice(start, end + 1);
+    const fromStart = preceding.filter(op => op.type !== '+').length + 1;
+    const toStart = preceding.filter(op => op.type !== '-').length + 1;
+    const fromCount = body.filter(op => op.type !== '+').length;
+    const toCount = body.filter(op => op.type !== '-').length;
+    output.push(`@@ -${fromCount === 0 ? fromStart - 1 : fromStart},${fromCount} +${toCount === 0 ? toStart - 1 : toStart},${toCount} @@`);
+    output.push(...body.map(op => `${op.type}${op.line}`));
+  }
+
+  return output.join('\n');
+}
+
+export function normalizeRequirement(requirement: string): string {
+  return requirement.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function suggestTitle(requirement: string): string {
+  const words = requirement.replace(/[^\w\s-]/g, '').split(/\s+/).filter(Boolean).slice(0, 8);
+  const title = words.join(' ');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,222 @@
+import { cosineSimilarity, embedText } from './embeddings.js';
+import { extractRequirements, normalizeRequirement } from './spec-diff.js';
+import type { Storage } from './storage.js';
+import type { FeatureRevision } from '../types/index.js';
+
+export interface MergedRequirement {
+  text: string;
+  /** Where the requirement was stated, e.g. "revision 2" */
+  sources: string[];
+}
+
+export interface SpecMerge {
+  spec: string;
+  requirements: MergedRequirement[];
+  /** Incoming requirements added to the merged spec */
+  added: string[];
+  /** Incoming requirements dropped because an existing one says the same */
+  duplicates: Array<{ kept: string; dropped: string; similarity: number }>;
+  /** Incoming requirements kept next to a similar existing one they may contradict */
+  possibleConflicts: Array<{ existing: string; incoming: string; similarity: number }>;
+}
+
+export interface FeatureSpecMerge extends SpecMerge {
+  featureName: string;
+  baseRevision: number;
+  /** Revision the merged spec was saved as; null for a dry run */
+  revision: number | null;
+}
+
+// Requirements this similar state the same thing; the existing wording is kept
+export const DUPLICATE_REQUIREMENT_THRESHOLD = 0.85;
+// Less similar than a duplicate but this close usually means the same requirement with different details
+const CONFLICT_THRESHOLD = 0.5;
+
+/**
+ * Merges an incoming spec into a feature's latest spec and, unless dryRun is
+ * set, saves the result as the next revision. Tasks are not changed; the
+ * revision can be diffed with diffFeatureSpec to see which tasks are affected.
+ */
+export async function mergeFeatureSpec(
+  storage: Storage,
+  featureName: string,
+  incomingSpec: string,
+  options: { threshold?: number; dryRun?: boolean } = {}
+): Promise<FeatureSpecMerge> {
+  const latest = await getLatestRevision(storage, featureName);
+  const merge = mergeSpecs(latest.spec, incomingSpec, { ...revisionSources(latest), threshold: options.threshold });
+  const revision = options.dryRun ? null : await storage.updateFeatureSpec(featureName, merge.spec);
+
+  return { featureName, baseRevision: latest.revision, revision, ...merge };
+}
+
+export async function getLatestRevision(storage: Storage, featureName: string): Promise<FeatureRevision> {
+  const revisions = await storage.getFeatureRevisions(featureName);
+  if (revisions.length === 0) {
+    throw new Error(`Feature '${featureName}' not found`);
+  }
+  return revisions[revisions.length - 1];
+}
+
+/**
+ * Provenance labels for merging into `latest`: existing requirements come from
+ * the latest revision, incoming ones from the revision the merge will create.
+ */
+export function revisionSources(latest: FeatureRevision): { existingSource: string; incomingSource: string } {
+  return { existingSource: `revision ${latest.revision}`, incomingSource: `revision ${latest.revision + 1}` };
+}
+
+/**
+ * Splits both specs into requirements (see extractRequirements) and appends
+ * each incoming requirement unless an existing one is at least `threshold`
+ * similar, in which case only its source is recorded on the existing one.
+ * Sources already recorded in the existing spec are carried over.
+ */
+export function mergeSpecs(
+  existingSpec: string,
+  incomingSpec: string,
+  options: { existingSource?: string; incomingSource?: string; threshold?: number } = {}
+): SpecMerge {
+  const existingSource = options.existingSource ?? 'existing spec';
+  const incomingSource = options.incomingSource ?? 'incoming spec';
+  const threshold = options.threshold ?? DUPLICATE_REQUIREMENT_THRESHOLD;
+
+  const recorded = readProvenance(existingSpec);
+  const requirements: MergedRequirement[] = extractRequirements(existingSpec).map(text => ({
+    text,
+    sources: recorded.get(normalizeRequirement(text)) ?? [existingSource]
+  }));
+  const vectors = requirements.map(requirement => embedText(requirement.text));
+  const merge: Omit<SpecMerge, 'spec' | 'requirements'> = { added: [], duplicates: [], possibleConflicts: [] };
+
+  for (const text of extractRequirements(incomingSpec)) {
+    const vector = embedText(text);
+    const key = normalizeRequirement(text);
+    let bestIndex = -1;
+    let bestSimilarity = 0;
+    requirements.forEach((requirement, index) => {
+      const similarity = normalizeRequirement(requirement.text) === key ? 1 : cosineSimilarity(vector, vectors[index]);
+      if (similarity > bestSimilarity) {
+        bestIndex = index;
+        bestSimilarity = similarity;
+      }
+    });
+
+    if (bestIndex >= 0 && bestSimilarity >= threshold) {
+      const kept = requirements[bestIndex];
+      if (!kept.sources.includes(incomingSource)) kept.sources.push(incomingSource);
+      merge.duplicates.push({ kept: kept.text, dropped: text, similarity: round(bestSimilarity) });
+      continue;
+    }
+
+    if (bestIndex >= 0 && bestSimilarity >= CONFLICT_THRESHOLD) {
+      merge.possibleConflicts.push({ existing: requirements[bestIndex].text, incoming: text, similarity: round(bestSimilarity) });
+    }
+    requirements.push({ text, sources: [incomingSource] });
+    vectors.push(vector);
+    merge.added.push(text);
+  }
+
+  return { spec: renderMergedSpec(existingSpec, incomingSpec, requirements), requirements, ...merge };
+}
+
+/**
+ * Writes the merged spec by annotating the existing spec rather than
+ * regenerating it, so its title, user story, headings, prose and code blocks
+ * are kept. Requirement list items get an HTML comment naming their sources;
+ * list items the merge left out are removed. Requirements stated in neither
+ * its lists nor its prose are appended after the last item under a
+ * "Requirements" or "Acceptance criteria" heading, or in a new
+ * "## Requirements" section at the end.
+ */
+export function renderMergedSpec(existingSpec: string, incomingSpec: string, requirements: MergedRequirement[]): string {
+  const pending = new Map<string, MergedRequirement>();
+  for (const requirement of requirements) {
+    const key = normalizeRequirement(requirement.text);
+    if (!pending.has(key)) pending.set(key, requirement);
+  }
+  const annotate = (requirement: MergedRequirement) => `${requirement.text} <!-- source: ${requirement.sources.join(', ')} -->`;
+
+  const output: string[] = [];
+  const placed = new Set<string>();
+  let inCode = false;
+  let inRequirementsSection = false;
+  let insertion: { index: number; indent: string; marker: string } | undefined;
+
+  for (const line of existingSpec.replace(/\s+$/, '').split(/\r?\n/)) {
+    if (line.trim().startsWith('```')) inCode = !inCode;
+    const heading = inCode ? null : line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      inRequirementsSection = /requirements|acceptance criteria/i.test(heading[1]);
+    }
+
+    const item = inCode ? null : line.match(/^(\s*)([-*+]|\d+[.)])(\s+(?:\[[ xX]\]\s+)?)(.+)$/);
+    if (!item) {
+      output.push(line);
+      continue;
+    }
+
+    const text = item[4].replace(/<!--.*?-->/g, '').trim();
+    const key = normalizeRequirement(text);
+    const requirement = pending.get(key);
+    if (requirement) {
+      output.push(`${item[1]}${item[2]}${item[3]}${annotate(requirement)}`);
+      pending.delete(key);
+      placed.add(key);
+    } else if (!key || text.endsWith(':') || placed.has(key)) {
+      output.push(line);
+    } else {
+      // The merge dropped or reworded this requirement
+      continue;
+    }
+
+    if (inRequirementsSection) {
+      insertion = { index: output.length, indent: item[1], marker: item[2] };
+    }
+  }
+
+  // Prose sentences of the existing spec are kept as written
+  for (const text of extractRequirements(existingSpec)) {
+    pending.delete(normalizeRequirement(text));
+  }
+
+  const added = [...pending.values()];
+  if (added.length > 0 && insertion) {
+    const { index, indent, marker } = insertion;
+    const number = Number.parseInt(marker, 10);
+    output.splice(index, 0, ...added.map((requirement, offset) => {
+      const nextMarker = Number.isNaN(number) ? marker : `${number + offset + 1}${marker.slice(-1)}`;
+      return `${indent}${nextMarker} ${annotate(requirement)}`;
+    }));
+  } else if (added.length > 0) {
+    output.push('', '## Requirements', '', ...added.map(requirement => `- ${annotate(requirement)}`));
+  }
+
+  const title = specTitle(incomingSpec);
+  if (!specTitle(existingSpec) && title) {
+    output.unshift(`# ${title}`, '');
+  }
+  return `${output.join('\n').replace(/^\n+/, '')}\n`;
+}
+
+/**
+ * Sources recorded by an earlier merge, keyed by normalized requirement text.
+ */
+export function readProvenance(spec: string): Map<string, string[]> {
+  const provenance = new Map<string, string[]>();
+  for (const line of spec.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+?)\s*<!--\s*source:\s*(.+?)\s*-->\s*$/);
+    if (match) {
+      provenance.set(normalizeRequirement(match[1]), match[2].split(',').map(source => source.trim()).filter(Boolean));
+    }
+  }
+  return provenance;
+}
+
+function specTitle(spec: string): string | undefined {
+  return spec.match(/^#\s+(.+)$/m)?.[1].trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+
+/**
+ * A change written by Storage (or ContextUpdater) to a project. Storage
+ * instances are short-lived, so changes go through one process-wide emitter
+ * that long-lived listeners such as the MCP server subscribe to.
+ */
+export type StorageChange =
+  /** A feature was created, deleted or renamed, so the feature list changed */
+  | { type: 'features'; rootDir: string; featureName: string }
+  /** A feature's spec, grade or task progress changed */
+  | { type: 'feature'; rootDir: string; featureName: string }
+  | { type: 'task'; rootDir: string; featureName: string; taskId: string }
+  | { type: 'gherkin'; rootDir: string; featureName: string; file: string }
+  | { type: 'context'; rootDir: string; file: string };
+
+const emitter = new EventEmitter();
+// One listener per MCP session
+emitter.setMaxListeners(0);
+
+export function emitStorageChange(change: StorageChange): void {
+  emitter.emit('change', { ...change, rootDir: path.resolve(change.rootDir) });
+}
+
+/**
+ * Calls the listener for every change; returns a function that unsubscribes it.
+ */
+export function onStorageChange(listener: (change: StorageChange) => void): () => void {
+  emitter.on('change', listener);
+  return () => {
+    emitter.off('change', listener);
+  };
+}
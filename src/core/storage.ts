@@ -1,27 +1,72 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
-import Handlebars from 'handlebars'; // Still needed for task file generation
+import Handlebars from 'handlebars'; // Still needed for _active.md and _overview.md generation
 import { Config, ConfigSchema } from '../types/config.js';
 import {
   Task,
   FeatureStatus,
+  FeatureSummary,
+  FeatureOverview,
+  ProjectOverview,
   ParseResult,
   ProjectContext,
   SimilarFeature,
+  SimilarTask,
   TestResult,
+  TaskCoverage,
   TaskStatus,
+  TaskStatusSource,
+  TaskStatusHistoryEntry,
+  TaskFileState,
+  FeatureRevision,
+  FeatureExport,
+  AcceptanceCriterion,
+  CriterionStatus,
+  TaskSyncField,
+  TaskSyncFieldSchema,
+  TaskSyncResult,
   DuplicateInfo,
   MergeResult,
   SaveFeatureOptions,
   SaveFeatureResult,
+  TaskReconciliation,
   ExistingFeature,
   ReverseEngineeredFeatureRecord,
   ReverseSpecStateSnapshot,
-  ReverseSpecStateWrite
+  ReverseSpecStateWrite,
+  AIContinuation
 } from '../types/index.js';
+import { TaskGraph } from './task-graph.js';
+import { matchTasks } from './task-reconciliation.js';
+import { mergeSpecs, revisionSources } from './spec-merge.js';
+import { generateFallbackGherkin } from './gherkin-generator.js';
+import { getTaskFileState, parseTaskMarkdown, renderTaskMarkdown } from './task-markdown.js';
+import { AppliedMigration, MigrationPlan, MigrationRunner } from './migrations.js';
+import {
+  EMBEDDING_DIMENSIONS,
+  cosineSimilarity,
+  deserializeEmbedding,
+  embedText,
+  serializeEmbedding,
+  splitIntoSegments
+} from './embeddings.js';
+import { computeTaskCoverage, FileCoverage } from './coverage-import.js';
+import { emitStorageChange } from './storage-events.js';
 
 export class Storage {
+  // Tables whose rows belong to a feature via feature_name
+  private static readonly FEATURE_SCOPED_TABLES = [
+    'tasks',
+    'task_status_history',
+    'acceptance_criteria',
+    'validation_results',
+    'test_results',
+    'task_coverage',
+    'feature_revisions',
+    'ai_continuations'
+  ];
+
   private db: Database.Database | null = null;
   private config: Config | null = null;
   private rootDir: string;
@@ -35,7 +80,11 @@ export class Storage {
     this.tasksDir = ''; // Will be set after config is loaded
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * Opens the project database. Pending schema migrations are applied unless
+   * `migrate` is false; a database newer than this code is always rejected.
+   */
+  async initialize(options: { migrate?: boolean } = {}): Promise<void> {
     // Check if speclinter is initialized
     try {
       await fs.access(this.speclinterDir);
@@ -59,13 +108,16 @@ export class Storage {
     await fs.mkdir(path.dirname(dbPath), { recursive: true });
     this.db = new Database(dbPath);
 
-    // Create tables
-    this.createTables();
-
-    // Run schema migrations
-    this.runMigrations();
-
-
+    const migrations = new MigrationRunner(this.db);
+    try {
+      migrations.assertSupported();
+      if (options.migrate !== false) {
+        migrations.migrate();
+      }
+    } catch (error) {
+      this.close();
+      throw error;
+    }
   }
 
   async getConfig(): Promise<Config> {
@@ -73,114 +125,17 @@ export class Storage {
     return this.config;
   }
 
-  private createTables(): void {
+  /**
+   * Applies pending schema migrations, or reports them when `dryRun` is set.
+   */
+  migrateDatabase(options: { dryRun?: boolean } = {}): MigrationPlan {
     if (!this.db) throw new Error('Database not initialized');
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS features (
-        id TEXT PRIMARY KEY,
-        name TEXT UNIQUE NOT NULL,
-        spec TEXT NOT NULL,
-        grade TEXT NOT NULL,
-        score INTEGER NOT NULL,
-        embedding BLOB,
-        source_type TEXT DEFAULT 'specification',
-        discovery_confidence REAL,
-        file_mappings TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        feature_name TEXT NOT NULL,
-        sequence INTEGER NOT NULL,
-        title TEXT NOT NULL,
-        slug TEXT NOT NULL,
-        summary TEXT NOT NULL,
-        implementation TEXT NOT NULL,
-        status TEXT NOT NULL,
-        acceptance_criteria TEXT NOT NULL,
-        test_file TEXT NOT NULL,
-        coverage_target TEXT NOT NULL,
-        notes TEXT NOT NULL,
-        dependencies TEXT,
-        blocks TEXT,
-        relevant_patterns TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (feature_name) REFERENCES features(name)
-      )
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS test_results (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_name TEXT NOT NULL,
-        task_id TEXT,
-        passed INTEGER NOT NULL,
-        failed INTEGER NOT NULL,
-        skipped INTEGER NOT NULL,
-        coverage REAL NOT NULL,
-        details TEXT NOT NULL,
-        run_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (feature_name) REFERENCES features(name)
-      )
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS validation_results (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_name TEXT NOT NULL,
-        overall_status TEXT NOT NULL,
-        completion_percentage REAL NOT NULL,
-        quality_score REAL NOT NULL,
-        validation_data TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (feature_name) REFERENCES features(name)
-      )
-    `);
-
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS reverse_spec_state (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        last_analysis DATETIME NOT NULL,
-        analyzed_files TEXT NOT NULL,
-        discovered_features TEXT NOT NULL,
-        analysis_scope TEXT NOT NULL,
-        confidence_threshold REAL NOT NULL,
-        analysis_depth TEXT NOT NULL,
-        total_files_analyzed INTEGER NOT NULL,
-        features_discovered INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+    return new MigrationRunner(this.db).migrate(options);
   }
 
-  private runMigrations(): void {
+  getAppliedMigrations(): AppliedMigration[] {
     if (!this.db) throw new Error('Database not initialized');
-
-    // Check if reverse spec columns exist in features table
-    try {
-      const result = this.db.prepare("PRAGMA table_info(features)").all() as any[];
-      const columnNames = result.map(col => col.name);
-
-      if (!columnNames.includes('source_type')) {
-        this.db.exec(`ALTER TABLE features ADD COLUMN source_type TEXT DEFAULT 'specification'`);
-      }
-
-      if (!columnNames.includes('discovery_confidence')) {
-        this.db.exec(`ALTER TABLE features ADD COLUMN discovery_confidence REAL`);
-      }
-
-      if (!columnNames.includes('file_mappings')) {
-        this.db.exec(`ALTER TABLE features ADD COLUMN file_mappings TEXT`);
-      }
-    } catch (error) {
-      // If migration fails, log but don't crash - table might not exist yet
-      console.warn('Schema migration warning:', error instanceof Error ? error.message : 'Unknown error');
-    }
+    return new MigrationRunner(this.db).getAppliedMigrations();
   }
 
   async loadProjectContext(): Promise<ProjectContext | null> {
@@ -313,6 +268,8 @@ export class Storage {
   ): Promise<SaveFeatureResult> {
     if (!this.db || !this.config) throw new Error('Storage not initialized');
 
+    const source = options.source ?? 'manual';
+
     // Check for existing feature with exact name
     const existingFeature = this.getExistingFeature(featureName);
 
@@ -320,12 +277,14 @@ export class Storage {
     if (!options.skipSimilarityCheck && this.config.deduplication.enabled) {
       const threshold = options.similarityThreshold ?? this.config.deduplication.similarityThreshold;
       const similarFeatures = await this.findSimilar(parseResult.spec, threshold);
+      const similarTasks = this.findTasksSimilarToNew(featureName, tasks);
 
       if (similarFeatures.length > 0 || existingFeature) {
         const duplicateInfo: DuplicateInfo = {
           type: existingFeature ? 'exact_match' : 'similar_features',
           existingFeature,
           similarFeatures,
+          similarTasks,
           recommendedAction: this.getRecommendedAction(similarFeatures, existingFeature)
         };
 
@@ -338,18 +297,26 @@ export class Storage {
           case 'merge':
             return await this.mergeWithExisting(featureName, tasks, parseResult, duplicateInfo);
           case 'replace':
-            // Continue with normal save (INSERT OR REPLACE handles this)
+            // Continue with normal save, which overwrites the feature
             break;
           case 'prompt':
           default:
             return { files: [], duplicateInfo }; // Let caller handle the decision
         }
       }
+
+      // Tasks repeated from other features don't block the save, but are reported
+      const { files, reconciliation } = await this.saveFeatureInternal(featureName, tasks, parseResult, source);
+      return {
+        files,
+        ...(similarTasks.length > 0 ? { similarTasks } : {}),
+        ...(reconciliation ? { reconciliation } : {})
+      };
     }
 
     // Continue with normal save using internal method
-    const files = await this.saveFeatureInternal(featureName, tasks, parseResult);
-    return { files };
+    const { files, reconciliation } = await this.saveFeatureInternal(featureName, tasks, parseResult, source);
+    return reconciliation ? { files, reconciliation } : { files };
   }
 
   // Legacy method for backward compatibility
@@ -369,74 +336,42 @@ export class Storage {
     task: Task,
     featureName: string
   ): Promise<void> {
-    const template = `# Task: {{title}}
-
-**ID**: {{id}}
-**Status**: {{statusEmoji}} {{status}}
-**Feature**: {{featureName}}
-{{#if dependencies}}
-**Dependencies**: {{dependencies}}
-{{/if}}
-{{#if blocks}}
-**Blocks**: {{blocks}}
-{{/if}}
-
-## Summary
-{{summary}}
-
-## Implementation Details
-{{implementation}}
-
-{{#if relevantPatterns}}
-## Patterns to Follow
-{{#each relevantPatterns}}
-- {{name}}: See \`.speclinter/context/patterns.md#{{anchor}}\`
-{{/each}}
-{{/if}}
-
-## Acceptance Criteria
-{{#each acceptanceCriteria}}
-- [ ] {{this}}
-{{/each}}
-
-## Test Coverage
-- **Gherkin**: \`gherkin/{{testFile}}\`
-- **Target**: {{coverageTarget}}
-
-## Implementation Notes
-{{notes}}
-
----
-*Generated by SpecLinter - Do not edit header metadata directly*`;
-
-    const compiled = Handlebars.compile(template);
+    await fs.writeFile(filePath, renderTaskMarkdown(task, featureName));
+    this.recordRenderedState(featureName, task);
+    emitStorageChange({ type: 'task', rootDir: this.rootDir, featureName, taskId: task.id });
+  }
 
-    const content = compiled({
-      ...task,
-      featureName,
-      dependencies: task.dependencies?.join(', '),
-      blocks: task.blocks?.join(', ')
-    });
+  /**
+   * Remembers what a task file looked like when it was last written so that
+   * syncTaskFiles can tell file edits apart from database changes.
+   */
+  private recordRenderedState(featureName: string, task: Task): void {
+    if (!this.db) throw new Error('Database not initialized');
 
-    await fs.writeFile(filePath, content);
+    this.db.prepare(`
+      UPDATE tasks SET rendered_state = ? WHERE id = ? AND feature_name = ?
+    `).run(JSON.stringify(getTaskFileState(task)), task.id, featureName);
   }
 
   private async writeGherkinFile(filePath: string, task: Task, featureName?: string): Promise<void> {
+    let content: string | null = null;
+
     // Try to use AI-powered Gherkin generation first
     try {
-      const aiGherkinContent = await this.generateAIGherkinScenarios(task, featureName);
-      if (aiGherkinContent) {
-        await fs.writeFile(filePath, aiGherkinContent);
-        return;
-      }
+      content = await this.generateAIGherkinScenarios(task, featureName);
     } catch (error) {
-      // Fall back to improved template if AI generation fails
-      console.warn('AI Gherkin generation failed, using improved template:', error instanceof Error ? error.message : 'Unknown error');
+      // Fall back to generated scenarios if AI generation fails
+      console.warn('AI Gherkin generation failed, using generated scenarios:', error instanceof Error ? error.message : 'Unknown error');
     }
 
-    // Improved fallback template with more specific scenarios
-    const gherkin = this.generateImprovedGherkinTemplate(task);
-    await fs.writeFile(filePath, gherkin);
+    // Deterministic scenarios shaped by the gherkinQuality settings
+    await fs.writeFile(filePath, content || this.generateContextAwareGherkin(task));
+    emitStorageChange({
+      type: 'gherkin',
+      rootDir: this.rootDir,
+      featureName: featureName ?? task.featureName,
+      file: path.basename(filePath)
+    });
   }
 
   private async generateAIGherkinScenarios(task: Task, featureName?: string): Promise<string | null> {
@@ -468,125 +403,8 @@ export class Storage {
   }
 
   private generateContextAwareGherkin(task: Task): string {
-    const scenarios = [];
-
-    // Generate happy path scenario
-    scenarios.push(this.generateHappyPathScenario(task));
-
-    // Generate error handling scenarios
-    scenarios.push(this.generateErrorHandlingScenario(task));
-
-    // Generate edge case scenarios if acceptance criteria suggest them
-    if (task.acceptanceCriteria.length > 2) {
-      scenarios.push(this.generateEdgeCaseScenario(task));
-    }
-
-    // Generate validation scenario if acceptance criteria mention validation
-    const hasValidation = task.acceptanceCriteria.some(criteria =>
-      criteria.toLowerCase().includes('valid') ||
-      criteria.toLowerCase().includes('format') ||
-      criteria.toLowerCase().includes('check')
-    );
-
-    if (hasValidation) {
-      scenarios.push(this.generateValidationScenario(task));
-    }
-
-    return `Feature: ${task.title}
-  ${task.summary}
-
-${scenarios.join('\n\n')}
-
-# Testing Notes:
-# - Ensure all acceptance criteria are covered
-# - Consider integration with existing system components
-# - Test with realistic data and edge cases
-# - Validate error handling and user feedback
-`;
-  }
-
-  private generateHappyPathScenario(task: Task): string {
-    const primaryCriteria = task.acceptanceCriteria[0] || 'functionality works correctly';
-
-    return `  Scenario: Successfully ${task.title.toLowerCase()}
-    Given the system is properly configured
-    And all prerequisites are met
-    When I ${this.extractUserAction(task.summary)}
-    Then ${primaryCriteria.toLowerCase()}
-    And the operation should complete successfully
-    And appropriate feedback should be provided`;
-  }
-
-  private generateErrorHandlingScenario(task: Task): string {
-    return `  Scenario: Handle errors during ${task.title.toLowerCase()}
-    Given the system is available
-    When I ${this.extractUserAction(task.summary)} with invalid data
-    Then an appropriate error message should be displayed
-    And the system should remain stable
-    And the user should be guided on how to correct the issue`;
-  }
-
-  private generateEdgeCaseScenario(task: Task): string {
-    return `  Scenario: Handle edge cases for ${task.title.toLowerCase()}
-    Given the system is under normal operation
-    When I ${this.extractUserAction(task.summary)} with boundary values
-    Then the system should handle the edge case gracefully
-    And appropriate validation should be applied
-    And the result should be consistent with business rules`;
-  }
-
-  private generateValidationScenario(task: Task): string {
-    return `  Scenario: Validate input for ${task.title.toLowerCase()}
-    Given the system is ready to accept input
-    When I provide invalid or malformed data
-    Then input validation should be triggered
-    And specific validation errors should be shown
-    And the user should understand what needs to be corrected`;
-  }
-
-  private extractUserAction(summary: string): string {
-    // Extract meaningful user action from task summary
-    const actionWords = ['create', 'update', 'delete', 'add', 'remove', 'configure', 'setup', 'implement'];
-    const lowerSummary = summary.toLowerCase();
-
-    for (const action of actionWords) {
-      if (lowerSummary.includes(action)) {
-        return summary.replace(/^(implement|create|add|setup|configure)\s*/i, '').trim();
-      }
-    }
-
-    return summary.toLowerCase();
-  }
-
-  private generateImprovedGherkinTemplate(task: Task): string {
-    // Improved fallback template that's more specific than the original
-    return `Feature: ${task.title}
-  ${task.summary}
-
-  Background:
-    Given the application is running
-    And the user has appropriate permissions
-
-  Scenario: ${task.title} - Success case
-    Given the system is in a valid state
-    When I complete the ${task.title.toLowerCase()} process
-    Then ${task.acceptanceCriteria[0] || 'the operation should succeed'}
-    And the system should provide confirmation
-
-  Scenario: ${task.title} - Error handling
-    Given the system is available
-    When an error occurs during ${task.title.toLowerCase()}
-    Then the error should be handled gracefully
-    And appropriate error messages should be displayed
-    And the system should remain stable
-
-  Scenario: ${task.title} - Input validation
-    Given I am performing ${task.title.toLowerCase()}
-    When I provide invalid input
-    Then input validation should prevent the operation
-    And clear validation messages should be shown
-    And I should be guided to provide correct input
-`;
+    if (!this.config) throw new Error('Storage not initialized');
+    return generateFallbackGherkin(task, this.config.generation);
   }
 
   async updateActiveFile(featureName: string): Promise<void> {
@@ -604,6 +422,14 @@ ${scenarios.join('\n\n')}
 {{#each tasks}}
 ### {{statusEmoji}} {{title}} ({{id}})
 {{summary}}
+{{#if criteriaTotal}}
+
+**Acceptance Criteria**: {{criteriaMet}}/{{criteriaTotal}} met
+{{/if}}
+{{#if coverageLine}}
+
+**Coverage**: {{coverageLine}}
+{{/if}}
 
 {{#unless (eq status "completed")}}
 **Next Steps**: {{implementation}}
@@ -627,13 +453,137 @@ ${scenarios.join('\n\n')}
       notStartedCount,
       tasks: tasks.map(t => ({
         ...t,
-        statusEmoji: this.getStatusEmoji(t.status)
+        statusEmoji: this.getStatusEmoji(t.status),
+        criteriaMet: (t.criteria ?? []).filter(criterion => criterion.status === 'met').length,
+        criteriaTotal: (t.criteria ?? []).length,
+        coverageLine: t.coverage ? this.formatCoverageLine(t.coverage) : ''
       })),
       nextActions
     });
 
     const activeFile = path.join(this.tasksDir, featureName, '_active.md');
     await fs.writeFile(activeFile, content);
+    emitStorageChange({ type: 'feature', rootDir: this.rootDir, featureName });
+  }
+
+  /**
+   * Aggregates status, latest validation and spec grade for every feature,
+   * ordered from highest to lowest risk.
+   */
+  async getProjectOverview(): Promise<ProjectOverview> {
+    const summaries = await this.listFeatures();
+    const features: FeatureOverview[] = [];
+
+    for (const summary of summaries) {
+      const latest = await this.getValidationResults(summary.name);
+      const validation = latest
+        ? {
+            qualityScore: latest.qualityScore,
+            completionPercentage: latest.completionPercentage,
+            validatedAt: latest.created_at
+          }
+        : null;
+
+      features.push({
+        name: summary.name,
+        grade: summary.grade,
+        score: summary.score,
+        status: summary.status,
+        validation,
+        ...this.calculateFeatureRisk(summary, validation)
+      });
+    }
+
+    features.sort((a, b) => b.riskScore - a.riskScore || a.name.localeCompare(b.name));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      totals: {
+        features: features.length,
+        tasks: features.reduce((sum, f) => sum + f.status.totalTasks, 0),
+        completedTasks: features.reduce((sum, f) => sum + f.status.completedTasks, 0),
+        inProgressTasks: features.reduce((sum, f) => sum + f.status.inProgressTasks, 0),
+        blockedTasks: features.reduce((sum, f) => sum + f.status.blockedTasks, 0)
+      },
+      features
+    };
+  }
+
+  private calculateFeatureRisk(
+    summary: FeatureSummary,
+    validation: FeatureOverview['validation']
+  ): Pick<FeatureOverview, 'riskScore' | 'riskLevel' | 'riskFactors'> {
+    const { totalTasks, completedTasks, blockedTasks } = summary.status;
+    const riskFactors: string[] = [];
+
+    const blockedPercentage = totalTasks > 0 ? (blockedTasks / totalTasks) * 100 : 0;
+    const completionPercentage = validation?.completionPercentage
+      ?? (totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0);
+    const qualityGap = validation ? 100 - validation.qualityScore : 100;
+    const qualityThreshold = this.config?.generation.specAnalysis.qualityThreshold ?? 70;
+
+    if (blockedTasks > 0) {
+      riskFactors.push(`${blockedTasks} blocked task(s)`);
+    }
+    if (summary.score < qualityThreshold) {
+      riskFactors.push(`Spec grade ${summary.grade} (${summary.score}) is below the quality threshold of ${qualityThreshold}`);
+    }
+    if (!validation) {
+      riskFactors.push('Never validated');
+    } else if (validation.qualityScore < qualityThreshold) {
+      riskFactors.push(`Validation quality score ${validation.qualityScore} is below ${qualityThreshold}`);
+    }
+
+    // Weighted blend of blocked work, spec quality, validation quality and remaining work
+    const riskScore = Math.round(
+      blockedPercentage * 0.4 +
+      (100 - summary.score) * 0.2 +
+      qualityGap * 0.25 +
+      (100 - completionPercentage) * 0.15
+    );
+
+    return {
+      riskScore,
+      riskLevel: riskScore >= 60 ? 'high' : riskScore >= 30 ? 'medium' : 'low',
+      riskFactors
+    };
+  }
+
+  /**
+   * Writes speclinter-tasks/_overview.md, the project-wide index of features.
+   */
+  async updateOverviewFile(overview?: ProjectOverview): Promise<string> {
+    const data = overview ?? await this.getProjectOverview();
+
+    const template = `# Project Overview
+
+**Features**: {{totals.features}}
+**Tasks**: {{totals.completedTasks}}/{{totals.tasks}} completed, {{totals.inProgressTasks}} in progress, {{totals.blockedTasks}} blocked
+**Last Updated**: {{generatedAt}}
+
+## Features by Risk
+
+| Risk | Feature | Spec Grade | Progress | Validation Quality | Validation Completion |
+| --- | --- | --- | --- | --- | --- |
+{{#each features}}
+| {{riskLevel}} ({{riskScore}}) | [{{name}}]({{name}}/_active.md) | {{grade}} ({{score}}) | {{status.completedTasks}}/{{status.totalTasks}} | {{#if validation}}{{validation.qualityScore}}/100{{else}}-{{/if}} | {{#if validation}}{{validation.completionPercentage}}%{{else}}-{{/if}} |
+{{/each}}
+
+{{#each features}}
+{{#if riskFactors.length}}
+### {{name}}
+{{#each riskFactors}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{/each}}`;
+
+    const compiled = Handlebars.compile(template, { noEscape: true });
+    await fs.mkdir(this.tasksDir, { recursive: true });
+    const overviewFile = path.join(this.tasksDir, '_overview.md');
+    await fs.writeFile(overviewFile, compiled(data));
+    return overviewFile;
   }
 
   async getFeatureStatus(featureName: string): Promise<FeatureStatus> {
@@ -670,135 +620,1172 @@ ${scenarios.join('\n\n')}
     featureName: string,
     taskId: string,
     status: TaskStatus,
-    notes?: string
+    notes?: string,
+    source: TaskStatusSource = 'manual'
   ): Promise<Task> {
     if (!this.db) throw new Error('Database not initialized');
 
-    this.db.prepare(`
-      UPDATE tasks
-      SET status = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
-      WHERE id = ? AND feature_name = ?
-    `).run(status, notes || '', taskId, featureName);
+    const previous = this.db.prepare(`
+      SELECT status FROM tasks WHERE id = ? AND feature_name = ?
+    `).get(taskId, featureName) as { status: TaskStatus } | undefined;
+
+    if (!previous) throw new Error(`Task ${taskId} not found`);
+
+    const db = this.db;
+    const graph = await this.getTaskGraph(featureName);
+
+    // A direct status update overrides an automatic block, but the task keeps
+    // waiting on its incomplete prerequisites in blocked_by; completing them
+    // then clears blocked_by without touching the status set here.
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE tasks
+        SET status = ?, notes = ?, status_before_block = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND feature_name = ?
+      `).run(status, notes || '', taskId, featureName);
+
+      this.recordStatusChange(featureName, taskId, previous.status, status, notes || '', source);
+      this.propagateStatusChange(graph, featureName, taskId, previous.status, status, source);
+    })();
 
     const task = this.db.prepare(`
       SELECT * FROM tasks WHERE id = ? AND feature_name = ?
     `).get(taskId, featureName) as any;
 
-    if (!task) throw new Error(`Task ${taskId} not found`);
-
     return this.dbTaskToTask(task);
   }
 
-  async updateTestResults(featureName: string, results: TestResult): Promise<void> {
+  /**
+   * Blocks dependents when a prerequisite stops being completed, and restores
+   * them to their previous status once it is completed again. Runs inside the
+   * caller's transaction, so the whole cascade is applied or none of it.
+   */
+  private propagateStatusChange(
+    graph: TaskGraph,
+    featureName: string,
+    taskId: string,
+    previousStatus: TaskStatus,
+    status: TaskStatus,
+    source: TaskStatusSource
+  ): void {
+    const wasCompleted = previousStatus === 'completed';
+    const isCompleted = status === 'completed';
+    if (wasCompleted === isCompleted) return;
+
+    for (const dependentId of graph.getDependents(taskId)) {
+      if (wasCompleted) {
+        this.applyAutomaticBlock(graph, featureName, dependentId, taskId, source);
+      } else {
+        this.releaseAutomaticBlock(graph, featureName, dependentId, taskId, source);
+      }
+    }
+  }
+
+  private applyAutomaticBlock(
+    graph: TaskGraph,
+    featureName: string,
+    taskId: string,
+    causeId: string,
+    source: TaskStatusSource
+  ): void {
     if (!this.db) throw new Error('Database not initialized');
 
+    const row = this.db.prepare(`
+      SELECT status, notes, blocked_by, status_before_block FROM tasks WHERE id = ? AND feature_name = ?
+    `).get(taskId, featureName) as any;
+    if (!row) return;
+
+    const blockedBy: string[] = JSON.parse(row.blocked_by || '[]');
+    if (blockedBy.includes(causeId)) return;
+
+    // Tasks updated directly while waiting are not blocked; keep their current status
+    const statusBeforeBlock = row.status === 'blocked' && blockedBy.length > 0 ? row.status_before_block : row.status;
+    const blockNote = this.getAutomaticBlockNote(causeId);
+    const notes = [row.notes, blockNote].filter(Boolean).join('\n');
+
     this.db.prepare(`
-      INSERT INTO test_results (feature_name, passed, failed, skipped, coverage, details)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).run(
-      featureName,
-      results.passed,
-      results.failed,
-      results.skipped,
-      results.coverage,
-      JSON.stringify(results.details)
-    );
+      UPDATE tasks
+      SET status = 'blocked', notes = ?, blocked_by = ?, status_before_block = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND feature_name = ?
+    `).run(notes, JSON.stringify([...blockedBy, causeId]), statusBeforeBlock, taskId, featureName);
+
+    this.recordStatusChange(featureName, taskId, row.status, 'blocked', blockNote, source);
+    this.propagateStatusChange(graph, featureName, taskId, row.status, 'blocked', source);
   }
 
-  async findSimilar(spec: string, threshold: number = 0.8): Promise<SimilarFeature[]> {
+  private releaseAutomaticBlock(
+    graph: TaskGraph,
+    featureName: string,
+    taskId: string,
+    causeId: string,
+    source: TaskStatusSource
+  ): void {
     if (!this.db) throw new Error('Database not initialized');
 
-    const features = this.db.prepare('SELECT * FROM features').all() as any[];
+    const row = this.db.prepare(`
+      SELECT status, notes, blocked_by, status_before_block FROM tasks WHERE id = ? AND feature_name = ?
+    `).get(taskId, featureName) as any;
+    if (!row) return;
 
-    return features
-      .map(f => ({
-        featureName: f.name,
-        score: this.calculateSimilarity(spec, f.spec),
-        summary: f.spec.substring(0, 100) + '...',
-        taskCount: this.getTaskCount(f.name),
-        status: 'active' // Simplified
-      }))
-      .filter(f => f.score >= threshold)
-      .sort((a, b) => b.score - a.score);
+    const blockedBy: string[] = JSON.parse(row.blocked_by || '[]');
+    if (!blockedBy.includes(causeId)) return;
+
+    const remaining = blockedBy.filter(id => id !== causeId);
+    const blockNote = this.getAutomaticBlockNote(causeId);
+    const notes = String(row.notes)
+      .split('\n')
+      .filter(line => line !== blockNote)
+      .join('\n');
+
+    // Keep waiting on the other prerequisites, or on none if the status was
+    // set directly while blocked
+    if (remaining.length > 0 || row.status !== 'blocked' || !row.status_before_block) {
+      this.db.prepare(`
+        UPDATE tasks
+        SET notes = ?, blocked_by = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND feature_name = ?
+      `).run(notes, remaining.length > 0 ? JSON.stringify(remaining) : null, taskId, featureName);
+      return;
+    }
+
+    const restoredStatus: TaskStatus = row.status_before_block;
+    this.db.prepare(`
+      UPDATE tasks
+      SET status = ?, notes = ?, blocked_by = NULL, status_before_block = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND feature_name = ?
+    `).run(restoredStatus, notes, taskId, featureName);
+
+    this.recordStatusChange(
+      featureName,
+      taskId,
+      'blocked',
+      restoredStatus,
+      `Unblocked automatically: prerequisite ${causeId} completed`,
+      source
+    );
+    this.propagateStatusChange(graph, featureName, taskId, 'blocked', restoredStatus, source);
   }
 
-  async getAllFeatures(): Promise<Array<{name: string, spec: string}>> {
+  private getAutomaticBlockNote(causeId: string): string {
+    return `Blocked automatically: prerequisite ${causeId} is no longer completed`;
+  }
+
+  private recordStatusChange(
+    featureName: string,
+    taskId: string,
+    oldStatus: TaskStatus | null,
+    newStatus: TaskStatus,
+    notes: string,
+    source: TaskStatusSource
+  ): void {
     if (!this.db) throw new Error('Database not initialized');
 
-    const features = this.db.prepare('SELECT name, spec FROM features').all() as Array<{name: string, spec: string}>;
-    return features;
+    this.db.prepare(`
+      INSERT INTO task_status_history (feature_name, task_id, old_status, new_status, notes, source)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(featureName, taskId, oldStatus, newStatus, notes, source);
+    emitStorageChange({ type: 'task', rootDir: this.rootDir, featureName, taskId });
   }
 
-  async getFeatureCount(): Promise<number> {
+  async getTaskHistory(featureName: string, taskId?: string): Promise<TaskStatusHistoryEntry[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const result = this.db.prepare(`
-      SELECT COUNT(*) as count FROM features
-    `).get() as { count: number };
-
-    return result.count;
+    const rows = (taskId
+      ? this.db.prepare(`
+          SELECT * FROM task_status_history
+          WHERE feature_name = ? AND task_id = ?
+          ORDER BY changed_at, id
+        `).all(featureName, taskId)
+      : this.db.prepare(`
+          SELECT * FROM task_status_history
+          WHERE feature_name = ?
+          ORDER BY changed_at, id
+        `).all(featureName)) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      featureName: row.feature_name,
+      taskId: row.task_id,
+      oldStatus: row.old_status,
+      newStatus: row.new_status,
+      notes: row.notes,
+      source: row.source,
+      changedAt: row.changed_at
+    }));
   }
 
-  async getFeatureNames(): Promise<string[]> {
+  /**
+   * Every saved version of a feature's spec, oldest first.
+   */
+  async getFeatureRevisions(featureName: string): Promise<FeatureRevision[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const features = this.db.prepare(`
-      SELECT name FROM features
-    `).all() as Array<{ name: string }>;
+    const rows = this.db.prepare(`
+      SELECT * FROM feature_revisions WHERE feature_name = ? ORDER BY revision
+    `).all(featureName) as any[];
 
-    return features.map((feature) => feature.name);
+    return rows.map(row => ({
+      featureName: row.feature_name,
+      revision: row.revision,
+      spec: row.spec,
+      grade: row.grade,
+      score: row.score,
+      createdAt: row.created_at
+    }));
   }
 
-  async getLatestReverseSpecState(): Promise<ReverseSpecStateSnapshot | null> {
+  /**
+   * Keeps the spec being saved as a new revision, unless it is the same as the latest one.
+   */
+  private recordFeatureRevision(featureName: string, spec: string, grade: string, score: number): void {
     if (!this.db) throw new Error('Database not initialized');
 
-    const result = this.db.prepare(`
-      SELECT * FROM reverse_spec_state
-      ORDER BY created_at DESC
-      LIMIT 1
-    `).get() as {
-      last_analysis: string;
-      analyzed_files: string;
-      discovered_features: string;
-      analysis_scope: string;
-    } | undefined;
+    const latest = this.db.prepare(`
+      SELECT revision, spec, grade, score FROM feature_revisions
+      WHERE feature_name = ? ORDER BY revision DESC LIMIT 1
+    `).get(featureName) as { revision: number; spec: string; grade: string; score: number } | undefined;
 
-    if (!result) {
-      return null;
+    if (latest && latest.spec === spec && latest.grade === grade && latest.score === score) {
+      return;
     }
 
-    return {
-      lastAnalysis: result.last_analysis,
-      analyzedFiles: JSON.parse(result.analyzed_files),
-      discoveredFeatures: JSON.parse(result.discovered_features),
-      analysisScope: result.analysis_scope
-    };
+    this.db.prepare(`
+      INSERT INTO feature_revisions (feature_name, revision, spec, grade, score)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(featureName, (latest?.revision ?? 0) + 1, spec, grade, score);
   }
 
-  async saveReverseEngineeredFeature(feature: ReverseEngineeredFeatureRecord): Promise<void> {
+  async getTaskGraph(featureName: string): Promise<TaskGraph> {
+    const tasks = await this.getFeatureTasks(featureName);
+    return new TaskGraph(tasks);
+  }
+
+  async getReadyTasks(featureName: string): Promise<Task[]> {
+    const graph = await this.getTaskGraph(featureName);
+    return graph.getReadyTasks();
+  }
+
+  async updateTestResults(featureName: string, results: TestResult, taskId?: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const featureId = `feat_reverse_${Date.now()}`;
     this.db.prepare(`
-      INSERT OR REPLACE INTO features (
-        id, name, spec, grade, score, source_type, discovery_confidence, file_mappings
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO test_results (feature_name, task_id, passed, failed, skipped, coverage, details)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `).run(
-      featureId,
-      feature.name,
-      feature.userStory,
-      'B',
-      Math.round(feature.confidence * 100),
-      'reverse_engineered',
-      feature.confidence,
-      JSON.stringify(feature.implementationMap)
+      featureName,
+      taskId ?? null,
+      results.passed,
+      results.failed,
+      results.skipped,
+      results.coverage,
+      JSON.stringify(results.details)
     );
   }
 
-  async appendReverseSpecState(state: ReverseSpecStateWrite): Promise<void> {
+  /**
+   * The most recent test_results row for each task of a feature (and for
+   * feature-level runs without a task), newest first.
+   */
+  async getLatestTestResults(featureName: string): Promise<Array<TestResult & { taskId: string | null; runAt: string }>> {
     if (!this.db) throw new Error('Database not initialized');
 
-    this.db.prepare(`
+    const rows = this.db.prepare(`
+      SELECT task_id, passed, failed, skipped, coverage, details, run_at
+      FROM test_results
+      WHERE id IN (
+        SELECT MAX(id) FROM test_results WHERE feature_name = ? GROUP BY COALESCE(task_id, '')
+      )
+      ORDER BY id DESC
+    `).all(featureName) as Array<{
+      task_id: string | null;
+      passed: number;
+      failed: number;
+      skipped: number;
+      coverage: number;
+      details: string;
+      run_at: string;
+    }>;
+
+    return rows.map(row => ({
+      taskId: row.task_id,
+      passed: row.passed,
+      failed: row.failed,
+      skipped: row.skipped,
+      coverage: row.coverage,
+      details: JSON.parse(row.details),
+      runAt: row.run_at
+    }));
+  }
+
+  /**
+   * Replaces the stored per-file coverage with the files of a newly ingested report.
+   */
+  async replaceCoverageFiles(files: FileCoverage[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+    const insert = db.prepare('INSERT OR REPLACE INTO coverage_files (file, covered_lines, total_lines) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM coverage_files').run();
+      for (const file of files) {
+        insert.run(file.file, file.coveredLines, file.totalLines);
+      }
+    })();
+  }
+
+  /**
+   * Recomputes each task's coverage from the stored coverage report and the
+   * implementation files recorded by the latest validation, then re-renders
+   * _active.md. Tasks without validated implementation files, or whose files
+   * are not in the report, have no coverage.
+   */
+  async refreshTaskCoverage(featureName: string): Promise<Array<{ taskId: string; implementationFiles: string[]; coverage?: TaskCoverage }>> {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    const coverageFiles = (db.prepare('SELECT file, covered_lines, total_lines FROM coverage_files').all() as Array<{
+      file: string;
+      covered_lines: number;
+      total_lines: number;
+    }>).map(row => ({ file: row.file, coveredLines: row.covered_lines, totalLines: row.total_lines }));
+    if (coverageFiles.length === 0) {
+      return [];
+    }
+
+    const validation = await this.getValidationResults(featureName);
+    const implementationFiles = new Map<string, string[]>(
+      (validation?.taskValidations ?? []).map((task: { taskId: string; implementationFiles?: string[] }) => [task.taskId, task.implementationFiles ?? []])
+    );
+    const tasks = await this.getFeatureTasks(featureName);
+    const upsert = db.prepare(`
+      INSERT OR REPLACE INTO task_coverage (feature_name, task_id, percentage, target, met, covered_lines, total_lines, files, measured_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const remove = db.prepare('DELETE FROM task_coverage WHERE feature_name = ? AND task_id = ?');
+
+    db.transaction(() => {
+      for (const task of tasks) {
+        const coverage = computeTaskCoverage(implementationFiles.get(task.id) ?? [], coverageFiles, task.coverageTarget, this.rootDir);
+        if (!coverage) {
+          remove.run(featureName, task.id);
+          continue;
+        }
+        upsert.run(
+          featureName,
+          task.id,
+          coverage.percentage,
+          coverage.target,
+          coverage.met === null ? null : coverage.met ? 1 : 0,
+          coverage.coveredLines,
+          coverage.totalLines,
+          JSON.stringify(coverage.files)
+        );
+      }
+    })();
+
+    await this.updateActiveFile(featureName);
+
+    return tasks.map(task => ({
+      taskId: task.id,
+      implementationFiles: implementationFiles.get(task.id) ?? [],
+      coverage: this.getTaskCoverage(featureName, task.id)
+    }));
+  }
+
+  private formatCoverageLine(coverage: TaskCoverage): string {
+    const measured = `${coverage.percentage}% of lines`;
+    if (coverage.target === null) {
+      return `${measured} (no numeric target)`;
+    }
+    return `${measured}, target ${coverage.target}% ${coverage.met ? '✅ met' : '❌ unmet'}`;
+  }
+
+  private getTaskCoverage(featureName: string, taskId: string): TaskCoverage | undefined {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare(`
+      SELECT * FROM task_coverage WHERE feature_name = ? AND task_id = ?
+    `).get(featureName, taskId) as any;
+    if (!row) return undefined;
+
+    return {
+      percentage: row.percentage,
+      target: row.target,
+      met: row.met === null ? null : row.met === 1,
+      coveredLines: row.covered_lines,
+      totalLines: row.total_lines,
+      files: JSON.parse(row.files),
+      measuredAt: row.measured_at
+    };
+  }
+
+  /**
+   * Ranks features by cosine similarity between their stored spec embedding and the given spec.
+   */
+  async findSimilar(spec: string, threshold: number = 0.8): Promise<SimilarFeature[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    this.ensureEmbeddings();
+
+    const query = embedText(spec);
+    const features = this.db.prepare('SELECT name, spec, embedding FROM features').all() as Array<{
+      name: string;
+      spec: string;
+      embedding: Buffer;
+    }>;
+
+    return features
+      .map(f => ({
+        featureName: f.name,
+        score: cosineSimilarity(query, deserializeEmbedding(f.embedding)!),
+        summary: f.spec.substring(0, 100) + '...',
+        taskCount: this.getTaskCount(f.name),
+        status: 'active' // Simplified
+      }))
+      .filter(f => f.score >= threshold)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Ranks tasks across features by cosine similarity to the given text. With
+   * matchSegments, each line or sentence of the text is also matched on its
+   * own, so a multi-requirement spec finds tasks covering any one requirement.
+   */
+  async findSimilarTasks(
+    text: string,
+    threshold: number,
+    options: { excludeFeature?: string; matchSegments?: boolean } = {}
+  ): Promise<SimilarTask[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    this.ensureEmbeddings();
+
+    const queries = [text, ...(options.matchSegments ? splitIntoSegments(text) : [])].map(embedText);
+
+    return this.getTaskEmbeddings(options.excludeFeature)
+      .map(task => ({
+        featureName: task.featureName,
+        taskId: task.taskId,
+        title: task.title,
+        score: Math.max(...queries.map(query => cosineSimilarity(query, task.embedding)))
+      }))
+      .filter(task => task.score >= threshold)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Best match in other features for each task about to be saved, above the task similarity threshold.
+   */
+  private findTasksSimilarToNew(featureName: string, tasks: Task[]): SimilarTask[] {
+    this.ensureEmbeddings();
+    const threshold = this.config?.deduplication.taskSimilarityThreshold ?? 0.9;
+    const existingTasks = this.getTaskEmbeddings(featureName);
+    const matches: SimilarTask[] = [];
+
+    for (const task of tasks) {
+      const query = embedText(taskEmbeddingText(task));
+      let best: SimilarTask | undefined;
+      for (const existing of existingTasks) {
+        const score = cosineSimilarity(query, existing.embedding);
+        if (score >= threshold && score > (best?.score ?? 0)) {
+          best = { featureName: existing.featureName, taskId: existing.taskId, title: existing.title, score, matchedTaskId: task.id };
+        }
+      }
+      if (best) matches.push(best);
+    }
+
+    return matches;
+  }
+
+  private getTaskEmbeddings(excludeFeature?: string): Array<{ featureName: string; taskId: string; title: string; embedding: Float32Array }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db.prepare(`
+      SELECT id, feature_name, title, embedding FROM tasks WHERE feature_name != ? ORDER BY feature_name, sequence
+    `).all(excludeFeature ?? '') as Array<{ id: string; feature_name: string; title: string; embedding: Buffer }>;
+
+    return rows.map(row => ({
+      featureName: row.feature_name,
+      taskId: row.id,
+      title: row.title,
+      embedding: deserializeEmbedding(row.embedding)!
+    }));
+  }
+
+  /**
+   * Embeds features and tasks saved before embeddings were stored, or with a different vector size.
+   */
+  private ensureEmbeddings(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+    const byteLength = EMBEDDING_DIMENSIONS * Float32Array.BYTES_PER_ELEMENT;
+
+    const features = db.prepare(`
+      SELECT name, spec FROM features WHERE embedding IS NULL OR length(embedding) != ?
+    `).all(byteLength) as Array<{ name: string; spec: string }>;
+    const tasks = db.prepare(`
+      SELECT id, feature_name, title, summary, acceptance_criteria FROM tasks
+      WHERE embedding IS NULL OR length(embedding) != ?
+    `).all(byteLength) as Array<{ id: string; feature_name: string; title: string; summary: string; acceptance_criteria: string }>;
+
+    if (features.length === 0 && tasks.length === 0) {
+      return;
+    }
+
+    const updateFeature = db.prepare('UPDATE features SET embedding = ? WHERE name = ?');
+    const updateTask = db.prepare('UPDATE tasks SET embedding = ? WHERE id = ? AND feature_name = ?');
+
+    db.transaction(() => {
+      for (const feature of features) {
+        updateFeature.run(serializeEmbedding(embedText(feature.spec)), feature.name);
+      }
+      for (const task of tasks) {
+        const text = taskEmbeddingText({
+          title: task.title,
+          summary: task.summary,
+          acceptanceCriteria: JSON.parse(task.acceptance_criteria)
+        });
+        updateTask.run(serializeEmbedding(embedText(text)), task.id, task.feature_name);
+      }
+    })();
+  }
+
+  async getAllFeatures(): Promise<Array<{name: string, spec: string}>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const features = this.db.prepare('SELECT name, spec FROM features').all() as Array<{name: string, spec: string}>;
+    return features;
+  }
+
+  async getFeatureCount(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.prepare(`
+      SELECT COUNT(*) as count FROM features
+    `).get() as { count: number };
+
+    return result.count;
+  }
+
+  async getFeatureNames(): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const features = this.db.prepare(`
+      SELECT name FROM features
+    `).all() as Array<{ name: string }>;
+
+    return features.map((feature) => feature.name);
+  }
+
+  async listFeatures(): Promise<FeatureSummary[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const features = this.db.prepare(`
+      SELECT name, grade, score, source_type, created_at FROM features ORDER BY name
+    `).all() as Array<{ name: string; grade: string; score: number; source_type: string | null; created_at: string }>;
+
+    return Promise.all(features.map(async feature => ({
+      name: feature.name,
+      grade: feature.grade,
+      score: feature.score,
+      sourceType: feature.source_type ?? 'specification',
+      createdAt: feature.created_at,
+      status: await this.getFeatureStatus(feature.name)
+    })));
+  }
+
+  /**
+   * Renames a feature across every table that references it and moves its task folder.
+   */
+  async renameFeature(oldName: string, newName: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.assertValidFeatureName(newName);
+    if (!this.getExistingFeature(oldName)) {
+      throw new Error(`Feature '${oldName}' not found`);
+    }
+    if (this.getExistingFeature(newName) || await this.pathExists(path.join(this.tasksDir, newName))) {
+      throw new Error(`Feature '${newName}' already exists`);
+    }
+
+    const oldDir = path.join(this.tasksDir, oldName);
+    const newDir = path.join(this.tasksDir, newName);
+    const hasDir = await this.pathExists(oldDir);
+
+    if (hasDir) {
+      await fs.rename(oldDir, newDir);
+    }
+
+    try {
+      const db = this.db;
+      db.transaction(() => {
+        // Parent and child rows change in the same transaction, so check references at commit
+        db.pragma('defer_foreign_keys = ON');
+        db.prepare('UPDATE features SET name = ? WHERE name = ?').run(newName, oldName);
+        // Answered continuations run with their stored arguments, so those must name the feature too
+        db.prepare(`
+          UPDATE ai_continuations SET inputs = json_set(inputs, '$.feature_name', ?) WHERE feature_name = ?
+        `).run(newName, oldName);
+        for (const table of Storage.FEATURE_SCOPED_TABLES) {
+          db.prepare(`UPDATE ${table} SET feature_name = ? WHERE feature_name = ?`).run(newName, oldName);
+        }
+      })();
+    } catch (error) {
+      if (hasDir) {
+        await fs.rename(newDir, oldDir);
+      }
+      throw error;
+    }
+
+    emitStorageChange({ type: 'features', rootDir: this.rootDir, featureName: oldName });
+    emitStorageChange({ type: 'features', rootDir: this.rootDir, featureName: newName });
+
+    if (!hasDir) {
+      return [];
+    }
+
+    return this.rewriteFeatureFiles(newName);
+  }
+
+  /**
+   * Deletes a feature, its task rows, history, validation and test results,
+   * pending AI continuations and its task folder.
+   */
+  async deleteFeature(featureName: string): Promise<{ tasksDeleted: number; directoryRemoved: boolean }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.assertValidFeatureName(featureName);
+    if (!this.getExistingFeature(featureName)) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    const tasksDeleted = this.getTaskCount(featureName);
+    const featureDir = path.join(this.tasksDir, featureName);
+    const stagingDir = path.join(this.tasksDir, `.${featureName}.deleting-${Date.now()}`);
+    const hasDir = await this.pathExists(featureDir);
+
+    // Move the folder aside first so a failed DB delete can be rolled back
+    if (hasDir) {
+      await fs.rename(featureDir, stagingDir);
+    }
+
+    try {
+      const db = this.db;
+      db.transaction(() => {
+        for (const table of Storage.FEATURE_SCOPED_TABLES) {
+          db.prepare(`DELETE FROM ${table} WHERE feature_name = ?`).run(featureName);
+        }
+        db.prepare('DELETE FROM features WHERE name = ?').run(featureName);
+      })();
+    } catch (error) {
+      if (hasDir) {
+        await fs.rename(stagingDir, featureDir);
+      }
+      throw error;
+    }
+
+    if (hasDir) {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+    emitStorageChange({ type: 'features', rootDir: this.rootDir, featureName });
+
+    return { tasksDeleted, directoryRemoved: hasDir };
+  }
+
+  private assertValidFeatureName(featureName: string): void {
+    if (
+      !featureName.trim() ||
+      featureName === '.' ||
+      featureName === '..' ||
+      /[\\/]/.test(featureName)
+    ) {
+      throw new Error(`Invalid feature name '${featureName}': names cannot be empty or contain path separators`);
+    }
+  }
+
+  private async pathExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Re-renders task markdown, meta.json and _active.md from the database.
+   */
+  private async rewriteFeatureFiles(featureName: string): Promise<string[]> {
+    const featureDir = path.join(this.tasksDir, featureName);
+    const tasks = await this.getFeatureTasks(featureName);
+    const writtenFiles: string[] = [];
+
+    for (let i = 0; i < tasks.length; i++) {
+      const taskPath = path.join(featureDir, this.getTaskFileName(i, tasks[i]));
+      await this.writeTaskFile(taskPath, tasks[i], featureName);
+      writtenFiles.push(taskPath);
+    }
+
+    const metaPath = path.join(featureDir, 'meta.json');
+    const meta = JSON.parse(await this.readOptionalFile(metaPath) || '{}');
+    await fs.writeFile(metaPath, JSON.stringify({ ...meta, featureName }, null, 2));
+    writtenFiles.push(metaPath);
+
+    await this.updateActiveFile(featureName);
+    writtenFiles.push(path.join(featureDir, '_active.md'));
+
+    return writtenFiles;
+  }
+
+  /**
+   * Reconciles edited task markdown files with the database. A field edited on
+   * only one side since the last render is copied to the other; a field edited
+   * on both sides is a conflict, resolved by `prefer` or reported and left as is.
+   */
+  async syncTaskFiles(
+    featureName: string,
+    options: { prefer?: 'file' | 'database' } = {}
+  ): Promise<TaskSyncResult> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (!this.getExistingFeature(featureName)) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    const featureDir = path.join(this.tasksDir, featureName);
+    const result: TaskSyncResult = {
+      featureName,
+      updatedFromFiles: [],
+      rerenderedFiles: [],
+      conflicts: [],
+      errors: []
+    };
+
+    const tasks = await this.getFeatureTasks(featureName);
+    const taskFiles = new Map<string, { path: string; content: string; state: TaskFileState }>();
+    const unreadableFiles = new Set<string>();
+
+    const fileNames = (await this.pathExists(featureDir) ? await fs.readdir(featureDir) : [])
+      .filter(name => /^task_.*\.md$/.test(name))
+      .sort();
+
+    for (const fileName of fileNames) {
+      const filePath = path.join(featureDir, fileName);
+      const content = await fs.readFile(filePath, 'utf-8');
+
+      try {
+        const parsed = parseTaskMarkdown(content);
+        const task = tasks.find(t => t.id === parsed.id);
+        if (!task) {
+          throw new Error(`Unknown task ID ${parsed.id}`);
+        }
+        // Only checkbox state is synced; edited criterion text is ignored
+        const checkedCriteria = task.acceptanceCriteria.filter(text => parsed.state.checkedCriteria.includes(text));
+        taskFiles.set(task.id, { path: filePath, content, state: { ...parsed.state, checkedCriteria } });
+      } catch (error) {
+        unreadableFiles.add(filePath);
+        result.errors.push({ file: filePath, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const unresolvedTasks = new Set<string>();
+    const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+    for (const listed of tasks) {
+      const file = taskFiles.get(listed.id);
+      if (!file) continue;
+
+      // Re-read: an earlier status change may have propagated to this task
+      const task = (await this.getTask(featureName, listed.id))!;
+      const database = getTaskFileState(task);
+      const rendered = this.getRenderedState(featureName, task.id);
+      const merged: TaskFileState = { ...database };
+      const fromFile: TaskSyncField[] = [];
+
+      for (const field of TaskSyncFieldSchema.options) {
+        const fileValue = file.state[field];
+        const databaseValue = database[field];
+        if (sameValue(fileValue, databaseValue)) continue;
+
+        // Without a render snapshot there is no way to tell which side changed
+        const fileChanged = !rendered || !sameValue(fileValue, rendered[field]);
+        const databaseChanged = !rendered || !sameValue(databaseValue, rendered[field]);
+
+        if (!fileChanged) continue;
+        if (!databaseChanged) {
+          Object.assign(merged, { [field]: fileValue });
+          fromFile.push(field);
+          continue;
+        }
+
+        const resolution = options.prefer ?? 'unresolved';
+        result.conflicts.push({ taskId: task.id, field, fileValue, databaseValue, resolution });
+        if (resolution === 'file') {
+          Object.assign(merged, { [field]: fileValue });
+          fromFile.push(field);
+        } else if (resolution === 'unresolved') {
+          unresolvedTasks.add(task.id);
+        }
+      }
+
+      if (fromFile.length === 0) continue;
+
+      this.db.prepare(`
+        UPDATE tasks SET notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND feature_name = ?
+      `).run(merged.notes, task.id, featureName);
+      this.applyCheckedCriteria(featureName, task, merged.checkedCriteria);
+
+      if (merged.status !== database.status) {
+        await this.updateTaskStatus(featureName, task.id, merged.status, merged.notes, 'markdown_sync');
+      }
+
+      result.updatedFromFiles.push({ taskId: task.id, fields: fromFile });
+    }
+
+    // Re-render from the database, leaving files with unresolved conflicts or parse errors alone
+    const currentTasks = await this.getFeatureTasks(featureName);
+    for (let i = 0; i < currentTasks.length; i++) {
+      const task = currentTasks[i];
+      const file = taskFiles.get(task.id);
+      const filePath = file?.path ?? path.join(featureDir, this.getTaskFileName(i, task));
+      if (unresolvedTasks.has(task.id) || unreadableFiles.has(filePath)) continue;
+
+      if (renderTaskMarkdown(task, featureName) !== file?.content) {
+        await fs.mkdir(featureDir, { recursive: true });
+        await this.writeTaskFile(filePath, task, featureName);
+        result.rerenderedFiles.push(filePath);
+      } else {
+        this.recordRenderedState(featureName, task);
+      }
+    }
+
+    if (result.updatedFromFiles.length > 0 || result.rerenderedFiles.length > 0) {
+      await this.updateActiveFile(featureName);
+    }
+
+    return result;
+  }
+
+  getTaskCriteria(featureName: string, taskId: string): AcceptanceCriterion[] {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db.prepare(`
+      SELECT * FROM acceptance_criteria WHERE feature_name = ? AND task_id = ? ORDER BY sequence
+    `).all(featureName, taskId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      taskId: row.task_id,
+      text: row.text,
+      status: row.status,
+      evidence: row.evidence,
+      evidenceFiles: JSON.parse(row.evidence_files),
+      confidence: row.confidence,
+      lastValidated: row.last_validated
+    }));
+  }
+
+  /**
+   * Keeps one acceptance_criteria row per criterion of a task. Criteria whose
+   * text is unchanged keep their validation state; removed criteria are dropped.
+   */
+  private saveTaskCriteria(featureName: string, task: Task): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const existing = this.getTaskCriteria(featureName, task.id);
+    const byText = new Map(existing.map(criterion => [criterion.text, criterion]));
+    let lastNumber = existing.reduce(
+      (max, criterion) => Math.max(max, Number(criterion.id.match(/_ac_(\d+)$/)?.[1] ?? 0)),
+      0
+    );
+    const kept = new Set<string>();
+
+    task.acceptanceCriteria.forEach((text, index) => {
+      const current = byText.get(text);
+      if (current) {
+        byText.delete(text);
+        kept.add(current.id);
+        this.db!.prepare(`
+          UPDATE acceptance_criteria SET sequence = ? WHERE feature_name = ? AND id = ?
+        `).run(index, featureName, current.id);
+        return;
+      }
+
+      const id = `${task.id}_ac_${String(++lastNumber).padStart(2, '0')}`;
+      kept.add(id);
+      this.db!.prepare(`
+        INSERT INTO acceptance_criteria (id, feature_name, task_id, sequence, text)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(id, featureName, task.id, index, text);
+    });
+
+    for (const criterion of existing.filter(criterion => !kept.has(criterion.id))) {
+      this.db.prepare('DELETE FROM acceptance_criteria WHERE feature_name = ? AND id = ?').run(featureName, criterion.id);
+    }
+  }
+
+  /**
+   * Applies checkbox edits from a task file: ticking marks a criterion met,
+   * unticking a met criterion marks it not met.
+   */
+  private applyCheckedCriteria(featureName: string, task: Task, checkedCriteria: string[]): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const criterion of task.criteria ?? []) {
+      const checked = checkedCriteria.includes(criterion.text);
+      const status: CriterionStatus | null = checked && criterion.status !== 'met'
+        ? 'met'
+        : !checked && criterion.status === 'met' ? 'not_met' : null;
+      if (!status) continue;
+
+      this.db.prepare(`
+        UPDATE acceptance_criteria SET status = ? WHERE feature_name = ? AND id = ?
+      `).run(status, featureName, criterion.id);
+    }
+  }
+
+  /**
+   * Records AI validation of a task's acceptance criteria. Each assessment is
+   * matched to a stored criterion by its text; unmatched assessments are returned.
+   */
+  async updateCriteriaValidation(
+    featureName: string,
+    taskId: string,
+    assessments: Array<{ criteria: string; status: CriterionStatus; evidence: string; confidence: number }>,
+    implementationFiles: string[] = []
+  ): Promise<{ updated: AcceptanceCriterion[]; unmatched: string[] }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const criteria = this.getTaskCriteria(featureName, taskId);
+    const remaining = [...criteria];
+    const updatedIds: string[] = [];
+    const unmatched: string[] = [];
+
+    for (const assessment of assessments) {
+      const criterion = this.matchCriterion(assessment.criteria, remaining);
+      if (!criterion) {
+        unmatched.push(assessment.criteria);
+        continue;
+      }
+      remaining.splice(remaining.indexOf(criterion), 1);
+
+      // Prefer files the evidence mentions; otherwise credit every implementation file
+      const mentioned = implementationFiles.filter(file => assessment.evidence.includes(file));
+      const evidenceFiles = mentioned.length > 0 ? mentioned : implementationFiles;
+
+      this.db.prepare(`
+        UPDATE acceptance_criteria
+        SET status = ?, evidence = ?, evidence_files = ?, confidence = ?, last_validated = CURRENT_TIMESTAMP
+        WHERE feature_name = ? AND id = ?
+      `).run(
+        assessment.status,
+        assessment.evidence,
+        JSON.stringify(evidenceFiles),
+        assessment.confidence,
+        featureName,
+        criterion.id
+      );
+      updatedIds.push(criterion.id);
+    }
+
+    const updated = this.getTaskCriteria(featureName, taskId).filter(criterion => updatedIds.includes(criterion.id));
+    return { updated, unmatched };
+  }
+
+  /**
+   * Finds the stored criterion an AI assessment refers to: exact text first
+   * (ignoring case and whitespace), then containment, then best word overlap.
+   */
+  private matchCriterion(text: string, candidates: AcceptanceCriterion[]): AcceptanceCriterion | null {
+    const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+    const target = normalize(text);
+
+    const exact = candidates.find(candidate => normalize(candidate.text) === target);
+    if (exact) return exact;
+
+    const containing = candidates.find(candidate => {
+      const candidateText = normalize(candidate.text);
+      return candidateText.includes(target) || target.includes(candidateText);
+    });
+    if (containing) return containing;
+
+    const words = (value: string) => new Set(normalize(value).split(/\W+/).filter(word => word.length > 2));
+    const targetWords = words(text);
+    let best: { criterion: AcceptanceCriterion; score: number } | null = null;
+
+    for (const candidate of candidates) {
+      const candidateWords = words(candidate.text);
+      const shared = [...targetWords].filter(word => candidateWords.has(word)).length;
+      const union = new Set([...targetWords, ...candidateWords]).size;
+      const score = union > 0 ? shared / union : 0;
+      if (score >= 0.5 && (!best || score > best.score)) {
+        best = { criterion: candidate, score };
+      }
+    }
+
+    return best?.criterion ?? null;
+  }
+
+  private getRenderedState(featureName: string, taskId: string): TaskFileState | null {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare(`
+      SELECT rendered_state FROM tasks WHERE id = ? AND feature_name = ?
+    `).get(taskId, featureName) as { rendered_state: string | null } | undefined;
+
+    return row?.rendered_state ? JSON.parse(row.rendered_state) : null;
+  }
+
+  /**
+   * Collects a feature's spec, tasks with their criteria and Gherkin file content for export.
+   */
+  async getFeatureExport(featureName: string): Promise<FeatureExport> {
+    const feature = this.getExistingFeature(featureName);
+    if (!feature) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    const gherkinDir = path.join(this.tasksDir, featureName, 'gherkin');
+    const tasks = await this.getFeatureTasks(featureName);
+
+    return {
+      featureName,
+      spec: feature.spec,
+      grade: feature.grade,
+      score: feature.score,
+      tasks: await Promise.all(tasks.map(async task => ({
+        ...task,
+        gherkin: task.testFile ? await this.readOptionalFile(path.join(gherkinDir, task.testFile)) || null : null
+      })))
+    };
+  }
+
+  /**
+   * The Gherkin files of a feature's tasks, and the default directories holding
+   * step definitions for them: the feature's own steps folder, then the project's.
+   */
+  async getScenarioSources(featureName: string, taskId?: string): Promise<{
+    files: Array<{ taskId: string; testFile: string; content: string | null }>;
+    stepDirs: string[];
+  }> {
+    if (!this.getExistingFeature(featureName)) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    const tasks = (await this.getFeatureTasks(featureName))
+      .filter(task => task.testFile && (!taskId || task.id === taskId));
+    if (taskId && tasks.length === 0) {
+      throw new Error(`Task '${taskId}' not found in feature '${featureName}' or has no Gherkin file`);
+    }
+
+    const gherkinDir = path.join(this.tasksDir, featureName, 'gherkin');
+    return {
+      files: await Promise.all(tasks.map(async task => ({
+        taskId: task.id,
+        testFile: task.testFile,
+        content: await this.readOptionalFile(path.join(gherkinDir, task.testFile)) || null
+      }))),
+      stepDirs: [
+        path.join(this.tasksDir, featureName, 'steps'),
+        path.join(this.rootDir, '.speclinter', 'steps')
+      ]
+    };
+  }
+
+  /**
+   * Records a spec quality grade for a feature saved without one, such as an imported feature.
+   */
+  async updateFeatureGrade(featureName: string, grade: string, score: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (!this.getExistingFeature(featureName)) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    this.db.prepare('UPDATE features SET grade = ?, score = ? WHERE name = ?').run(grade, score, featureName);
+    this.db.prepare(`
+      UPDATE feature_revisions SET grade = ?, score = ?
+      WHERE feature_name = ? AND revision = (SELECT MAX(revision) FROM feature_revisions WHERE feature_name = ?)
+    `).run(grade, score, featureName, featureName);
+
+    const metaPath = path.join(this.tasksDir, featureName, 'meta.json');
+    const meta = JSON.parse(await this.readOptionalFile(metaPath) || '{}');
+    await fs.writeFile(metaPath, JSON.stringify({ ...meta, grade, score }, null, 2));
+    emitStorageChange({ type: 'feature', rootDir: this.rootDir, featureName });
+  }
+
+  /**
+   * Replaces a feature's spec without touching its tasks, keeping the current
+   * grade, and records it as a new revision. Returns the latest revision number.
+   */
+  async updateFeatureSpec(featureName: string, spec: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+    const feature = this.getExistingFeature(featureName);
+    if (!feature) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    this.db.prepare('UPDATE features SET spec = ?, embedding = ? WHERE name = ?')
+      .run(spec, serializeEmbedding(embedText(spec)), featureName);
+    this.recordFeatureRevision(featureName, spec, feature.grade, feature.score);
+    emitStorageChange({ type: 'feature', rootDir: this.rootDir, featureName });
+
+    const revisions = await this.getFeatureRevisions(featureName);
+    return revisions[revisions.length - 1].revision;
+  }
+
+  private getTaskFileName(index: number, task: Task): string {
+    return `task_${String(index + 1).padStart(2, '0')}_${task.slug}.md`;
+  }
+
+  async getLatestReverseSpecState(): Promise<ReverseSpecStateSnapshot | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.prepare(`
+      SELECT * FROM reverse_spec_state
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `).get() as {
+      last_analysis: string;
+      analyzed_files: string;
+      discovered_features: string;
+      analysis_scope: string;
+    } | undefined;
+
+    if (!result) {
+      return null;
+    }
+
+    return {
+      lastAnalysis: result.last_analysis,
+      analyzedFiles: JSON.parse(result.analyzed_files),
+      discoveredFeatures: JSON.parse(result.discovered_features),
+      analysisScope: result.analysis_scope
+    };
+  }
+
+  async saveReverseEngineeredFeature(feature: ReverseEngineeredFeatureRecord): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const featureId = `feat_reverse_${Date.now()}`;
+    this.db.prepare(`
+      INSERT OR REPLACE INTO features (
+        id, name, spec, grade, score, source_type, discovery_confidence, file_mappings, embedding
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      featureId,
+      feature.name,
+      feature.userStory,
+      'B',
+      Math.round(feature.confidence * 100),
+      'reverse_engineered',
+      feature.confidence,
+      JSON.stringify(feature.implementationMap),
+      serializeEmbedding(embedText(feature.userStory))
+    );
+    this.recordFeatureRevision(feature.name, feature.userStory, 'B', Math.round(feature.confidence * 100));
+  }
+
+  async appendReverseSpecState(state: ReverseSpecStateWrite): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.prepare(`
       INSERT INTO reverse_spec_state (
         last_analysis, analyzed_files, discovered_features, analysis_scope,
         confidence_threshold, analysis_depth, total_files_analyzed, features_discovered
@@ -815,6 +1802,72 @@ ${scenarios.join('\n\n')}
     );
   }
 
+  async saveAIContinuation(continuation: AIContinuation): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.prepare(`
+      INSERT INTO ai_continuations (id, tool, feature_name, feature_revision, schema, prompt_hash, inputs, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      continuation.id,
+      continuation.tool,
+      continuation.featureName,
+      continuation.featureRevision,
+      continuation.schema,
+      continuation.promptHash,
+      JSON.stringify(continuation.inputs),
+      continuation.createdAt,
+      continuation.expiresAt
+    );
+  }
+
+  async getAIContinuation(id: string): Promise<AIContinuation | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare('SELECT * FROM ai_continuations WHERE id = ?').get(id) as any;
+    return row ? this.mapAIContinuationRow(row) : null;
+  }
+
+  /**
+   * Continuations still waiting for an analysis, oldest first. Expired ones
+   * are included; callers decide whether to drop them.
+   */
+  async listAIContinuations(): Promise<AIContinuation[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = this.db.prepare('SELECT * FROM ai_continuations ORDER BY created_at, id').all() as any[];
+    return rows.map(row => this.mapAIContinuationRow(row));
+  }
+
+  async deleteAIContinuation(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db.prepare('DELETE FROM ai_continuations WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Drops continuations that expired before the given time and returns how many were dropped.
+   */
+  async deleteExpiredAIContinuations(now: Date = new Date()): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db.prepare('DELETE FROM ai_continuations WHERE expires_at <= ?').run(now.toISOString()).changes;
+  }
+
+  private mapAIContinuationRow(row: any): AIContinuation {
+    return {
+      id: row.id,
+      tool: row.tool,
+      featureName: row.feature_name,
+      featureRevision: row.feature_revision,
+      schema: row.schema,
+      promptHash: row.prompt_hash,
+      inputs: JSON.parse(row.inputs),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at
+    };
+  }
+
   async saveFeatureFromAI(
     featureName: string,
     tasks: Task[],
@@ -833,55 +1886,7 @@ ${scenarios.join('\n\n')}
   }
 
   private calculateSimilarity(text1: string, text2: string): number {
-    // Enhanced similarity calculation with multiple factors
-    const wordSimilarity = this.calculateWordSimilarity(text1, text2);
-    const lengthSimilarity = this.calculateLengthSimilarity(text1, text2);
-    const structureSimilarity = this.calculateStructureSimilarity(text1, text2);
-
-    // Weighted combination
-    return (wordSimilarity * 0.6) + (lengthSimilarity * 0.2) + (structureSimilarity * 0.2);
-  }
-
-  private calculateWordSimilarity(text1: string, text2: string): number {
-    // Original word-based similarity
-    const words1 = new Set(text1.toLowerCase().split(/\s+/));
-    const words2 = new Set(text2.toLowerCase().split(/\s+/));
-
-    const intersection = new Set([...words1].filter(x => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-
-    return union.size > 0 ? intersection.size / union.size : 0;
-  }
-
-  private calculateLengthSimilarity(text1: string, text2: string): number {
-    const len1 = text1.length;
-    const len2 = text2.length;
-    const maxLen = Math.max(len1, len2);
-    const minLen = Math.min(len1, len2);
-    return maxLen > 0 ? minLen / maxLen : 1;
-  }
-
-  private calculateStructureSimilarity(text1: string, text2: string): number {
-    // Check for similar structural elements
-    const patterns = [
-      /as a .+? i want/gi,
-      /given .+? when .+? then/gi,
-      /should .+/gi,
-      /must .+/gi,
-      /acceptance criteria/gi,
-      /user story/gi
-    ];
-
-    let matches = 0;
-    const total = patterns.length;
-
-    for (const pattern of patterns) {
-      const has1 = pattern.test(text1);
-      const has2 = pattern.test(text2);
-      if (has1 === has2) matches++;
-    }
-
-    return total > 0 ? matches / total : 0;
+    return cosineSimilarity(embedText(text1), embedText(text2));
   }
 
   private getTaskCount(featureName: string): number {
@@ -920,7 +1925,10 @@ ${scenarios.join('\n\n')}
       testFile: dbTask.test_file,
       coverageTarget: dbTask.coverage_target,
       notes: dbTask.notes,
-      relevantPatterns: JSON.parse(dbTask.relevant_patterns || '[]')
+      relevantPatterns: JSON.parse(dbTask.relevant_patterns || '[]'),
+      blockedBy: dbTask.blocked_by ? JSON.parse(dbTask.blocked_by) : undefined,
+      criteria: this.getTaskCriteria(dbTask.feature_name, dbTask.id),
+      coverage: this.getTaskCoverage(dbTask.feature_name, dbTask.id)
     };
   }
 
@@ -936,18 +1944,26 @@ ${scenarios.join('\n\n')}
   private generateNextActions(tasks: Task[]): string[] {
     const actions: string[] = [];
 
-    const notStarted = tasks.filter(t => t.status === 'not_started');
+    const graph = new TaskGraph(tasks);
+    const readyToStart = graph.getReadyTasks().filter(t => t.status === 'not_started');
+    const waiting = tasks.filter(t =>
+      t.status === 'not_started' && graph.getPendingPrerequisites(t.id).length > 0
+    );
     const blocked = tasks.filter(t => t.status === 'blocked');
 
     if (blocked.length > 0) {
       actions.push(`Unblock ${blocked.length} blocked task(s)`);
     }
 
-    if (notStarted.length > 0) {
-      const next = notStarted[0];
+    if (readyToStart.length > 0) {
+      const next = readyToStart[0];
       actions.push(`Start work on: ${next.title}`);
     }
 
+    if (waiting.length > 0) {
+      actions.push(`${waiting.length} task(s) waiting on incomplete prerequisites`);
+    }
+
     return actions;
   }
 
@@ -995,16 +2011,6 @@ ${scenarios.join('\n\n')}
     }
   }
 
-  private mergeSpecs(existingSpec: string, newSpec: string): string {
-    // Simple merge strategy - could be enhanced with more sophisticated logic
-    if (existingSpec.includes(newSpec) || newSpec.includes(existingSpec)) {
-      // One spec contains the other, use the longer one
-      return existingSpec.length > newSpec.length ? existingSpec : newSpec;
-    }
-
-    return `${existingSpec}\n\n--- Additional Requirements ---\n${newSpec}`;
-  }
-
   private async mergeWithExisting(
     featureName: string,
     newTasks: Task[],
@@ -1013,33 +2019,61 @@ ${scenarios.join('\n\n')}
   ): Promise<SaveFeatureResult> {
     const existingTasks = await this.getFeatureTasks(featureName);
 
-    // Identify unique tasks by comparing summaries and implementations
-    const uniqueNewTasks = newTasks.filter(newTask =>
-      !existingTasks.some(existingTask =>
-        this.calculateSimilarity(newTask.summary, existingTask.summary) > (this.config?.deduplication.taskSimilarityThreshold ?? 0.9)
-      )
-    );
+    // Identify unique tasks by comparing summaries; a duplicate stands for the
+    // existing task it matched
+    const threshold = this.config?.deduplication.taskSimilarityThreshold ?? 0.9;
+    const idMap = new Map<string, string>();
+    const uniqueNewTasks = newTasks.filter(newTask => {
+      const duplicateOf = existingTasks.find(existingTask =>
+        this.calculateSimilarity(newTask.summary, existingTask.summary) > threshold
+      );
+      if (duplicateOf) idMap.set(newTask.id, duplicateOf.id);
+      return !duplicateOf;
+    });
 
-    // Merge tasks with sequence adjustment
-    const mergedTasks = [...existingTasks, ...uniqueNewTasks.map((task, index) => ({
+    // Merge tasks with sequence adjustment, keeping dependency references
+    // pointing at the renumbered IDs, or at the existing task a skipped
+    // duplicate matched
+    const takenIds = new Set(existingTasks.map(task => task.id));
+    for (const task of uniqueNewTasks) {
+      const id = this.allocateTaskId(takenIds);
+      takenIds.add(id);
+      idMap.set(task.id, id);
+    }
+    const remapReferences = (ids?: string[]) =>
+      ids?.filter(id => idMap.has(id)).map(id => idMap.get(id)!);
+
+    const mergedTasks = [...existingTasks, ...uniqueNewTasks.map(task => ({
       ...task,
-      id: `task_${String(existingTasks.length + index + 1).padStart(2, '0')}`,
+      id: idMap.get(task.id)!,
+      dependencies: remapReferences(task.dependencies),
+      blocks: remapReferences(task.blocks),
       featureName
     }))];
 
-    // Update feature with merged content
-    const mergedSpec = this.mergeSpecs(duplicateInfo.existingFeature!.spec, parseResult.spec);
-    const updatedParseResult = { ...parseResult, spec: mergedSpec };
+    // Update feature with merged content; a feature that only resembles others has nothing to merge into
+    const revisions = await this.getFeatureRevisions(featureName);
+    const specMerge = duplicateInfo.existingFeature && revisions.length > 0
+      ? mergeSpecs(duplicateInfo.existingFeature.spec, parseResult.spec, revisionSources(revisions[revisions.length - 1]))
+      : undefined;
+    const updatedParseResult = { ...parseResult, spec: specMerge?.spec ?? parseResult.spec };
 
     // Save merged result using the original saveFeature method with skip similarity check
-    const files = await this.saveFeatureInternal(featureName, mergedTasks, updatedParseResult);
+    const { files } = await this.saveFeatureInternal(featureName, mergedTasks, updatedParseResult, 'merge');
 
     const mergeResult: MergeResult = {
       files,
       mergedTasks,
       originalTaskCount: existingTasks.length,
       newTaskCount: uniqueNewTasks.length,
-      duplicateTasksSkipped: newTasks.length - uniqueNewTasks.length
+      duplicateTasksSkipped: newTasks.length - uniqueNewTasks.length,
+      ...(specMerge && {
+        specMerge: {
+          addedRequirements: specMerge.added,
+          duplicateRequirements: specMerge.duplicates,
+          possibleConflicts: specMerge.possibleConflicts
+        }
+      })
     };
 
     return {
@@ -1050,59 +2084,108 @@ ${scenarios.join('\n\n')}
 
   private async saveFeatureInternal(
     featureName: string,
-    tasks: Task[],
-    parseResult: ParseResult
-  ): Promise<string[]> {
+    generatedTasks: Task[],
+    parseResult: ParseResult,
+    source: TaskStatusSource
+  ): Promise<{ files: string[]; reconciliation?: TaskReconciliation }> {
     // This is the original saveFeature logic without deduplication checks
     if (!this.db || !this.config) throw new Error('Storage not initialized');
 
-    const createdFiles: string[] = [];
-    const featureDir = path.join(this.tasksDir, featureName);
+    // Reject broken dependency graphs before anything is written
+    new TaskGraph(generatedTasks).validate();
 
-    // Create feature directory
-    await fs.mkdir(featureDir, { recursive: true });
-    await fs.mkdir(path.join(featureDir, 'gherkin'), { recursive: true });
+    // Saving over an existing feature keeps the work recorded on its tasks
+    const previousTasks = await this.getFeatureTasks(featureName);
+    const reconciled = previousTasks.length > 0
+      ? this.reconcileTasks(previousTasks, generatedTasks)
+      : { tasks: generatedTasks, orphaned: [] as Task[], reconciliation: undefined };
+    const { tasks, orphaned } = reconciled;
 
-    // Save to database
-    const featureId = `feat_${Date.now()}`;
-    this.db.prepare(`
-      INSERT OR REPLACE INTO features (id, name, spec, grade, score)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(featureId, featureName, parseResult.spec, parseResult.grade, parseResult.score);
-
-    // Save tasks
-    for (let i = 0; i < tasks.length; i++) {
-      const task = tasks[i];
+    const db = this.db;
+    const featureDir = path.join(this.tasksDir, featureName);
 
-      // Save to database
-      this.db.prepare(`
-        INSERT OR REPLACE INTO tasks (
-          id, feature_name, sequence, title, slug, summary, implementation, status,
-          acceptance_criteria, test_file, coverage_target, notes,
-          dependencies, blocks, relevant_patterns
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    // The database is written in one transaction, so a failed save leaves the feature as it was
+    db.transaction(() => {
+      // Saving again keeps the feature's ID and created_at
+      db.prepare(`
+        INSERT INTO features (id, name, spec, grade, score, embedding)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(name) DO UPDATE SET
+          spec = excluded.spec,
+          grade = excluded.grade,
+          score = excluded.score,
+          embedding = excluded.embedding
       `).run(
-        task.id,
+        `feat_${Date.now()}`,
         featureName,
-        i,
-        task.title,
-        task.slug,
-        task.summary,
-        task.implementation,
-        task.status,
-        JSON.stringify(task.acceptanceCriteria),
-        task.testFile,
-        task.coverageTarget,
-        task.notes,
-        JSON.stringify(task.dependencies || []),
-        JSON.stringify(task.blocks || []),
-        JSON.stringify(task.relevantPatterns || [])
+        parseResult.spec,
+        parseResult.grade,
+        parseResult.score,
+        serializeEmbedding(embedText(parseResult.spec))
       );
+      this.recordFeatureRevision(featureName, parseResult.spec, parseResult.grade, parseResult.score);
+
+      tasks.forEach((task, i) => {
+        const previous = db.prepare(`
+          SELECT status, blocked_by, status_before_block FROM tasks WHERE id = ? AND feature_name = ?
+        `).get(task.id, featureName) as { status: TaskStatus; blocked_by: string | null; status_before_block: TaskStatus | null } | undefined;
+        const keepsStatus = previous?.status === task.status;
+
+        db.prepare(`
+          INSERT OR REPLACE INTO tasks (
+            id, feature_name, sequence, title, slug, summary, implementation, status,
+            acceptance_criteria, test_file, coverage_target, notes,
+            dependencies, blocks, relevant_patterns, embedding, blocked_by, status_before_block
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          task.id,
+          featureName,
+          i,
+          task.title,
+          task.slug,
+          task.summary,
+          task.implementation,
+          task.status,
+          JSON.stringify(task.acceptanceCriteria),
+          task.testFile,
+          task.coverageTarget,
+          task.notes,
+          JSON.stringify(task.dependencies || []),
+          JSON.stringify(task.blocks || []),
+          JSON.stringify(task.relevantPatterns || []),
+          serializeEmbedding(embedText(taskEmbeddingText(task))),
+          keepsStatus ? previous.blocked_by : null,
+          keepsStatus ? previous.status_before_block : null
+        );
+        this.saveTaskCriteria(featureName, task);
+
+        if (previous?.status !== task.status) {
+          this.recordStatusChange(
+            featureName,
+            task.id,
+            previous?.status ?? null,
+            task.status,
+            previous ? 'Status replaced when the feature was saved again' : 'Task created',
+            source
+          );
+        }
+      });
+
+      // Orphaned tasks are kept, in their previous order, after the regenerated ones
+      orphaned.forEach((task, i) => {
+        db.prepare('UPDATE tasks SET sequence = ? WHERE id = ? AND feature_name = ?').run(tasks.length + i, task.id, featureName);
+      });
+    })();
+
+    const createdFiles: string[] = [];
+    await fs.mkdir(path.join(featureDir, 'gherkin'), { recursive: true });
+
+    for (let i = 0; i < tasks.length; i++) {
+      const task = tasks[i];
 
-      // Create task file
-      const taskFileName = `task_${String(i + 1).padStart(2, '0')}_${task.slug}.md`;
-      const taskPath = path.join(featureDir, taskFileName);
-      await this.writeTaskFile(taskPath, task, featureName);
+      // Create task file, rendering checkboxes from the stored criteria
+      const taskPath = path.join(featureDir, this.getTaskFileName(i, task));
+      await this.writeTaskFile(taskPath, (await this.getTask(featureName, task.id))!, featureName);
       createdFiles.push(taskPath);
 
       // Create gherkin file
@@ -1113,13 +2196,28 @@ ${scenarios.join('\n\n')}
       }
     }
 
+    for (let i = 0; i < orphaned.length; i++) {
+      const sequence = tasks.length + i;
+      const taskPath = path.join(featureDir, this.getTaskFileName(sequence, orphaned[i]));
+      await this.writeTaskFile(taskPath, (await this.getTask(featureName, orphaned[i].id))!, featureName);
+      createdFiles.push(taskPath);
+    }
+
+    // Task files are named by position, so files from the previous order may be stale
+    for (let i = 0; i < previousTasks.length; i++) {
+      const stalePath = path.join(featureDir, this.getTaskFileName(i, previousTasks[i]));
+      if (!createdFiles.includes(stalePath)) {
+        await fs.rm(stalePath, { force: true });
+      }
+    }
+
     // Create meta.json
     const metaPath = path.join(featureDir, 'meta.json');
     await fs.writeFile(metaPath, JSON.stringify({
       featureName,
       grade: parseResult.grade,
       score: parseResult.score,
-      taskCount: tasks.length,
+      taskCount: tasks.length + orphaned.length,
       createdAt: new Date().toISOString()
     }, null, 2));
     createdFiles.push(metaPath);
@@ -1127,8 +2225,86 @@ ${scenarios.join('\n\n')}
     // Create _active.md
     await this.updateActiveFile(featureName);
     createdFiles.push(path.join(featureDir, '_active.md'));
+    emitStorageChange({ type: 'features', rootDir: this.rootDir, featureName });
 
-    return createdFiles;
+    return { files: createdFiles, reconciliation: reconciled.reconciliation };
+  }
+
+  /**
+   * Matches regenerated tasks to the feature's current tasks (see matchTasks).
+   * A matched task keeps the previous task's ID, so its status history,
+   * criteria validation, test results and coverage stay attached, and takes
+   * over its status and notes. Unmatched tasks keep their generated ID unless
+   * a previous task holds it. Previous tasks left unmatched are returned as
+   * orphaned rather than deleted.
+   */
+  private reconcileTasks(
+    previousTasks: Task[],
+    generatedTasks: Task[]
+  ): { tasks: Task[]; orphaned: Task[]; reconciliation: TaskReconciliation } {
+    if (!this.db || !this.config) throw new Error('Storage not initialized');
+
+    const { matches, unmatched, orphaned } = matchTasks(previousTasks, generatedTasks, this.config.deduplication.taskSimilarityThreshold);
+    const matchByTask = new Map(matches.map(match => [match.next, match]));
+    const idMap = new Map(matches.map(match => [match.next.id, match.previous.id]));
+
+    const takenIds = new Set(previousTasks.map(task => task.id));
+    for (const task of unmatched) {
+      const id = takenIds.has(task.id) ? this.allocateTaskId(takenIds, task.id) : task.id;
+      takenIds.add(id);
+      idMap.set(task.id, id);
+    }
+
+    const remapReferences = (ids?: string[]) => ids?.map(id => idMap.get(id) ?? id);
+    const tasks = generatedTasks.map(task => {
+      const match = matchByTask.get(task);
+      return {
+        ...task,
+        id: idMap.get(task.id)!,
+        dependencies: remapReferences(task.dependencies),
+        blocks: remapReferences(task.blocks),
+        ...(match ? {
+          status: match.previous.status,
+          statusEmoji: match.previous.statusEmoji,
+          notes: match.previous.notes || task.notes
+        } : {})
+      };
+    });
+
+    return {
+      tasks,
+      orphaned,
+      reconciliation: {
+        matched: matches.map(match => ({
+          taskId: match.previous.id,
+          generatedId: match.next.id,
+          title: match.next.title,
+          previousTitle: match.previous.title,
+          status: match.previous.status,
+          similarity: match.similarity
+        })),
+        added: unmatched.map(task => ({ taskId: idMap.get(task.id)!, generatedId: task.id, title: task.title })),
+        orphaned: orphaned.map(task => ({ taskId: task.id, title: task.title, status: task.status }))
+      }
+    };
+  }
+
+  /**
+   * Next ID after the highest number in use with the same prefix as `like`
+   * (task_01 -> task_07). Task IDs are unique per feature, so `takenIds` holds
+   * the IDs of the feature's tasks.
+   */
+  private allocateTaskId(takenIds: Set<string>, like = 'task_01'): string {
+    const [, prefix, digits] = like.match(/^(.*?)(\d+)$/) ?? [like, `${like}_`, '00'];
+    let number = Math.max(
+      0,
+      ...[...takenIds].map(taken => taken.startsWith(prefix) ? Number(taken.slice(prefix.length)) : 0).filter(Number.isFinite)
+    );
+    let candidate: string;
+    do {
+      candidate = `${prefix}${String(++number).padStart(digits.length, '0')}`;
+    } while (takenIds.has(candidate));
+    return candidate;
   }
 
   async updateValidationResults(featureName: string, validationResults: any): Promise<void> {
@@ -1187,3 +2363,7 @@ ${scenarios.join('\n\n')}
     this.db = null;
   }
 }
+
+function taskEmbeddingText(task: Pick<Task, 'title' | 'summary' | 'acceptanceCriteria'>): string {
+  return [task.title, task.summary, ...task.acceptanceCriteria].join('\n');
+}
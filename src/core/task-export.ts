@@ -0,0 +1,236 @@
+import { AcceptanceCriterion, CriterionStatus, ExportFormat, FeatureExport, TaskStatus } from '../types/index.js';
+import { TaskGraph } from './task-graph.js';
+
+type ExportedTask = FeatureExport['tasks'][number];
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  'github': 'json',
+  'gitlab': 'csv',
+  'jira-csv': 'csv',
+  'json': 'json'
+};
+
+/**
+ * Renders a feature's tasks in an issue tracker's offline import format:
+ * - github: JSON array of issue payloads for the REST "create an issue" endpoint
+ * - gitlab: CSV with the title and description columns the GitLab importer reads
+ * - jira-csv: CSV for the Jira importer, with prerequisites as "Blocks" links
+ * - json: SpecLinter's own lossless export
+ */
+export function exportFeature(feature: FeatureExport, format: ExportFormat): string {
+  switch (format) {
+    case 'github':
+      return exportGitHub(feature);
+    case 'gitlab':
+      return exportGitLab(feature);
+    case 'jira-csv':
+      return exportJiraCsv(feature);
+    case 'json':
+      return exportJson(feature);
+  }
+}
+
+function exportGitHub(feature: FeatureExport): string {
+  const graph = new TaskGraph(feature.tasks);
+
+  const issues = feature.tasks.map(task => ({
+    title: task.title,
+    body: renderMarkdownBody(feature, task, graph),
+    labels: ['speclinter', `feature:${feature.featureName}`, `status:${task.status}`]
+  }));
+
+  return JSON.stringify(issues, null, 2) + '\n';
+}
+
+function exportGitLab(feature: FeatureExport): string {
+  const graph = new TaskGraph(feature.tasks);
+  const rows = [['title', 'description']];
+
+  for (const task of feature.tasks) {
+    rows.push([task.title, renderMarkdownBody(feature, task, graph)]);
+  }
+
+  return toCsv(rows);
+}
+
+const JIRA_STATUSES: Record<TaskStatus, string> = {
+  not_started: 'To Do',
+  in_progress: 'In Progress',
+  completed: 'Done',
+  blocked: 'Blocked'
+};
+
+const JIRA_CRITERION_ICONS: Record<CriterionStatus, string> = {
+  met: '(/)',
+  partially_met: '(!)',
+  not_met: '(x)',
+  unclear: '(?)'
+};
+
+function exportJiraCsv(feature: FeatureExport): string {
+  const graph = new TaskGraph(feature.tasks);
+  // Jira links rows through the "Issue Id" column, which only needs to be unique within the file
+  const issueIds = new Map(feature.tasks.map((task, index) => [task.id, String(index + 1)]));
+  const linkColumns = Math.max(0, ...feature.tasks.map(task => graph.getPrerequisites(task.id).length));
+
+  const rows = [[
+    'Issue Id',
+    'Summary',
+    'Description',
+    'Issue Type',
+    'Status',
+    'Labels',
+    'Labels',
+    ...Array<string>(linkColumns).fill('Inward issue link (Blocks)')
+  ]];
+
+  for (const task of feature.tasks) {
+    const blockedBy = graph.getPrerequisites(task.id).map(id => issueIds.get(id)!);
+    rows.push([
+      issueIds.get(task.id)!,
+      task.title,
+      renderJiraDescription(feature, task, graph),
+      'Task',
+      JIRA_STATUSES[task.status],
+      'speclinter',
+      feature.featureName.replace(/\s+/g, '-'),
+      ...blockedBy,
+      ...Array<string>(linkColumns - blockedBy.length).fill('')
+    ]);
+  }
+
+  return toCsv(rows);
+}
+
+function exportJson(feature: FeatureExport): string {
+  const graph = new TaskGraph(feature.tasks);
+
+  return JSON.stringify({
+    version: 1,
+    feature: {
+      name: feature.featureName,
+      spec: feature.spec,
+      grade: feature.grade,
+      score: feature.score
+    },
+    tasks: feature.tasks.map(task => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      summary: task.summary,
+      implementation: task.implementation,
+      dependsOn: graph.getPrerequisites(task.id),
+      acceptanceCriteria: getCriteria(task).map(criterion => ({
+        id: criterion.id,
+        text: criterion.text,
+        status: criterion.status,
+        evidenceFiles: criterion.evidenceFiles
+      })),
+      testFile: task.testFile || null,
+      coverageTarget: task.coverageTarget,
+      notes: task.notes,
+      gherkin: task.gherkin
+    }))
+  }, null, 2) + '\n';
+}
+
+function renderMarkdownBody(feature: FeatureExport, task: ExportedTask, graph: TaskGraph): string {
+  const sections = [
+    `SpecLinter task \`${task.id}\` from feature \`${feature.featureName}\``,
+    `## Summary\n${task.summary}`,
+    `## Implementation Details\n${task.implementation}`
+  ];
+
+  const dependencies = renderDependencyLines(task, graph, feature, id => `\`${id}\``);
+  if (dependencies.length > 0) {
+    sections.push(`## Dependencies\n${dependencies.map(line => `- ${line}`).join('\n')}`);
+  }
+
+  sections.push(`## Acceptance Criteria\n${getCriteria(task)
+    .map(criterion => `- [${criterion.status === 'met' ? 'x' : ' '}] ${criterion.text}`)
+    .join('\n')}`);
+
+  sections.push(`## Test Coverage\n- **Target**: ${task.coverageTarget}`);
+
+  if (task.gherkin) {
+    sections.push(`## Gherkin Scenarios (\`gherkin/${task.testFile}\`)\n\`\`\`gherkin\n${task.gherkin.trimEnd()}\n\`\`\``);
+  }
+
+  if (task.notes.trim()) {
+    sections.push(`## Implementation Notes\n${task.notes.trim()}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function renderJiraDescription(feature: FeatureExport, task: ExportedTask, graph: TaskGraph): string {
+  const sections = [
+    `SpecLinter task {{${task.id}}} from feature {{${feature.featureName}}}`,
+    `h3. Summary\n${task.summary}`,
+    `h3. Implementation Details\n${task.implementation}`
+  ];
+
+  const dependencies = renderDependencyLines(task, graph, feature, id => `{{${id}}}`);
+  if (dependencies.length > 0) {
+    sections.push(`h3. Dependencies\n${dependencies.map(line => `* ${line}`).join('\n')}`);
+  }
+
+  sections.push(`h3. Acceptance Criteria\n${getCriteria(task)
+    .map(criterion => `* ${JIRA_CRITERION_ICONS[criterion.status]} ${criterion.text}`)
+    .join('\n')}`);
+
+  sections.push(`h3. Test Coverage\n* *Target*: ${task.coverageTarget}`);
+
+  if (task.gherkin) {
+    sections.push(`h3. Gherkin Scenarios ({{gherkin/${task.testFile}}})\n{noformat}\n${task.gherkin.trimEnd()}\n{noformat}`);
+  }
+
+  if (task.notes.trim()) {
+    sections.push(`h3. Implementation Notes\n${task.notes.trim()}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function renderDependencyLines(
+  task: ExportedTask,
+  graph: TaskGraph,
+  feature: FeatureExport,
+  formatId: (id: string) => string
+): string[] {
+  const titleOf = (id: string) => feature.tasks.find(candidate => candidate.id === id)?.title ?? id;
+
+  return [
+    ...graph.getPrerequisites(task.id).map(id => `Depends on ${formatId(id)} ${titleOf(id)}`),
+    ...graph.getDependents(task.id).map(id => `Blocks ${formatId(id)} ${titleOf(id)}`)
+  ];
+}
+
+/**
+ * Stored criteria when available, otherwise the plain acceptance criteria as unvalidated records.
+ */
+function getCriteria(task: ExportedTask): AcceptanceCriterion[] {
+  if (task.criteria && task.criteria.length > 0) {
+    return task.criteria;
+  }
+
+  return task.acceptanceCriteria.map((text, index) => ({
+    id: `${task.id}_ac_${String(index + 1).padStart(2, '0')}`,
+    taskId: task.id,
+    text,
+    status: 'unclear',
+    evidence: '',
+    evidenceFiles: [],
+    confidence: null,
+    lastValidated: null
+  }));
+}
+
+function toCsv(rows: string[][]): string {
+  const escape = (cell: string) => {
+    // Spreadsheets run cells starting with these characters as formulas
+    const value = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
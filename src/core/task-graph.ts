@@ -0,0 +1,152 @@
+import { Task } from '../types/index.js';
+
+/**
+ * TaskGraph models prerequisite ordering between the tasks of a single feature.
+ * Edges come from both `dependencies` (this task needs X) and `blocks`
+ * (this task is needed by X), so either field can be used to express ordering.
+ */
+export class TaskGraph {
+  private tasks: Map<string, Task>;
+  private prerequisites: Map<string, Set<string>>;
+  private dependents: Map<string, Set<string>>;
+  private danglingReferences: Array<{ taskId: string; field: 'dependencies' | 'blocks'; reference: string }>;
+
+  constructor(tasks: Task[]) {
+    this.tasks = new Map(tasks.map(task => [task.id, task]));
+    this.prerequisites = new Map(tasks.map(task => [task.id, new Set<string>()]));
+    this.dependents = new Map(tasks.map(task => [task.id, new Set<string>()]));
+    this.danglingReferences = [];
+
+    for (const task of tasks) {
+      for (const dependencyId of task.dependencies ?? []) {
+        if (!this.tasks.has(dependencyId)) {
+          this.danglingReferences.push({ taskId: task.id, field: 'dependencies', reference: dependencyId });
+          continue;
+        }
+        this.addEdge(dependencyId, task.id);
+      }
+
+      for (const blockedId of task.blocks ?? []) {
+        if (!this.tasks.has(blockedId)) {
+          this.danglingReferences.push({ taskId: task.id, field: 'blocks', reference: blockedId });
+          continue;
+        }
+        this.addEdge(task.id, blockedId);
+      }
+    }
+  }
+
+  private addEdge(prerequisiteId: string, dependentId: string): void {
+    this.prerequisites.get(dependentId)!.add(prerequisiteId);
+    this.dependents.get(prerequisiteId)!.add(dependentId);
+  }
+
+  /**
+   * Throws if any task references an unknown task ID or the graph contains a cycle.
+   */
+  validate(): void {
+    if (this.danglingReferences.length > 0) {
+      const details = this.danglingReferences
+        .map(ref => `${ref.taskId}.${ref.field} -> ${ref.reference}`)
+        .join(', ');
+      throw new Error(`Task graph references unknown task IDs: ${details}`);
+    }
+
+    const cycle = this.findCycle();
+    if (cycle) {
+      throw new Error(`Task dependency cycle detected: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  getPrerequisites(taskId: string): string[] {
+    return [...(this.prerequisites.get(taskId) ?? [])];
+  }
+
+  getDependents(taskId: string): string[] {
+    return [...(this.dependents.get(taskId) ?? [])];
+  }
+
+  /**
+   * Returns incomplete prerequisite IDs for a task.
+   */
+  getPendingPrerequisites(taskId: string): string[] {
+    return this.getPrerequisites(taskId).filter(id => this.tasks.get(id)?.status !== 'completed');
+  }
+
+  /**
+   * Tasks that can be worked on now: not completed, not manually blocked,
+   * and every prerequisite completed. Returned in dependency order.
+   */
+  getReadyTasks(): Task[] {
+    return this.topologicalOrder().filter(task =>
+      task.status !== 'completed' &&
+      task.status !== 'blocked' &&
+      this.getPendingPrerequisites(task.id).length === 0
+    );
+  }
+
+  /**
+   * Orders tasks so prerequisites come first, keeping the original order for ties.
+   * Tasks that are part of a cycle are appended at the end.
+   */
+  topologicalOrder(): Task[] {
+    const order = [...this.tasks.keys()];
+    const inDegree = new Map(order.map(id => [id, this.prerequisites.get(id)!.size]));
+    const queue = order.filter(id => inDegree.get(id) === 0);
+    const result: Task[] = [];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      result.push(this.tasks.get(id)!);
+
+      for (const dependentId of this.dependents.get(id)!) {
+        const remaining = inDegree.get(dependentId)! - 1;
+        inDegree.set(dependentId, remaining);
+        if (remaining === 0) {
+          queue.push(dependentId);
+        }
+      }
+      queue.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+    }
+
+    if (result.length < order.length) {
+      const visited = new Set(result.map(task => task.id));
+      result.push(...order.filter(id => !visited.has(id)).map(id => this.tasks.get(id)!));
+    }
+
+    return result;
+  }
+
+  private findCycle(): string[] | null {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+      state.set(id, 'visiting');
+      stack.push(id);
+
+      for (const next of this.dependents.get(id) ?? []) {
+        if (state.get(next) === 'visiting') {
+          return [...stack.slice(stack.indexOf(next)), next];
+        }
+        if (!state.has(next)) {
+          const cycle = visit(next);
+          if (cycle) return cycle;
+        }
+      }
+
+      stack.pop();
+      state.set(id, 'done');
+      return null;
+    };
+
+    for (const id of this.tasks.keys()) {
+      if (!state.has(id)) {
+        const cycle = visit(id);
+        if (cycle) return cycle;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+import Handlebars from 'handlebars';
+import { Task, TaskFileState, TaskStatusSchema } from '../types/index.js';
+
+const TASK_FILE_TEMPLATE = `# Task: {{title}}
+
+**ID**: {{id}}
+**Status**: {{statusEmoji}} {{status}}
+**Feature**: {{featureName}}
+{{#if dependencies}}
+**Dependencies**: {{dependencies}}
+{{/if}}
+{{#if blocks}}
+**Blocks**: {{blocks}}
+{{/if}}
+
+## Summary
+{{summary}}
+
+## Implementation Details
+{{implementation}}
+
+{{#if relevantPatterns}}
+## Patterns to Follow
+{{#each relevantPatterns}}
+- {{name}}: See \`.speclinter/context/patterns.md#{{anchor}}\`
+{{/each}}
+{{/if}}
+
+## Acceptance Criteria
+{{#each checklist}}
+- [{{#if checked}}x{{else}} {{/if}}] {{text}}
+{{/each}}
+
+## Test Coverage
+- **Gherkin**: \`gherkin/{{testFile}}\`
+- **Target**: {{coverageTarget}}
+
+## Implementation Notes
+{{notes}}
+
+---
+*Generated by SpecLinter - Do not edit header metadata directly*`;
+
+// Compiled without HTML escaping so notes and criteria survive a render/parse round trip
+const compiledTemplate = Handlebars.compile(TASK_FILE_TEMPLATE, { noEscape: true });
+
+export function renderTaskMarkdown(task: Task, featureName: string): string {
+  const checked = new Set(getTaskFileState(task).checkedCriteria);
+
+  return compiledTemplate({
+    ...task,
+    featureName,
+    dependencies: task.dependencies?.join(', '),
+    blocks: task.blocks?.join(', '),
+    checklist: task.acceptanceCriteria.map(text => ({ text, checked: checked.has(text) }))
+  });
+}
+
+/**
+ * The parts of a task that can be edited in its markdown file.
+ */
+export function getTaskFileState(task: Task): TaskFileState {
+  return {
+    status: task.status,
+    notes: task.notes.trim(),
+    checkedCriteria: (task.criteria ?? [])
+      .filter(criterion => criterion.status === 'met')
+      .map(criterion => criterion.text)
+  };
+}
+
+/**
+ * Parses an edited task file back into its ID and editable state.
+ * Throws when the ID or status line cannot be read.
+ */
+export function parseTaskMarkdown(content: string): { id: string; state: TaskFileState; criteria: string[] } {
+  const id = content.match(/^\*\*ID\*\*:\s*(\S+)\s*$/m)?.[1];
+  if (!id) {
+    throw new Error('Missing **ID** line');
+  }
+
+  const statusLine = content.match(/^\*\*Status\*\*:(.*)$/m)?.[1] ?? '';
+  const status = TaskStatusSchema.options.find(option => new RegExp(`\\b${option}\\b`).test(statusLine));
+  if (!status) {
+    throw new Error(`Unrecognized status "${statusLine.trim()}" (expected one of ${TaskStatusSchema.options.join(', ')})`);
+  }
+
+  const criteria: string[] = [];
+  const checkedCriteria: string[] = [];
+  for (const line of getSection(content, 'Acceptance Criteria').split('\n')) {
+    const match = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/);
+    if (!match) continue;
+    const text = match[2].trim();
+    criteria.push(text);
+    if (match[1] !== ' ') {
+      checkedCriteria.push(text);
+    }
+  }
+
+  const notes = getSection(content, 'Implementation Notes')
+    .replace(/\n---\s*\n\*Generated by SpecLinter[^\n]*\*?\s*$/, '')
+    .trim();
+
+  return { id, state: { status, notes, checkedCriteria }, criteria };
+}
+
+function getSection(content: string, heading: string): string {
+  const start = content.search(new RegExp(`^## ${heading}\\s*$`, 'm'));
+  if (start === -1) return '';
+
+  const body = content.slice(start).replace(/^[^\n]*\n?/, '');
+  const end = body.search(/^## /m);
+  return end === -1 ? body : body.slice(0, end);
+}
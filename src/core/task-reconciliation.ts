@@ -0,0 +1,66 @@
+import { cosineSimilarity, embedText } from './embeddings.js';
+import type { Task } from '../types/index.js';
+
+export interface TaskMatch {
+  previous: Task;
+  next: Task;
+  similarity: number;
+}
+
+export interface TaskMatching {
+  matches: TaskMatch[];
+  /** Regenerated tasks with no previous counterpart */
+  unmatched: Task[];
+  /** Previous tasks no regenerated task matched */
+  orphaned: Task[];
+}
+
+/**
+ * Pairs regenerated tasks with the tasks a feature already has. Tasks with the
+ * same title always pair; otherwise title and summary are compared by
+ * embedding, and the most similar pairs at or above the threshold are taken
+ * first so each previous task is matched at most once.
+ */
+export function matchTasks(previous: Task[], next: Task[], threshold: number): TaskMatching {
+  const previousVectors = previous.map(task => embedText(matchText(task)));
+  const pairs = next.flatMap((task, nextIndex) => {
+    const vector = embedText(matchText(task));
+    return previous.map((candidate, previousIndex) => ({
+      previousIndex,
+      nextIndex,
+      similarity: normalizeTitle(candidate.title) === normalizeTitle(task.title)
+        ? 1
+        : cosineSimilarity(vector, previousVectors[previousIndex]),
+      sameId: candidate.id === task.id
+    }));
+  })
+    .filter(pair => pair.similarity >= threshold)
+    // Prefer the task that already has the ID when similarities tie
+    .sort((a, b) => b.similarity - a.similarity || Number(b.sameId) - Number(a.sameId));
+
+  const matchedPrevious = new Set<number>();
+  const matchedNext = new Map<number, TaskMatch>();
+  for (const pair of pairs) {
+    if (matchedPrevious.has(pair.previousIndex) || matchedNext.has(pair.nextIndex)) continue;
+    matchedPrevious.add(pair.previousIndex);
+    matchedNext.set(pair.nextIndex, {
+      previous: previous[pair.previousIndex],
+      next: next[pair.nextIndex],
+      similarity: Math.round(Math.min(pair.similarity, 1) * 100) / 100
+    });
+  }
+
+  return {
+    matches: next.flatMap((_, index) => matchedNext.get(index) ?? []),
+    unmatched: next.filter((_, index) => !matchedNext.has(index)),
+    orphaned: previous.filter((_, index) => !matchedPrevious.has(index))
+  };
+}
+
+function matchText(task: Pick<Task, 'title' | 'summary'>): string {
+  return [task.title, task.summary].filter(Boolean).join('\n');
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
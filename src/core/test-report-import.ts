@@ -0,0 +1,328 @@
+import path from 'path';
+import { parseGherkin } from './gherkin.js';
+import type { Storage } from './storage.js';
+import type { TestReportFormat, TestResult } from '../types/index.js';
+
+/**
+ * One test case from a CI report, with the status collapsed to
+ * passed/failed/skipped and any @tags found in its names.
+ */
+export interface ReportedTestCase {
+  name: string;
+  fullName: string;
+  file?: string;
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+  tags: string[];
+}
+
+/**
+ * What a test case can be matched against: the task's IDs, its Gherkin file
+ * name and the names of the scenarios in that file.
+ */
+export interface TaskTestTarget {
+  featureName: string;
+  taskId: string;
+  slug: string;
+  testFile: string;
+  scenarios: string[];
+}
+
+export type TestCaseMatch = 'tag' | 'scenario' | 'test_file';
+
+export interface TaskTestResults {
+  target: TaskTestTarget;
+  cases: Array<{ testCase: ReportedTestCase; matchedBy: TestCaseMatch }>;
+  result: TestResult;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+const TEST_FILE_SUFFIX = /(\.(test|spec|steps|e2e|feature))?\.[cm]?[jt]sx?$|\.feature$/;
+
+/**
+ * Detects the format from the content when none is given: XML is JUnit,
+ * anything else must be Vitest/Jest JSON.
+ */
+export function parseTestReport(content: string, format?: TestReportFormat): { format: TestReportFormat; cases: ReportedTestCase[] } {
+  const detected = format ?? (content.trimStart().startsWith('<') ? 'junit' : 'json');
+  return {
+    format: detected,
+    cases: detected === 'junit' ? parseJUnitXml(content) : parseJestJson(content)
+  };
+}
+
+/**
+ * Reads <testcase> elements from JUnit XML as written by Vitest, Jest
+ * (jest-junit), pytest, Maven Surefire and most CI tools. The file comes from
+ * the testcase or testsuite `file` attribute, falling back to a path-like
+ * classname or suite name.
+ */
+export function parseJUnitXml(content: string): ReportedTestCase[] {
+  const cases: ReportedTestCase[] = [];
+  const suites: Array<Record<string, string>> = [];
+  const tagPattern = /<(\/?)(testsuite|testcase|failure|error|skipped)\b([^>]*?)(\/?)>/g;
+  let current: { attributes: Record<string, string>; status: ReportedTestCase['status']; error?: string } | null = null;
+  let match: RegExpExecArray | null;
+
+  if (!/<testsuites?\b/.test(content)) {
+    throw new Error('Not a JUnit XML report: no <testsuite> element found');
+  }
+
+  while ((match = tagPattern.exec(content)) !== null) {
+    const [, closing, tag, rawAttributes, selfClosing] = match;
+    const attributes = parseAttributes(rawAttributes);
+
+    if (tag === 'testsuite') {
+      if (closing) suites.pop();
+      else if (!selfClosing) suites.push(attributes);
+      continue;
+    }
+
+    if (tag === 'testcase') {
+      if (closing) {
+        if (current) cases.push(buildJUnitCase(current, suites));
+        current = null;
+      } else {
+        current = { attributes, status: 'passed' };
+        if (selfClosing) {
+          cases.push(buildJUnitCase(current, suites));
+          current = null;
+        }
+      }
+      continue;
+    }
+
+    if (!current || closing) continue;
+
+    if (tag === 'skipped') {
+      current.status = 'skipped';
+    } else {
+      current.status = 'failed';
+      let message = attributes.message;
+      if (!message && !selfClosing) {
+        const end = content.indexOf(`</${tag}>`, tagPattern.lastIndex);
+        message = end >= 0 ? stripCdata(content.slice(tagPattern.lastIndex, end)) : '';
+      }
+      current.error ??= decodeEntities(message ?? '').trim() || `Test ${tag === 'error' ? 'errored' : 'failed'}`;
+    }
+  }
+
+  return cases;
+}
+
+/**
+ * Reads the Jest JSON report (`--json`), which Vitest's json reporter also
+ * writes. Suites that failed before running any test become one failed case.
+ */
+export function parseJestJson(content: string): ReportedTestCase[] {
+  let report: any;
+  try {
+    report = JSON.parse(content);
+  } catch {
+    throw new Error('Not a Vitest/Jest JSON report: content is not valid JSON');
+  }
+  if (!Array.isArray(report?.testResults)) {
+    throw new Error('Not a Vitest/Jest JSON report: missing testResults array');
+  }
+
+  return report.testResults.flatMap((suite: any): ReportedTestCase[] => {
+    const file = typeof suite.name === 'string' ? suite.name : undefined;
+    const assertions: any[] = Array.isArray(suite.assertionResults) ? suite.assertionResults : [];
+
+    if (assertions.length === 0 && suite.status === 'failed') {
+      const name = file ? path.basename(file) : 'test suite';
+      return [{ name, fullName: name, file, status: 'failed', error: suite.message || 'Test suite failed to run', tags: [] }];
+    }
+
+    return assertions.map(assertion => {
+      const name = String(assertion.title ?? '');
+      const fullName = String(assertion.fullName ?? [...(assertion.ancestorTitles ?? []), name].join(' '));
+      const status = assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped';
+      const failures: string[] = assertion.failureMessages ?? [];
+
+      return {
+        name,
+        fullName,
+        file,
+        status,
+        ...(status === 'failed' && { error: failures.join('\n').split('\n')[0] || 'Test failed' }),
+        tags: extractTags(fullName)
+      };
+    });
+  });
+}
+
+/**
+ * Assigns test cases to tasks. A case goes to the tasks it names with an @tag
+ * (task ID or slug); failing that, to tasks with a scenario of the same name;
+ * failing that, to tasks whose Gherkin file has the same base name as the
+ * test file (checkout.feature ↔ tests/checkout.test.ts).
+ */
+export function mapTestCasesToTasks(
+  cases: ReportedTestCase[],
+  targets: TaskTestTarget[]
+): { tasks: TaskTestResults[]; unmatched: ReportedTestCase[] } {
+  const byTask = new Map<TaskTestTarget, TaskTestResults['cases']>();
+  const unmatched: ReportedTestCase[] = [];
+
+  for (const testCase of cases) {
+    const tags = new Set(testCase.tags.map(tag => tag.slice(1).toLowerCase()));
+    const title = normalizeName(testCase.name);
+    const fullName = normalizeName(testCase.fullName);
+    const fileStem = testCase.file ? fileBaseName(testCase.file) : '';
+
+    const candidates: Array<[TestCaseMatch, (target: TaskTestTarget) => boolean]> = [
+      ['tag', target => tags.has(target.taskId.toLowerCase()) || tags.has(target.slug.toLowerCase())],
+      ['scenario', target => target.scenarios.some(scenario => {
+        const name = normalizeName(scenario);
+        return name !== '' && (title === name || fullName === name || fullName.endsWith(` ${name}`));
+      })],
+      ['test_file', target => fileStem !== '' && fileBaseName(target.testFile) === fileStem]
+    ];
+
+    let matched = false;
+    for (const [matchedBy, predicate] of candidates) {
+      const hits = targets.filter(predicate);
+      if (hits.length === 0) continue;
+
+      for (const target of hits) {
+        byTask.set(target, [...(byTask.get(target) ?? []), { testCase, matchedBy }]);
+      }
+      matched = true;
+      break;
+    }
+
+    if (!matched) unmatched.push(testCase);
+  }
+
+  return {
+    tasks: [...byTask.entries()].map(([target, matchedCases]) => ({
+      target,
+      cases: matchedCases,
+      result: {
+        passed: matchedCases.filter(entry => entry.testCase.status === 'passed').length,
+        failed: matchedCases.filter(entry => entry.testCase.status === 'failed').length,
+        skipped: matchedCases.filter(entry => entry.testCase.status === 'skipped').length,
+        coverage: 0,
+        details: matchedCases.map(({ testCase }) => ({
+          scenario: testCase.fullName,
+          status: testCase.status,
+          taskId: target.taskId,
+          ...(testCase.file && { file: testCase.file }),
+          ...(testCase.error && { error: testCase.error })
+        }))
+      }
+    })),
+    unmatched
+  };
+}
+
+/**
+ * Parses a report, maps its cases onto the tasks of one feature (or every
+ * feature) and records one test_results row per matched task.
+ */
+export async function ingestTestReport(
+  storage: Storage,
+  content: string,
+  options: { format?: TestReportFormat; featureName?: string } = {}
+): Promise<{ format: TestReportFormat; caseCount: number; tasks: TaskTestResults[]; unmatched: ReportedTestCase[] }> {
+  const { format, cases } = parseTestReport(content, options.format);
+  const featureNames = options.featureName ? [options.featureName] : await storage.getFeatureNames();
+  const targets = await buildTaskTestTargets(storage, featureNames);
+  const { tasks, unmatched } = mapTestCasesToTasks(cases, targets);
+
+  for (const task of tasks) {
+    await storage.updateTestResults(task.target.featureName, task.result, task.target.taskId);
+  }
+
+  return { format, caseCount: cases.length, tasks, unmatched };
+}
+
+/**
+ * Match targets for every task of the given features, with scenario names read
+ * from the task's Gherkin file.
+ */
+export async function buildTaskTestTargets(storage: Storage, featureNames: string[]): Promise<TaskTestTarget[]> {
+  const targets: TaskTestTarget[] = [];
+
+  for (const featureName of featureNames) {
+    const sources = await storage.getScenarioSources(featureName);
+    const gherkinByTask = new Map(sources.files.map(file => [file.taskId, file.content]));
+
+    for (const task of await storage.getFeatureTasks(featureName)) {
+      const gherkin = gherkinByTask.get(task.id);
+      targets.push({
+        featureName,
+        taskId: task.id,
+        slug: task.slug,
+        testFile: task.testFile,
+        scenarios: gherkin ? parseGherkin(gherkin).feature?.scenarios.map(scenario => scenario.name) ?? [] : []
+      });
+    }
+  }
+
+  return targets;
+}
+
+function buildJUnitCase(
+  current: { attributes: Record<string, string>; status: ReportedTestCase['status']; error?: string },
+  suites: Array<Record<string, string>>
+): ReportedTestCase {
+  const { attributes } = current;
+  const suite = suites[suites.length - 1] ?? {};
+  const name = attributes.name ?? '';
+  const classname = attributes.classname ?? '';
+  const looksLikePath = (value?: string) => !!value && TEST_FILE_SUFFIX.test(value);
+  const file = attributes.file
+    ?? suite.file
+    ?? [classname, suite.name].find(looksLikePath);
+  // Vitest writes "describe > test" names; other tools put the describe path in classname
+  const fullName = classname && !looksLikePath(classname) ? `${classname} ${name}` : name.replace(/\s+>\s+/g, ' ');
+
+  return {
+    name: name.split(/\s+>\s+/).pop() ?? name,
+    fullName,
+    ...(file && { file }),
+    status: current.status,
+    ...(current.error && { error: current.error }),
+    tags: extractTags(`${classname} ${name}`)
+  };
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+function stripCdata(value: string): string {
+  return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+function extractTags(text: string): string[] {
+  return [...new Set(text.match(/(?<![\w@])@[\w-]+/g) ?? [])];
+}
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/(?<![\w@])@[\w-]+/g, ' ')
+    .replace(/^\s*Scenario( Outline)?:\s*/i, '')
+    .replace(/\s+\((Examples|Scenarios)[^)]*\)\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function fileBaseName(filePath: string): string {
+  return path.basename(filePath.replace(/\\/g, '/')).replace(TEST_FILE_SUFFIX, '').toLowerCase();
+}
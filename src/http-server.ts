@@ -0,0 +1,236 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SpecLinterServer } from './server.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  /**
+   * When set, MCP requests must send `Authorization: Bearer <token>`;
+   * required when host is not a loopback address
+   */
+  token?: string;
+  /**
+   * Host header values (`name:port`) accepted besides the loopback names and
+   * the bound host, for clients reaching the server under another name
+   */
+  allowedHosts?: string[];
+  /** Sessions without requests for this long are closed; defaults to 30 minutes */
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  server: Server;
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: SpecLinterServer;
+  lastActivity: number;
+  /** Requests still being answered, including open event streams */
+  openRequests: number;
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/**
+ * Serves the MCP tools over the streamable HTTP transport at /mcp, with one
+ * SpecLinterServer per client session, so several agents can share one
+ * project database. GET /health is always open; MCP requests need the
+ * bearer token when one is configured, and one must be configured to bind
+ * anything but a loopback address since the tools run step definitions and
+ * write files. MCP requests must also carry an allowed Host header, which
+ * keeps web pages from reaching the server through DNS rebinding; with a
+ * wildcard host and no allowedHosts only the token protects it. Clients that
+ * disappear without ending their session are cleaned up once the session has
+ * been idle for sessionIdleTimeoutMs.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const host = options.host ?? '127.0.0.1';
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  if (!options.token && !isLoopbackHost(host)) {
+    throw new Error(`A bearer token is required to serve on ${host}, which is not a loopback address`);
+  }
+  if (!Number.isFinite(idleTimeoutMs) || idleTimeoutMs <= 0) {
+    throw new Error(`The session idle timeout must be a positive number of milliseconds, got ${idleTimeoutMs}`);
+  }
+  const sessions = new Map<string, Session>();
+  // Host header values the transports accept, known once the port is bound
+  let allowedHosts: string[] = [];
+
+  const closeIdleSessions = async (): Promise<void> => {
+    const now = Date.now();
+    for (const [id, session] of [...sessions]) {
+      if (session.openRequests > 0 || now - session.lastActivity < idleTimeoutMs) continue;
+      sessions.delete(id);
+      await session.server.close().catch(error => console.error(`Failed to close idle session ${id}:`, error));
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('SpecLinter HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH) {
+      if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' });
+        return;
+      }
+      sendJson(res, 200, { status: 'ok', transport: 'streamable-http', sessions: sessions.size });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: `Not found; MCP is served at ${MCP_PATH}` });
+      return;
+    }
+
+    if (options.token && !hasBearerToken(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      session.lastActivity = Date.now();
+      session.openRequests++;
+      res.once('close', () => {
+        session.openRequests--;
+        session.lastActivity = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      const mcpServer = new SpecLinterServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        allowedHosts,
+        enableDnsRebindingProtection: allowedHosts.length > 0,
+        onsessioninitialized: id => {
+          sessions.set(id, { transport, server: mcpServer, lastActivity: Date.now(), openRequests: 0 });
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      await mcpServer.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(() => void closeIdleSessions(), Math.min(idleTimeoutMs, MAX_SESSION_SWEEP_INTERVAL_MS));
+  sweep.unref();
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  if (!WILDCARD_HOSTS.includes(host) || options.allowedHosts?.length) {
+    const names = WILDCARD_HOSTS.includes(host) ? LOOPBACK_NAMES : [...LOOPBACK_NAMES, formatHost(host)];
+    allowedHosts = [...new Set([...names.map(name => `${name}:${port}`), ...(options.allowedHosts ?? [])])];
+  }
+
+  return {
+    server,
+    url: `http://${formatHost(host)}:${port}${MCP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      for (const session of [...sessions.values()]) {
+        await session.server.close();
+      }
+      sessions.clear();
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    }
+  };
+}
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(host);
+}
+
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text.trim() === '' ? undefined : JSON.parse(text);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
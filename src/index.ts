@@ -3,11 +3,43 @@
 export { TaskGenerator } from './core/generator.js';
 export { Storage } from './core/storage.js';
 export { StorageManager } from './core/storage-manager.js';
+export { TaskGraph } from './core/task-graph.js';
+export { exportFeature, EXPORT_FILE_EXTENSIONS } from './core/task-export.js';
+export { parseIssues, buildImportedFeatures } from './core/issue-import.js';
+export { embedText, cosineSimilarity } from './core/embeddings.js';
+export { parseGherkin, expandScenario } from './core/gherkin.js';
+export { lintGherkin } from './core/gherkin-lint.js';
+export { generateFallbackGherkin } from './core/gherkin-generator.js';
+export { diffFeatureSpec, diffRequirements, extractRequirements } from './core/spec-diff.js';
+export { matchTasks } from './core/task-reconciliation.js';
+export { mergeFeatureSpec, mergeSpecs } from './core/spec-merge.js';
+export { StepRegistry, runScenarios, runFeatureScenarios } from './core/scenario-runner.js';
+export { parseTestReport, ingestTestReport } from './core/test-report-import.js';
+export { parseCoverageReport, ingestCoverageReport } from './core/coverage-import.js';
+export { MigrationRunner, MIGRATIONS, LATEST_SCHEMA_VERSION } from './core/migrations.js';
 export { SpecLinterServer, startServer } from './server.js';
+export { startHttpServer } from './http-server.js';
+export { registerResources } from './server-resources.js';
+export { registerPrompts } from './server-prompts.js';
+export { onStorageChange, type StorageChange } from './core/storage-events.js';
 export * from './types/index.js';
 export * from './types/config.js';
 export {
   handleGetTaskStatus,
+  handleGetReadyTasks,
+  handleGetTaskHistory,
+  handleListFeatures,
+  handleProjectOverview,
+  handleRenameFeature,
+  handleSyncTasks,
+  handleExportFeature,
+  handleRunScenarios,
+  handleIngestTestResults,
+  handleIngestCoverage,
+  handleImportIssues,
+  handleListContinuations,
+  handleAbandonContinuation,
+  handleDeleteFeature,
   handleUpdateTaskStatus,
   handleInitProject
 } from './tools.js';
@@ -21,8 +53,11 @@ export {
   handleGenerateGherkinUnified,
   handleAnalyzeSpecQualityUnified,
   handleGenerateTasksUnified,
-  handleAnalyzeSpecComprehensiveUnified
+  handleAnalyzeSpecComprehensiveUnified,
+  handleImportIssuesUnified
 } from './unified-ai-tools.js';
+export { sampleAIAnalysis, getAnalysisSchema, type AISampler, type AIToolContext } from './ai/shared/sampling.js';
+export { createAIContinuation, resumeAIContinuation, AI_CONTINUATION_TTL_MS } from './ai/shared/continuations.js';
 
 // AI schemas and types
 export * from './types/ai-schemas.js';
@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { resolveProjectRoot } from './tools.js';
+import { StorageManager } from './core/storage-manager.js';
+import { AIPromptTemplates } from './types/ai-schemas.js';
+import { getWorkflowRecommendations } from './utils/dependency-validator.js';
+import type { Task } from './types/index.js';
+
+/**
+ * Registers the standard workflows from docs/PRODUCTION_WORKFLOWS.md as MCP
+ * prompts, so a whole flow can be started from the client's prompt picker.
+ * Each prompt lists the tool calls of the flow in order; the review criteria
+ * come from AIPromptTemplates and the prerequisites from
+ * getWorkflowRecommendations, so they stay in step with the tools.
+ */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    'plan_feature',
+    {
+      title: 'Plan Feature from Spec',
+      description: 'Check a spec for overlap and quality gaps, save it as a feature with tasks and Gherkin scenarios, and list the tasks to start with',
+      argsSchema: {
+        feature_name: z.string().describe('Name for the new feature'),
+        spec: z.string().describe('The specification text'),
+        context: z.string().optional().describe('Additional context about the implementation')
+      }
+    },
+    ({ feature_name, spec, context }) => userPrompt([
+      templateIntro(AIPromptTemplates.specQualityAnalysis),
+      `Plan the feature "${feature_name}" with SpecLinter from this specification:\n\n${spec}`,
+      ...(context ? [`**Implementation context:** ${context}`] : []),
+      prerequisites('speclinter_parse_spec'),
+      steps([
+        `Call \`speclinter_find_similar\` with the spec. If an existing feature overlaps, show it to me and ask whether to merge, replace or skip before going on.`,
+        `Review the spec on these dimensions and point out ambiguous or untestable requirements:\n${templateSection(AIPromptTemplates.specQualityAnalysis, 'QUALITY DIMENSIONS TO EVALUATE')}`,
+        `Call \`speclinter_parse_spec\` with feature_name "${feature_name}", the spec${context ? ', the context' : ''} and my deduplication decision. Check the generated tasks against these criteria:\n${templateSection(AIPromptTemplates.taskGeneration, 'TASK QUALITY CRITERIA')}`,
+        `Call \`speclinter_generate_gherkin\` for tasks whose acceptance criteria need more than the generated scenarios, then \`speclinter_lint_gherkin\` on the feature.`,
+        `Call \`speclinter_get_ready_tasks\` for "${feature_name}" and summarize the grade, the task breakdown and which tasks can start now.`
+      ])
+    ])
+  );
+
+  server.registerPrompt(
+    'validate_feature',
+    {
+      title: 'Validate Feature',
+      description: 'Run a feature\'s scenarios, validate the implementation against its saved spec and report the gaps',
+      argsSchema: {
+        feature_name: completable(z.string().describe('Name of the feature to validate'), completeFeatureName)
+      }
+    },
+    ({ feature_name }) => userPrompt([
+      `Validate the implementation of the feature "${feature_name}" against its saved specification and tasks.`,
+      prerequisites('speclinter_validate_implementation'),
+      steps([
+        `Call \`speclinter_get_task_status\` for "${feature_name}" to see which tasks claim to be done.`,
+        `Call \`speclinter_run_scenarios\` for "${feature_name}" to run its Gherkin scenarios. Skip this step if there are no step definitions yet.`,
+        `Call \`speclinter_validate_implementation\` for "${feature_name}". Where the code evidence is weak, say so instead of guessing.`,
+        `Report the completion percentage, the quality score and every acceptance criterion that is not met, with the files involved.`,
+        `Propose status changes for the tasks, and only call \`speclinter_update_task_status\` once I have confirmed them.`
+      ])
+    ])
+  );
+
+  server.registerPrompt(
+    'onboard_codebase',
+    {
+      title: 'Onboard Existing Codebase',
+      description: 'Initialize SpecLinter, generate the project context files and discover the features the code already implements',
+      argsSchema: {
+        analysis_depth: z.string().optional().describe('quick, standard or comprehensive (default: standard)')
+      }
+    },
+    ({ analysis_depth }) => userPrompt([
+      `Onboard this codebase into SpecLinter. ${templateIntro(AIPromptTemplates.codebaseAnalysis)}`,
+      steps([
+        'Call `speclinter_init_project`. If the project is already initialized, keep the existing setup and go on.',
+        `Call \`speclinter_analyze_codebase\` with analysis_depth "${analysis_depth ?? 'standard'}" and include_reverse_spec true, so the context files are written and the features the code already implements are discovered.`,
+        'Read the `speclinter://context/project.md`, `speclinter://context/patterns.md` and `speclinter://context/architecture.md` resources and summarize the tech stack, patterns and architecture in a few lines.',
+        'Call `speclinter_list_features` and list the discovered features with their grades, pointing out the ones whose specs need work.',
+        'Suggest which feature to plan next with the plan_feature prompt.'
+      ])
+    ])
+  );
+
+  server.registerPrompt(
+    'triage_blocked_tasks',
+    {
+      title: 'Triage Blocked Tasks',
+      description: 'Work out why tasks are blocked and what unblocks them, for one feature or the whole project',
+      argsSchema: {
+        feature_name: z.string().optional().describe('Only triage this feature (default: every feature)')
+      }
+    },
+    async ({ feature_name }) => {
+      const blocked = await getBlockedTasks(feature_name);
+      const scope = feature_name ? `the feature "${feature_name}"` : 'this project';
+
+      if (blocked.length === 0) {
+        return userPrompt([
+          `No tasks are blocked in ${scope}.`,
+          `Call \`speclinter_get_ready_tasks\`${feature_name ? ` for "${feature_name}"` : ' for each feature'} and tell me which tasks can start now.`
+        ]);
+      }
+
+      return userPrompt([
+        `Triage the ${blocked.length} blocked task(s) in ${scope}:`,
+        blocked.map(({ featureName: name, task }) => {
+          const reason = task.blockedBy?.length
+            ? `blocked automatically until ${task.blockedBy.join(', ')} is completed`
+            : `blocked manually${task.notes ? `: ${task.notes}` : ''}`;
+          return `- ${name}/${task.id} "${task.title}": ${reason}`;
+        }).join('\n'),
+        prerequisites('speclinter_update_task_status'),
+        steps([
+          'Call `speclinter_get_task_history` for each blocked task to see when and why it was blocked.',
+          'For automatic blocks, check the status of the prerequisite task and whether it is close to done; for manual blocks, work out what the notes are waiting for.',
+          'Call `speclinter_get_ready_tasks` to find work that can go ahead in the meantime.',
+          'Propose one next action per blocked task and, once I confirm, call `speclinter_update_task_status` to unblock the tasks that are no longer waiting on anything.'
+        ])
+      ]);
+    }
+  );
+}
+
+function userPrompt(sections: string[]): GetPromptResult {
+  return {
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text: sections.join('\n\n') }
+    }]
+  };
+}
+
+function steps(items: string[]): string {
+  return `**Steps:**\n${items.map((item, index) => `${index + 1}. ${item}`).join('\n')}`;
+}
+
+function prerequisites(toolName: string): string {
+  return `**Before you start:**\n${getWorkflowRecommendations(toolName).map(item => `- ${item}`).join('\n')}`;
+}
+
+/**
+ * The opening paragraph of a prompt template, which states its goal.
+ */
+function templateIntro(template: string): string {
+  return template.split('\n\n')[0].trim();
+}
+
+/**
+ * The lines under a `**HEADING:**` line of a prompt template, up to the next blank line.
+ */
+function templateSection(template: string, heading: string): string {
+  const lines = template.split('\n');
+  const start = lines.findIndex(line => line.trim() === `**${heading}:**`);
+  if (start === -1) {
+    throw new Error(`Prompt template has no section '${heading}'`);
+  }
+
+  const end = lines.findIndex((line, index) => index > start && line.trim() === '');
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/**
+ * Completes feature name arguments; offers nothing until the project is initialized.
+ */
+async function completeFeatureName(value: string | undefined): Promise<string[]> {
+  const rootDir = await resolveProjectRoot();
+  try {
+    await fs.access(path.join(rootDir, '.speclinter'));
+  } catch {
+    return [];
+  }
+
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    return (await storage.getFeatureNames()).filter(name => name.startsWith(value ?? ''));
+  } finally {
+    storage.close();
+  }
+}
+
+async function getBlockedTasks(featureName?: string): Promise<Array<{ featureName: string; task: Task }>> {
+  const storage = await StorageManager.createInitializedStorage(await resolveProjectRoot());
+  try {
+    const allFeatureNames = await storage.getFeatureNames();
+    if (featureName && !allFeatureNames.includes(featureName)) {
+      throw new Error(`Feature '${featureName}' not found`);
+    }
+
+    const featureNames = featureName ? [featureName] : allFeatureNames;
+    const blocked: Array<{ featureName: string; task: Task }> = [];
+    for (const name of featureNames) {
+      for (const task of await storage.getFeatureTasks(name)) {
+        if (task.status === 'blocked') {
+          blocked.push({ featureName: name, task });
+        }
+      }
+    }
+    return blocked;
+  } finally {
+    storage.close();
+  }
+}
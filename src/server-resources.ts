@@ -0,0 +1,312 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { handleListFeatures, resolveProjectRoot } from './tools.js';
+import { StorageManager } from './core/storage-manager.js';
+import { Storage } from './core/storage.js';
+import { renderTaskMarkdown } from './core/task-markdown.js';
+import { onStorageChange, type StorageChange } from './core/storage-events.js';
+
+export const FEATURES_URI = 'speclinter://features';
+
+/** Context files written by speclinter_analyze_codebase */
+const CONTEXT_FILES = ['project.md', 'patterns.md', 'architecture.md'];
+
+export function taskResourceUri(featureName: string, taskId: string): string {
+  return `${FEATURES_URI}/${encodeURIComponent(featureName)}/tasks/${encodeURIComponent(taskId)}`;
+}
+
+export function gherkinResourceUri(featureName: string, file: string): string {
+  return `${FEATURES_URI}/${encodeURIComponent(featureName)}/gherkin/${encodeURIComponent(file)}`;
+}
+
+export function contextResourceUri(file: string): string {
+  return `speclinter://context/${encodeURIComponent(file)}`;
+}
+
+/**
+ * Exposes features, tasks, Gherkin scenarios and context files of the
+ * auto-detected project root as MCP resources. Clients subscribed to a
+ * resource get notifications/resources/updated when Storage rewrites it,
+ * and every client gets notifications/resources/list_changed when features
+ * are added, renamed or deleted. Must be called before the server connects;
+ * returns a function that stops forwarding storage changes.
+ */
+export function registerResources(server: McpServer): () => void {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.registerResource(
+    'features',
+    FEATURES_URI,
+    {
+      title: 'Features',
+      description: 'Every feature with its spec grade and task progress',
+      mimeType: 'application/json'
+    },
+    async (uri: URL) => {
+      const result = await handleListFeatures({});
+      return jsonContents(uri.href, result);
+    }
+  );
+
+  server.registerResource(
+    'task',
+    new ResourceTemplate(`${FEATURES_URI}/{name}/tasks/{id}`, {
+      list: async () => ({
+        resources: await withProjectStorage(async storage => {
+          const resources: Resource[] = [];
+          for (const featureName of await storage.getFeatureNames()) {
+            for (const task of await storage.getFeatureTasks(featureName)) {
+              resources.push({
+                uri: taskResourceUri(featureName, task.id),
+                name: `${featureName}/${task.id}`,
+                title: task.title,
+                mimeType: 'text/markdown'
+              });
+            }
+          }
+          return resources;
+        })
+      })
+    }),
+    {
+      title: 'Task',
+      description: 'A task rendered as markdown with its current status, acceptance criteria and notes',
+      mimeType: 'text/markdown'
+    },
+    async (uri: URL, variables: Variables) => {
+      const featureName = readVariable(variables.name);
+      const taskId = readVariable(variables.id);
+      const storage = await StorageManager.createInitializedStorage(await resolveProjectRoot());
+      try {
+        const task = await storage.getTask(featureName, taskId);
+        if (!task) {
+          throw new Error(`Task '${taskId}' not found in feature '${featureName}'`);
+        }
+        return textContents(uri.href, 'text/markdown', renderTaskMarkdown(task, featureName));
+      } finally {
+        storage.close();
+      }
+    }
+  );
+
+  server.registerResource(
+    'gherkin',
+    new ResourceTemplate(`${FEATURES_URI}/{name}/gherkin/{file}`, {
+      list: async () => ({
+        resources: await withProjectStorage(async storage => {
+          const resources: Resource[] = [];
+          for (const featureName of await storage.getFeatureNames()) {
+            const { files } = await storage.getScenarioSources(featureName);
+            for (const file of files.filter(file => file.content !== null)) {
+              resources.push({
+                uri: gherkinResourceUri(featureName, file.testFile),
+                name: `${featureName}/${file.testFile}`,
+                mimeType: 'text/x-gherkin'
+              });
+            }
+          }
+          return resources;
+        })
+      })
+    }),
+    {
+      title: 'Gherkin Scenarios',
+      description: 'The Gherkin feature file generated for a task',
+      mimeType: 'text/x-gherkin'
+    },
+    async (uri: URL, variables: Variables) => {
+      const featureName = readVariable(variables.name);
+      const file = readVariable(variables.file);
+      const storage = await StorageManager.createInitializedStorage(await resolveProjectRoot());
+      try {
+        const { files } = await storage.getScenarioSources(featureName);
+        const scenario = files.find(candidate => candidate.testFile === file);
+        if (!scenario?.content) {
+          throw new Error(`Gherkin file '${file}' not found in feature '${featureName}'`);
+        }
+        return textContents(uri.href, 'text/x-gherkin', scenario.content);
+      } finally {
+        storage.close();
+      }
+    }
+  );
+
+  server.registerResource(
+    'context',
+    new ResourceTemplate('speclinter://context/{file}', {
+      list: async () => ({
+        resources: await withProjectStorage(async (storage, rootDir) => {
+          const contextDir = await getContextDir(storage, rootDir);
+          const resources: Resource[] = [];
+          for (const file of CONTEXT_FILES) {
+            if (await readContextFile(contextDir, file) !== null) {
+              resources.push({ uri: contextResourceUri(file), name: file, mimeType: 'text/markdown' });
+            }
+          }
+          return resources;
+        })
+      })
+    }),
+    {
+      title: 'Project Context',
+      description: 'A context file generated by speclinter_analyze_codebase: project.md, patterns.md or architecture.md',
+      mimeType: 'text/markdown'
+    },
+    async (uri: URL, variables: Variables) => {
+      const file = readVariable(variables.file);
+      if (!CONTEXT_FILES.includes(file)) {
+        throw new Error(`Unknown context file '${file}'; expected one of ${CONTEXT_FILES.join(', ')}`);
+      }
+
+      const rootDir = await resolveProjectRoot();
+      const storage = await StorageManager.createInitializedStorage(rootDir);
+      try {
+        const content = await readContextFile(await getContextDir(storage, rootDir), file);
+        if (content === null) {
+          throw new Error(`Context file '${file}' has not been generated; run speclinter_analyze_codebase first`);
+        }
+        return textContents(uri.href, 'text/markdown', content);
+      } finally {
+        storage.close();
+      }
+    }
+  );
+
+  return forwardStorageChanges(server, subscriptions);
+}
+
+/**
+ * Storage writes come in bursts (saving a feature rewrites every task file),
+ * so changes are collected and sent once per tick, deduplicated by URI.
+ */
+function forwardStorageChanges(server: McpServer, subscriptions: Set<string>): () => void {
+  let pending: StorageChange[] = [];
+
+  const flush = async () => {
+    const changes = pending;
+    pending = [];
+    if (!server.isConnected()) return;
+
+    const rootDir = path.resolve(await resolveProjectRoot());
+    const updated = new Set<string>();
+    let listChanged = false;
+
+    for (const change of changes.filter(candidate => candidate.rootDir === rootDir)) {
+      switch (change.type) {
+        case 'features':
+          listChanged = true;
+          updated.add(FEATURES_URI);
+          break;
+        case 'feature':
+          updated.add(FEATURES_URI);
+          break;
+        case 'task':
+          // Task status feeds the progress counts in the feature list
+          updated.add(taskResourceUri(change.featureName, change.taskId));
+          updated.add(FEATURES_URI);
+          break;
+        case 'gherkin':
+          updated.add(gherkinResourceUri(change.featureName, change.file));
+          break;
+        case 'context':
+          // The file may not have existed before
+          listChanged = true;
+          updated.add(contextResourceUri(change.file));
+          break;
+      }
+    }
+
+    for (const uri of updated) {
+      if (subscriptions.has(uri)) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    }
+    if (listChanged) {
+      server.sendResourceListChanged();
+    }
+  };
+
+  const unsubscribe = onStorageChange(change => {
+    if (pending.length === 0) {
+      setImmediate(() => {
+        flush().catch(error => {
+          console.error('Failed to send resource notifications:', error);
+        });
+      });
+    }
+    pending.push(change);
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+
+  return unsubscribe;
+}
+
+/**
+ * Runs the callback against the project's storage, or returns an empty list
+ * when the project has not been initialized yet.
+ */
+async function withProjectStorage(
+  callback: (storage: Storage, rootDir: string) => Promise<Resource[]>
+): Promise<Resource[]> {
+  const rootDir = await resolveProjectRoot();
+  try {
+    await fs.access(path.join(rootDir, '.speclinter'));
+  } catch {
+    return [];
+  }
+
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    return await callback(storage, rootDir);
+  } finally {
+    storage.close();
+  }
+}
+
+async function getContextDir(storage: Storage, rootDir: string): Promise<string> {
+  const config = await storage.getConfig();
+  return path.join(rootDir, config.context.contextDir);
+}
+
+async function readContextFile(contextDir: string, file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(contextDir, file), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function readVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+}
+
+function jsonContents(uri: string, value: unknown): ReadResourceResult {
+  return textContents(uri, 'application/json', JSON.stringify(value, null, 2));
+}
+
+function textContents(uri: string, mimeType: string, text: string): ReadResourceResult {
+  return { contents: [{ uri, mimeType, text }] };
+}
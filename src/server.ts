@@ -1,15 +1,34 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { z } from 'zod';
 import {
   handleGetTaskStatus,
+  handleGetReadyTasks,
+  handleGetTaskHistory,
+  handleListFeatures,
+  handleProjectOverview,
+  handleRenameFeature,
+  handleSyncTasks,
+  handleExportFeature,
+  handleRunScenarios,
+  handleIngestTestResults,
+  handleIngestCoverage,
+  handleLintGherkin,
+  handleDiffSpec,
+  handleListContinuations,
+  handleAbandonContinuation,
+  handleDeleteFeature,
   handleUpdateTaskStatus,
   handleInitProject
 } from './tools.js';
 import { registerAITools } from './ai-server-tools.js';
+import { registerResources } from './server-resources.js';
+import { registerPrompts } from './server-prompts.js';
 
 class SpecLinterServer {
   private server: McpServer;
+  private stopResourceNotifications: () => void;
 
   constructor() {
     this.server = new McpServer({
@@ -18,6 +37,8 @@ class SpecLinterServer {
     });
 
     this.setupTools();
+    registerPrompts(this.server);
+    this.stopResourceNotifications = registerResources(this.server);
   }
 
   private setupTools() {
@@ -44,6 +65,28 @@ class SpecLinterServer {
       }
     );
 
+    // Ready tasks tool
+    this.server.registerTool(
+      'speclinter_get_ready_tasks',
+      {
+        title: 'Get Ready Tasks',
+        description: 'List the tasks of a feature whose prerequisite tasks are all completed, in dependency order',
+        inputSchema: {
+          feature_name: z.string().describe('Name of the feature to check'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleGetReadyTasks(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
     // Legacy run_tests tool removed - replaced with unified AI-leveraged validation
     // Use speclinter_validate_implementation instead
 
@@ -72,6 +115,333 @@ class SpecLinterServer {
       }
     );
 
+    // Task file sync tool
+    this.server.registerTool(
+      'speclinter_sync_tasks',
+      {
+        title: 'Sync Task Files',
+        description: 'Apply edits made in task markdown files (status line, acceptance criteria checkboxes, implementation notes) to the database and re-render files changed in the database, reporting fields edited on both sides since the last render',
+        inputSchema: {
+          feature_name: z.string().optional().describe('Name of the feature to sync (defaults to all features)'),
+          prefer: z.enum(['file', 'database']).optional().describe('Resolve conflicts by keeping the file or the database value; conflicts are only reported when omitted'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleSyncTasks(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Feature export tool
+    this.server.registerTool(
+      'speclinter_export_feature',
+      {
+        title: 'Export Feature',
+        description: 'Export a feature\'s tasks, including dependencies, acceptance criteria and Gherkin scenarios, to a GitHub, GitLab or Jira issue import format or to JSON',
+        inputSchema: {
+          feature_name: z.string().describe('Name of the feature to export'),
+          format: z.enum(['github', 'gitlab', 'jira-csv', 'json']).describe('github: JSON issue payloads, gitlab: issue CSV, jira-csv: Jira CSV importer file, json: full SpecLinter export'),
+          output_path: z.string().optional().describe('File to write the export to, relative to the project root; the export is only returned when omitted'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleExportFeature(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Task history tool
+    this.server.registerTool(
+      'speclinter_get_task_history',
+      {
+        title: 'Get Task History',
+        description: 'Get the status change timeline of a feature\'s tasks, including notes and whether each change was manual, from AI validation or from import',
+        inputSchema: {
+          feature_name: z.string().describe('Name of the feature'),
+          task_id: z.string().optional().describe('Limit the timeline to a single task'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleGetTaskHistory(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // List features tool
+    this.server.registerTool(
+      'speclinter_list_features',
+      {
+        title: 'List Features',
+        description: 'List every feature with its spec grade, task counts and overall status',
+        inputSchema: {
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleListFeatures(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Project overview tool
+    this.server.registerTool(
+      'speclinter_project_overview',
+      {
+        title: 'Project Overview',
+        description: 'Summarize every feature\'s task status, latest validation scores and spec grade, sorted by risk, and write speclinter-tasks/_overview.md',
+        inputSchema: {
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleProjectOverview(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Rename feature tool
+    this.server.registerTool(
+      'speclinter_rename_feature',
+      {
+        title: 'Rename Feature',
+        description: 'Rename a feature in the database and move its speclinter-tasks folder',
+        inputSchema: {
+          feature_name: z.string().describe('Current name of the feature'),
+          new_name: z.string().describe('New name for the feature'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleRenameFeature(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Run Gherkin scenarios tool
+    this.server.registerTool(
+      'speclinter_run_scenarios',
+      {
+        title: 'Run Scenarios',
+        description: 'Run a feature\'s generated Gherkin scenarios against step definition modules and record pass/fail/skip per scenario',
+        inputSchema: {
+          feature_name: z.string().describe('Name of the feature whose scenarios to run'),
+          task_id: z.string().optional().describe('Only run the scenarios of this task'),
+          step_definitions: z.array(z.string()).optional().describe('Extra step definition files or directories, relative to the project root'),
+          tags: z.array(z.string()).optional().describe('Only run scenarios with at least one of these tags, e.g. ["@smoke"]'),
+          step_timeout_ms: z.number().int().positive().optional().describe('Timeout for a single step in milliseconds (default: 5000)'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleRunScenarios(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Ingest CI test results tool
+    this.server.registerTool(
+      'speclinter_ingest_test_results',
+      {
+        title: 'Ingest Test Results',
+        description: 'Import a JUnit XML or Vitest/Jest JSON report and record its test outcomes against the matching tasks',
+        inputSchema: {
+          file_path: z.string().optional().describe('Report file, relative to the project root'),
+          content: z.string().optional().describe('Report content, instead of file_path'),
+          format: z.enum(['junit', 'json']).optional().describe('Report format (detected from the content when omitted)'),
+          feature_name: z.string().optional().describe('Only map test cases onto this feature\'s tasks'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleIngestTestResults(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Ingest coverage report tool
+    this.server.registerTool(
+      'speclinter_ingest_coverage',
+      {
+        title: 'Ingest Coverage',
+        description: 'Import an lcov.info or istanbul coverage-final.json report and check each task\'s implementation files against its coverage target',
+        inputSchema: {
+          file_path: z.string().optional().describe('Coverage report file, relative to the project root'),
+          content: z.string().optional().describe('Report content, instead of file_path'),
+          format: z.enum(['lcov', 'istanbul']).optional().describe('Report format (detected from the content when omitted)'),
+          feature_name: z.string().optional().describe('Only recompute coverage for this feature\'s tasks'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleIngestCoverage(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Lint Gherkin tool
+    this.server.registerTool(
+      'speclinter_lint_gherkin',
+      {
+        title: 'Lint Gherkin',
+        description: 'Check generated or hand-edited .feature files for syntax errors, malformed Examples, duplicate titles, missing Then steps and vague wording, scored against the gherkinQuality settings',
+        inputSchema: {
+          feature_name: z.string().optional().describe('Lint every .feature file of this feature'),
+          task_id: z.string().optional().describe('Only lint the Gherkin file of this task (requires feature_name)'),
+          file_path: z.string().optional().describe('A single .feature file, relative to the project root'),
+          content: z.string().optional().describe('Gherkin content to lint, instead of a file'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleLintGherkin(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Spec diff tool
+    this.server.registerTool(
+      'speclinter_diff_spec',
+      {
+        title: 'Diff Spec',
+        description: 'Show a text and requirement-level diff between revisions of a feature spec, or against a proposed new spec, and propose obsolete, changed and new tasks without touching task statuses',
+        inputSchema: {
+          feature_name: z.string().describe('Name of the feature'),
+          from_revision: z.number().int().positive().optional().describe('Revision to compare from (default: the one before to_revision, or the latest when spec is given)'),
+          to_revision: z.number().int().positive().optional().describe('Revision to compare to (default: the latest)'),
+          spec: z.string().optional().describe('A proposed new spec to compare against instead of a saved revision'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleDiffSpec(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // List continuations tool
+    this.server.registerTool(
+      'speclinter_list_continuations',
+      {
+        title: 'List Continuations',
+        description: 'List the prepared AI analyses still waiting for an answer, with the tool, feature and expiry of each; expired ones are removed',
+        inputSchema: {
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleListContinuations(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Abandon continuation tool
+    this.server.registerTool(
+      'speclinter_abandon_continuation',
+      {
+        title: 'Abandon Continuation',
+        description: 'Discard a prepared AI analysis that will not be answered, so its continuation_id can no longer be used',
+        inputSchema: {
+          continuation_id: z.string().describe('ID of the continuation to discard'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleAbandonContinuation(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Delete feature tool
+    this.server.registerTool(
+      'speclinter_delete_feature',
+      {
+        title: 'Delete Feature',
+        description: 'Delete a feature with its tasks, history, validation and test results, and speclinter-tasks folder',
+        inputSchema: {
+          feature_name: z.string().describe('Name of the feature to delete'),
+          confirm: z.boolean().optional().default(false).describe('Must be true to actually delete the feature'),
+          project_root: z.string().optional().describe('Root directory of the project (defaults to auto-detected project root)')
+        }
+      },
+      async (args) => {
+        const result = await handleDeleteFeature(args);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      }
+    );
+
     // Initialize project tool
     this.server.registerTool(
       'speclinter_init_project',
@@ -100,9 +470,22 @@ class SpecLinterServer {
 
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     console.error('SpecLinter MCP server running on stdio');
   }
+
+  /**
+   * Serves one client over the given transport. Each MCP session needs its own
+   * SpecLinterServer; they share the project database.
+   */
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    this.stopResourceNotifications();
+    await this.server.close();
+  }
 }
 
 export async function startServer() {
@@ -1,7 +1,15 @@
 // TaskGenerator import removed - legacy test functionality replaced with AI validation
 import { Storage } from './core/storage.js';
 import { StorageManager } from './core/storage-manager.js';
-import { TaskStatusSchema } from './types/index.js';
+import { exportFeature } from './core/task-export.js';
+import { buildImportedFeatures, parseIssues } from './core/issue-import.js';
+import { runFeatureScenarios } from './core/scenario-runner.js';
+import { ingestTestReport } from './core/test-report-import.js';
+import { ingestCoverageReport } from './core/coverage-import.js';
+import { lintGherkin } from './core/gherkin-lint.js';
+import { diffFeatureSpec, type SpecDiff } from './core/spec-diff.js';
+import { mergeFeatureSpec } from './core/spec-merge.js';
+import { ExportFormatSchema, IssueImportFormatSchema, ParseResult, TaskStatusSchema, TestReportFormatSchema, CoverageFormatSchema } from './types/index.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { DEFAULT_CONFIG } from './types/config.js';
@@ -52,14 +60,773 @@ async function findProjectRoot(startDir: string): Promise<string | null> {
   return null;
 }
 
+/**
+ * Resolves a path a tool call names relative to the project root, refusing
+ * any that leads outside it
+ */
+export function resolveProjectPath(rootDir: string, target: string): string {
+  const resolved = path.resolve(rootDir, target);
+  const relative = path.relative(rootDir, resolved);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Path '${target}' is outside the project root ${rootDir}`);
+  }
+  return resolved;
+}
+
 // Tool handlers
 
 export async function handleGetTaskStatus(args: any) {
   const { feature_name, project_root } = args;
   const rootDir = await resolveProjectRoot(project_root);
   const storage = await StorageManager.createInitializedStorage(rootDir);
-  const status = await storage.getFeatureStatus(feature_name);
-  return status;
+  try {
+    const status = await storage.getFeatureStatus(feature_name);
+    return status;
+  } finally {
+    storage.close();
+  }
+}
+
+export async function handleGetReadyTasks(args: any) {
+  const { feature_name, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    const graph = await storage.getTaskGraph(feature_name);
+    const readyTasks = graph.getReadyTasks();
+    const tasks = graph.topologicalOrder();
+
+    return {
+      feature_name,
+      next_task: readyTasks.find(task => task.status === 'not_started') ?? readyTasks[0] ?? null,
+      ready_tasks: readyTasks.map(task => ({
+        task_id: task.id,
+        title: task.title,
+        status: task.status
+      })),
+      waiting_tasks: tasks
+        .filter(task => task.status !== 'completed' && graph.getPendingPrerequisites(task.id).length > 0)
+        .map(task => ({
+          task_id: task.id,
+          title: task.title,
+          status: task.status,
+          waiting_on: graph.getPendingPrerequisites(task.id)
+        }))
+    };
+  } finally {
+    storage.close();
+  }
+}
+
+export async function handleGetTaskHistory(args: any) {
+  const { feature_name, task_id, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    const history = await storage.getTaskHistory(feature_name, task_id);
+    const titles = new Map(
+      (await storage.getFeatureTasks(feature_name)).map(task => [task.id, task.title])
+    );
+
+    return {
+      feature_name,
+      task_id: task_id ?? null,
+      total_entries: history.length,
+      timeline: history.map(entry => ({
+        task_id: entry.taskId,
+        title: titles.get(entry.taskId) ?? null,
+        old_status: entry.oldStatus,
+        new_status: entry.newStatus,
+        notes: entry.notes,
+        source: entry.source,
+        changed_at: entry.changedAt
+      }))
+    };
+  } finally {
+    storage.close();
+  }
+}
+
+export async function handleListFeatures(args: any) {
+  const { project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    const features = await storage.listFeatures();
+
+    return {
+      total_features: features.length,
+      features: features.map(feature => ({
+        name: feature.name,
+        grade: feature.grade,
+        score: feature.score,
+        source_type: feature.sourceType,
+        overall_status: feature.status.overallStatus,
+        total_tasks: feature.status.totalTasks,
+        completed_tasks: feature.status.completedTasks,
+        in_progress_tasks: feature.status.inProgressTasks,
+        blocked_tasks: feature.status.blockedTasks,
+        created_at: feature.createdAt
+      }))
+    };
+  } finally {
+    storage.close();
+  }
+}
+
+export async function handleProjectOverview(args: any) {
+  const { project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+  const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    const overview = await storage.getProjectOverview();
+    const overviewFile = await storage.updateOverviewFile(overview);
+
+    return {
+      generated_at: overview.generatedAt,
+      overview_file: overviewFile,
+      totals: {
+        features: overview.totals.features,
+        tasks: overview.totals.tasks,
+        completed_tasks: overview.totals.completedTasks,
+        in_progress_tasks: overview.totals.inProgressTasks,
+        blocked_tasks: overview.totals.blockedTasks
+      },
+      features: overview.features.map(feature => ({
+        name: feature.name,
+        risk_level: feature.riskLevel,
+        risk_score: feature.riskScore,
+        risk_factors: feature.riskFactors,
+        grade: feature.grade,
+        score: feature.score,
+        overall_status: feature.status.overallStatus,
+        completed_tasks: feature.status.completedTasks,
+        total_tasks: feature.status.totalTasks,
+        blocked_tasks: feature.status.blockedTasks,
+        quality_score: feature.validation?.qualityScore ?? null,
+        completion_percentage: feature.validation?.completionPercentage ?? null,
+        last_validated: feature.validation?.validatedAt ?? null
+      }))
+    };
+  } finally {
+    storage.close();
+  }
+}
+
+export async function handleRenameFeature(args: any) {
+  const { feature_name, new_name, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const filesUpdated = await storage.renameFeature(feature_name, new_name);
+
+    return {
+      success: true,
+      feature_name: new_name,
+      previous_name: feature_name,
+      files_updated: filesUpdated
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to rename feature: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleDeleteFeature(args: any) {
+  const { feature_name, confirm = false, project_root } = args;
+
+  if (!confirm) {
+    return {
+      success: false,
+      message: `Deleting '${feature_name}' removes its tasks, history, validation and test results, and task folder. Call again with confirm: true to proceed.`,
+      feature_name
+    };
+  }
+
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const result = await storage.deleteFeature(feature_name);
+
+    return {
+      success: true,
+      feature_name,
+      tasks_deleted: result.tasksDeleted,
+      directory_removed: result.directoryRemoved
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to delete feature: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleSyncTasks(args: any) {
+  const { feature_name, prefer, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const featureNames = feature_name ? [feature_name] : await storage.getFeatureNames();
+    const results = [];
+
+    for (const name of featureNames) {
+      results.push(await storage.syncTaskFiles(name, { prefer }));
+    }
+
+    const unresolved = results.flatMap(result => result.conflicts).filter(conflict => conflict.resolution === 'unresolved');
+
+    return {
+      success: true,
+      unresolved_conflicts: unresolved.length,
+      features: results.map(result => ({
+        feature_name: result.featureName,
+        updated_from_files: result.updatedFromFiles.map(update => ({ task_id: update.taskId, fields: update.fields })),
+        rerendered_files: result.rerenderedFiles,
+        conflicts: result.conflicts.map(conflict => ({
+          task_id: conflict.taskId,
+          field: conflict.field,
+          file_value: conflict.fileValue,
+          database_value: conflict.databaseValue,
+          resolution: conflict.resolution
+        })),
+        errors: result.errors
+      })),
+      ...(unresolved.length > 0 && {
+        message: `${unresolved.length} field(s) changed in both the task files and the database. Call again with prefer: "file" or prefer: "database" to resolve them.`
+      })
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to sync task files: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleExportFeature(args: any) {
+  const { feature_name, format, output_path, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    const exportFormat = ExportFormatSchema.parse(format);
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const feature = await storage.getFeatureExport(feature_name);
+    const content = exportFeature(feature, exportFormat);
+
+    let outputFile: string | undefined;
+    if (output_path) {
+      outputFile = resolveProjectPath(rootDir, output_path);
+      await fs.mkdir(path.dirname(outputFile), { recursive: true });
+      await fs.writeFile(outputFile, content);
+    }
+
+    return {
+      success: true,
+      feature_name,
+      format: exportFormat,
+      task_count: feature.tasks.length,
+      ...(outputFile && { output_file: outputFile }),
+      content
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to export feature: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleRunScenarios(args: any) {
+  const { feature_name, task_id, step_definitions, tags, step_timeout_ms, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const run = await runFeatureScenarios(storage, rootDir, feature_name, {
+      taskId: task_id,
+      stepDefinitions: step_definitions,
+      tags,
+      stepTimeoutMs: step_timeout_ms
+    });
+
+    return {
+      success: true,
+      feature_name,
+      passed: run.passed,
+      failed: run.failed,
+      skipped: run.skipped,
+      step_definition_files: run.stepDefinitionFiles.map(file => path.relative(rootDir, file)),
+      step_definition_errors: run.stepDefinitionErrors.map(({ file, error }) => ({ file: path.relative(rootDir, file), error })),
+      tasks: run.tasks.map(task => ({
+        task_id: task.taskId,
+        test_file: task.testFile,
+        passed: task.result.passed,
+        failed: task.result.failed,
+        skipped: task.result.skipped,
+        scenarios: task.scenarios
+      })),
+      undefined_steps: run.undefinedSteps,
+      ...(run.stepDefinitionFiles.length === 0 && {
+        message: `No step definitions found. Add modules to speclinter-tasks/${feature_name}/steps or .speclinter/steps, or pass step_definitions.`
+      })
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to run scenarios: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleImportIssues(args: any) {
+  const {
+    file_path,
+    content,
+    format,
+    feature_name,
+    deduplication_strategy,
+    similarity_threshold,
+    skip_similarity_check = false,
+    project_root
+  } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    const importFormat = IssueImportFormatSchema.parse(format);
+    if (!file_path && !content) {
+      throw new Error('Either file_path or content is required');
+    }
+
+    const source = content ?? await fs.readFile(resolveProjectPath(rootDir, file_path), 'utf-8');
+    const issues = parseIssues(source, importFormat);
+    const features = buildImportedFeatures(issues, importFormat, feature_name);
+    storage = await StorageManager.createInitializedStorage(rootDir);
+
+    const imported = [];
+    const skipped = [];
+    for (const feature of features) {
+      // Imported specs have not been graded yet; the grade is recorded by speclinter_analyze_spec_quality
+      const parseResult: ParseResult = {
+        spec: feature.spec,
+        grade: 'Pending',
+        score: 0,
+        tasks: feature.tasks,
+        improvements: [],
+        missingElements: []
+      };
+      const saveResult = await storage.saveFeature(feature.featureName, feature.tasks, parseResult, {
+        onSimilarFound: deduplication_strategy,
+        similarityThreshold: similarity_threshold,
+        skipSimilarityCheck: skip_similarity_check,
+        source: 'import'
+      });
+
+      if (saveResult.duplicateInfo) {
+        skipped.push({
+          feature_name: feature.featureName,
+          issue_keys: feature.issueKeys,
+          duplicate_info: saveResult.duplicateInfo
+        });
+        continue;
+      }
+
+      const storedSpec = (await storage.getAllFeatures()).find(stored => stored.name === feature.featureName)?.spec;
+      imported.push({
+        feature_name: feature.featureName,
+        issue_keys: feature.issueKeys,
+        task_count: saveResult.mergeResult?.mergedTasks.length ?? feature.tasks.length,
+        spec: storedSpec ?? feature.spec,
+        files_created: saveResult.files,
+        ...(saveResult.mergeResult && { merge_result: saveResult.mergeResult })
+      });
+    }
+
+    return {
+      success: true,
+      format: importFormat,
+      issue_count: issues.length,
+      imported,
+      skipped,
+      ...(skipped.length > 0 && {
+        message: `${skipped.length} feature(s) matched existing features and were not saved. Re-run with deduplication_strategy 'merge' or 'replace' to import them.`
+      })
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to import issues: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleIngestTestResults(args: any) {
+  const { file_path, content, format, feature_name, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    if (!file_path && !content) {
+      throw new Error('Either file_path or content is required');
+    }
+
+    const reportFormat = format === undefined ? undefined : TestReportFormatSchema.parse(format);
+    const source = content ?? await fs.readFile(resolveProjectPath(rootDir, file_path), 'utf-8');
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const ingested = await ingestTestReport(storage, source, { format: reportFormat, featureName: feature_name });
+
+    return {
+      success: true,
+      format: ingested.format,
+      test_case_count: ingested.caseCount,
+      matched_case_count: ingested.caseCount - ingested.unmatched.length,
+      tasks: ingested.tasks.map(task => ({
+        feature_name: task.target.featureName,
+        task_id: task.target.taskId,
+        passed: task.result.passed,
+        failed: task.result.failed,
+        skipped: task.result.skipped,
+        matched_by: [...new Set(task.cases.map(entry => entry.matchedBy))]
+      })),
+      unmatched: ingested.unmatched.slice(0, 50).map(testCase => ({
+        name: testCase.fullName,
+        ...(testCase.file && { file: testCase.file }),
+        status: testCase.status
+      })),
+      ...(ingested.unmatched.length > 0 && {
+        message: `${ingested.unmatched.length} test case(s) did not match any task. Name the test file after the task's Gherkin file, reuse the scenario name, or add an @<task_id> tag to the test name.`
+      })
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to ingest test results: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleIngestCoverage(args: any) {
+  const { file_path, content, format, feature_name, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    if (!file_path && !content) {
+      throw new Error('Either file_path or content is required');
+    }
+
+    const coverageFormat = format === undefined ? undefined : CoverageFormatSchema.parse(format);
+    const source = content ?? await fs.readFile(resolveProjectPath(rootDir, file_path), 'utf-8');
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const ingested = await ingestCoverageReport(storage, rootDir, source, { format: coverageFormat, featureName: feature_name });
+
+    const tasks = ingested.features.flatMap(feature => feature.tasks.map(task => ({ feature_name: feature.featureName, ...task })));
+    const measured = tasks.filter(task => task.coverage);
+
+    return {
+      success: true,
+      format: ingested.format,
+      file_count: ingested.fileCount,
+      tasks: measured.map(task => ({
+        feature_name: task.feature_name,
+        task_id: task.taskId,
+        percentage: task.coverage!.percentage,
+        target: task.coverage!.target,
+        status: task.coverage!.met === null ? 'no_target' : task.coverage!.met ? 'met' : 'unmet',
+        files: task.coverage!.files
+      })),
+      unmeasured_tasks: tasks.filter(task => !task.coverage).map(task => ({
+        feature_name: task.feature_name,
+        task_id: task.taskId,
+        reason: task.implementationFiles.length === 0
+          ? 'no implementation files recorded by validation'
+          : 'implementation files not found in the coverage report'
+      })),
+      ...(measured.length === 0 && {
+        message: 'No task could be measured. Coverage is mapped onto the implementation files recorded by speclinter_validate_implementation; run it first, then ingest again.'
+      })
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to ingest coverage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleLintGherkin(args: any) {
+  const { feature_name, task_id, file_path, content, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    if (!feature_name && !file_path && !content) {
+      throw new Error('One of feature_name, file_path or content is required');
+    }
+
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const config = await storage.getConfig();
+
+    let sources: Array<{ file: string; task_id?: string; content: string }>;
+    if (content !== undefined) {
+      sources = [{ file: file_path ?? '(content)', content }];
+    } else if (file_path) {
+      sources = [{ file: file_path, content: await fs.readFile(resolveProjectPath(rootDir, file_path), 'utf-8') }];
+    } else if (task_id) {
+      const { files } = await storage.getScenarioSources(feature_name, task_id);
+      sources = files
+        .filter(file => file.content !== null)
+        .map(file => ({ file: file.testFile, task_id: file.taskId, content: file.content! }));
+    } else {
+      const gherkinDir = path.join(rootDir, config.storage.tasksDir, feature_name, 'gherkin');
+      const names = (await fs.readdir(gherkinDir).catch(() => [] as string[])).filter(name => name.endsWith('.feature')).sort();
+      sources = await Promise.all(names.map(async name => ({ file: name, content: await fs.readFile(path.join(gherkinDir, name), 'utf-8') })));
+    }
+
+    if (sources.length === 0) {
+      throw new Error(task_id
+        ? `Task '${task_id}' has no Gherkin file on disk`
+        : `No .feature files found for feature '${feature_name}'`);
+    }
+
+    const files = sources.map(source => {
+      const report = lintGherkin(source.content, config.generation.gherkinQuality);
+      return {
+        file: source.file,
+        ...(source.task_id && { task_id: source.task_id }),
+        score: report.score,
+        scenario_count: report.scenarioCount,
+        errors: report.errors,
+        warnings: report.warnings,
+        issues: report.issues
+      };
+    });
+    const errors = files.reduce((sum, file) => sum + file.errors, 0);
+    const warnings = files.reduce((sum, file) => sum + file.warnings, 0);
+
+    return {
+      success: true,
+      feature_name,
+      score: Math.round(files.reduce((sum, file) => sum + file.score, 0) / files.length),
+      errors,
+      warnings,
+      files,
+      next_steps: errors > 0
+        ? ['Fix the reported errors; scenarios with syntax or Examples errors cannot run']
+        : warnings > 0
+          ? ['Tighten vague steps and adjust scenarios to the gherkinQuality settings']
+          : ['Gherkin files pass all lint checks']
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to lint Gherkin: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleDiffSpec(args: any) {
+  const { feature_name, from_revision, to_revision, spec, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const diff = await diffFeatureSpec(storage, feature_name, { fromRevision: from_revision, toRevision: to_revision, spec });
+    const { proposals } = diff;
+    const describeRevision = (revision: SpecDiff['to']) => ({
+      revision: revision.revision ?? 'proposed',
+      ...(revision.revision !== null && { grade: revision.grade, score: revision.score, created_at: revision.createdAt })
+    });
+
+    return {
+      success: true,
+      feature_name,
+      revisions: diff.revisions.map(revision => ({
+        revision: revision.revision,
+        grade: revision.grade,
+        score: revision.score,
+        created_at: revision.createdAt
+      })),
+      from: describeRevision(diff.from),
+      to: describeRevision(diff.to),
+      text_diff: diff.textDiff,
+      requirements: {
+        added: diff.requirements.added,
+        removed: diff.requirements.removed,
+        changed: diff.requirements.changed,
+        unchanged_count: diff.requirements.unchanged.length
+      },
+      proposed_task_changes: {
+        obsolete: proposals.obsolete.map(task => ({
+          task_id: task.taskId,
+          title: task.title,
+          status: task.status,
+          removed_requirements: task.removedRequirements,
+          recommendation: task.recommendation
+        })),
+        changed: proposals.changed.map(task => ({
+          task_id: task.taskId,
+          title: task.title,
+          status: task.status,
+          changes: task.changes
+        })),
+        new: proposals.new.map(task => ({ requirement: task.requirement, suggested_title: task.suggestedTitle }))
+      },
+      next_steps: [
+        ...(diff.textDiff === '' ? ['The specs are identical; no task changes are needed'] : []),
+        ...(proposals.obsolete.length > 0 ? [`Review ${proposals.obsolete.length} obsolete task(s) before removing them`] : []),
+        ...(proposals.changed.length > 0 ? [`Update ${proposals.changed.length} task(s) whose requirements changed`] : []),
+        ...(proposals.new.length > 0 ? [`Add ${proposals.new.length} task(s) for requirements no task covers yet`] : []),
+        'Nothing was changed: task statuses are kept until you update the tasks or save the new spec'
+      ]
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to diff spec: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleMergeSpec(args: any) {
+  const { feature_name, spec, threshold, dry_run = false, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const merge = await mergeFeatureSpec(storage, feature_name, spec, { threshold, dryRun: dry_run });
+
+    return {
+      success: true,
+      feature_name,
+      method: 'local_embeddings',
+      base_revision: merge.baseRevision,
+      revision: merge.revision,
+      spec: merge.spec,
+      requirements: merge.requirements,
+      added: merge.added,
+      duplicates: merge.duplicates,
+      possible_conflicts: merge.possibleConflicts,
+      next_steps: [
+        ...(merge.possibleConflicts.length > 0 ? [`Review ${merge.possibleConflicts.length} requirement(s) that may contradict an existing one`] : []),
+        ...(merge.revision === null
+          ? ['Nothing was saved: run again without dry_run to save the merged spec']
+          : [`Run speclinter_diff_spec to see which tasks revision ${merge.revision} affects`]),
+        'Call speclinter_merge_spec with mode "ai" to resolve conflicting requirements semantically'
+      ]
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to merge spec: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      feature_name
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleListContinuations(args: any) {
+  const { project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    const expired = await storage.deleteExpiredAIContinuations();
+    const continuations = await storage.listAIContinuations();
+
+    return {
+      success: true,
+      total_continuations: continuations.length,
+      expired_removed: expired,
+      continuations: continuations.map(continuation => ({
+        continuation_id: continuation.id,
+        tool: continuation.tool,
+        feature_name: continuation.featureName,
+        schema: continuation.schema,
+        prompt_hash: continuation.promptHash,
+        created_at: continuation.createdAt,
+        expires_at: continuation.expiresAt
+      }))
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to list continuations: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  } finally {
+    storage?.close();
+  }
+}
+
+export async function handleAbandonContinuation(args: any) {
+  const { continuation_id, project_root } = args;
+  const rootDir = await resolveProjectRoot(project_root);
+
+  let storage: Storage | undefined;
+  try {
+    storage = await StorageManager.createInitializedStorage(rootDir);
+    if (!await storage.deleteAIContinuation(continuation_id)) {
+      throw new Error(`Continuation '${continuation_id}' not found`);
+    }
+
+    return {
+      success: true,
+      continuation_id
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to abandon continuation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      continuation_id
+    };
+  } finally {
+    storage?.close();
+  }
 }
 
 // handleRunTests function removed - replaced with unified AI-leveraged validation
@@ -75,25 +842,28 @@ export async function handleUpdateTaskStatus(args: any) {
 
   const rootDir = await resolveProjectRoot(project_root);
   const storage = await StorageManager.createInitializedStorage(rootDir);
+  try {
+    // Update task status
+    const updatedTask = await storage.updateTaskStatus(
+      feature_name,
+      task_id,
+      validStatus,
+      notes
+    );
 
-  // Update task status
-  const updatedTask = await storage.updateTaskStatus(
-    feature_name,
-    task_id,
-    validStatus,
-    notes
-  );
-
-  // Update active file
-  await storage.updateActiveFile(feature_name);
+    // Update active file
+    await storage.updateActiveFile(feature_name);
 
-  return {
-    task_id: updatedTask.id,
-    feature_name: updatedTask.featureName,
-    status: updatedTask.status,
-    title: updatedTask.title,
-    updated: true
-  };
+    return {
+      task_id: updatedTask.id,
+      feature_name: updatedTask.featureName,
+      status: updatedTask.status,
+      title: updatedTask.title,
+      updated: true
+    };
+  } finally {
+    storage.close();
+  }
 }
 
 export async function handleInitProject(args: any) {
@@ -146,6 +916,7 @@ export async function handleInitProject(args: any) {
     // Initialize database and create tables
     const storage = new Storage(root);
     await storage.initialize();
+    storage.close();
 
     return {
       success: true,
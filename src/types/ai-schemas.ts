@@ -128,6 +128,24 @@ export const AISimilarityAnalysisSchema = z.object({
   confidence: z.number().min(0).max(1).describe('Confidence in similarity analysis')
 });
 
+export const AISpecMergeSchema = z.object({
+  requirements: z.array(z.object({
+    text: z.string().describe('Requirement as it should read in the merged spec'),
+    source: z.enum(['existing', 'incoming', 'both']).describe('Spec the requirement comes from; "both" when the two specs state it in different words')
+  })).describe('Every requirement of the merged spec, in order, without duplicates'),
+  duplicates: z.array(z.object({
+    kept: z.string().describe('Requirement kept in the merged spec'),
+    dropped: z.string().describe('Incoming requirement dropped as a duplicate'),
+    reason: z.string()
+  })).describe('Incoming requirements that restate an existing one'),
+  conflicts: z.array(z.object({
+    existing: z.string(),
+    incoming: z.string(),
+    resolution: z.string().describe('How the merged spec resolves the contradiction')
+  })).describe('Requirements that contradict each other'),
+  summary: z.string().describe('What the incoming spec adds to the feature')
+});
+
 // Enhanced context file generation schema with rich project-specific content
 export const AIContextFilesSchema = z.object({
   projectMd: z.string().describe('Complete project.md content - comprehensive project context including domain, purpose, tech stack with rationale, architectural decisions, development workflow, and integration patterns'),
@@ -643,6 +661,20 @@ Return a JSON response matching the AISpecAnalysisSchema. Focus on creating impl
 
 Return a JSON response matching the AISimilarityAnalysisSchema. Focus on semantic understanding over surface-level text matching.`,
 
+  specMerge: `Merge the incoming specification into the existing one, requirement by requirement:
+
+1. **Duplicates**: Drop incoming requirements that say the same thing as an existing one, even in different words
+   - Keep the existing wording and mark its source as "both"
+   - List each dropped requirement with the one it duplicates
+
+2. **Conflicts**: Find requirements that contradict each other (different limits, opposite behavior)
+   - Keep one resolved requirement and explain the resolution
+   - Prefer the incoming requirement when it is clearly a newer decision
+
+3. **Additions**: Keep every new incoming requirement as one self-contained statement
+
+Return every requirement of the merged spec, existing ones first, as JSON matching the AISpecMergeSchema.`,
+
   contextFileGeneration: `Based on your comprehensive codebase analysis, generate complete, professional context files:
 
 🎯 **REQUIREMENTS:**
@@ -981,6 +1013,7 @@ export type AISpecQuality = z.infer<typeof AISpecQualitySchema>;
 export type AITask = z.infer<typeof AITaskSchema>;
 export type AISpecAnalysis = z.infer<typeof AISpecAnalysisSchema>;
 export type AISimilarityAnalysis = z.infer<typeof AISimilarityAnalysisSchema>;
+export type AISpecMerge = z.infer<typeof AISpecMergeSchema>;
 export type AIContextFiles = z.infer<typeof AIContextFilesSchema>;
 export type AIGherkinStep = z.infer<typeof AIGherkinStepSchema>;
 
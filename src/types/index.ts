@@ -7,6 +7,48 @@ export const TaskStatusSchema = z.enum([
   'blocked'
 ]);
 
+export const TaskStatusSourceSchema = z.enum([
+  'manual',
+  'ai_validation',
+  'parse',
+  'merge',
+  'import',
+  'markdown_sync'
+]);
+
+export const CriterionStatusSchema = z.enum([
+  'met',
+  'partially_met',
+  'not_met',
+  'unclear'
+]);
+
+export const AcceptanceCriterionSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  text: z.string(),
+  status: CriterionStatusSchema,
+  evidence: z.string(),
+  evidenceFiles: z.array(z.string()),
+  confidence: z.number().nullable(),
+  lastValidated: z.string().nullable()
+});
+
+export const TaskCoverageSchema = z.object({
+  percentage: z.number(),
+  target: z.number().nullable(),
+  met: z.boolean().nullable(),
+  coveredLines: z.number(),
+  totalLines: z.number(),
+  files: z.array(z.object({
+    file: z.string(),
+    coveredLines: z.number(),
+    totalLines: z.number(),
+    percentage: z.number()
+  })),
+  measuredAt: z.string()
+});
+
 export const TaskSchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -25,7 +67,10 @@ export const TaskSchema = z.object({
   relevantPatterns: z.array(z.object({
     name: z.string(),
     anchor: z.string()
-  })).optional()
+  })).optional(),
+  blockedBy: z.array(z.string()).optional(),
+  criteria: z.array(AcceptanceCriterionSchema).optional(),
+  coverage: TaskCoverageSchema.optional()
 });
 
 export const ParseResultSchema = z.object({
@@ -47,6 +92,122 @@ export const FeatureStatusSchema = z.object({
   lastUpdated: z.string()
 });
 
+export const TaskStatusHistoryEntrySchema = z.object({
+  id: z.number(),
+  featureName: z.string(),
+  taskId: z.string(),
+  oldStatus: TaskStatusSchema.nullable(),
+  newStatus: TaskStatusSchema,
+  notes: z.string(),
+  source: TaskStatusSourceSchema,
+  changedAt: z.string()
+});
+
+export const FeatureRevisionSchema = z.object({
+  featureName: z.string(),
+  revision: z.number(),
+  spec: z.string(),
+  grade: z.string(),
+  score: z.number(),
+  createdAt: z.string()
+});
+
+export const AIContinuationSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  featureName: z.string().nullable(),
+  /** Latest spec revision of the feature when the analysis was prepared */
+  featureRevision: z.number().nullable(),
+  schema: z.string(),
+  promptHash: z.string(),
+  inputs: z.record(z.any()),
+  createdAt: z.string(),
+  expiresAt: z.string()
+});
+
+export const FeatureSummarySchema = z.object({
+  name: z.string(),
+  grade: z.string(),
+  score: z.number(),
+  sourceType: z.string(),
+  createdAt: z.string(),
+  status: FeatureStatusSchema
+});
+
+export const FeatureOverviewSchema = z.object({
+  name: z.string(),
+  grade: z.string(),
+  score: z.number(),
+  status: FeatureStatusSchema,
+  validation: z.object({
+    qualityScore: z.number(),
+    completionPercentage: z.number(),
+    validatedAt: z.string()
+  }).nullable(),
+  riskScore: z.number(),
+  riskLevel: z.enum(['low', 'medium', 'high']),
+  riskFactors: z.array(z.string())
+});
+
+export const ProjectOverviewSchema = z.object({
+  generatedAt: z.string(),
+  totals: z.object({
+    features: z.number(),
+    tasks: z.number(),
+    completedTasks: z.number(),
+    inProgressTasks: z.number(),
+    blockedTasks: z.number()
+  }),
+  features: z.array(FeatureOverviewSchema)
+});
+
+export const TaskFileStateSchema = z.object({
+  status: TaskStatusSchema,
+  notes: z.string(),
+  checkedCriteria: z.array(z.string())
+});
+
+export const TaskSyncFieldSchema = z.enum(['status', 'notes', 'checkedCriteria']);
+
+export const TaskSyncConflictSchema = z.object({
+  taskId: z.string(),
+  field: TaskSyncFieldSchema,
+  fileValue: z.union([z.string(), z.array(z.string())]),
+  databaseValue: z.union([z.string(), z.array(z.string())]),
+  resolution: z.enum(['unresolved', 'file', 'database'])
+});
+
+export const TaskSyncResultSchema = z.object({
+  featureName: z.string(),
+  updatedFromFiles: z.array(z.object({
+    taskId: z.string(),
+    fields: z.array(TaskSyncFieldSchema)
+  })),
+  rerenderedFiles: z.array(z.string()),
+  conflicts: z.array(TaskSyncConflictSchema),
+  errors: z.array(z.object({
+    file: z.string(),
+    message: z.string()
+  }))
+});
+
+export const ExportFormatSchema = z.enum(['github', 'gitlab', 'jira-csv', 'json']);
+export const IssueImportFormatSchema = z.enum(['github', 'jira-csv']);
+
+export const TestReportFormatSchema = z.enum(['junit', 'json']);
+
+export const CoverageFormatSchema = z.enum(['lcov', 'istanbul']);
+
+export const FeatureExportSchema = z.object({
+  featureName: z.string(),
+  spec: z.string(),
+  grade: z.string(),
+  score: z.number(),
+  tasks: z.array(TaskSchema.extend({
+    gherkin: z.string().nullable()
+  }))
+});
+
 export const TestResultSchema = z.object({
   passed: z.number(),
   failed: z.number(),
@@ -55,6 +216,9 @@ export const TestResultSchema = z.object({
   details: z.array(z.object({
     scenario: z.string(),
     status: z.string(),
+    taskId: z.string().optional(),
+    file: z.string().optional(),
+    line: z.number().optional(),
     error: z.string().optional()
   }))
 });
@@ -67,6 +231,15 @@ export const SimilarFeatureSchema = z.object({
   status: z.string()
 });
 
+export const SimilarTaskSchema = z.object({
+  featureName: z.string(),
+  taskId: z.string(),
+  title: z.string(),
+  score: z.number(),
+  // The task being saved that matched, when checking a new feature's tasks
+  matchedTaskId: z.string().optional()
+});
+
 export const ProjectContextSchema = z.object({
   stack: z.record(z.string()).optional(),
   constraints: z.array(z.string()).optional(),
@@ -89,6 +262,7 @@ export const DuplicateInfoSchema = z.object({
     lastUpdated: z.string()
   }).optional(),
   similarFeatures: z.array(SimilarFeatureSchema),
+  similarTasks: z.array(SimilarTaskSchema).optional(),
   recommendedAction: z.enum(['merge', 'replace', 'rename', 'skip'])
 });
 
@@ -97,19 +271,55 @@ export const MergeResultSchema = z.object({
   mergedTasks: z.array(TaskSchema),
   originalTaskCount: z.number(),
   newTaskCount: z.number(),
-  duplicateTasksSkipped: z.number()
+  duplicateTasksSkipped: z.number(),
+  specMerge: z.object({
+    addedRequirements: z.array(z.string()),
+    duplicateRequirements: z.array(z.object({ kept: z.string(), dropped: z.string(), similarity: z.number() })),
+    possibleConflicts: z.array(z.object({ existing: z.string(), incoming: z.string(), similarity: z.number() }))
+  }).optional()
 });
 
 export const SaveFeatureOptionsSchema = z.object({
   skipSimilarityCheck: z.boolean().optional(),
   similarityThreshold: z.number().optional(),
-  onSimilarFound: z.enum(['merge', 'replace', 'skip', 'prompt']).optional()
+  onSimilarFound: z.enum(['merge', 'replace', 'skip', 'prompt']).optional(),
+  /**
+   * Recorded in the status history of the saved tasks; defaults to 'manual'.
+   * Merged saves are always recorded as 'merge'
+   */
+  source: z.enum(['parse', 'import', 'manual']).optional()
+});
+
+export const TaskReconciliationSchema = z.object({
+  /** Regenerated tasks that took over a previous task's ID, status and notes */
+  matched: z.array(z.object({
+    taskId: z.string(),
+    generatedId: z.string(),
+    title: z.string(),
+    previousTitle: z.string(),
+    status: TaskStatusSchema,
+    similarity: z.number()
+  })),
+  /** Regenerated tasks saved as new tasks */
+  added: z.array(z.object({
+    taskId: z.string(),
+    generatedId: z.string(),
+    title: z.string()
+  })),
+  /** Previous tasks no regenerated task matched; kept after the regenerated tasks */
+  orphaned: z.array(z.object({
+    taskId: z.string(),
+    title: z.string(),
+    status: TaskStatusSchema
+  }))
 });
 
 export const SaveFeatureResultSchema = z.object({
   files: z.array(z.string()),
   duplicateInfo: DuplicateInfoSchema.optional(),
-  mergeResult: MergeResultSchema.optional()
+  mergeResult: MergeResultSchema.optional(),
+  similarTasks: z.array(SimilarTaskSchema).optional(),
+  reconciliation: TaskReconciliationSchema.optional()
 });
 
 export const ReverseEngineeredFeatureRecordSchema = z.object({
@@ -145,15 +355,36 @@ export const ReverseSpecStateWriteSchema = z.object({
 });
 
 export type TaskStatus = z.infer<typeof TaskStatusSchema>;
+export type TaskStatusSource = z.infer<typeof TaskStatusSourceSchema>;
+export type CriterionStatus = z.infer<typeof CriterionStatusSchema>;
+export type AcceptanceCriterion = z.infer<typeof AcceptanceCriterionSchema>;
+export type TaskCoverage = z.infer<typeof TaskCoverageSchema>;
 export type Task = z.infer<typeof TaskSchema>;
+export type TaskStatusHistoryEntry = z.infer<typeof TaskStatusHistoryEntrySchema>;
 export type ParseResult = z.infer<typeof ParseResultSchema>;
 export type FeatureStatus = z.infer<typeof FeatureStatusSchema>;
+export type FeatureRevision = z.infer<typeof FeatureRevisionSchema>;
+export type AIContinuation = z.infer<typeof AIContinuationSchema>;
+export type FeatureSummary = z.infer<typeof FeatureSummarySchema>;
+export type FeatureOverview = z.infer<typeof FeatureOverviewSchema>;
+export type ProjectOverview = z.infer<typeof ProjectOverviewSchema>;
+export type TaskFileState = z.infer<typeof TaskFileStateSchema>;
+export type TaskSyncField = z.infer<typeof TaskSyncFieldSchema>;
+export type TaskSyncConflict = z.infer<typeof TaskSyncConflictSchema>;
+export type TaskSyncResult = z.infer<typeof TaskSyncResultSchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type IssueImportFormat = z.infer<typeof IssueImportFormatSchema>;
+export type TestReportFormat = z.infer<typeof TestReportFormatSchema>;
+export type CoverageFormat = z.infer<typeof CoverageFormatSchema>;
+export type FeatureExport = z.infer<typeof FeatureExportSchema>;
 export type TestResult = z.infer<typeof TestResultSchema>;
 export type SimilarFeature = z.infer<typeof SimilarFeatureSchema>;
+export type SimilarTask = z.infer<typeof SimilarTaskSchema>;
 export type ProjectContext = z.infer<typeof ProjectContextSchema>;
 export type DuplicateInfo = z.infer<typeof DuplicateInfoSchema>;
 export type MergeResult = z.infer<typeof MergeResultSchema>;
 export type SaveFeatureOptions = z.infer<typeof SaveFeatureOptionsSchema>;
+export type TaskReconciliation = z.infer<typeof TaskReconciliationSchema>;
 export type SaveFeatureResult = z.infer<typeof SaveFeatureResultSchema>;
 export type ExistingFeature = DuplicateInfo['existingFeature'];
 export type ReverseEngineeredFeatureRecord = z.infer<typeof ReverseEngineeredFeatureRecordSchema>;
@@ -4,7 +4,10 @@ import {
   handleParseSpecAI,
   handleProcessSpecAnalysisAI,
   handleFindSimilarAI,
+  handleFindSimilarLocal,
   handleProcessSimilarityAnalysisAI,
+  handleMergeSpecAI,
+  handleProcessSpecMergeAI,
   handleValidateImplementationPrepare,
   handleValidateImplementationProcess,
   handleGenerateGherkinPrepare,
@@ -25,6 +28,9 @@ import {
   ConcurrencyValidator
 } from './utils/validation.js';
 import { validateToolDependencies, getWorkflowRecommendations } from './utils/dependency-validator.js';
+import { handleImportIssues, handleMergeSpec, resolveProjectRoot } from './tools.js';
+import { loadSamplingMaxRetries, sampleAIAnalysis, type AIToolContext } from './ai/shared/sampling.js';
+import { completeAIContinuation, createAIContinuation, resumeAIContinuation, type ResumedContinuation } from './ai/shared/continuations.js';
 
 /**
  * Base interface for unified tool responses
@@ -37,12 +43,17 @@ interface UnifiedToolResponse {
   [key: string]: any;
 }
 
-function createAIContinuationResponse(
+/**
+ * Stores the prepared analysis as a continuation and tells the client how to
+ * answer it. The inputs of the call stay on the server, so the client only
+ * sends back continuation_id, prompt_hash and the analysis.
+ */
+async function createAIContinuationResponse(
   prepareResult: any,
   publicToolName: string,
   originalArgs: Record<string, any>
-): UnifiedToolResponse {
-  const continuationArgs: Record<string, any> = {
+): Promise<UnifiedToolResponse> {
+  const inputs: Record<string, any> = {
     ...originalArgs,
     project_root: prepareResult.project_root ?? originalArgs.project_root,
     feature_name: prepareResult.feature_name ?? originalArgs.feature_name,
@@ -51,30 +62,114 @@ function createAIContinuationResponse(
   };
 
   if (prepareResult.task_id) {
-    continuationArgs.task_id = prepareResult.task_id;
+    inputs.task_id = prepareResult.task_id;
+  }
+
+  if (prepareResult.base_revision !== undefined) {
+    inputs.base_revision = prepareResult.base_revision;
   }
 
   if (prepareResult.follow_up_tool === 'process_reverse_spec_analysis') {
-    continuationArgs.include_reverse_spec = true;
-    continuationArgs.context = prepareResult.context ?? originalArgs.context;
+    inputs.include_reverse_spec = true;
+    inputs.context = prepareResult.context ?? originalArgs.context;
   }
 
+  const analysisPrompt = prepareResult.analysis_prompt ?? prepareResult.validation_prompt;
+  const projectRoot = await resolveProjectRoot(inputs.project_root);
+  const continuation = await createAIContinuation(projectRoot, {
+    tool: publicToolName,
+    prompt: analysisPrompt,
+    schema: prepareResult.schema,
+    inputs
+  });
+
   return {
     success: true,
     state: 'needs_ai_analysis',
     action: 'ai_analysis_required',
-    analysis_prompt: prepareResult.analysis_prompt ?? prepareResult.validation_prompt,
+    analysis_prompt: analysisPrompt,
     schema: prepareResult.schema,
     continuation_tool: publicToolName,
-    continuation_args: continuationArgs,
+    continuation_id: continuation.id,
+    prompt_hash: continuation.promptHash,
+    expires_at: continuation.expiresAt,
+    continuation_args: {
+      continuation_id: continuation.id,
+      prompt_hash: continuation.promptHash,
+      project_root: projectRoot
+    },
     instructions: [
       'Analyze the provided prompt and return JSON matching the specified schema.',
-      `Call ${publicToolName} again with the same arguments plus the analysis result in the "analysis" field.`,
-      `Expected schema: ${prepareResult.schema}`
+      `Call ${publicToolName} again with continuation_args plus the analysis result in the "analysis" field; the other arguments are kept on the server.`,
+      `Expected schema: ${prepareResult.schema}`,
+      `The continuation expires at ${continuation.expiresAt}; abandon it with speclinter_abandon_continuation if you will not answer it.`
     ]
   };
 }
 
+/**
+ * Finishes the workflow in this tool call when the client supports MCP
+ * sampling: the client's model answers the analysis prompt and the tool is
+ * called again with the validated analysis, as a client following the
+ * continuation would. Without sampling, or when no valid analysis comes back
+ * within generation.specAnalysis.maxRetries retries, the continuation is
+ * returned to the client instead.
+ */
+async function completeAIAnalysis(
+  prepareResult: any,
+  publicToolName: string,
+  originalArgs: Record<string, any>,
+  context: AIToolContext,
+  toolHandler: (args: any) => Promise<UnifiedToolResponse>
+): Promise<UnifiedToolResponse> {
+  const continuation = await createAIContinuationResponse(prepareResult, publicToolName, originalArgs);
+  if (!context.sampler) {
+    return continuation;
+  }
+
+  const maxRetries = await loadSamplingMaxRetries(continuation.continuation_args.project_root);
+  const sampled = await sampleAIAnalysis(context.sampler, continuation.analysis_prompt, continuation.schema, maxRetries);
+  if (!sampled.success) {
+    return {
+      ...continuation,
+      ai_sampling: { attempts: sampled.attempts, errors: sampled.errors }
+    };
+  }
+
+  return {
+    ...await toolHandler({ ...continuation.continuation_args, analysis: sampled.analysis }),
+    ai_sampling: { attempts: sampled.attempts }
+  };
+}
+
+/**
+ * Restores the prepared arguments when the call answers a stored
+ * continuation, then checks the arguments the tool needs. The MCP schemas
+ * leave these optional because answering calls only send continuation_id.
+ */
+async function resolveToolArguments(
+  toolName: string,
+  args: Record<string, any>,
+  requiredArguments: string[] = []
+): Promise<ResumedContinuation> {
+  const resumed = await resumeAIContinuation(toolName, args);
+  if (!resumed.success) {
+    return resumed;
+  }
+
+  const missing = requiredArguments.filter(name => resumed.args[name] === undefined);
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Missing required argument(s): ${missing.join(', ')}`,
+      error_type: 'validation',
+      suggestions: [`Pass ${missing.join(' and ')}, or continuation_id when answering a prepared analysis.`]
+    };
+  }
+
+  return resumed;
+}
+
 /**
  * Unified error handling for all tools using standardized error responses
  */
@@ -88,8 +183,15 @@ function handleUnifiedError(error: any, step: string, context?: string): Unified
  * Unified Codebase Analysis Tool
  * Exposes a single public MCP entrypoint for codebase analysis.
  */
-export async function handleAnalyzeCodebaseUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleAnalyzeCodebaseUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_analyze_codebase', args);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context using standardized validation
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
@@ -107,7 +209,7 @@ export async function handleAnalyzeCodebaseUnified(args: any): Promise<UnifiedTo
       };
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
       try {
         // Check if this should be reverse spec analysis based on include_reverse_spec parameter
@@ -115,16 +217,16 @@ export async function handleAnalyzeCodebaseUnified(args: any): Promise<UnifiedTo
 
         if (isReverseSpec) {
           // Route to reverse spec analysis
-          return {
+          return completeAIContinuation(resolved, {
             ...await handleProcessReverseSpecAnalysis(args),
             internal_step: 'unified_operation'
-          };
+          });
         } else {
           // Route to regular codebase analysis
-          return {
+          return completeAIContinuation(resolved, {
             ...await handleProcessCodebaseAnalysis(args),
             internal_step: 'unified_operation'
-          };
+          });
         }
       } catch (error) {
         return handleUnifiedError(error, 'process_analysis', 'ai_analysis');
@@ -141,9 +243,14 @@ export async function handleAnalyzeCodebaseUnified(args: any): Promise<UnifiedTo
       );
     }
 
+    // Incremental reverse spec scopes have nothing to analyze when no files changed
+    if (prepareResult.action === 'no_changes') {
+      return { ...prepareResult, internal_step: 'prepare' };
+    }
+
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_analyze_codebase', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_analyze_codebase', args, context, handleAnalyzeCodebaseUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis is required
@@ -172,8 +279,15 @@ export async function handleAnalyzeCodebaseUnified(args: any): Promise<UnifiedTo
  * Unified Specification Parsing Tool
  * Exposes a single public MCP entrypoint for specification analysis.
  */
-export async function handleParseSpecUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleParseSpecUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_parse_spec', args, ['spec', 'feature_name']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate concurrency limits
     const concurrencyCheck = await ConcurrencyValidator.validateConcurrency('spec_parsing');
     if (!concurrencyCheck.success) {
@@ -207,12 +321,12 @@ export async function handleParseSpecUnified(args: any): Promise<UnifiedToolResp
         return validation;
       }
 
-      // If analysis is provided, skip prepare step (advanced usage)
+      // An analysis answers the continuation resolved above, so skip the prepare step
       if (args.analysis) {
-        return {
+        return completeAIContinuation(resolved, {
           ...await handleProcessSpecAnalysisAI(args),
           internal_step: 'unified_operation'
-        };
+        });
       }
 
       // Step 1: Prepare (internal)
@@ -227,7 +341,7 @@ export async function handleParseSpecUnified(args: any): Promise<UnifiedToolResp
 
       // Step 2: Check if AI analysis is needed
       if (prepareResult.action === 'ai_analysis_required') {
-        return createAIContinuationResponse(prepareResult, 'speclinter_parse_spec', args);
+        return completeAIAnalysis(prepareResult, 'speclinter_parse_spec', args, context, handleParseSpecUnified);
       }
 
       // Step 3: Process (internal) - only if no AI analysis needed
@@ -253,19 +367,34 @@ export async function handleParseSpecUnified(args: any): Promise<UnifiedToolResp
  * Unified Similarity Analysis Tool
  * Exposes a single public MCP entrypoint for duplicate feature detection.
  */
-export async function handleFindSimilarUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleFindSimilarUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_find_similar', args, ['spec']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleProcessSimilarityAnalysisAI(args),
         internal_step: 'unified_operation'
+      });
+    }
+
+    // Local embeddings answer directly; AI mode adds semantic reasons and recommendations
+    if (args.mode !== 'ai') {
+      return {
+        ...await handleFindSimilarLocal(args),
+        internal_step: 'unified_operation'
       };
     }
 
@@ -281,7 +410,7 @@ export async function handleFindSimilarUnified(args: any): Promise<UnifiedToolRe
 
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_find_similar', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_find_similar', args, context, handleFindSimilarUnified);
     }
 
     if (!('action' in prepareResult)) {
@@ -306,12 +435,73 @@ export async function handleFindSimilarUnified(args: any): Promise<UnifiedToolRe
   }
 }
 
+/**
+ * Unified Spec Merge Tool
+ * Merges a specification into an existing feature's spec, locally or with AI.
+ */
+export async function handleMergeSpecUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
+  try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_merge_spec', args, ['feature_name', 'spec']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
+    // Validate project context
+    const validation = await validateProjectContext(args.project_root);
+    if (!validation.success) {
+      return validation;
+    }
+
+    // An analysis answers the continuation resolved above, so skip the prepare step
+    if (args.analysis) {
+      return completeAIContinuation(resolved, {
+        ...await handleProcessSpecMergeAI(args),
+        internal_step: 'unified_operation'
+      });
+    }
+
+    // Local embeddings merge directly; AI mode also resolves contradicting requirements
+    if (args.mode !== 'ai') {
+      const mergeResult = await handleMergeSpec(args);
+      return {
+        ...mergeResult,
+        ...(!mergeResult.success && { error: mergeResult.message }),
+        internal_step: 'unified_operation'
+      };
+    }
+
+    // Step 1: Prepare (internal)
+    const prepareResult = await handleMergeSpecAI(args);
+    if (!prepareResult.success) {
+      return {
+        ...prepareResult,
+        internal_step: 'prepare',
+        debug_info: 'Failed during spec merge preparation'
+      };
+    }
+
+    // Step 2: AI analysis is always needed in ai mode
+    return completeAIAnalysis(prepareResult, 'speclinter_merge_spec', args, context, handleMergeSpecUnified);
+  } catch (error) {
+    return handleUnifiedError(error, 'unified_operation');
+  }
+}
+
 /**
  * Unified Implementation Validation Tool
  * Exposes a single public MCP entrypoint for implementation validation.
  */
-export async function handleValidateImplementationUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleValidateImplementationUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_validate_implementation', args, ['feature_name']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate tool dependencies first
     const dependencyValidation = await validateToolDependencies('speclinter_validate_implementation', args);
     if (!dependencyValidation.success) {
@@ -335,12 +525,12 @@ export async function handleValidateImplementationUnified(args: any): Promise<Un
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleValidateImplementationProcess(args),
         internal_step: 'unified_operation'
-      };
+      });
     }
 
     // Step 1: Prepare (internal)
@@ -355,7 +545,7 @@ export async function handleValidateImplementationUnified(args: any): Promise<Un
 
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_validate_implementation', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_validate_implementation', args, context, handleValidateImplementationUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis needed
@@ -377,20 +567,27 @@ export async function handleValidateImplementationUnified(args: any): Promise<Un
  * Unified Gherkin Generation Tool
  * Exposes a single public MCP entrypoint for BDD scenario generation.
  */
-export async function handleGenerateGherkinUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleGenerateGherkinUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_generate_gherkin', args, ['task', 'feature_name']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleProcessGherkinAnalysis(args),
         internal_step: 'unified_operation'
-      };
+      });
     }
 
     // Step 1: Prepare (internal)
@@ -405,7 +602,7 @@ export async function handleGenerateGherkinUnified(args: any): Promise<UnifiedTo
 
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_generate_gherkin', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_generate_gherkin', args, context, handleGenerateGherkinUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis needed
@@ -427,20 +624,27 @@ export async function handleGenerateGherkinUnified(args: any): Promise<UnifiedTo
  * Unified Spec Quality Analysis Tool
  * Exposes a single public MCP entrypoint for specification quality assessment.
  */
-export async function handleAnalyzeSpecQualityUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleAnalyzeSpecQualityUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_analyze_spec_quality', args, ['spec', 'feature_name']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleProcessSpecQualityAnalysis(args),
         internal_step: 'unified_operation'
-      };
+      });
     }
 
     // Step 1: Prepare (internal)
@@ -455,7 +659,7 @@ export async function handleAnalyzeSpecQualityUnified(args: any): Promise<Unifie
 
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_analyze_spec_quality', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_analyze_spec_quality', args, context, handleAnalyzeSpecQualityUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis needed
@@ -477,20 +681,27 @@ export async function handleAnalyzeSpecQualityUnified(args: any): Promise<Unifie
  * Unified Task Generation Tool
  * Exposes a single public MCP entrypoint for task generation from specs.
  */
-export async function handleGenerateTasksUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleGenerateTasksUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_generate_tasks', args, ['spec', 'feature_name']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleProcessTaskGeneration(args),
         internal_step: 'unified_operation'
-      };
+      });
     }
 
     // Step 1: Prepare (internal)
@@ -505,7 +716,7 @@ export async function handleGenerateTasksUnified(args: any): Promise<UnifiedTool
 
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_generate_tasks', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_generate_tasks', args, context, handleGenerateTasksUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis needed
@@ -527,20 +738,27 @@ export async function handleGenerateTasksUnified(args: any): Promise<UnifiedTool
  * Unified Comprehensive Spec Analysis Tool
  * Exposes a single public MCP entrypoint for comprehensive spec analysis.
  */
-export async function handleAnalyzeSpecComprehensiveUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleAnalyzeSpecComprehensiveUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_analyze_spec_comprehensive', args, ['spec', 'feature_name']);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleProcessComprehensiveSpecAnalysis(args),
         internal_step: 'unified_operation'
-      };
+      });
     }
 
     // Step 1: Prepare (internal)
@@ -555,7 +773,7 @@ export async function handleAnalyzeSpecComprehensiveUnified(args: any): Promise<
 
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_analyze_spec_comprehensive', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_analyze_spec_comprehensive', args, context, handleAnalyzeSpecComprehensiveUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis needed
@@ -577,20 +795,27 @@ export async function handleAnalyzeSpecComprehensiveUnified(args: any): Promise<
  * Unified Reverse Specification Discovery Tool
  * Discovers existing features from codebase and creates speclinter-tasks directories
  */
-export async function handleReverseSpecUnified(args: any): Promise<UnifiedToolResponse> {
+export async function handleReverseSpecUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
   try {
+    // Answers to a stored continuation get the prepared arguments back
+    const resolved = await resolveToolArguments('speclinter_reverse_spec', args);
+    if (!resolved.success) {
+      return resolved;
+    }
+    args = resolved.args;
+
     // Validate project context
     const validation = await validateProjectContext(args.project_root);
     if (!validation.success) {
       return validation;
     }
 
-    // If analysis is provided, skip prepare step (advanced usage)
+    // An analysis answers the continuation resolved above, so skip the prepare step
     if (args.analysis) {
-      return {
+      return completeAIContinuation(resolved, {
         ...await handleProcessReverseSpecAnalysis(args),
         internal_step: 'unified_operation'
-      };
+      });
     }
 
     // Step 1: Prepare (internal)
@@ -603,9 +828,14 @@ export async function handleReverseSpecUnified(args: any): Promise<UnifiedToolRe
       };
     }
 
+    // Incremental scopes have nothing to analyze when no files changed
+    if (prepareResult.action === 'no_changes') {
+      return { ...prepareResult, internal_step: 'prepare' };
+    }
+
     // Step 2: Check if AI analysis is needed
     if (prepareResult.action === 'ai_analysis_required') {
-      return createAIContinuationResponse(prepareResult, 'speclinter_reverse_spec', args);
+      return completeAIAnalysis(prepareResult, 'speclinter_reverse_spec', args, context, handleReverseSpecUnified);
     }
 
     // Step 3: Process (internal) - only if no AI analysis needed
@@ -622,3 +852,65 @@ export async function handleReverseSpecUnified(args: any): Promise<UnifiedToolRe
     return handleUnifiedError(error, 'unified_operation', 'reverse_spec_analysis');
   }
 }
+
+/**
+ * Unified Issue Import Tool
+ * Saves imported issues as features, then hands each new spec to
+ * speclinter_analyze_spec_quality so its grade is recorded once analyzed.
+ */
+export async function handleImportIssuesUnified(args: any, context: AIToolContext = {}): Promise<UnifiedToolResponse> {
+  try {
+    // Validate project context
+    const validation = await validateProjectContext(args.project_root);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const importResult = await handleImportIssues(args);
+    if (!('imported' in importResult)) {
+      return {
+        ...importResult,
+        error: importResult.message,
+        internal_step: 'import'
+      };
+    }
+
+    const qualityAnalyses: UnifiedToolResponse[] = [];
+    for (const feature of importResult.imported) {
+      const qualityArgs = {
+        spec: feature.spec,
+        feature_name: feature.feature_name,
+        project_root: args.project_root,
+        record_grade: true
+      };
+      const prepareResult = await handleAnalyzeSpecQuality(qualityArgs);
+      if (!prepareResult.success) {
+        return {
+          ...prepareResult,
+          internal_step: 'prepare',
+          debug_info: 'Issues were imported but spec quality analysis preparation failed'
+        };
+      }
+
+      qualityAnalyses.push({
+        feature_name: feature.feature_name,
+        ...await completeAIAnalysis(prepareResult, 'speclinter_analyze_spec_quality', qualityArgs, context, handleAnalyzeSpecQualityUnified)
+      });
+    }
+
+    return {
+      ...importResult,
+      ...(qualityAnalyses.length > 0 && { quality_analyses: qualityAnalyses }),
+      ...(qualityAnalyses.some(analysis => analysis.state === 'needs_ai_analysis') && {
+        state: 'needs_ai_analysis',
+        action: 'ai_analysis_required',
+        instructions: [
+          'Imported features are saved with a pending grade.',
+          'For each entry in quality_analyses that needs AI analysis, analyze its analysis_prompt and call speclinter_analyze_spec_quality with its continuation_args plus the result in the "analysis" field.'
+        ]
+      })
+    };
+  } catch (error) {
+    return handleUnifiedError(error, 'unified_operation');
+  }
+}
@@ -52,6 +52,108 @@ export const TOOL_DEPENDENCIES: Record<string, ToolDependencies> = {
     requiresFeature: true,
     recommendedPrecedingTools: ['speclinter_parse_spec']
   },
+  'speclinter_get_ready_tasks': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_get_task_history': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_list_features': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_init_project']
+  },
+  'speclinter_export_feature': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_run_scenarios': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_ingest_test_results': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_ingest_coverage': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_validate_implementation']
+  },
+  'speclinter_lint_gherkin': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_generate_gherkin']
+  },
+  'speclinter_diff_spec': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_merge_spec': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_list_continuations': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: []
+  },
+  'speclinter_abandon_continuation': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_list_continuations']
+  },
+  'speclinter_import_issues': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_init_project']
+  },
+  'speclinter_sync_tasks': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_project_overview': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: false,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_rename_feature': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
+  'speclinter_delete_feature': {
+    requiresInit: true,
+    requiresCodebaseAnalysis: false,
+    requiresFeature: true,
+    recommendedPrecedingTools: ['speclinter_parse_spec']
+  },
   'speclinter_update_task_status': {
     requiresInit: true,
     requiresCodebaseAnalysis: false,
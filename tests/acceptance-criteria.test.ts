@@ -0,0 +1,127 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { handleValidateImplementationProcess } from '../src/ai/validation/workflow.js';
+import type { AIFeatureValidation } from '../src/types/ai-schemas.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+function createValidation(): AIFeatureValidation {
+  return {
+    featureName: 'password-reset',
+    overallStatus: 'in_progress',
+    completionPercentage: 50,
+    qualityScore: 75,
+    taskValidations: [
+      {
+        taskId: 'reset_01',
+        title: 'Task reset_01',
+        implementationStatus: 'partially_implemented',
+        qualityScore: 70,
+        implementationFiles: ['src/auth/reset.ts', 'src/mail/send.ts'],
+        acceptanceCriteriaValidation: [
+          {
+            criteria: 'reset email is sent',
+            status: 'met',
+            evidence: 'sendResetEmail in src/mail/send.ts is called from the handler',
+            confidence: 0.9
+          },
+          {
+            criteria: 'Reset links expire after one hour',
+            status: 'partially_met',
+            evidence: 'Expiry is stored but never checked',
+            confidence: 0.7
+          },
+          {
+            criteria: 'Admins are notified',
+            status: 'not_met',
+            evidence: 'No notification code',
+            confidence: 0.6
+          }
+        ],
+        patternCompliance: [],
+        codeQualityIssues: [],
+        missingComponents: [],
+        recommendations: []
+      }
+    ],
+    architecturalAlignment: { score: 70, strengths: [], concerns: [], recommendations: [] },
+    testCoverage: { hasTests: false, testTypes: [], testQuality: 'poor', missingTests: [] },
+    securityConsiderations: [],
+    performanceConsiderations: [],
+    nextSteps: [],
+    aiInsights: { strengths: [], weaknesses: [], surprises: [], confidence: 0.8 }
+  };
+}
+
+const RESET_SPEC = 'As a user, I want to reset my password so that I can regain access.';
+
+describe('acceptance criteria tracking', () => {
+  let projectRoot: string;
+  let storage: Storage;
+  const criteria = ['Reset email is sent', 'Reset links expire after one hour'];
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-criteria-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+
+    const tasks = [createTask('reset_01', { status: 'in_progress', statusEmoji: '🔄', acceptanceCriteria: criteria })];
+    await storage.saveFeature('password-reset', tasks, createParseResult(tasks, { spec: RESET_SPEC }), { skipSimilarityCheck: true });
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('stores each criterion as its own unvalidated record', async () => {
+    expect(storage.getTaskCriteria('password-reset', 'reset_01')).toEqual([
+      expect.objectContaining({ id: 'reset_01_ac_01', text: criteria[0], status: 'unclear', lastValidated: null }),
+      expect.objectContaining({ id: 'reset_01_ac_02', text: criteria[1], status: 'unclear', lastValidated: null })
+    ]);
+  });
+
+  it('updates criteria from AI validation and renders checkboxes from their state', async () => {
+    const result = await handleValidateImplementationProcess({
+      project_root: projectRoot,
+      feature_name: 'password-reset',
+      analysis: createValidation()
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.unmatched_criteria).toEqual([{ task_id: 'reset_01', criteria: 'Admins are notified' }]);
+
+    const [sent, expiry] = storage.getTaskCriteria('password-reset', 'reset_01');
+    expect(sent).toMatchObject({ status: 'met', evidenceFiles: ['src/mail/send.ts'], confidence: 0.9 });
+    expect(sent.lastValidated).not.toBeNull();
+    expect(expiry).toMatchObject({ status: 'partially_met', evidenceFiles: ['src/auth/reset.ts', 'src/mail/send.ts'] });
+
+    const featureDir = path.join(projectRoot, 'speclinter-tasks', 'password-reset');
+    const taskFile = await readFile(path.join(featureDir, 'task_01_reset-01.md'), 'utf-8');
+    expect(taskFile).toContain('- [x] Reset email is sent');
+    expect(taskFile).toContain('- [ ] Reset links expire after one hour');
+
+    const activeFile = await readFile(path.join(featureDir, '_active.md'), 'utf-8');
+    expect(activeFile).toContain('**Acceptance Criteria**: 1/2 met');
+  });
+
+  it('keeps validation state for unchanged criteria when the feature is saved again', async () => {
+    await storage.updateCriteriaValidation('password-reset', 'reset_01', [
+      { criteria: criteria[0], status: 'met', evidence: 'Done', confidence: 1 }
+    ]);
+
+    const tasks = [createTask('reset_01', { status: 'in_progress', statusEmoji: '🔄', acceptanceCriteria: [criteria[0], 'Reset tokens are single use'] })];
+    await storage.saveFeature('password-reset', tasks, createParseResult(tasks, { spec: RESET_SPEC }), { skipSimilarityCheck: true });
+
+    expect(storage.getTaskCriteria('password-reset', 'reset_01').map(criterion => [criterion.id, criterion.status])).toEqual([
+      ['reset_01_ac_01', 'met'],
+      ['reset_01_ac_03', 'unclear']
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleAbandonContinuation, handleInitProject, handleListContinuations } from '../src/tools.js';
+import { handleFindSimilarUnified, handleMergeSpecUnified, handleParseSpecUnified } from '../src/unified-ai-tools.js';
+import { hashAnalysisPrompt } from '../src/ai/shared/continuations.js';
+import { Storage } from '../src/core/storage.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const EXISTING_SPEC = `# Password reset
+
+## Requirements
+- Send a reset email with a one-time link
+`;
+
+function specAnalysis(tasks: Array<{ title: string; dependencies: string[] }>) {
+  return {
+    quality: { score: 85, grade: 'B', issues: [], strengths: [], improvements: [] },
+    tasks: tasks.map(({ title, dependencies }) => ({
+      title,
+      summary: title,
+      implementation: `Implement ${title.toLowerCase()}.`,
+      acceptanceCriteria: [title],
+      estimatedEffort: 'S',
+      dependencies,
+      testingNotes: '',
+      relevantPatterns: [],
+      riskFactors: [],
+      securityConsiderations: [],
+      performanceConsiderations: [],
+      userExperience: '',
+      technicalDebt: []
+    })),
+    technicalConsiderations: [],
+    userStories: [],
+    businessValue: 'Fewer locked-out users',
+    scope: { inScope: [], outOfScope: [], assumptions: [] }
+  };
+}
+
+const VALID_MERGE = {
+  requirements: [
+    { text: 'Send a reset email with a one-time link', source: 'existing' },
+    { text: 'Lock the account after 5 failed attempts', source: 'incoming' }
+  ],
+  duplicates: [],
+  conflicts: [],
+  summary: 'Adds account locking'
+};
+
+describe('AI continuation sessions', () => {
+  let projectRoot: string;
+
+  async function prepareMerge(): Promise<any> {
+    const prepared = await handleMergeSpecUnified({
+      project_root: projectRoot,
+      feature_name: 'reset',
+      spec: '- Lock the account after 5 failed attempts',
+      mode: 'ai'
+    });
+    expect(prepared.state).toBe('needs_ai_analysis');
+    return prepared;
+  }
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-continuations-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [createTask('task_01', { title: 'Send reset email', featureName: 'reset' })];
+    await storage.saveFeature('reset', tasks, createParseResult(tasks, { spec: EXISTING_SPEC, score: 80 }), { skipSimilarityCheck: true });
+    storage.close();
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('keeps the prepared inputs on the server and answers with the continuation ID alone', async () => {
+    const prepared = await prepareMerge();
+
+    expect(prepared.continuation_args).toEqual({
+      continuation_id: prepared.continuation_id,
+      prompt_hash: hashAnalysisPrompt(prepared.analysis_prompt),
+      project_root: projectRoot
+    });
+
+    const listed = await handleListContinuations({ project_root: projectRoot });
+    expect(listed).toMatchObject({
+      success: true,
+      total_continuations: 1,
+      continuations: [{
+        continuation_id: prepared.continuation_id,
+        tool: 'speclinter_merge_spec',
+        feature_name: 'reset',
+        schema: 'AISpecMergeSchema',
+        expires_at: prepared.expires_at
+      }]
+    });
+
+    const processed = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(processed).toMatchObject({ success: true, method: 'ai', revision: 2 });
+    expect(processed.spec).toContain('- Lock the account after 5 failed attempts <!-- source: revision 2 -->');
+
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({ total_continuations: 0 });
+    const replayed = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(replayed).toMatchObject({ success: false, error: expect.stringContaining('not found') });
+  });
+
+  it('rejects mismatched answers and keeps the continuation for a corrected one', async () => {
+    const prepared = await prepareMerge();
+
+    const invalid = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: { ...VALID_MERGE, summary: undefined } });
+    expect(invalid).toMatchObject({
+      success: false,
+      error: 'The analysis does not match AISpecMergeSchema',
+      validation_errors: ['- summary: Required']
+    });
+
+    const otherPrompt = await handleMergeSpecUnified({ ...prepared.continuation_args, prompt_hash: hashAnalysisPrompt('another prompt'), analysis: VALID_MERGE });
+    expect(otherPrompt).toMatchObject({ success: false, error: expect.stringContaining('different prompt') });
+
+    const otherTool = await handleFindSimilarUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(otherTool).toMatchObject({ success: false, error: expect.stringContaining('prepared by speclinter_merge_spec') });
+
+    const processed = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(processed).toMatchObject({ success: true, revision: 2 });
+  });
+
+  it('follows the feature when it is renamed and drops continuations of deleted features', async () => {
+    const prepared = await prepareMerge();
+    let storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.renameFeature('reset', 'password-reset');
+    storage.close();
+
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({
+      continuations: [{ continuation_id: prepared.continuation_id, feature_name: 'password-reset' }]
+    });
+    const processed = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(processed).toMatchObject({ success: true, feature_name: 'password-reset', revision: 2 });
+
+    const pending = await handleMergeSpecUnified({
+      project_root: projectRoot,
+      feature_name: 'password-reset',
+      spec: '- Notify the user after a reset',
+      mode: 'ai'
+    });
+    expect(pending.state).toBe('needs_ai_analysis');
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.deleteFeature('password-reset');
+    storage.close();
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({ total_continuations: 0 });
+  });
+
+  it('requires prompt_hash and rejects answers for a feature that changed since', async () => {
+    const prepared = await prepareMerge();
+
+    const unprepared = await handleMergeSpecUnified({
+      project_root: projectRoot,
+      feature_name: 'reset',
+      spec: '- Lock the account after 5 failed attempts',
+      mode: 'ai',
+      analysis: VALID_MERGE
+    });
+    expect(unprepared).toMatchObject({ success: false, error_type: 'validation' });
+    expect(unprepared.error).toContain('pass the continuation_id it answers');
+
+    const { prompt_hash: _promptHash, ...withoutHash } = prepared.continuation_args;
+    const unhashed = await handleMergeSpecUnified({ ...withoutHash, analysis: VALID_MERGE });
+    expect(unhashed).toMatchObject({ success: false, error: `Continuation '${prepared.continuation_id}' needs the prompt_hash returned with it` });
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.updateFeatureSpec('reset', `${EXISTING_SPEC}- Rate-limit reset emails\n`);
+    storage.close();
+
+    const changed = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(changed).toMatchObject({
+      success: false,
+      error: `Feature 'reset' changed since continuation '${prepared.continuation_id}' was prepared: it was at revision 1, now revision 2`
+    });
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({ total_continuations: 0 });
+  });
+
+  it('keeps the continuation when the tool fails to process the analysis', async () => {
+    const prepared = await handleParseSpecUnified({
+      project_root: projectRoot,
+      feature_name: 'lockout',
+      spec: 'As a user, I want my account locked after repeated failed sign-ins so that attackers cannot guess my password.'
+    });
+    expect(prepared.state).toBe('needs_ai_analysis');
+    const analysis = specAnalysis([
+      { title: 'Count failed sign-ins', dependencies: [] },
+      { title: 'Lock the account', dependencies: ['Count failed sign-ins'] }
+    ]);
+
+    const failedSave = vi.spyOn(Storage.prototype, 'saveFeatureFromAI').mockRejectedValueOnce(new Error('database is locked'));
+    const failed = await handleParseSpecUnified({ ...prepared.continuation_args, analysis });
+    expect(failed).toMatchObject({ success: false, error: 'database is locked' });
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({ total_continuations: 1 });
+    failedSave.mockRestore();
+
+    const processed = await handleParseSpecUnified({ ...prepared.continuation_args, analysis });
+    expect(processed).toMatchObject({ success: true });
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({ total_continuations: 0 });
+  });
+
+  it('rejects expired and abandoned continuations', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveAIContinuation({
+      id: 'expired',
+      tool: 'speclinter_merge_spec',
+      featureName: 'reset',
+      featureRevision: 1,
+      schema: 'AISpecMergeSchema',
+      promptHash: hashAnalysisPrompt('old prompt'),
+      inputs: { feature_name: 'reset', spec: '- Old requirement', mode: 'ai' },
+      createdAt: '2026-01-01T00:00:00.000Z',
+      expiresAt: '2026-01-01T01:00:00.000Z'
+    });
+    storage.close();
+
+    const expired = await handleMergeSpecUnified({
+      project_root: projectRoot,
+      continuation_id: 'expired',
+      prompt_hash: hashAnalysisPrompt('old prompt'),
+      analysis: VALID_MERGE
+    });
+    expect(expired).toMatchObject({ success: false, error: "Continuation 'expired' expired at 2026-01-01T01:00:00.000Z" });
+
+    const prepared = await prepareMerge();
+    expect(await handleAbandonContinuation({ project_root: projectRoot, continuation_id: prepared.continuation_id })).toEqual({
+      success: true,
+      continuation_id: prepared.continuation_id
+    });
+    expect(await handleAbandonContinuation({ project_root: projectRoot, continuation_id: prepared.continuation_id })).toMatchObject({
+      success: false,
+      message: `Failed to abandon continuation: Continuation '${prepared.continuation_id}' not found`
+    });
+
+    const abandoned = await handleMergeSpecUnified({ ...prepared.continuation_args, analysis: VALID_MERGE });
+    expect(abandoned).toMatchObject({ success: false, error: expect.stringContaining('abandoned') });
+    expect(await handleListContinuations({ project_root: projectRoot })).toMatchObject({ total_continuations: 0 });
+  });
+});
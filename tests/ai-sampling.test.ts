@@ -0,0 +1,130 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CreateMessageRequestSchema, type CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { handleInitProject } from '../src/tools.js';
+import { SpecLinterServer } from '../src/server.js';
+import { Storage } from '../src/core/storage.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const EXISTING_SPEC = `# Password reset
+
+## Requirements
+- Send a reset email with a one-time link
+`;
+
+const INCOMING_SPEC = '- Lock the account after 5 failed attempts';
+
+const VALID_MERGE = {
+  requirements: [
+    { text: 'Send a reset email with a one-time link', source: 'existing' },
+    { text: 'Lock the account after 5 failed attempts', source: 'incoming' }
+  ],
+  duplicates: [],
+  conflicts: [],
+  summary: 'Adds account locking'
+};
+
+describe('AI analysis through MCP sampling', () => {
+  let projectRoot: string;
+  let server: SpecLinterServer;
+  let client: Client;
+  let samplingRequests: CreateMessageRequest['params'][];
+
+  /**
+   * Connects a client that answers sampling requests with the given replies
+   * in turn, or one without the sampling capability when replies is null.
+   */
+  async function connectClient(replies: string[] | null): Promise<void> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    server = new SpecLinterServer();
+    await server.connect(serverTransport);
+
+    client = new Client({ name: 'sampling-test', version: '1.0.0' }, { capabilities: replies ? { sampling: {} } : {} });
+    if (replies) {
+      client.setRequestHandler(CreateMessageRequestSchema, async request => {
+        samplingRequests.push(request.params);
+        const text = replies[Math.min(samplingRequests.length, replies.length) - 1];
+        return { role: 'assistant', model: 'fake-model', content: { type: 'text', text } };
+      });
+    }
+    await client.connect(clientTransport);
+  }
+
+  async function mergeSpec(): Promise<any> {
+    const result = await client.callTool({
+      name: 'speclinter_merge_spec',
+      arguments: { project_root: projectRoot, feature_name: 'reset', spec: INCOMING_SPEC, mode: 'ai' }
+    });
+    return JSON.parse((result.content as Array<{ text: string }>)[0].text);
+  }
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-sampling-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    samplingRequests = [];
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [createTask('task_01', { title: 'Send reset email', featureName: 'reset' })];
+    await storage.saveFeature('reset', tasks, createParseResult(tasks, { spec: EXISTING_SPEC, score: 80 }), { skipSimilarityCheck: true });
+    storage.close();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('finishes the workflow in one call, feeding schema errors back on retry', async () => {
+    await connectClient([
+      JSON.stringify({ ...VALID_MERGE, summary: undefined }),
+      `\`\`\`json\n${JSON.stringify(VALID_MERGE)}\n\`\`\``
+    ]);
+
+    const result = await mergeSpec();
+
+    expect(result).toMatchObject({ success: true, method: 'ai', revision: 2, ai_sampling: { attempts: 2 } });
+    expect(result.spec).toContain('- Lock the account after 5 failed attempts <!-- source: revision 2 -->');
+    expect(samplingRequests).toHaveLength(2);
+    expect(samplingRequests[0].messages[0].content).toMatchObject({ type: 'text', text: expect.stringContaining('Incoming Specification') });
+    expect(samplingRequests[1].messages).toHaveLength(3);
+    expect(samplingRequests[1].messages[2].content).toMatchObject({
+      type: 'text',
+      text: expect.stringMatching(/- summary: Required[\s\S]*AISpecMergeSchema/)
+    });
+  });
+
+  it('falls back to the continuation protocol', async () => {
+    await connectClient(['not json']);
+
+    const result = await mergeSpec();
+
+    // specAnalysis.maxRetries defaults to 2
+    expect(samplingRequests).toHaveLength(3);
+    expect(result).toMatchObject({
+      success: true,
+      state: 'needs_ai_analysis',
+      continuation_tool: 'speclinter_merge_spec',
+      ai_sampling: { attempts: 3, errors: expect.arrayContaining(['Attempt 3: The response does not contain a JSON object']) }
+    });
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    expect(await storage.getFeatureRevisions('reset')).toHaveLength(1);
+    storage.close();
+
+    await client.close();
+    await server.close();
+    await connectClient(null);
+
+    const withoutSampling = await mergeSpec();
+    expect(withoutSampling).toMatchObject({ success: true, state: 'needs_ai_analysis' });
+    expect(withoutSampling.ai_sampling).toBeUndefined();
+    expect(samplingRequests).toHaveLength(3);
+  });
+});
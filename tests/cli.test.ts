@@ -52,4 +52,14 @@ describe('CLI workflows', () => {
     expect(output).toContain('SpecLinter not initialized');
     expect(existsSync(path.join(projectRoot, '.speclinter'))).toBe(false);
   });
+
+  it('rejects HTTP ports and session timeouts that are not positive numbers', () => {
+    for (const args of [['--port', 'http'], ['--port', '0'], ['--session-timeout', 'abc'], ['--session-timeout', '-5']]) {
+      const result = runCli(['serve', '--http', ...args], projectRoot);
+
+      expect(result.status).toBe(1);
+      expect(result.stderr).toContain(`option '${args[0]}`);
+      expect(result.stderr).toMatch(/Expected a (port number|positive number)/);
+    }
+  });
 });
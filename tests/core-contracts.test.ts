@@ -1,11 +1,14 @@
 import os from 'os';
 import path from 'path';
 import { mkdtemp, rm } from 'fs/promises';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { StorageManager } from '../src/core/storage-manager.js';
 import { SpecParser } from '../src/core/parser.js';
 import { TaskGenerator } from '../src/core/generator.js';
 import { DEFAULT_CONFIG } from '../src/types/config.js';
+import { Storage } from '../src/core/storage.js';
+import { handleInitProject } from '../src/tools.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
 
 describe('core contract enforcement', () => {
   let projectRoot: string;
@@ -15,6 +18,7 @@ describe('core contract enforcement', () => {
   });
 
   afterEach(async () => {
+    vi.restoreAllMocks();
     await rm(projectRoot, { recursive: true, force: true });
   });
 
@@ -32,13 +36,26 @@ describe('core contract enforcement', () => {
     ).rejects.toThrow(/not supported for direct local parsing/i);
   });
 
-  it('returns an explicit deprecation error for the legacy test runner', async () => {
+  it('runs feature tests only against initialized projects', async () => {
     const generator = new TaskGenerator();
 
-    const result = await generator.runFeatureTests('example-feature', undefined, projectRoot);
+    await expect(generator.runFeatureTests('example-feature', undefined, projectRoot)).rejects.toThrow(
+      /not initialized/i
+    );
+  });
+
+  it('runs feature tests in the given project and closes its storage', async () => {
+    await handleInitProject({ project_root: projectRoot });
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [createTask('task_01', { featureName: 'checkout' })];
+    await storage.saveFeature('checkout', tasks, createParseResult(tasks), { skipSimilarityCheck: true });
+    storage.close();
+
+    const close = vi.spyOn(Storage.prototype, 'close');
+    const result = await new TaskGenerator().runFeatureTests('checkout', undefined, projectRoot);
 
-    expect(result.failed).toBe(1);
-    expect(result.details[0]?.error).toContain('runFeatureTests is deprecated');
-    expect(result.details[0]?.error).toContain('speclinter_validate_implementation');
+    expect(result).toMatchObject({ passed: 0, failed: 0 });
+    expect(close).toHaveBeenCalledTimes(1);
   });
 });
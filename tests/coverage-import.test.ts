@@ -0,0 +1,162 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleIngestCoverage, handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { handleValidateImplementationProcess } from '../src/ai/validation/workflow.js';
+import { computeTaskCoverage, parseCoverageReport, parseCoverageTarget } from '../src/core/coverage-import.js';
+import type { AIFeatureValidation } from '../src/types/ai-schemas.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const LCOV = `TN:
+SF:src/billing/invoice.ts
+DA:1,1
+DA:2,1
+DA:3,0
+LF:10
+LH:9
+end_of_record
+SF:src/billing/tax.ts
+DA:1,1
+DA:2,0
+DA:3,0
+DA:4,0
+end_of_record
+`;
+
+function createValidation(files: Record<string, string[]>): AIFeatureValidation {
+  return {
+    featureName: 'billing',
+    overallStatus: 'in_progress',
+    completionPercentage: 50,
+    qualityScore: 75,
+    taskValidations: Object.entries(files).map(([taskId, implementationFiles]) => ({
+      taskId,
+      title: `Task ${taskId}`,
+      implementationStatus: 'partially_implemented' as const,
+      qualityScore: 70,
+      implementationFiles,
+      acceptanceCriteriaValidation: [],
+      patternCompliance: [],
+      codeQualityIssues: [],
+      missingComponents: [],
+      recommendations: []
+    })),
+    architecturalAlignment: { score: 70, strengths: [], concerns: [], recommendations: [] },
+    testCoverage: { hasTests: true, testTypes: ['unit'], testQuality: 'fair', missingTests: [] },
+    securityConsiderations: [],
+    performanceConsiderations: [],
+    nextSteps: [],
+    aiInsights: { strengths: [], weaknesses: [], surprises: [], confidence: 0.8 }
+  };
+}
+
+describe('coverage report parsing', () => {
+  it('reads lcov and istanbul reports as per-file line coverage relative to the project', () => {
+    expect(parseCoverageReport(LCOV, '/repo').files).toEqual([
+      { file: 'src/billing/invoice.ts', coveredLines: 9, totalLines: 10 },
+      { file: 'src/billing/tax.ts', coveredLines: 1, totalLines: 4 }
+    ]);
+
+    const istanbul = JSON.stringify({
+      '/repo/src/billing/tax.ts': {
+        path: '/repo/src/billing/tax.ts',
+        statementMap: {
+          0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
+          1: { start: { line: 1, column: 12 }, end: { line: 1, column: 20 } },
+          2: { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } }
+        },
+        s: { 0: 0, 1: 3, 2: 0 }
+      }
+    });
+    expect(parseCoverageReport(istanbul, '/repo')).toEqual({
+      format: 'istanbul',
+      files: [{ file: 'src/billing/tax.ts', coveredLines: 1, totalLines: 2 }]
+    });
+  });
+
+  it('reads numeric targets out of free text', () => {
+    expect(parseCoverageTarget('90%')).toBe(90);
+    expect(parseCoverageTarget('at least 85% line coverage')).toBe(85);
+    expect(parseCoverageTarget('0.8')).toBe(80);
+    expect(parseCoverageTarget('high')).toBeNull();
+  });
+
+  it('matches bare file names only when a single coverage path ends with them', () => {
+    const coverage = [
+      { file: 'src/billing/index.ts', coveredLines: 1, totalLines: 2 },
+      { file: 'src/auth/index.ts', coveredLines: 2, totalLines: 2 },
+      { file: 'src/billing/tax.ts', coveredLines: 1, totalLines: 4 }
+    ];
+
+    expect(computeTaskCoverage(['index.ts'], coverage, '80%', '/repo')).toBeNull();
+    expect(computeTaskCoverage(['auth/index.ts'], coverage, '80%', '/repo')?.files).toEqual([
+      { file: 'src/auth/index.ts', coveredLines: 2, totalLines: 2, percentage: 100 }
+    ]);
+    expect(computeTaskCoverage(['tax.ts'], coverage, '80%', '/repo')).toMatchObject({ percentage: 25, met: false });
+  });
+});
+
+describe('coverage ingestion', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-coverage-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const tasks = ['85%', '80%', 'high'].map((coverageTarget, index) =>
+      createTask(`coverage_bill_0${index + 1}`, { status: 'in_progress', statusEmoji: '🔄', featureName: 'billing', coverageTarget })
+    );
+    const parseResult = createParseResult(tasks, { spec: 'Invoices with tax', score: 80 });
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('billing', tasks, parseResult, { skipSimilarityCheck: true });
+    storage.close();
+
+    await writeFile(path.join(projectRoot, 'lcov.info'), LCOV);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('marks tasks met or unmet against their targets and remaps after validation', async () => {
+    const before = await handleIngestCoverage({ project_root: projectRoot, file_path: 'lcov.info' });
+    expect(before).toMatchObject({ success: true, format: 'lcov', file_count: 2, tasks: [] });
+
+    const validated = await handleValidateImplementationProcess({
+      project_root: projectRoot,
+      feature_name: 'billing',
+      analysis: createValidation({
+        coverage_bill_01: ['./src/billing/invoice.ts'],
+        coverage_bill_02: ['src/billing/invoice.ts', 'src/billing/tax.ts'],
+        coverage_bill_03: ['src/billing/tax.ts']
+      })
+    });
+
+    expect(validated.success).toBe(true);
+    expect(validated.task_details.map((task: any) => [task.task_id, task.coverage?.percentage, task.coverage?.status])).toEqual([
+      ['coverage_bill_01', 90, 'met'],
+      ['coverage_bill_02', 71.4, 'unmet'],
+      ['coverage_bill_03', 25, 'no_target']
+    ]);
+    expect(validated.summary.coverage_targets).toBe('1/3 measured tasks meet their coverage target');
+    expect(validated.summary.immediate_actions).toContain('Raise test coverage to the target for 1 task(s): coverage_bill_02');
+
+    const activeFile = await readFile(path.join(projectRoot, 'speclinter-tasks', 'billing', '_active.md'), 'utf-8');
+    expect(activeFile).toContain('**Coverage**: 90% of lines, target 85% ✅ met');
+    expect(activeFile).toContain('**Coverage**: 71.4% of lines, target 80% ❌ unmet');
+
+    const after = await handleIngestCoverage({
+      project_root: projectRoot,
+      content: LCOV.replace('LH:9', 'LH:10').replace('DA:2,0', 'DA:2,1').replace('DA:3,0\nDA:4,0', 'DA:3,1\nDA:4,1'),
+      feature_name: 'billing'
+    });
+    expect(after).toMatchObject({ success: true, unmeasured_tasks: [] });
+    if (!after.success) throw new Error('Expected successful ingestion');
+    expect(after.tasks.map(task => task.status)).toEqual(['met', 'met', 'no_target']);
+  });
+});
@@ -0,0 +1,130 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleExportFeature, handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { exportFeature } from '../src/core/task-export.js';
+import type { ExportFormat } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+const goldenDir = path.resolve(process.cwd(), 'tests', 'fixtures', 'export');
+
+// Set UPDATE_GOLDEN=1 to rewrite the golden files after an intentional format change
+async function expectGolden(fileName: string, actual: string): Promise<void> {
+  const goldenPath = path.join(goldenDir, fileName);
+  if (process.env.UPDATE_GOLDEN) {
+    await writeFile(goldenPath, actual);
+  }
+  expect(actual).toBe(await readFile(goldenPath, 'utf-8'));
+}
+
+describe('feature export', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-export-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const tasks = [
+      createTask('search_01', {
+        featureName: 'search',
+        title: 'Build search index',
+        status: 'completed',
+        acceptanceCriteria: ['Products are indexed on save', 'Index survives restarts']
+      }),
+      createTask('search_02', {
+        featureName: 'search',
+        title: 'Add search endpoint',
+        status: 'in_progress',
+        dependencies: ['search_01'],
+        acceptanceCriteria: ['GET /search returns ranked results'],
+        testFile: 'search-endpoint.feature',
+        notes: 'Use "q" as the query parameter, not "query"'
+      }),
+      createTask('search_03', {
+        featureName: 'search',
+        title: 'Show results page',
+        dependencies: ['search_01', 'search_02'],
+        acceptanceCriteria: ['Results show name, price and thumbnail']
+      })
+    ];
+    const parseResult = createParseResult(tasks, {
+      spec: 'As a shopper, I want to search products so that I can find them quickly.',
+      score: 84
+    });
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('search', tasks, parseResult, { skipSimilarityCheck: true });
+    await storage.updateCriteriaValidation('search', 'search_01', [
+      { criteria: 'Products are indexed on save', status: 'met', evidence: 'Indexer hook', confidence: 0.9 },
+      { criteria: 'Index survives restarts', status: 'partially_met', evidence: 'No reload test', confidence: 0.6 }
+    ], ['src/search/indexer.ts']);
+    storage.close();
+
+    await writeFile(
+      path.join(projectRoot, 'speclinter-tasks', 'search', 'gherkin', 'search-endpoint.feature'),
+      'Feature: Search endpoint\n\n  Scenario: Ranked results\n    Given indexed products\n    When I search for "lamp"\n    Then the best match is first\n'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  const formats: Array<[ExportFormat, string]> = [
+    ['github', 'search.github.json'],
+    ['gitlab', 'search.gitlab.csv'],
+    ['jira-csv', 'search.jira.csv'],
+    ['json', 'search.json']
+  ];
+
+  for (const [format, goldenFile] of formats) {
+    it(`matches the ${format} golden file`, async () => {
+      const result = await handleExportFeature({ project_root: projectRoot, feature_name: 'search', format });
+
+      expect(result.success).toBe(true);
+      await expectGolden(goldenFile, result.content!);
+    });
+  }
+
+  it('writes the export to a file from the CLI', async () => {
+    const result = spawnSync(tsxPath, [cliPath, 'export', 'search', '--format', 'jira-csv', '--output', 'out/search.csv'], {
+      cwd: projectRoot,
+      encoding: 'utf-8'
+    });
+
+    expect(result.status).toBe(0);
+    await expectGolden('search.jira.csv', await readFile(path.join(projectRoot, 'out', 'search.csv'), 'utf-8'));
+  });
+
+  it('refuses to write the export outside the project', async () => {
+    for (const outputPath of ['../search.csv', path.join(os.tmpdir(), 'search.csv')]) {
+      const result = await handleExportFeature({ project_root: projectRoot, feature_name: 'search', format: 'jira-csv', output_path: outputPath });
+
+      expect(result).toMatchObject({ success: false, message: expect.stringContaining('is outside the project root') });
+    }
+  });
+
+  it('keeps CSV cells from being read as spreadsheet formulas', () => {
+    const titles = ['=HYPERLINK("http://evil.example","Open")', '+1', '-1', '@SUM(A1)'];
+    const tasks = titles.map((title, index) => ({ ...createTask(`csv_0${index + 1}`, { title }), gherkin: null }));
+    const csv = exportFeature({ featureName: 'csv', spec: 'CSV', grade: 'B', score: 80, tasks }, 'gitlab');
+
+    expect(csv).toContain('"\'=HYPERLINK(""http://evil.example"",""Open"")"');
+    for (const title of titles.slice(1)) {
+      expect(csv).toContain(`\r\n'${title},`);
+    }
+  });
+
+  it('rejects unknown formats', async () => {
+    const result = await handleExportFeature({ project_root: projectRoot, feature_name: 'search', format: 'trello' });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import Database from 'better-sqlite3';
+import os from 'os';
+import path from 'path';
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  handleDeleteFeature,
+  handleInitProject,
+  handleListFeatures,
+  handleRenameFeature
+} from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+async function seedFeature(rootDir: string, featureName: string, spec: string, grade: string): Promise<void> {
+  const tasks = [
+    createTask(`${featureName}_01`, { featureName, slug: `step-${featureName}_01`, status: 'completed' }),
+    createTask(`${featureName}_02`, { featureName, slug: `step-${featureName}_02` })
+  ];
+  const parseResult = createParseResult(tasks, { spec, grade, score: 80 });
+
+  const storage = new Storage(rootDir);
+  await storage.initialize();
+  await storage.saveFeature(featureName, tasks, parseResult, { skipSimilarityCheck: true });
+  await storage.updateValidationResults(featureName, {
+    overallStatus: 'in_progress',
+    completionPercentage: 50,
+    qualityScore: 70
+  });
+  storage.close();
+}
+
+describe('feature management', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-features-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    await seedFeature(projectRoot, 'login', 'As a user, I want to log in so that I can see my account.', 'A');
+    await seedFeature(projectRoot, 'billing', 'As an admin, I want invoices so that customers get billed.', 'C');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('lists features with grades and task counts', async () => {
+    const result = await handleListFeatures({ project_root: projectRoot });
+
+    expect(result.features.map(feature => [feature.name, feature.grade, feature.completed_tasks, feature.total_tasks])).toEqual([
+      ['billing', 'C', 1, 2],
+      ['login', 'A', 1, 2]
+    ]);
+  });
+
+  it('keeps when a feature was created when it is saved again, and rolls back a failed save', async () => {
+    const dbPath = path.join(projectRoot, '.speclinter', 'speclinter.db');
+    const writable = new Database(dbPath);
+    writable.prepare(`UPDATE features SET created_at = '2026-01-01 00:00:00' WHERE name = 'login'`).run();
+    writable.close();
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [createTask('login_01', { featureName: 'login', title: 'Show sign-in form' })];
+    await storage.saveFeature('login', tasks, createParseResult(tasks, { spec: 'As a user, I want to sign in.', grade: 'B' }), { skipSimilarityCheck: true });
+
+    vi.spyOn(storage as any, 'saveTaskCriteria').mockImplementationOnce(() => {
+      throw new Error('disk I/O error');
+    });
+    const failing = [createTask('login_01', { featureName: 'login', title: 'Show passkey prompt' })];
+    await expect(
+      storage.saveFeature('login', failing, createParseResult(failing, { spec: 'As a user, I want to use a passkey.', grade: 'A' }), { skipSimilarityCheck: true })
+    ).rejects.toThrow('disk I/O error');
+    const saved = (await storage.listFeatures()).find(feature => feature.name === 'login');
+    const revisions = await storage.getFeatureRevisions('login');
+    const savedTasks = await storage.getFeatureTasks('login');
+    storage.close();
+
+    expect(saved).toMatchObject({ grade: 'B', createdAt: '2026-01-01 00:00:00' });
+    expect(revisions.map(revision => revision.spec)).toEqual([
+      'As a user, I want to log in so that I can see my account.',
+      'As a user, I want to sign in.'
+    ]);
+    expect(savedTasks.map(task => task.title)).toContain('Show sign-in form');
+    expect(savedTasks.map(task => task.title)).not.toContain('Show passkey prompt');
+  });
+
+  it('renames rows, the task folder and rendered files together', async () => {
+    const result = await handleRenameFeature({ project_root: projectRoot, feature_name: 'login', new_name: 'sign-in' });
+
+    expect(result.success).toBe(true);
+    expect(existsSync(path.join(projectRoot, 'speclinter-tasks', 'login'))).toBe(false);
+
+    const featureDir = path.join(projectRoot, 'speclinter-tasks', 'sign-in');
+    const taskFile = await readFile(path.join(featureDir, 'task_01_step-login_01.md'), 'utf-8');
+    const meta = JSON.parse(await readFile(path.join(featureDir, 'meta.json'), 'utf-8'));
+    expect(taskFile).toContain('**Feature**: sign-in');
+    expect(meta.featureName).toBe('sign-in');
+
+    const db = new Database(path.join(projectRoot, '.speclinter', 'speclinter.db'), { readonly: true });
+    try {
+      for (const table of ['tasks', 'task_status_history', 'validation_results']) {
+        const counts = db.prepare(`
+          SELECT SUM(feature_name = 'sign-in') AS renamed, SUM(feature_name = 'login') AS stale FROM ${table}
+        `).get() as { renamed: number; stale: number | null };
+        expect(counts.renamed).toBeGreaterThan(0);
+        expect(counts.stale ?? 0).toBe(0);
+      }
+    } finally {
+      db.close();
+    }
+  });
+
+  it('refuses to rename onto an existing feature', async () => {
+    const result = await handleRenameFeature({ project_root: projectRoot, feature_name: 'login', new_name: 'billing' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("'billing' already exists");
+    expect(existsSync(path.join(projectRoot, 'speclinter-tasks', 'login'))).toBe(true);
+  });
+
+  it('deletes a feature only when confirmed', async () => {
+    const unconfirmed = await handleDeleteFeature({ project_root: projectRoot, feature_name: 'billing' });
+    expect(unconfirmed.success).toBe(false);
+
+    const result = await handleDeleteFeature({ project_root: projectRoot, feature_name: 'billing', confirm: true });
+
+    expect(result).toMatchObject({ success: true, tasks_deleted: 2, directory_removed: true });
+    expect(await readdir(path.join(projectRoot, 'speclinter-tasks'))).toEqual(['login']);
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    expect(await storage.getFeatureNames()).toEqual(['login']);
+    expect(await storage.getValidationResults('billing')).toBeNull();
+    expect(await storage.getTaskHistory('billing')).toEqual([]);
+    storage.close();
+  });
+
+  it('lists features from the CLI', () => {
+    const result = spawnSync(tsxPath, [cliPath, 'features'], { cwd: projectRoot, encoding: 'utf-8' });
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('Features (2)');
+    expect(result.stdout).toContain('grade A (80)');
+  });
+});
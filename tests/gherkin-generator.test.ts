@@ -0,0 +1,129 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { generateFallbackGherkin } from '../src/core/gherkin-generator.js';
+import { lintGherkin } from '../src/core/gherkin-lint.js';
+import { parseGherkin } from '../src/core/gherkin.js';
+import { DEFAULT_CONFIG } from '../src/types/config.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const PASSWORD_RESET: Partial<Task> = {
+  title: 'Password reset',
+  summary: 'Users reset a forgotten password by email',
+  implementation: 'Send a signed reset link',
+  featureName: 'accounts',
+  slug: 'password-reset',
+  testFile: 'password-reset.feature'
+};
+
+const CRITERIA = ['A reset email is sent to registered addresses.', 'Reset links expire after 1 hour', 'API responds with 202 for unknown addresses'];
+
+describe('fallback gherkin generation', () => {
+  it('writes one scenario per criterion plus edge case and security scenarios by default', () => {
+    const content = generateFallbackGherkin(createTask('gen_reset_01', { ...PASSWORD_RESET, acceptanceCriteria: CRITERIA }), DEFAULT_CONFIG.generation);
+    const { feature, errors } = parseGherkin(content);
+
+    expect(errors).toEqual([]);
+    expect(feature?.background).toBeUndefined();
+    expect(feature?.scenarios.map(scenario => [scenario.name, scenario.tags])).toEqual([
+      ['A reset email is sent to registered addresses', []],
+      ['Reset links expire after 1 hour', []],
+      ['API responds with 202 for unknown addresses', []],
+      ['Invalid input is rejected for Password reset', ['@error']],
+      ['Boundary values for Password reset', ['@edge-case']],
+      ['Unauthorized users cannot use Password reset', ['@security']]
+    ]);
+    expect(feature?.scenarios[0].steps.map(step => `${step.keyword} ${step.text}`)).toEqual([
+      'Given the "Password reset" feature is available',
+      'When the user completes "Password reset"',
+      'Then a reset email is sent to registered addresses'
+    ]);
+    expect(feature?.scenarios[2].steps[2].text).toBe('API responds with 202 for unknown addresses');
+    expect(lintGherkin(content, DEFAULT_CONFIG.generation.gherkinQuality)).toMatchObject({ errors: 0, warnings: 0, score: 100 });
+  });
+
+  it('follows the style, background, data table and scenario count settings', () => {
+    const quality = {
+      ...DEFAULT_CONFIG.generation.gherkinQuality,
+      includeEdgeCases: false,
+      includeSecurityScenarios: false,
+      includePerformanceScenarios: true,
+      requireBackground: true,
+      requireDataTables: true,
+      minScenarioCount: 2,
+      maxScenarioCount: 4
+    };
+    const settings = { gherkinStyle: 'imperative' as const, gherkinQuality: quality };
+
+    const content = generateFallbackGherkin(createTask('gen_reset_02', { ...PASSWORD_RESET, acceptanceCriteria: [...CRITERIA, 'The old password stops working'] }), settings);
+    const { feature, errors } = parseGherkin(content);
+
+    expect(errors).toEqual([]);
+    expect(feature?.background?.steps.map(step => step.text)).toEqual(['the application is running', 'I have opened the home page']);
+    expect(feature?.scenarios.map(scenario => scenario.name)).toEqual([
+      'A reset email is sent to registered addresses',
+      'Reset links expire after 1 hour and 2 more criteria',
+      'Boundary values for Password reset',
+      'Password reset responds within 2 seconds under load'
+    ]);
+    expect(feature?.scenarios[1].steps.filter(step => step.type === 'Then').map(step => step.text)).toEqual([
+      'I should see that reset links expire after 1 hour',
+      'I should see that API responds with 202 for unknown addresses',
+      'I should see that the old password stops working'
+    ]);
+    expect(feature?.scenarios[2].examples[0].header).toEqual(['input', 'result']);
+    expect(lintGherkin(content, quality).errors).toBe(0);
+
+    const padded = parseGherkin(generateFallbackGherkin(createTask('gen_reset_03', { ...PASSWORD_RESET, acceptanceCriteria: [] }), {
+      ...settings,
+      gherkinQuality: { ...quality, includePerformanceScenarios: false, requireDataTables: false, minScenarioCount: 3 }
+    }));
+    expect(padded.feature?.scenarios.map(scenario => scenario.name)).toEqual([
+      'Users reset a forgotten password by email',
+      'Invalid input is rejected for Password reset',
+      'Boundary values for Password reset'
+    ]);
+  });
+});
+
+describe('saved feature gherkin', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-gherkin-gen-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('uses the project gherkinQuality config when saving a feature', async () => {
+    const configPath = path.join(projectRoot, '.speclinter', 'config.json');
+    const config = JSON.parse(await readFile(configPath, 'utf-8'));
+    config.generation.gherkinQuality.includeSecurityScenarios = false;
+    config.generation.gherkinQuality.requireBackground = true;
+    await writeFile(configPath, JSON.stringify(config, null, 2));
+
+    const task = createTask('gen_reset_04', { ...PASSWORD_RESET, acceptanceCriteria: CRITERIA.slice(0, 2) });
+    const parseResult = createParseResult([task], { spec: 'Password reset', score: 80 });
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('accounts', [task], parseResult, { skipSimilarityCheck: true });
+    storage.close();
+
+    const { feature } = parseGherkin(await readFile(path.join(projectRoot, 'speclinter-tasks', 'accounts', 'gherkin', 'password-reset.feature'), 'utf-8'));
+    expect(feature?.background).toBeDefined();
+    expect(feature?.scenarios.map(scenario => scenario.name)).toEqual([
+      'A reset email is sent to registered addresses',
+      'Reset links expire after 1 hour',
+      'Invalid input is rejected for Password reset',
+      'Boundary values for Password reset'
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject, handleLintGherkin } from '../src/tools.js';
+import { handleProcessGherkinAnalysis } from '../src/ai/gherkin/workflow.js';
+import { lintGherkin } from '../src/core/gherkin-lint.js';
+import { parseGherkin } from '../src/core/gherkin.js';
+import { DEFAULT_CONFIG } from '../src/types/config.js';
+import { Storage } from '../src/core/storage.js';
+import type { ParseResult, Task } from '../src/types/index.js';
+
+const SETTINGS = DEFAULT_CONFIG.generation.gherkinQuality;
+
+const SIGNUP_FEATURE = `Feature: Sign up
+
+  Scenario: Registering with an email
+    Given I am on the sign up page
+    When I register as "ada@example.com"
+    Then a welcome email is sent to "ada@example.com"
+
+  Scenario Outline: Rejecting weak passwords
+    When I register with password "<password>"
+    Then I see the error "<error>"
+
+    Examples:
+      | password | reason |
+      | abc      | short  |
+
+  Scenario: Registering with an email
+    When I submit the form
+    And everything works as expected
+`;
+
+describe('gherkin linting', () => {
+  it('flags duplicate titles, missing Then steps, Examples columns and vague wording', () => {
+    const report = lintGherkin(SIGNUP_FEATURE, SETTINGS);
+
+    expect(report.issues.map(issue => [issue.rule, issue.severity, issue.line])).toEqual([
+      ['examples', 'error', 12],
+      ['examples', 'warning', 12],
+      ['duplicate_title', 'error', 16],
+      ['missing_then', 'error', 16],
+      ['vague_step', 'warning', 18]
+    ]);
+    expect(report.issues[0].message).toBe('Examples of "Rejecting weak passwords" have no <error> column');
+    expect(report).toMatchObject({ scenarioCount: 3, errors: 3, warnings: 2, score: 45 });
+  });
+
+  it('scores against the gherkinQuality settings', () => {
+    const content = 'Feature: Logout\n  Scenario: Logging out\n    When I log out\n    Then I see the sign in page\n';
+
+    expect(lintGherkin(content, SETTINGS).issues.map(issue => issue.message)).toEqual([
+      'Feature has 1 scenario(s); at least 3 are expected'
+    ]);
+
+    const strict = lintGherkin(content, { ...SETTINGS, minScenarioCount: 1, requireBackground: true, requireDataTables: true });
+    expect(strict.issues.map(issue => issue.rule)).toEqual(['background', 'data_tables']);
+    expect(strict.score).toBe(90);
+  });
+
+  it('keeps the indentation inside doc strings relative to the opening fence', () => {
+    const content = [
+      'Feature: Orders',
+      '  Scenario: Creating an order',
+      '    When I post the order',
+      '      """',
+      '      {',
+      '        "items": [1]',
+      '    }',
+      '      """',
+      '    Then the order is created'
+    ].join('\n');
+
+    expect(parseGherkin(content).feature?.scenarios[0].steps[0].docString).toBe('{\n  "items": [1]\n}');
+  });
+});
+
+describe('gherkin lint tool', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-lint-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const task: Task = {
+      id: 'lint_signup_01',
+      title: 'Sign up',
+      summary: 'Users register with an email',
+      implementation: 'Add a registration form',
+      status: 'not_started',
+      statusEmoji: '⏳',
+      featureName: 'signup',
+      slug: 'sign-up',
+      acceptanceCriteria: ['Users can register'],
+      testFile: 'sign-up.feature',
+      coverageTarget: '90%',
+      notes: ''
+    };
+    const parseResult: ParseResult = { spec: 'Sign up', grade: 'B', score: 80, tasks: [task], improvements: [], missingElements: [] };
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('signup', [task], parseResult, { skipSimilarityCheck: true });
+    storage.close();
+
+    await writeFile(path.join(projectRoot, 'speclinter-tasks', 'signup', 'gherkin', 'sign-up.feature'), SIGNUP_FEATURE);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('lints a task file and writes AI Examples as a header row plus one row per example', async () => {
+    const linted = await handleLintGherkin({ project_root: projectRoot, feature_name: 'signup', task_id: 'lint_signup_01' });
+    expect(linted).toMatchObject({ success: true, errors: 3, warnings: 2, files: [{ file: 'sign-up.feature', task_id: 'lint_signup_01', score: 45 }] });
+
+    const step = (type: string, text: string) => ({ type, text });
+    const processed = await handleProcessGherkinAnalysis({
+      project_root: projectRoot,
+      feature_name: 'signup',
+      task_id: 'lint_signup_02',
+      analysis: {
+        feature: {
+          title: 'Password rules',
+          description: 'Weak passwords are rejected',
+          scenarios: [{
+            type: 'validation',
+            title: 'Rejecting weak passwords',
+            tags: ['@security'],
+            steps: [step('when', 'I register with password "<password>"'), step('then', 'I see the error "<error>"')],
+            examples: [
+              { description: 'too short', data: { password: 'abc', error: 'Too short' } },
+              { description: 'no digits', data: { password: 'abcdefgh', error: 'Add a digit | symbol' } }
+            ],
+            priority: 'high'
+          }],
+          testingNotes: 'Uses the seeded user store',
+          coverageAreas: ['validation']
+        },
+        qualityMetrics: { scenarioCount: 1, coverageScore: 80, actionabilityScore: 80, maintainabilityScore: 80 },
+        technicalConsiderations: [],
+        automationReadiness: { score: 80, blockers: [], recommendations: [] },
+        aiInsights: { confidence: 0.8, improvements: [], patterns: [] }
+      }
+    });
+    if (!processed.success || !('lint' in processed)) throw new Error(`Expected Gherkin to be written: ${JSON.stringify(processed)}`);
+
+    const written = await readFile(processed.gherkin_file, 'utf-8');
+    expect(written).toContain('  @security\n  Scenario Outline: Rejecting weak passwords');
+    expect(written).toContain('      | password | error |\n      # too short\n      | abc | Too short |');
+    expect(parseGherkin(written).feature?.scenarios[0].examples[0].rows).toEqual([
+      ['abc', 'Too short'],
+      ['abcdefgh', 'Add a digit | symbol']
+    ]);
+    expect(processed.lint.errors).toBe(0);
+
+    const all = await handleLintGherkin({ project_root: projectRoot, feature_name: 'signup' });
+    expect(all.success && all.files.map(file => file.file)).toEqual(['lint_signup_02_password_rules.feature', 'sign-up.feature']);
+  });
+});
@@ -0,0 +1,50 @@
+import { Storage } from '../../src/core/storage.js';
+import type { ParseResult, Task } from '../../src/types/index.js';
+
+/**
+ * A not-started task with fields derived from its ID; pass overrides for
+ * anything a test depends on.
+ */
+export function createTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    summary: `Summary for ${id}`,
+    implementation: `Implement ${id}`,
+    status: 'not_started',
+    statusEmoji: '⏳',
+    featureName: 'feature',
+    slug: id.replace(/_/g, '-'),
+    acceptanceCriteria: [`${id} works`],
+    testFile: '',
+    coverageTarget: '90%',
+    notes: '',
+    ...overrides
+  };
+}
+
+export function createParseResult(tasks: Task[], overrides: Partial<ParseResult> = {}): ParseResult {
+  return {
+    spec: 'As a user, I want this feature so that I get its benefit.',
+    grade: 'B',
+    score: 85,
+    tasks,
+    improvements: [],
+    missingElements: [],
+    ...overrides
+  };
+}
+
+/**
+ * The inputs stored with a prepared AI continuation, or undefined when the
+ * project has no continuation with that ID.
+ */
+export async function getContinuationInputs(projectRoot: string, continuationId: string): Promise<Record<string, any> | undefined> {
+  const storage = new Storage(projectRoot);
+  await storage.initialize();
+  try {
+    return (await storage.getAIContinuation(continuationId))?.inputs;
+  } finally {
+    storage.close();
+  }
+}
@@ -0,0 +1,134 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { request } from 'http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { handleInitProject } from '../src/tools.js';
+import { startHttpServer, type RunningHttpServer } from '../src/http-server.js';
+
+const TOKEN = 'test-token';
+
+async function connectClient(url: string, token?: string): Promise<Client> {
+  const client = new Client({ name: 'http-test', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(url), {
+    requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
+  }));
+  return client;
+}
+
+describe('streamable HTTP server', () => {
+  let projectRoot: string;
+  let running: RunningHttpServer;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-http-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    running = await startHttpServer({ port: 0, token: TOKEN });
+  });
+
+  afterEach(async () => {
+    await running.close();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('serves concurrent sessions and reports them on the health endpoint', async () => {
+    const [first, second] = await Promise.all([connectClient(running.url, TOKEN), connectClient(running.url, TOKEN)]);
+
+    const health = await fetch(running.url.replace('/mcp', '/health'));
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: 'ok', transport: 'streamable-http', sessions: 2 });
+
+    const [firstResult, secondResult] = await Promise.all([first, second].map(client =>
+      client.callTool({ name: 'speclinter_list_features', arguments: { project_root: projectRoot } })
+    ));
+    for (const result of [firstResult, secondResult]) {
+      const content = result.content as Array<{ type: string; text: string }>;
+      expect(JSON.parse(content[0].text)).toEqual({ total_features: 0, features: [] });
+    }
+
+    await first.close();
+    await second.close();
+  });
+
+  it('rejects MCP requests without the bearer token or a known session', async () => {
+    await expect(connectClient(running.url)).rejects.toThrow();
+    await expect(connectClient(running.url, 'wrong-token')).rejects.toThrow();
+
+    const unknownSession = await fetch(running.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'missing'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(unknownSession.status).toBe(404);
+
+    const noSession = await fetch(running.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(noSession.status).toBe(400);
+    expect(running.sessionCount()).toBe(0);
+  });
+
+  it('requires a token off loopback and rejects requests with a foreign Host header', async () => {
+    await expect(startHttpServer({ port: 0, host: '0.0.0.0' })).rejects.toThrow('A bearer token is required to serve on 0.0.0.0');
+
+    const initialize = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'rebinding', version: '1.0.0' } }
+    });
+    const { port } = new URL(running.url);
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request({
+        host: '127.0.0.1',
+        port,
+        path: '/mcp',
+        method: 'POST',
+        headers: {
+          Host: `attacker.example:${port}`,
+          Authorization: `Bearer ${TOKEN}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream'
+        }
+      }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      req.on('error', reject);
+      req.end(initialize);
+    });
+    expect(status).toBe(403);
+    expect(running.sessionCount()).toBe(0);
+
+    const client = await connectClient(running.url.replace('127.0.0.1', 'localhost'), TOKEN);
+    await client.close();
+  });
+
+  it('closes sessions left idle by clients that went away', async () => {
+    const idle = await startHttpServer({ port: 0, token: TOKEN, sessionIdleTimeoutMs: 100 });
+    try {
+      const client = await connectClient(idle.url, TOKEN);
+      await client.callTool({ name: 'speclinter_list_features', arguments: { project_root: projectRoot } });
+      expect(idle.sessionCount()).toBe(1);
+
+      // Closing the client transport drops its connections without ending the session
+      await client.close();
+      for (let attempt = 0; attempt < 20 && idle.sessionCount() > 0; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      expect(idle.sessionCount()).toBe(0);
+    } finally {
+      await idle.close();
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { handleAnalyzeSpecQualityUnified, handleImportIssuesUnified } from '../src/unified-ai-tools.js';
+import { buildImportedFeatures, parseGitHubIssues, parseJiraCsv } from '../src/core/issue-import.js';
+import { Storage } from '../src/core/storage.js';
+
+const githubIssues = JSON.stringify([
+  {
+    number: 41,
+    title: 'Build search index',
+    state: 'closed',
+    body: 'Index products when they are saved.\n\n## Acceptance Criteria\n- Products are indexed on save\n- Index survives restarts',
+    labels: [{ name: 'backend' }],
+    milestone: { title: 'Product Search' },
+    html_url: 'https://github.com/acme/shop/issues/41'
+  },
+  {
+    number: 42,
+    title: 'Add search endpoint',
+    state: 'open',
+    body: 'Depends on #41\nBlocked by #7\n\n- [x] GET /search returns ranked results\n- [ ] Empty queries return 400',
+    labels: ['api', 'in progress'],
+    milestone: { title: 'Product Search' }
+  },
+  {
+    number: 43,
+    title: 'Bump dependencies',
+    state: 'open',
+    body: '',
+    pull_request: { url: 'https://api.github.com/repos/acme/shop/pulls/43' }
+  }
+]);
+
+const jiraCsv = [
+  'Summary,Issue key,Issue id,Status,Description,Labels,Labels,Custom field (Epic Link),Inward issue link (Blocks)',
+  'Store cart,SHOP-1,10001,Done,"Persist the cart, per user.\n\nh3. Acceptance Criteria\n* (/) Cart survives logout\n* (x) Cart merges on login",cart,backend,Checkout,',
+  'Pay with card,SHOP-2,10002,In Progress,"Charge the card with ""3-D Secure"".",payments,,Checkout,10001'
+].join('\r\n');
+
+function createQualityAnalysis() {
+  return {
+    overallScore: 72,
+    grade: 'C',
+    qualityDimensions: { clarity: 70, completeness: 65, testability: 80, feasibility: 85, businessValue: 60 },
+    semanticIssues: [],
+    strengths: [],
+    improvements: [],
+    aiInsights: { confidence: 0.9, analysisDepth: 'standard', contextFactors: [], recommendations: [] }
+  };
+}
+
+describe('issue import parsing', () => {
+  it('maps GitHub issues to tasks grouped by milestone', () => {
+    const [feature] = buildImportedFeatures(parseGitHubIssues(githubIssues), 'github');
+
+    expect(feature.featureName).toBe('product-search');
+    expect(feature.issueKeys).toEqual(['#41', '#42']);
+    expect(feature.tasks).toEqual([
+      expect.objectContaining({
+        id: 'gh_41',
+        status: 'completed',
+        summary: 'Index products when they are saved.',
+        acceptanceCriteria: ['Products are indexed on save', 'Index survives restarts'],
+        dependencies: []
+      }),
+      expect.objectContaining({
+        id: 'gh_42',
+        status: 'in_progress',
+        acceptanceCriteria: ['GET /search returns ranked results', 'Empty queries return 400'],
+        dependencies: ['gh_41'],
+        notes: 'Imported from GitHub issue #42\nLabels: api, in progress\nDepends on issues outside this feature: #7'
+      })
+    ]);
+  });
+
+  it('reads quoted multi-line fields and repeated columns from Jira CSV', () => {
+    const issues = parseJiraCsv(jiraCsv);
+    const [feature] = buildImportedFeatures(issues, 'jira-csv', 'checkout');
+
+    expect(issues[0]).toMatchObject({ key: 'SHOP-1', labels: ['cart', 'backend'], group: 'Checkout' });
+    expect(issues[1].body).toBe('Charge the card with "3-D Secure".');
+    expect(feature.tasks).toEqual([
+      expect.objectContaining({
+        id: 'shop_1',
+        status: 'completed',
+        summary: 'Persist the cart, per user.',
+        acceptanceCriteria: ['Cart survives logout', 'Cart merges on login']
+      }),
+      expect.objectContaining({ id: 'shop_2', status: 'in_progress', dependencies: ['shop_1'] })
+    ]);
+  });
+
+  it('ignores the byte order mark Jira puts before the header', () => {
+    const issues = parseJiraCsv(`\uFEFF${jiraCsv}`);
+
+    expect(issues.map(issue => issue.key)).toEqual(['SHOP-1', 'SHOP-2']);
+    expect(issues).toEqual(parseJiraCsv(jiraCsv));
+  });
+});
+
+describe('speclinter_import_issues', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-import-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    await writeFile(path.join(projectRoot, 'issues.json'), githubIssues);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('refuses to read files outside the project', async () => {
+    const result = await handleImportIssuesUnified({ project_root: projectRoot, format: 'github', file_path: '../issues.json' });
+
+    expect(result).toMatchObject({ success: false, message: expect.stringContaining("Path '../issues.json' is outside the project root") });
+  });
+
+  it('saves imported features and returns a grading prompt for each', async () => {
+    const result = await handleImportIssuesUnified({ project_root: projectRoot, format: 'github', file_path: 'issues.json' });
+
+    expect(result.success).toBe(true);
+    expect(result.imported.map((feature: any) => [feature.feature_name, feature.task_count])).toEqual([['product-search', 2]]);
+    expect(result.state).toBe('needs_ai_analysis');
+    expect(result.quality_analyses).toEqual([expect.objectContaining({
+      feature_name: 'product-search',
+      schema: 'AISpecQualityAnalysisSchema',
+      continuation_tool: 'speclinter_analyze_spec_quality',
+      continuation_args: expect.objectContaining({ continuation_id: expect.any(String) })
+    })]);
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    try {
+      expect((await storage.getFeatureTasks('product-search')).map(task => task.id)).toEqual(['gh_41', 'gh_42']);
+      expect((await storage.listFeatures())[0]).toMatchObject({ grade: 'Pending', score: 0 });
+      expect((await storage.getAIContinuation(result.quality_analyses[0].continuation_id))?.inputs).toMatchObject({
+        feature_name: 'product-search',
+        record_grade: true
+      });
+    } finally {
+      storage.close();
+    }
+  });
+
+  it('records the grade once the quality analysis is processed', async () => {
+    const result = await handleImportIssuesUnified({ project_root: projectRoot, format: 'github', file_path: 'issues.json' });
+
+    const processed = await handleAnalyzeSpecQualityUnified({
+      ...result.quality_analyses[0].continuation_args,
+      analysis: createQualityAnalysis()
+    });
+
+    expect(processed.success).toBe(true);
+    const meta = JSON.parse(await readFile(path.join(projectRoot, 'speclinter-tasks', 'product-search', 'meta.json'), 'utf-8'));
+    expect(meta).toMatchObject({ grade: 'C', score: 72 });
+  });
+
+  it('respects the skip deduplication strategy for features that already exist', async () => {
+    await handleImportIssuesUnified({ project_root: projectRoot, format: 'github', file_path: 'issues.json' });
+
+    const result = await handleImportIssuesUnified({
+      project_root: projectRoot,
+      format: 'github',
+      file_path: 'issues.json',
+      deduplication_strategy: 'skip'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.imported).toEqual([]);
+    expect(result.skipped).toEqual([expect.objectContaining({
+      feature_name: 'product-search',
+      duplicate_info: expect.objectContaining({ type: 'exact_match' })
+    })]);
+    expect(result.quality_analyses).toBeUndefined();
+  });
+});
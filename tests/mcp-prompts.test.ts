@@ -0,0 +1,87 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { handleInitProject, handleUpdateTaskStatus } from '../src/tools.js';
+import { SpecLinterServer } from '../src/server.js';
+import { Storage } from '../src/core/storage.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+function promptText(result: { messages: Array<{ content: { type: string; text?: unknown } }> }): string {
+  return result.messages.map(message => message.content.text).join('\n');
+}
+
+describe('MCP prompts', () => {
+  let projectRoot: string;
+  let server: SpecLinterServer;
+  let client: Client;
+  const previousRoot = process.env.SPECLINTER_PROJECT_ROOT;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-prompts-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    process.env.SPECLINTER_PROJECT_ROOT = projectRoot;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    server = new SpecLinterServer();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'prompts-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    if (previousRoot === undefined) {
+      delete process.env.SPECLINTER_PROJECT_ROOT;
+    } else {
+      process.env.SPECLINTER_PROJECT_ROOT = previousRoot;
+    }
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('builds the plan feature prompt from the prompt templates and tool prerequisites', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['plan_feature', 'validate_feature', 'onboard_codebase', 'triage_blocked_tasks']);
+
+    const plan = promptText(await client.getPrompt({
+      name: 'plan_feature',
+      arguments: { feature_name: 'checkout', spec: 'Users can pay with a saved card' }
+    }));
+    expect(plan).toContain('Plan the feature "checkout" with SpecLinter from this specification:\n\nUsers can pay with a saved card');
+    expect(plan).toContain('- **Clarity (0-100)**');
+    expect(plan).toContain('- Each task should be completable by a developer in 4-8 hours');
+    expect(plan).toContain('- Ensure project is initialized with speclinter_init_project');
+    expect(plan.indexOf('speclinter_find_similar')).toBeLessThan(plan.indexOf('`speclinter_parse_spec`'));
+  });
+
+  it('lists the blocked tasks and why they are blocked', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [
+      createTask('task_01', { title: 'Store cards', featureName: 'checkout' }),
+      createTask('task_02', { title: 'Charge saved card', featureName: 'checkout', dependencies: ['task_01'] })
+    ];
+    await storage.saveFeature('checkout', tasks, createParseResult(tasks, { spec: '# Checkout', score: 80 }), { skipSimilarityCheck: true });
+    storage.close();
+
+    await handleUpdateTaskStatus({ feature_name: 'checkout', task_id: 'task_01', status: 'completed' });
+    await handleUpdateTaskStatus({ feature_name: 'checkout', task_id: 'task_01', status: 'blocked', notes: 'Waiting for PCI review' });
+
+    const triage = promptText(await client.getPrompt({ name: 'triage_blocked_tasks', arguments: { feature_name: 'checkout' } }));
+    expect(triage).toContain('Triage the 2 blocked task(s) in the feature "checkout":');
+    expect(triage).toContain('- checkout/task_01 "Store cards": blocked manually: Waiting for PCI review');
+    expect(triage).toContain('- checkout/task_02 "Charge saved card": blocked automatically until task_01 is completed');
+
+    const completion = await client.complete({
+      ref: { type: 'ref/prompt', name: 'validate_feature' },
+      argument: { name: 'feature_name', value: 'che' }
+    });
+    expect(completion.completion.values).toEqual(['checkout']);
+
+    await expect(client.getPrompt({ name: 'triage_blocked_tasks', arguments: { feature_name: 'billing' } })).rejects.toThrow(/billing/);
+  });
+});
@@ -0,0 +1,138 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { handleInitProject, handleUpdateTaskStatus } from '../src/tools.js';
+import { SpecLinterServer } from '../src/server.js';
+import { Storage } from '../src/core/storage.js';
+import { ContextUpdater } from '../src/core/context-updater.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+async function saveFeature(projectRoot: string, name: string, tasks: Task[]): Promise<void> {
+  const storage = new Storage(projectRoot);
+  await storage.initialize();
+  const parseResult = createParseResult(tasks, { spec: `# ${name}\n- Users can sign in`, score: 80 });
+  await storage.saveFeature(name, tasks, parseResult, { skipSimilarityCheck: true });
+  storage.close();
+}
+
+function waitFor<T>(predicate: () => T | undefined): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      const value = predicate();
+      if (value !== undefined) {
+        resolve(value);
+      } else if (Date.now() - started > 2000) {
+        reject(new Error('Timed out waiting for notification'));
+      } else {
+        setTimeout(check, 10);
+      }
+    };
+    check();
+  });
+}
+
+describe('MCP resources', () => {
+  let projectRoot: string;
+  let server: SpecLinterServer;
+  let client: Client;
+  const previousRoot = process.env.SPECLINTER_PROJECT_ROOT;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-resources-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    process.env.SPECLINTER_PROJECT_ROOT = projectRoot;
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    server = new SpecLinterServer();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'resources-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    if (previousRoot === undefined) {
+      delete process.env.SPECLINTER_PROJECT_ROOT;
+    } else {
+      process.env.SPECLINTER_PROJECT_ROOT = previousRoot;
+    }
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('lists and reads features, tasks, Gherkin files and context files', async () => {
+    await saveFeature(projectRoot, 'auth', [createTask('task_01', { title: 'Add sign in form', featureName: 'auth', acceptanceCriteria: ['Users can sign in'], testFile: 'task_01.feature' })]);
+    await new ContextUpdater(projectRoot).updateContextFilesFromAI({} as any, {
+      projectMd: '# Project',
+      patternsMd: '# Patterns\n- Use repositories',
+      architectureMd: '# Architecture'
+    });
+
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual(expect.arrayContaining([
+      'speclinter://features',
+      'speclinter://features/auth/tasks/task_01',
+      'speclinter://features/auth/gherkin/task_01.feature',
+      'speclinter://context/patterns.md'
+    ]));
+
+    const features = await client.readResource({ uri: 'speclinter://features' });
+    expect(JSON.parse(features.contents[0].text as string)).toMatchObject({
+      total_features: 1,
+      features: [{ name: 'auth', total_tasks: 1 }]
+    });
+
+    const task = await client.readResource({ uri: 'speclinter://features/auth/tasks/task_01' });
+    expect(task.contents[0]).toMatchObject({ mimeType: 'text/markdown' });
+    expect(task.contents[0].text).toContain('Add sign in form');
+
+    const gherkin = await client.readResource({ uri: 'speclinter://features/auth/gherkin/task_01.feature' });
+    expect(gherkin.contents[0].text).toContain('Feature:');
+
+    const patterns = await client.readResource({ uri: 'speclinter://context/patterns.md' });
+    expect(patterns.contents[0].text).toBe('# Patterns\n- Use repositories');
+
+    await expect(client.readResource({ uri: 'speclinter://features/auth/tasks/task_99' })).rejects.toThrow(/task_99/);
+  });
+
+  it('notifies subscribers when storage changes a resource', async () => {
+    await saveFeature(projectRoot, 'auth', [createTask('task_01', { title: 'Add sign in form', featureName: 'auth', acceptanceCriteria: ['Users can sign in'], testFile: 'task_01.feature' })]);
+
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+    await client.subscribeResource({ uri: 'speclinter://features/auth/tasks/task_01' });
+
+    const result = await handleUpdateTaskStatus({ feature_name: 'auth', task_id: 'task_01', status: 'in_progress' });
+    expect(result.updated).toBe(true);
+    await waitFor(() => updated.length > 0 || undefined);
+    expect(updated).toEqual(['speclinter://features/auth/tasks/task_01']);
+
+    const task = await client.readResource({ uri: updated[0] });
+    expect(task.contents[0].text).toContain('**Status**: 🔄 in_progress');
+
+    await saveFeature(projectRoot, 'billing', [createTask('task_02', { title: 'Export invoices', featureName: 'billing', acceptanceCriteria: ['Users can sign in'], testFile: 'task_02.feature' })]);
+    await waitFor(() => listChanged > 0 || undefined);
+
+    await client.unsubscribeResource({ uri: 'speclinter://features/auth/tasks/task_01' });
+    updated.length = 0;
+    await handleUpdateTaskStatus({ feature_name: 'auth', task_id: 'task_01', status: 'completed' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(updated).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import Database from 'better-sqlite3';
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, MigrationRunner } from '../src/core/migrations.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+/**
+ * Recreates a database written before versioned migrations existed:
+ * the original tables, no schema_migrations and no later columns.
+ */
+function createLegacyDatabase(dbPath: string): void {
+  const db = new Database(dbPath);
+  db.exec('DROP TABLE IF EXISTS task_status_history');
+  db.exec('DROP TABLE IF EXISTS schema_migrations');
+  db.exec('DROP TABLE IF EXISTS tasks');
+  db.exec('DROP TABLE IF EXISTS test_results');
+  db.exec('DROP TABLE IF EXISTS validation_results');
+  db.exec('DROP TABLE IF EXISTS reverse_spec_state');
+  db.exec('DROP TABLE IF EXISTS features');
+  MIGRATIONS[0].up(db);
+  db.prepare(`
+    INSERT INTO features (id, name, spec, grade, score) VALUES ('legacy', 'legacy', 'Legacy spec', 'B', 80)
+  `).run();
+  db.prepare(`
+    INSERT INTO tasks (id, feature_name, sequence, title, slug, summary, implementation, status,
+      acceptance_criteria, test_file, coverage_target, notes)
+    VALUES ('legacy_01', 'legacy', 1, 'Legacy task', 'legacy-task', 'Summary', 'Implement', 'in_progress',
+      '[]', '', '90%', 'Keep me')
+  `).run();
+  db.close();
+}
+
+describe('schema migrations', () => {
+  let projectRoot: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-migrations-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    dbPath = path.join(projectRoot, '.speclinter', 'speclinter.db');
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('records every migration on a new database', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const applied = storage.getAppliedMigrations();
+    storage.close();
+
+    expect(applied.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+  });
+
+  it('upgrades an unversioned database without losing data', async () => {
+    createLegacyDatabase(dbPath);
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.updateTaskStatus('legacy', 'legacy_01', 'completed', 'Done');
+    const task = await storage.getTask('legacy', 'legacy_01');
+    const history = await storage.getTaskHistory('legacy', 'legacy_01');
+    storage.close();
+
+    expect(task?.status).toBe('completed');
+    expect(history.map(entry => entry.newStatus)).toEqual(['completed']);
+
+    const db = new Database(dbPath, { readonly: true });
+    expect(new MigrationRunner(db).getCurrentVersion()).toBe(LATEST_SCHEMA_VERSION);
+    const keyColumns = (db.prepare('PRAGMA table_info(tasks)').all() as Array<{ name: string; pk: number }>)
+      .filter(column => column.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map(column => column.name);
+    expect(keyColumns).toEqual(['feature_name', 'id']);
+    db.close();
+  });
+
+  it('rolls back every pending migration when one fails', () => {
+    createLegacyDatabase(dbPath);
+    const db = new Database(dbPath);
+    const runner = new MigrationRunner(db, [
+      ...MIGRATIONS,
+      { version: LATEST_SCHEMA_VERSION + 1, name: 'broken', up: target => target.exec('ALTER TABLE missing ADD COLUMN x TEXT') }
+    ]);
+
+    expect(() => runner.migrate()).toThrow(/no such table: missing/);
+    expect(runner.getCurrentVersion()).toBe(0);
+    expect((db.prepare('PRAGMA table_info(tasks)').all() as Array<{ name: string }>).map(col => col.name))
+      .not.toContain('blocked_by');
+    db.close();
+  });
+
+  it('refuses to open a database newer than the code', async () => {
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(LATEST_SCHEMA_VERSION + 1, 'from_the_future');
+    db.close();
+
+    const storage = new Storage(projectRoot);
+    await expect(storage.initialize()).rejects.toThrow(
+      `Database schema version ${LATEST_SCHEMA_VERSION + 1} is newer than this version of SpecLinter supports`
+    );
+  });
+
+  it('lists pending migrations from the CLI without applying them on --dry-run', () => {
+    createLegacyDatabase(dbPath);
+
+    const dryRun = spawnSync(tsxPath, [cliPath, 'db', 'migrate', '--dry-run'], { cwd: projectRoot, encoding: 'utf-8' });
+    expect(dryRun.status).toBe(0);
+    expect(dryRun.stdout).toContain('Schema version: 0');
+    expect(dryRun.stdout).toContain('task_status_history');
+
+    const db = new Database(dbPath, { readonly: true });
+    expect(new MigrationRunner(db).getCurrentVersion()).toBe(0);
+    db.close();
+
+    const migrate = spawnSync(tsxPath, [cliPath, 'db', 'migrate'], { cwd: projectRoot, encoding: 'utf-8' });
+    expect(migrate.status).toBe(0);
+    expect(migrate.stdout).toContain(`Database migrated to version ${LATEST_SCHEMA_VERSION}`);
+  });
+});
@@ -0,0 +1,90 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject, handleProjectOverview } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+async function seedFeature(storage: Storage, featureName: string, grade: string, score: number, tasks: Task[]): Promise<void> {
+  const parseResult = createParseResult(tasks, { spec: `As a user, I want ${featureName} so that I get value.`, grade, score });
+  await storage.saveFeature(featureName, tasks, parseResult, { skipSimilarityCheck: true });
+}
+
+describe('project overview', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-overview-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await seedFeature(storage, 'login', 'A', 92, [
+      createTask('login_01', { featureName: 'login', status: 'completed' }),
+      createTask('login_02', { featureName: 'login', status: 'completed' })
+    ]);
+    await storage.updateValidationResults('login', {
+      overallStatus: 'completed',
+      completionPercentage: 100,
+      qualityScore: 88
+    });
+    await seedFeature(storage, 'search', 'D', 45, [
+      createTask('search_01', { featureName: 'search', status: 'blocked' }),
+      createTask('search_02', { featureName: 'search', status: 'in_progress' })
+    ]);
+    storage.close();
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('sorts features by risk and reports validation scores', async () => {
+    const result = await handleProjectOverview({ project_root: projectRoot });
+
+    expect(result.totals).toEqual({
+      features: 2,
+      tasks: 4,
+      completed_tasks: 2,
+      in_progress_tasks: 1,
+      blocked_tasks: 1
+    });
+    expect(result.features.map(feature => [feature.name, feature.risk_level])).toEqual([
+      ['search', 'high'],
+      ['login', 'low']
+    ]);
+
+    const [search, login] = result.features;
+    expect(search.quality_score).toBeNull();
+    expect(search.risk_factors).toContain('1 blocked task(s)');
+    expect(search.risk_factors).toContain('Never validated');
+    expect(login).toMatchObject({ grade: 'A', quality_score: 88, completion_percentage: 100, risk_factors: [] });
+  });
+
+  it('writes _overview.md linking to each feature', async () => {
+    const result = await handleProjectOverview({ project_root: projectRoot });
+    const overview = await readFile(result.overview_file, 'utf-8');
+
+    expect(result.overview_file).toBe(path.join(projectRoot, 'speclinter-tasks', '_overview.md'));
+    expect(overview).toContain('**Tasks**: 2/4 completed, 1 in progress, 1 blocked');
+    expect(overview).toContain('[search](search/_active.md)');
+    expect(overview.indexOf('[search]')).toBeLessThan(overview.indexOf('[login]'));
+    expect(overview).toContain('| 88/100 | 100% |');
+  });
+
+  it('prints the dashboard from the CLI', () => {
+    const result = spawnSync(tsxPath, [cliPath, 'dashboard'], { cwd: projectRoot, encoding: 'utf-8' });
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('Project Dashboard');
+    expect(result.stdout).toContain('not validated');
+    expect(result.stdout).toContain('_overview.md');
+  });
+});
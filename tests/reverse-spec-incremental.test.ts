@@ -0,0 +1,151 @@
+import os from 'os';
+import path from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { handleReverseSpecUnified } from '../src/unified-ai-tools.js';
+import { selectFilesForScope } from '../src/ai/codebase/incremental.js';
+import { Storage } from '../src/core/storage.js';
+import type { CollectedFile } from '../src/ai/codebase/support.js';
+import type { AIReverseSpecAnalysis } from '../src/types/ai-schemas.js';
+
+function sourceFile(filePath: string, content: string): CollectedFile {
+  return { path: filePath, content, size: content.length, type: 'source' };
+}
+
+function createReverseSpecAnalysis(): AIReverseSpecAnalysis {
+  return {
+    discoveredFeatures: [],
+    analysisScope: 'incremental',
+    analysisDepth: 'standard',
+    confidenceThreshold: 0.7,
+    codebaseInsights: {
+      totalFilesAnalyzed: 3,
+      featureBoundaryStrategy: 'Grouped files by module.',
+      businessLogicPatterns: [],
+      architecturalObservations: []
+    },
+    qualityAssessment: {
+      overallImplementationQuality: 80,
+      specificationCoverage: 0,
+      testCoverage: 0,
+      documentationQuality: 0,
+      technicalDebtLevel: 'low'
+    },
+    recommendations: [],
+    nextSteps: [],
+    metadata: {
+      analysisTimestamp: new Date().toISOString(),
+      toolVersion: '0.1.0',
+      analysisId: 'incremental-test',
+      processingTime: 1,
+      limitations: []
+    }
+  };
+}
+
+describe('reverse spec file selection', () => {
+  const files = [
+    sourceFile('src/cart.ts', "import { price } from './pricing.js';\nexport const cart = price;\n"),
+    sourceFile('src/pricing.ts', 'export const price = 1;\n'),
+    sourceFile('src/checkout.ts', "import { cart } from './cart';\nexport const checkout = cart;\n"),
+    sourceFile('src/search.ts', 'export const search = 2;\n')
+  ];
+
+  it('falls back to the full codebase without a previous analysis', () => {
+    const selection = selectFilesForScope(files, 'incremental', { previousHashes: {}, gitChanges: null, limit: 2 });
+
+    expect(selection.effectiveScope).toBe('full_codebase');
+    expect(selection.files.map(file => file.path)).toEqual(['src/cart.ts', 'src/pricing.ts']);
+  });
+
+  it('selects new files and their import neighbours for new_code', () => {
+    const selection = selectFilesForScope(files, 'new_code', {
+      previousHashes: { 'src/pricing.ts': 'x', 'src/checkout.ts': 'x', 'src/search.ts': 'x' },
+      gitChanges: null,
+      limit: 50
+    });
+
+    expect(selection.changedFiles).toEqual(['src/cart.ts']);
+    expect(selection.neighbourFiles).toEqual(['src/pricing.ts', 'src/checkout.ts']);
+  });
+});
+
+async function getContinuationInputs(projectRoot: string, continuationId: string): Promise<Record<string, any> | undefined> {
+  const storage = new Storage(projectRoot);
+  await storage.initialize();
+  try {
+    return (await storage.getAIContinuation(continuationId))?.inputs;
+  } finally {
+    storage.close();
+  }
+}
+
+describe('incremental reverse spec analysis', () => {
+  let projectRoot: string;
+
+  async function analyze(args: Record<string, unknown>) {
+    return handleReverseSpecUnified({ project_root: projectRoot, ...args });
+  }
+
+  async function analyzeAndRecord(args: Record<string, unknown>) {
+    const prepared = await analyze(args);
+    expect(prepared.state).toBe('needs_ai_analysis');
+    const inputs = await getContinuationInputs(projectRoot, prepared.continuation_id);
+
+    const processed = await analyze({ ...prepared.continuation_args, analysis: createReverseSpecAnalysis() });
+    expect(processed.success).toBe(true);
+    return { prepared, inputs };
+  }
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-reverse-incremental-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    await mkdir(path.join(projectRoot, 'src'), { recursive: true });
+    await writeFile(path.join(projectRoot, 'src', 'pricing.ts'), 'export const price = 1;\n');
+    await writeFile(path.join(projectRoot, 'src', 'cart.ts'), "import { price } from './pricing.js';\nexport const cart = price;\n");
+    await writeFile(path.join(projectRoot, 'src', 'search.ts'), 'export const search = 2;\n');
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('only sends files changed since the last analysis, plus their importers', async () => {
+    await analyzeAndRecord({ analysis_scope: 'full_codebase' });
+    await writeFile(path.join(projectRoot, 'src', 'pricing.ts'), 'export const price = 2;\n');
+
+    const { prepared, inputs } = await analyzeAndRecord({ analysis_scope: 'incremental' });
+
+    expect(inputs?.context).toMatchObject({
+      analysis_scope: 'incremental',
+      changed_files: [path.join('src', 'pricing.ts')],
+      neighbour_files: [path.join('src', 'cart.ts')],
+      files_analyzed: 2
+    });
+    expect(prepared.analysis_prompt).toContain('export const price = 2;');
+    expect(prepared.analysis_prompt).not.toContain('export const search');
+
+    const unchanged = await analyze({ analysis_scope: 'incremental' });
+    expect(unchanged).toMatchObject({ success: true, action: 'no_changes' });
+  });
+
+  it('uses git history for the since_date scope', async () => {
+    const env = { ...process.env, GIT_AUTHOR_DATE: '2020-01-01T00:00:00Z', GIT_COMMITTER_DATE: '2020-01-01T00:00:00Z' };
+    const git = (...args: string[]) => spawnSync('git', args, { cwd: projectRoot, encoding: 'utf-8', env });
+    git('init', '-q');
+    git('add', '-A');
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'initial');
+    await writeFile(path.join(projectRoot, 'src', 'search.ts'), 'export const search = 3;\n');
+
+    const prepared = await analyze({ analysis_scope: 'since_date', since_date: '2024-01-01' });
+
+    expect((await getContinuationInputs(projectRoot, prepared.continuation_id))?.context).toMatchObject({
+      analysis_scope: 'since_date',
+      changed_files: [path.join('src', 'search.ts')]
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import Database from 'better-sqlite3';
+import os from 'os';
+import path from 'path';
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject, handleRunScenarios } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { parseGherkin } from '../src/core/gherkin.js';
+import { StepRegistry, runScenarios } from '../src/core/scenario-runner.js';
+import type { ParseResult, Task } from '../src/types/index.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+const CART_FEATURE = `Feature: Cart totals
+  Keeps the cart total in sync.
+
+  Background:
+    Given an empty cart
+
+  Scenario: Adding items
+    When I add 2 items costing 5.5
+    Then the total is 11
+
+  Scenario Outline: Removing items
+    Given the cart holds <count> items costing 1
+    When I remove 1 item
+    Then the total is <total>
+
+    Examples:
+      | count | total |
+      | 3     | 2     |
+      | 1     | 5     |
+
+  @wip
+  Scenario: Discounts
+    When I apply the code "SAVE10"
+    Then the total is 0
+
+  Scenario: Checkout
+    When I check out
+    Then a receipt is printed
+`;
+
+const CART_STEPS = `export default ({ Given, When, Then }) => {
+  Given('an empty cart', function () { this.total = 0; });
+  Given('the cart holds {int} items costing {float}', function (count, price) { this.total = count * price; });
+  When('I add {int} items costing {float}', function (count, price) { this.total += count * price; });
+  When('I remove {int} item', function (count) { this.total -= count; });
+  Then('the total is {float}', function (total) {
+    if (this.total !== total) throw new Error('expected ' + total + ' but got ' + this.total);
+  });
+};
+`;
+
+describe('gherkin parsing', () => {
+  it('parses background, outlines, tables and reports syntax errors with lines', () => {
+    const { feature, errors } = parseGherkin(CART_FEATURE);
+
+    expect(errors).toEqual([]);
+    expect(feature?.description).toBe('Keeps the cart total in sync.');
+    expect(feature?.background?.steps[0]).toMatchObject({ type: 'Given', text: 'an empty cart' });
+    expect(feature?.scenarios[1].examples[0]).toMatchObject({ header: ['count', 'total'], rows: [['3', '2'], ['1', '5']] });
+    expect(feature?.scenarios[2].tags).toEqual(['@wip']);
+
+    const broken = parseGherkin('Feature: Broken\n  Scenario: Steps\n    And nothing came first\n    | a | b |\n    | c |\n');
+    expect(broken.errors.map(error => error.line)).toEqual([3, 5]);
+  });
+});
+
+describe('scenario runner', () => {
+  it('passes data tables and doc strings after captured values and reports undefined steps', async () => {
+    const registry = new StepRegistry();
+    const received: unknown[][] = [];
+    registry.Given(/^users:$/, function (...args) { received.push(args); });
+    registry.When('I post {string}', function (...args) { received.push(args); });
+
+    const source = {
+      taskId: 'task_01',
+      testFile: 'task_01.feature',
+      content: 'Feature: Posts\n  Scenario: Posting\n    Given users:\n      | name |\n      | ada  |\n    When I post \'hello\'\n      """\n      body\n      """\n    Then the post is visible\n'
+    };
+
+    const { tasks, undefinedSteps } = await runScenarios([source], registry);
+
+    expect(tasks[0].scenarios[0]).toMatchObject({ status: 'undefined' });
+    expect(undefinedSteps).toEqual([{ keyword: 'Then', text: 'the post is visible', file: 'task_01.feature', line: 10 }]);
+
+    registry.Then('the post is visible', () => undefined);
+    const rerun = await runScenarios([source], registry);
+
+    expect(rerun.tasks[0].result).toMatchObject({ passed: 1, failed: 0, skipped: 0 });
+    expect(received.slice(-2)).toEqual([[[['name'], ['ada']]], ['hello', 'body']]);
+  });
+});
+
+describe('feature scenario runs', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-scenarios-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const task: Task = {
+      id: 'runner_cart_01',
+      title: 'Cart totals',
+      summary: 'Keep the cart total in sync',
+      implementation: 'Recalculate totals on change',
+      status: 'not_started',
+      statusEmoji: '⏳',
+      featureName: 'cart',
+      slug: 'cart-totals',
+      acceptanceCriteria: ['Totals update when items change'],
+      testFile: 'cart-totals.feature',
+      coverageTarget: '90%',
+      notes: ''
+    };
+    const parseResult: ParseResult = { spec: 'Cart totals', grade: 'B', score: 80, tasks: [task], improvements: [], missingElements: [] };
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('cart', [task], parseResult, { skipSimilarityCheck: true });
+    storage.close();
+
+    const featureDir = path.join(projectRoot, 'speclinter-tasks', 'cart');
+    await writeFile(path.join(featureDir, 'gherkin', 'cart-totals.feature'), CART_FEATURE);
+    await mkdir(path.join(featureDir, 'steps'), { recursive: true });
+    await writeFile(path.join(featureDir, 'steps', 'cart.steps.mjs'), CART_STEPS);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('runs scenarios with the feature step definitions and records results per task', async () => {
+    const result = await handleRunScenarios({ project_root: projectRoot, feature_name: 'cart' });
+
+    expect(result).toMatchObject({ success: true, passed: 2, failed: 1, skipped: 2 });
+    if (!result.success) throw new Error('Expected successful run');
+    expect(result.step_definition_files).toEqual([path.join('speclinter-tasks', 'cart', 'steps', 'cart.steps.mjs')]);
+    expect(result.tasks[0].scenarios.map(scenario => [scenario.scenario, scenario.status])).toEqual([
+      ['Adding items', 'passed'],
+      ['Removing items (Examples #1)', 'passed'],
+      ['Removing items (Examples #2)', 'failed'],
+      ['Discounts', 'skipped'],
+      ['Checkout', 'undefined']
+    ]);
+    expect(result.tasks[0].scenarios[2].error).toContain('expected 5 but got 0');
+    expect(result.undefined_steps.map(step => step.text)).toEqual(['I check out', 'a receipt is printed']);
+
+    const db = new Database(path.join(projectRoot, '.speclinter', 'speclinter.db'), { readonly: true });
+    const row = db.prepare('SELECT task_id, passed, failed, skipped, details FROM test_results WHERE feature_name = ?').get('cart') as {
+      task_id: string; passed: number; failed: number; skipped: number; details: string;
+    };
+    db.close();
+    expect(row).toMatchObject({ task_id: 'runner_cart_01', passed: 2, failed: 1, skipped: 2 });
+    expect(JSON.parse(row.details)[0]).toMatchObject({ scenario: 'Adding items', status: 'passed', taskId: 'runner_cart_01' });
+  });
+
+  it('reports step modules that fail to load and reloads edited ones', async () => {
+    const stepsDir = path.join(projectRoot, 'speclinter-tasks', 'cart', 'steps');
+    await writeFile(path.join(stepsDir, 'broken.steps.mjs'), 'export default ({ Given }) => { Given(; };\n');
+
+    const first = await handleRunScenarios({ project_root: projectRoot, feature_name: 'cart' });
+    expect(first).toMatchObject({ success: true, passed: 2, failed: 1 });
+    if (!first.success) throw new Error('Expected successful run');
+    expect(first.step_definition_errors).toEqual([
+      { file: path.join('speclinter-tasks', 'cart', 'steps', 'broken.steps.mjs'), error: expect.any(String) }
+    ]);
+
+    const checkoutSteps = CART_STEPS.replace(
+      'Then(\'the total is {float}\'',
+      "When('I check out', function () {});\n  Then('a receipt is printed', function () {});\n  Then('the total is {float}'"
+    );
+    const cartSteps = path.join(stepsDir, 'cart.steps.mjs');
+    await writeFile(cartSteps, checkoutSteps);
+    await utimes(cartSteps, new Date(), new Date(Date.now() + 1000));
+
+    const second = await handleRunScenarios({ project_root: projectRoot, feature_name: 'cart' });
+    expect(second).toMatchObject({ success: true, passed: 3, failed: 1 });
+    if (!second.success) throw new Error('Expected successful run');
+    expect(second.undefined_steps).toEqual([]);
+  });
+
+  it('runs scenarios from the CLI and exits non-zero on failures', () => {
+    const result = spawnSync(tsxPath, [cliPath, 'test', 'cart', '--tags', '@wip'], { cwd: projectRoot, encoding: 'utf-8' });
+
+    expect(result.stdout).toContain('Discounts');
+    expect(result.stdout).not.toContain('Adding items');
+    expect(result.status).toBe(0);
+
+    const failing = spawnSync(tsxPath, [cliPath, 'test', 'cart'], { cwd: projectRoot, encoding: 'utf-8' });
+    expect(failing.stdout).toContain('expected 5 but got 0');
+    expect(failing.stdout).toContain('When I check out');
+    expect(failing.status).toBe(1);
+  });
+});
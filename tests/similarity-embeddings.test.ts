@@ -0,0 +1,101 @@
+import Database from 'better-sqlite3';
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { handleFindSimilarUnified } from '../src/unified-ai-tools.js';
+import { Storage } from '../src/core/storage.js';
+import { cosineSimilarity, embedText } from '../src/core/embeddings.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const CHECKOUT_SPEC = 'Customers pay for their shopping cart with a saved credit card and receive an order confirmation email.';
+
+describe('local embeddings', () => {
+  it('are deterministic and rank near-duplicates above unrelated text', () => {
+    const rephrased = 'Customers pay for the shopping cart using a saved credit card and get an order confirmation email.';
+    const unrelated = 'Administrators export monthly audit logs as CSV files for compliance reviews.';
+
+    expect(Array.from(embedText(CHECKOUT_SPEC))).toEqual(Array.from(embedText(CHECKOUT_SPEC)));
+    expect(cosineSimilarity(embedText(CHECKOUT_SPEC), embedText(CHECKOUT_SPEC))).toBeCloseTo(1, 5);
+    expect(cosineSimilarity(embedText(CHECKOUT_SPEC), embedText(rephrased))).toBeGreaterThan(0.8);
+    expect(cosineSimilarity(embedText(CHECKOUT_SPEC), embedText(unrelated))).toBeLessThan(0.3);
+  });
+});
+
+describe('embedding similarity search', () => {
+  let projectRoot: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-embeddings-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [
+      createTask('emb_checkout_01', { featureName: 'checkout', title: 'Charge saved credit card', summary: 'Charge saved credit card', acceptanceCriteria: ['Card is charged for the cart total'] }),
+      createTask('emb_checkout_02', { featureName: 'checkout', title: 'Send order confirmation email', summary: 'Send order confirmation email', acceptanceCriteria: ['Email lists the ordered items'] })
+    ];
+    await storage.saveFeature('checkout', tasks, createParseResult(tasks, { spec: CHECKOUT_SPEC, score: 80 }), { skipSimilarityCheck: true });
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('skips a near-duplicate spec and reports overlapping tasks for a different one', async () => {
+    const duplicate = [
+      createTask('emb_dup_01', { featureName: 'payments', title: 'Charge saved credit card', summary: 'Charge saved credit card', acceptanceCriteria: ['Card is charged for the cart total'] })
+    ];
+    const skipped = await storage.saveFeature(
+      'payments',
+      duplicate,
+      createParseResult(duplicate, { spec: `${CHECKOUT_SPEC} `, score: 80 }),
+      { onSimilarFound: 'skip' }
+    );
+    expect(skipped.files).toEqual([]);
+    expect(skipped.duplicateInfo?.similarFeatures[0]).toMatchObject({ featureName: 'checkout' });
+
+    const overlapping = [
+      createTask('emb_sub_01', { featureName: 'subscriptions', title: 'Send order confirmation email', summary: 'Send order confirmation email', acceptanceCriteria: ['Email lists the ordered items'] })
+    ];
+    const saved = await storage.saveFeature(
+      'subscriptions',
+      overlapping,
+      createParseResult(overlapping, { spec: 'Members manage a recurring plan and pause deliveries while travelling.', score: 80 })
+    );
+    expect(saved.files.length).toBeGreaterThan(0);
+    expect(saved.similarTasks).toEqual([
+      expect.objectContaining({ featureName: 'checkout', taskId: 'emb_checkout_02', matchedTaskId: 'emb_sub_01' })
+    ]);
+  });
+
+  it('backfills missing embeddings and answers find_similar locally', async () => {
+    storage.close();
+    const db = new Database(path.join(projectRoot, '.speclinter', 'speclinter.db'));
+    db.prepare('UPDATE features SET embedding = NULL').run();
+    db.prepare('UPDATE tasks SET embedding = NULL').run();
+    db.close();
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+
+    const result = await handleFindSimilarUnified({
+      project_root: projectRoot,
+      spec: `${CHECKOUT_SPEC}\nSend an order confirmation email after payment.`,
+      threshold: 0.6,
+      task_threshold: 0.5
+    });
+
+    expect(result).toMatchObject({ success: true, method: 'local_embeddings', internal_step: 'unified_operation' });
+    expect(result.similar_features[0].feature_name).toBe('checkout');
+    expect(result.similar_tasks[0]).toMatchObject({ feature_name: 'checkout', task_id: 'emb_checkout_02' });
+
+    const check = new Database(path.join(projectRoot, '.speclinter', 'speclinter.db'));
+    const missing = check.prepare('SELECT COUNT(*) AS count FROM tasks WHERE embedding IS NULL').get() as { count: number };
+    check.close();
+    expect(missing.count).toBe(0);
+  });
+});
@@ -0,0 +1,131 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleDiffSpec, handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { diffText, extractRequirements } from '../src/core/spec-diff.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const SPEC_V1 = `# Password reset
+Users can reset a forgotten password.
+
+## Requirements
+- Send a reset email with a one-time link
+- Reset links expire after 1 hour
+- Users can sign in with SMS codes
+`;
+
+const SPEC_V2 = `# Password reset
+Users can reset a forgotten password.
+
+## Requirements
+- Send a reset email with a one-time link
+- Reset links expire after 24 hours
+- Lock the account after 5 failed attempts
+`;
+
+describe('spec diffing', () => {
+  it('splits specs into list items and prose sentences', () => {
+    expect(extractRequirements(`${SPEC_V1}\nThe link opens the app. Codes are six digits!\n\n\`\`\`\nnot a requirement\n\`\`\`\n`)).toEqual([
+      'Users can reset a forgotten password.',
+      'Send a reset email with a one-time link',
+      'Reset links expire after 1 hour',
+      'Users can sign in with SMS codes',
+      'The link opens the app.',
+      'Codes are six digits!'
+    ]);
+  });
+
+  it('writes unified hunks with context', () => {
+    expect(diffText(SPEC_V1, SPEC_V2, 'revision 1', 'revision 2')).toBe([
+      '--- revision 1',
+      '+++ revision 2',
+      '@@ -3,6 +3,6 @@',
+      ' ',
+      ' ## Requirements',
+      ' - Send a reset email with a one-time link',
+      '-- Reset links expire after 1 hour',
+      '-- Users can sign in with SMS codes',
+      '+- Reset links expire after 24 hours',
+      '+- Lock the account after 5 failed attempts',
+      ' '
+    ].join('\n'));
+    expect(diffText(SPEC_V1, SPEC_V1)).toBe('');
+  });
+});
+
+describe('spec revisions', () => {
+  let projectRoot: string;
+  const tasks = [
+    createTask('diff_reset_01', { title: 'Send reset email', featureName: 'reset', acceptanceCriteria: ['A reset email with a one-time link is sent'], status: 'in_progress' }),
+    createTask('diff_reset_02', { title: 'Expire reset links', featureName: 'reset', acceptanceCriteria: ['Reset links expire after 1 hour'] }),
+    createTask('diff_reset_03', { title: 'SMS sign-in', featureName: 'reset', acceptanceCriteria: ['Users can sign in with SMS codes'], status: 'completed' })
+  ];
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-diff-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    for (const [spec, grade, score] of [[SPEC_V1, 'B', 80], [SPEC_V1, 'B', 80], [SPEC_V2, 'A', 92]] as const) {
+      await storage.saveFeature('reset', tasks, createParseResult(tasks, { spec, grade, score }), { skipSimilarityCheck: true });
+    }
+    storage.close();
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('keeps every distinct spec version and proposes task changes without touching statuses', async () => {
+    const diff = await handleDiffSpec({ project_root: projectRoot, feature_name: 'reset' });
+    if (!diff.success) throw new Error(diff.message);
+
+    expect(diff.revisions.map(revision => [revision.revision, revision.grade, revision.score])).toEqual([[1, 'B', 80], [2, 'A', 92]]);
+    expect(diff.from).toMatchObject({ revision: 1, grade: 'B' });
+    expect(diff.to).toMatchObject({ revision: 2, grade: 'A' });
+    expect(diff.requirements).toMatchObject({
+      added: ['Lock the account after 5 failed attempts'],
+      removed: ['Users can sign in with SMS codes'],
+      changed: [{ from: 'Reset links expire after 1 hour', to: 'Reset links expire after 24 hours' }],
+      unchanged_count: 2
+    });
+    expect(diff.proposed_task_changes).toEqual({
+      obsolete: [{
+        task_id: 'diff_reset_03',
+        title: 'SMS sign-in',
+        status: 'completed',
+        removed_requirements: ['Users can sign in with SMS codes'],
+        recommendation: 'Review before removing: the task is completed'
+      }],
+      changed: [{
+        task_id: 'diff_reset_02',
+        title: 'Expire reset links',
+        status: 'not_started',
+        changes: [{ from: 'Reset links expire after 1 hour', to: 'Reset links expire after 24 hours' }]
+      }],
+      new: [{ requirement: 'Lock the account after 5 failed attempts', suggested_title: 'Lock the account after 5 failed attempts' }]
+    });
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    expect((await storage.getFeatureTasks('reset')).map(task => task.status)).toEqual(['in_progress', 'not_started', 'completed']);
+    storage.close();
+  });
+
+  it('compares a proposed spec against the latest revision and rejects unknown revisions', async () => {
+    const proposed = await handleDiffSpec({ project_root: projectRoot, feature_name: 'reset', spec: SPEC_V2.replace('24 hours', '24 hours\n- Email the user after a reset') });
+    expect(proposed).toMatchObject({
+      success: true,
+      from: { revision: 2 },
+      to: { revision: 'proposed' },
+      requirements: { added: ['Email the user after a reset'], removed: [], changed: [] }
+    });
+
+    const missing = await handleDiffSpec({ project_root: projectRoot, feature_name: 'reset', from_revision: 7 });
+    expect(missing).toMatchObject({ success: false, message: 'Failed to diff spec: Feature \'reset\' has no revision 7 (revisions 1-2)' });
+  });
+});
@@ -0,0 +1,224 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { handleMergeSpecUnified } from '../src/unified-ai-tools.js';
+import { handleProcessSpecMergeAI } from '../src/ai/spec/merge.js';
+import { Storage } from '../src/core/storage.js';
+import { mergeSpecs } from '../src/core/spec-merge.js';
+import { extractRequirements } from '../src/core/spec-diff.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const EXISTING_SPEC = `# Password reset
+
+## Requirements
+- Send a reset email with a one-time link
+- Reset links expire after 1 hour
+`;
+
+const INCOMING_SPEC = `# Password reset v2
+Send a reset email containing a one-time link. Reset links expire after 24 hours.
+
+- Lock the account after 5 failed attempts
+`;
+
+describe('spec merging', () => {
+  it('drops duplicate requirements and records the source of each one', () => {
+    const merge = mergeSpecs(EXISTING_SPEC, INCOMING_SPEC, { existingSource: 'revision 1', incomingSource: 'revision 2' });
+
+    expect(merge.spec).toBe([
+      '# Password reset',
+      '',
+      '## Requirements',
+      '- Send a reset email with a one-time link <!-- source: revision 1, revision 2 -->',
+      '- Reset links expire after 1 hour <!-- source: revision 1 -->',
+      '- Reset links expire after 24 hours. <!-- source: revision 2 -->',
+      '- Lock the account after 5 failed attempts <!-- source: revision 2 -->',
+      ''
+    ].join('\n'));
+    expect(merge.duplicates).toEqual([
+      { kept: 'Send a reset email with a one-time link', dropped: 'Send a reset email containing a one-time link.', similarity: expect.any(Number) }
+    ]);
+    expect(merge.possibleConflicts).toEqual([
+      { existing: 'Reset links expire after 1 hour', incoming: 'Reset links expire after 24 hours.', similarity: expect.any(Number) }
+    ]);
+    expect(extractRequirements(merge.spec)).toEqual(merge.requirements.map(requirement => requirement.text));
+
+    // Merging again keeps the recorded sources
+    const again = mergeSpecs(merge.spec, '- Lock the account after 5 failed attempts', { existingSource: 'revision 2', incomingSource: 'revision 3' });
+    expect(again.added).toEqual([]);
+    expect(again.requirements.map(requirement => requirement.sources)).toEqual([
+      ['revision 1', 'revision 2'],
+      ['revision 1'],
+      ['revision 2'],
+      ['revision 2', 'revision 3']
+    ]);
+  });
+
+  it('keeps the structure of the existing spec and adds requirements to its requirements list', () => {
+    const existing = [
+      '# Checkout',
+      '',
+      'As a shopper, I want to pay with a saved card so that checkout is quick.',
+      '',
+      '## Acceptance criteria',
+      '1. Saved cards are listed by their last four digits',
+      '2. [ ] The default card is preselected',
+      '',
+      '## API',
+      '```json',
+      '{ "card_id": "card_123" }',
+      '```',
+      '',
+      '## Out of scope',
+      '- Gift cards',
+      ''
+    ].join('\n');
+
+    const merge = mergeSpecs(existing, '- Ask for the CVC of a saved card', { existingSource: 'revision 1', incomingSource: 'revision 2' });
+
+    expect(merge.spec).toBe([
+      '# Checkout',
+      '',
+      'As a shopper, I want to pay with a saved card so that checkout is quick.',
+      '',
+      '## Acceptance criteria',
+      '1. Saved cards are listed by their last four digits <!-- source: revision 1 -->',
+      '2. [ ] The default card is preselected <!-- source: revision 1 -->',
+      '3. Ask for the CVC of a saved card <!-- source: revision 2 -->',
+      '',
+      '## API',
+      '```json',
+      '{ "card_id": "card_123" }',
+      '```',
+      '',
+      '## Out of scope',
+      '- Gift cards <!-- source: revision 1 -->',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('merging into a saved feature', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-merge-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('gives merged tasks IDs no other task of the feature uses', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const existingTasks = [
+      createTask('task_01', { title: 'Send reset email', summary: 'Send reset email', featureName: 'reset' }),
+      createTask('task_03', { title: 'Expire reset links', summary: 'Expire reset links', featureName: 'reset' })
+    ];
+    await storage.saveFeature('reset', existingTasks, createParseResult(existingTasks, { spec: EXISTING_SPEC, score: 80 }), { skipSimilarityCheck: true });
+    const otherTasks = [createTask('task_04', { title: 'Export invoices', summary: 'Export invoices', featureName: 'billing' })];
+    await storage.saveFeature('billing', otherTasks, createParseResult(otherTasks, { spec: '# Billing\n- Export invoices as PDF', score: 80 }), { skipSimilarityCheck: true });
+
+    const newTasks = [
+      createTask('task_01', { title: 'Lock the account', summary: 'Lock the account', featureName: 'reset' }),
+      createTask('task_02', { title: 'Send reset email', summary: 'Send reset email', featureName: 'reset' })
+    ];
+    const result = await storage.saveFeature('reset', newTasks, createParseResult(newTasks, { spec: INCOMING_SPEC, score: 80 }), { onSimilarFound: 'merge' });
+
+    expect(result.mergeResult?.mergedTasks.map(task => [task.id, task.title])).toEqual([
+      ['task_01', 'Send reset email'],
+      ['task_03', 'Expire reset links'],
+      ['task_04', 'Lock the account']
+    ]);
+    expect(result.mergeResult?.specMerge).toMatchObject({
+      addedRequirements: ['Reset links expire after 24 hours.', 'Lock the account after 5 failed attempts'],
+      duplicateRequirements: [{ kept: 'Send a reset email with a one-time link' }]
+    });
+    expect((await storage.getFeatureTasks('billing')).map(task => task.title)).toEqual(['Export invoices']);
+
+    const revisions = await storage.getFeatureRevisions('reset');
+    expect(revisions).toHaveLength(2);
+    expect(revisions[1].spec).toContain('- Lock the account after 5 failed attempts <!-- source: revision 2 -->');
+    storage.close();
+  });
+
+  it('points dependencies on skipped duplicate tasks at the existing task they matched', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const existingTasks = [
+      createTask('task_01', { title: 'Expire reset links', summary: 'Expire reset links', featureName: 'reset' }),
+      createTask('task_02', { title: 'Send reset email', summary: 'Send reset email', featureName: 'reset' })
+    ];
+    await storage.saveFeature('reset', existingTasks, createParseResult(existingTasks, { spec: EXISTING_SPEC, score: 80 }), { skipSimilarityCheck: true });
+
+    const newTasks = [
+      createTask('task_01', { title: 'Send reset email', summary: 'Send reset email', featureName: 'reset' }),
+      createTask('task_02', { title: 'Lock the account', summary: 'Lock the account', featureName: 'reset', dependencies: ['task_01'] })
+    ];
+    const result = await storage.saveFeature('reset', newTasks, createParseResult(newTasks, { spec: INCOMING_SPEC, score: 80 }), { onSimilarFound: 'merge' });
+    const saved = await storage.getFeatureTasks('reset');
+    storage.close();
+
+    expect(result.mergeResult?.duplicateTasksSkipped).toBe(1);
+    expect(saved.map(task => [task.id, task.title, task.dependencies])).toEqual([
+      ['task_01', 'Expire reset links', []],
+      ['task_02', 'Send reset email', []],
+      ['task_03', 'Lock the account', ['task_02']]
+    ]);
+  });
+
+  it('saves an AI merge as a new revision through the continuation flow', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const tasks = [createTask('task_01', { title: 'Send reset email', summary: 'Send reset email', featureName: 'reset' })];
+    await storage.saveFeature('reset', tasks, createParseResult(tasks, { spec: EXISTING_SPEC, score: 80 }), { skipSimilarityCheck: true });
+    storage.close();
+
+    const prepared = await handleMergeSpecUnified({ project_root: projectRoot, feature_name: 'reset', spec: INCOMING_SPEC, mode: 'ai' });
+    expect(prepared).toMatchObject({ success: true, state: 'needs_ai_analysis', continuation_tool: 'speclinter_merge_spec' });
+    expect(prepared.analysis_prompt).toContain('Possible conflict');
+
+    const processed = await handleMergeSpecUnified({
+      ...prepared.continuation_args,
+      analysis: {
+        requirements: [
+          { text: 'Send a reset email with a one-time link', source: 'both' },
+          { text: 'Reset links expire after 24 hours', source: 'incoming' },
+          { text: 'Lock the account after 5 failed attempts', source: 'incoming' }
+        ],
+        duplicates: [{ kept: 'Send a reset email with a one-time link', dropped: 'Send a reset email containing a one-time link.', reason: 'Same email' }],
+        conflicts: [{ existing: 'Reset links expire after 1 hour', incoming: 'Reset links expire after 24 hours.', resolution: 'The newer 24 hour limit applies' }],
+        summary: 'Adds account locking and a longer link lifetime'
+      }
+    });
+
+    expect(processed).toMatchObject({ success: true, method: 'ai', base_revision: 1, revision: 2 });
+    expect(processed.spec).toContain('- Send a reset email with a one-time link <!-- source: revision 1, revision 2 -->');
+    expect(processed.spec).toContain('- Reset links expire after 24 hours <!-- source: revision 2 -->');
+    expect(processed.spec).not.toContain('1 hour');
+
+    const reopened = new Storage(projectRoot);
+    await reopened.initialize();
+    await reopened.updateFeatureSpec('reset', `${processed.spec}- Rate-limit reset emails\n`);
+    reopened.close();
+    const rejected = await handleProcessSpecMergeAI({
+      project_root: projectRoot,
+      feature_name: 'reset',
+      spec: INCOMING_SPEC,
+      base_revision: 2,
+      analysis: { requirements: [{ text: 'Lock the account after 5 failed attempts', source: 'incoming' }], duplicates: [], conflicts: [], summary: 'Stale' }
+    });
+    expect(rejected).toMatchObject({
+      success: false,
+      error: "Feature 'reset' changed since the merge was prepared: the analysis merged revision 2, the latest is revision 3"
+    });
+
+    const missing = await handleMergeSpecUnified({ project_root: projectRoot, feature_name: 'checkout', spec: INCOMING_SPEC });
+    expect(missing).toMatchObject({ success: false, error: 'Failed to merge spec: Feature \'checkout\' not found' });
+  });
+});
@@ -0,0 +1,260 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleGetReadyTasks, handleInitProject } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { TaskGraph } from '../src/core/task-graph.js';
+import { handleValidateImplementationProcess } from '../src/ai/validation/workflow.js';
+import { handleProcessSpecAnalysisAI } from '../src/ai/spec/parse-spec.js';
+import type { AIFeatureValidation } from '../src/types/ai-schemas.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+function analysisTask(title: string, dependencies: string[]) {
+  return {
+    title,
+    summary: title,
+    implementation: `Implement ${title.toLowerCase()}.`,
+    acceptanceCriteria: [title],
+    estimatedEffort: 'S',
+    dependencies,
+    testingNotes: '',
+    relevantPatterns: [],
+    riskFactors: [],
+    securityConsiderations: [],
+    performanceConsiderations: [],
+    userExperience: '',
+    technicalDebt: []
+  };
+}
+
+describe('task dependency graph', () => {
+  let projectRoot: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-task-graph-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('orders tasks from both dependencies and blocks', () => {
+    const graph = new TaskGraph([
+      createTask('task_01', { dependencies: ['task_02'] }),
+      createTask('task_02'),
+      createTask('task_03', { blocks: ['task_01'] })
+    ]);
+
+    expect(() => graph.validate()).not.toThrow();
+    expect(graph.topologicalOrder().map(task => task.id)).toEqual(['task_02', 'task_03', 'task_01']);
+    expect(graph.getPrerequisites('task_01').sort()).toEqual(['task_02', 'task_03']);
+  });
+
+  it('rejects dependency cycles when saving a feature', async () => {
+    const tasks = [
+      createTask('task_01', { dependencies: ['task_02'] }),
+      createTask('task_02', { dependencies: ['task_01'] })
+    ];
+
+    await expect(
+      storage.saveFeature('checkout', tasks, createParseResult(tasks), { skipSimilarityCheck: true })
+    ).rejects.toThrow(/cycle detected: task_0\d -> task_0\d -> task_0\d/);
+    expect(await storage.getFeatureNames()).toEqual([]);
+  });
+
+  it('rejects dangling task references when saving a feature', async () => {
+    const tasks = [createTask('task_01', { dependencies: ['task_99'] })];
+
+    await expect(
+      storage.saveFeature('checkout', tasks, createParseResult(tasks), { skipSimilarityCheck: true })
+    ).rejects.toThrow(/unknown task IDs: task_01\.dependencies -> task_99/);
+  });
+
+  it('returns only tasks whose prerequisites are completed', async () => {
+    const tasks = [
+      createTask('task_01', { status: 'completed' }),
+      createTask('task_02', { dependencies: ['task_01'] }),
+      createTask('task_03', { dependencies: ['task_02'] })
+    ];
+    await storage.saveFeature('checkout', tasks, createParseResult(tasks), { skipSimilarityCheck: true });
+
+    const result = await handleGetReadyTasks({ project_root: projectRoot, feature_name: 'checkout' });
+
+    expect(result.next_task?.id).toBe('task_02');
+    expect(result.ready_tasks.map(task => task.task_id)).toEqual(['task_02']);
+    expect(result.waiting_tasks).toEqual([
+      { task_id: 'task_03', title: 'Task task_03', status: 'not_started', waiting_on: ['task_02'] }
+    ]);
+  });
+
+  it('links tasks generated from an AI analysis by the titles they depend on', async () => {
+    const result = await handleProcessSpecAnalysisAI({
+      project_root: projectRoot,
+      feature_name: 'reset',
+      original_spec: 'As a user, I want to reset a forgotten password by email.',
+      analysis: {
+        quality: { score: 85, grade: 'B', issues: [], strengths: [], improvements: [] },
+        tasks: [
+          analysisTask('Create reset token model', []),
+          analysisTask('Send reset email', ['Create reset token model - the email links to a token']),
+          analysisTask('Expire reset links', ['send reset email', 'Redis cluster'])
+        ],
+        technicalConsiderations: [],
+        userStories: [],
+        businessValue: 'Fewer support tickets',
+        scope: { inScope: [], outOfScope: [], assumptions: [] }
+      }
+    });
+    expect(result.success).toBe(true);
+
+    expect((await storage.getFeatureTasks('reset')).map(task => [task.id, task.dependencies])).toEqual([
+      ['task_01', []],
+      ['task_02', ['task_01']],
+      ['task_03', ['task_02']]
+    ]);
+    const ready = await handleGetReadyTasks({ project_root: projectRoot, feature_name: 'reset' });
+    expect(ready.ready_tasks.map(task => task.task_id)).toEqual(['task_01']);
+  });
+
+  it('drops AI dependencies that would close a cycle and reports them', async () => {
+    const result = await handleProcessSpecAnalysisAI({
+      project_root: projectRoot,
+      feature_name: 'lockout',
+      original_spec: 'As a user, I want my account locked after repeated failed sign-ins.',
+      analysis: {
+        quality: { score: 85, grade: 'B', issues: [], strengths: [], improvements: [] },
+        tasks: [
+          analysisTask('Count failed sign-ins', ['Unlock by email']),
+          analysisTask('Lock the account', ['Count failed sign-ins']),
+          analysisTask('Unlock by email', ['Lock the account'])
+        ],
+        technicalConsiderations: [],
+        userStories: [],
+        businessValue: 'Fewer hijacked accounts',
+        scope: { inScope: [], outOfScope: [], assumptions: [] }
+      }
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      warnings: ['Dropped the dependency of task_03 "Unlock by email" on task_02 "Lock the account": it would close a dependency cycle']
+    });
+    expect((await storage.getFeatureTasks('lockout')).map(task => [task.id, task.dependencies])).toEqual([
+      ['task_01', ['task_03']],
+      ['task_02', ['task_01']],
+      ['task_03', []]
+    ]);
+  });
+});
+
+describe('blocked status propagation', () => {
+  let projectRoot: string;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-task-blocking-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+
+    const tasks = [
+      createTask('task_01', { status: 'completed' }),
+      createTask('task_02', { status: 'in_progress', dependencies: ['task_01'], notes: 'Half done' }),
+      createTask('task_03', { status: 'completed', dependencies: ['task_01'] }),
+      createTask('task_04', { dependencies: ['task_03'] })
+    ];
+    await storage.saveFeature('checkout', tasks, createParseResult(tasks), { skipSimilarityCheck: true });
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('blocks dependents when AI validation reopens a prerequisite and reports the cascade', async () => {
+    const result = await handleValidateImplementationProcess({
+      project_root: projectRoot,
+      feature_name: 'checkout',
+      analysis: createValidation('task_01')
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.status_changes?.map(change => [change.task_id, change.status])).toEqual([
+      ['task_01', 'in_progress'],
+      ['task_02', 'blocked'],
+      ['task_03', 'blocked'],
+      ['task_04', 'blocked']
+    ]);
+
+    const blocked = await storage.getTask('checkout', 'task_02');
+    expect(blocked?.blockedBy).toEqual(['task_01']);
+    expect(blocked?.notes).toContain('Half done');
+    expect(blocked?.notes).toContain('prerequisite task_01 is no longer completed');
+
+    const activeFile = await readFile(path.join(projectRoot, 'speclinter-tasks', 'checkout', '_active.md'), 'utf-8');
+    expect(activeFile).toContain('Unblock 3 blocked task(s)');
+  });
+
+  it('restores previous statuses once the prerequisite is completed again', async () => {
+    await storage.updateTaskStatus('checkout', 'task_01', 'in_progress');
+    await storage.updateTaskStatus('checkout', 'task_01', 'completed');
+
+    const tasks = await storage.getFeatureTasks('checkout');
+    expect(tasks.map(task => task.status)).toEqual(['completed', 'in_progress', 'completed', 'not_started']);
+    expect(tasks[1].notes).toBe('Half done');
+    expect(tasks.every(task => task.blockedBy === undefined)).toBe(true);
+  });
+
+  it('keeps a directly updated task waiting on its prerequisite without overriding its status later', async () => {
+    await storage.updateTaskStatus('checkout', 'task_01', 'in_progress');
+    const overridden = await storage.updateTaskStatus('checkout', 'task_02', 'in_progress', 'Working around the block');
+    expect(overridden).toMatchObject({ status: 'in_progress', blockedBy: ['task_01'] });
+
+    await storage.updateTaskStatus('checkout', 'task_01', 'completed');
+
+    const tasks = await storage.getFeatureTasks('checkout');
+    expect(tasks.map(task => task.status)).toEqual(['completed', 'in_progress', 'completed', 'not_started']);
+    expect(tasks[1]).toMatchObject({ notes: 'Working around the block', blockedBy: undefined });
+    expect((await storage.getTaskHistory('checkout', 'task_02')).map(entry => entry.newStatus)).toEqual([
+      'in_progress', 'blocked', 'in_progress'
+    ]);
+  });
+});
+
+function createValidation(regressedTaskId: string): AIFeatureValidation {
+  return {
+    featureName: 'checkout',
+    overallStatus: 'in_progress',
+    completionPercentage: 40,
+    qualityScore: 60,
+    taskValidations: [
+      {
+        taskId: regressedTaskId,
+        title: `Task ${regressedTaskId}`,
+        implementationStatus: 'not_implemented',
+        qualityScore: 0,
+        implementationFiles: [],
+        acceptanceCriteriaValidation: [],
+        patternCompliance: [],
+        codeQualityIssues: [],
+        missingComponents: ['Checkout service'],
+        recommendations: []
+      }
+    ],
+    architecturalAlignment: { score: 70, strengths: [], concerns: [], recommendations: [] },
+    testCoverage: { hasTests: false, testTypes: [], testQuality: 'poor', missingTests: [] },
+    securityConsiderations: [],
+    performanceConsiderations: [],
+    nextSteps: [],
+    aiInsights: { strengths: [], weaknesses: [], surprises: [], confidence: 0.8 }
+  };
+}
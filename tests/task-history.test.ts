@@ -0,0 +1,104 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleGetTaskHistory, handleInitProject, handleUpdateTaskStatus } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import type { Task } from '../src/types/index.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+describe('task status history', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-task-history-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const tasks = [
+      createTask('task_01', { featureName: 'profile' }),
+      createTask('task_02', { featureName: 'profile', dependencies: ['task_01'] })
+    ];
+    const parseResult = createParseResult(tasks, {
+      spec: 'As a user, I want to edit my profile so that my details stay current.',
+      score: 82
+    });
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('profile', tasks, parseResult, { skipSimilarityCheck: true });
+    storage.close();
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('keeps every transition and note instead of overwriting them', async () => {
+    await handleUpdateTaskStatus({ project_root: projectRoot, feature_name: 'profile', task_id: 'task_01', status: 'in_progress', notes: 'Started form' });
+    await handleUpdateTaskStatus({ project_root: projectRoot, feature_name: 'profile', task_id: 'task_01', status: 'completed', notes: 'Form shipped' });
+
+    const result = await handleGetTaskHistory({ project_root: projectRoot, feature_name: 'profile', task_id: 'task_01' });
+
+    expect(result.timeline.map(entry => [entry.old_status, entry.new_status, entry.source, entry.notes])).toEqual([
+      [null, 'not_started', 'manual', 'Task created'],
+      ['not_started', 'in_progress', 'manual', 'Started form'],
+      ['in_progress', 'completed', 'manual', 'Form shipped']
+    ]);
+    expect(result.timeline[0].title).toBe('Task task_01');
+  });
+
+  it('records propagated blocks with the source of the triggering change', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.updateTaskStatus('profile', 'task_01', 'completed');
+    await storage.updateTaskStatus('profile', 'task_01', 'in_progress', 'Regression found', 'ai_validation');
+
+    const history = await storage.getTaskHistory('profile', 'task_02');
+    storage.close();
+
+    expect(history.at(-1)).toMatchObject({
+      oldStatus: 'not_started',
+      newStatus: 'blocked',
+      source: 'ai_validation'
+    });
+  });
+
+  it('records whether a save came from a parse, a merge or an import', async () => {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const parsed = [createTask('task_01', { featureName: 'billing', title: 'Create invoices', summary: 'Create monthly invoices' })];
+    await storage.saveFeature('billing', parsed, createParseResult(parsed, { spec: 'As a customer, I want monthly invoices.' }), {
+      skipSimilarityCheck: true,
+      source: 'parse'
+    });
+    const merged = [createTask('task_01', { featureName: 'billing', title: 'Refund payments', summary: 'Refund a payment to the original card' })];
+    await storage.saveFeature('billing', merged, createParseResult(merged, { spec: 'As a customer, I want refunds.' }), {
+      onSimilarFound: 'merge'
+    });
+
+    const history = await storage.getTaskHistory('billing');
+    storage.close();
+
+    expect(history.map(entry => [entry.oldStatus, entry.newStatus, entry.source])).toEqual([
+      [null, 'not_started', 'parse'],
+      [null, 'not_started', 'merge']
+    ]);
+  });
+
+  it('prints the timeline from the CLI', () => {
+    const result = spawnSync(tsxPath, [cliPath, 'history', 'profile'], {
+      cwd: projectRoot,
+      encoding: 'utf-8'
+    });
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('Task history for profile');
+    expect(result.stdout).toContain('task_02');
+    expect(result.stdout).toContain('Task created');
+  });
+});
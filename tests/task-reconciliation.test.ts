@@ -0,0 +1,168 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject } from '../src/tools.js';
+import { handleProcessSpecAnalysisAI } from '../src/ai/spec/parse-spec.js';
+import { Storage } from '../src/core/storage.js';
+import { matchTasks } from '../src/core/task-reconciliation.js';
+import { createTask } from './helpers/fixtures.js';
+
+const SPEC = 'As a user, I want to reset a forgotten password by email.';
+
+function analysisTask(title: string, summary: string) {
+  return {
+    title,
+    summary,
+    implementation: `Implement ${title.toLowerCase()}.`,
+    acceptanceCriteria: [summary],
+    estimatedEffort: 'S',
+    dependencies: [],
+    testingNotes: 'Cover the failure path.',
+    relevantPatterns: [],
+    riskFactors: [],
+    securityConsiderations: [],
+    performanceConsiderations: [],
+    userExperience: '',
+    technicalDebt: []
+  };
+}
+
+function analysis(tasks: Array<ReturnType<typeof analysisTask>>) {
+  return {
+    quality: { score: 85, grade: 'B', issues: [], strengths: [], improvements: [] },
+    tasks,
+    technicalConsiderations: [],
+    userStories: [],
+    businessValue: 'Fewer support tickets',
+    scope: { inScope: [], outOfScope: [], assumptions: [] }
+  };
+}
+
+describe('task matching', () => {
+  it('pairs equal titles and similar summaries, most similar first', () => {
+    const previous = [
+      createTask('task_01', { title: 'Send reset email', summary: 'Email a one-time reset link' }),
+      createTask('task_02', { title: 'Expire reset links', summary: 'Links expire after an hour' }),
+      createTask('task_03', { title: 'SMS sign-in', summary: 'Users can sign in with SMS codes' })
+    ];
+    const next = [
+      createTask('task_01', { title: 'Expire reset links', summary: 'Reset links stop working after 24 hours' }),
+      createTask('task_02', { title: 'Lock the account', summary: 'Lock the account after 5 failed attempts' }),
+      createTask('task_03', { title: 'Send the reset email', summary: 'Send an email with a one-time reset link' })
+    ];
+
+    const matching = matchTasks(previous, next, 0.9);
+
+    expect(matching.matches.map(match => [match.next.title, match.previous.id, match.similarity])).toEqual([
+      ['Expire reset links', 'task_02', 1],
+      ['Send the reset email', 'task_01', expect.any(Number)]
+    ]);
+    expect(matching.matches[1].similarity).toBeGreaterThanOrEqual(0.9);
+    expect(matching.unmatched.map(task => task.title)).toEqual(['Lock the account']);
+    expect(matching.orphaned.map(task => task.id)).toEqual(['task_03']);
+  });
+});
+
+describe('re-parsing a feature', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-reconcile-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('keeps the tasks of other features that use the same task IDs', async () => {
+    for (const [featureName, title] of [['alpha', 'Send reset email'], ['beta', 'Render invoice PDF']]) {
+      const result = await handleProcessSpecAnalysisAI({
+        project_root: projectRoot,
+        feature_name: featureName,
+        original_spec: `As a user, I want ${title.toLowerCase()}.`,
+        skip_similarity_check: true,
+        analysis: analysis([analysisTask(title, `${title} for the user`)])
+      });
+      expect(result.success).toBe(true);
+    }
+
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    const alpha = await storage.getFeatureTasks('alpha');
+    const beta = await storage.getFeatureTasks('beta');
+    storage.close();
+
+    expect(alpha.map(task => [task.id, task.title])).toEqual([['task_01', 'Send reset email']]);
+    expect(beta.map(task => [task.id, task.title])).toEqual([['task_01', 'Render invoice PDF']]);
+  });
+
+  it('keeps status, notes and history of matched tasks and reports orphaned ones', async () => {
+    const first = await handleProcessSpecAnalysisAI({
+      project_root: projectRoot,
+      feature_name: 'reset',
+      original_spec: SPEC,
+      analysis: analysis([
+        analysisTask('Send reset email', 'Email a one-time reset link'),
+        analysisTask('Expire reset links', 'Links expire after an hour'),
+        analysisTask('SMS sign-in', 'Users can sign in with SMS codes')
+      ])
+    });
+    expect(first.success).toBe(true);
+
+    let storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.updateTaskStatus('reset', 'task_01', 'in_progress', 'Template drafted');
+    await storage.updateTaskStatus('reset', 'task_03', 'completed', 'Shipped');
+    storage.close();
+
+    const second = await handleProcessSpecAnalysisAI({
+      project_root: projectRoot,
+      feature_name: 'reset',
+      original_spec: `${SPEC} Accounts lock after repeated failures.`,
+      deduplication_strategy: 'replace',
+      analysis: analysis([
+        analysisTask('Expire reset links', 'Reset links stop working after 24 hours'),
+        analysisTask('Lock the account', 'Lock the account after 5 failed attempts'),
+        analysisTask('Send the reset email', 'Send an email with a one-time reset link')
+      ])
+    });
+    if (!second.success) throw new Error(second.error);
+
+    expect(second.tasks.map(task => [task.id, task.title, task.status, task.notes])).toEqual([
+      ['task_02', 'Expire reset links', 'not_started', 'Cover the failure path.'],
+      ['task_04', 'Lock the account', 'not_started', 'Cover the failure path.'],
+      ['task_01', 'Send the reset email', 'in_progress', 'Template drafted']
+    ]);
+    expect(second.task_reconciliation).toMatchObject({
+      matched: [
+        { task_id: 'task_02', generated_id: 'task_01', previous_title: 'Expire reset links', similarity: 1 },
+        { task_id: 'task_01', generated_id: 'task_03', previous_title: 'Send reset email', status: 'in_progress' }
+      ],
+      added: [{ task_id: 'task_04', generated_id: 'task_02', title: 'Lock the account' }],
+      orphaned: [{ task_id: 'task_03', title: 'SMS sign-in', status: 'completed' }]
+    });
+    expect(second.next_steps[0]).toBe('Review 1 orphaned task(s) no longer in the spec: task_03');
+
+    storage = new Storage(projectRoot);
+    await storage.initialize();
+    expect((await storage.getFeatureTasks('reset')).map(task => [task.id, task.status])).toEqual([
+      ['task_02', 'not_started'],
+      ['task_04', 'not_started'],
+      ['task_01', 'in_progress'],
+      ['task_03', 'completed']
+    ]);
+    expect((await storage.getTaskHistory('reset', 'task_01')).map(entry => entry.newStatus)).toEqual(['not_started', 'in_progress']);
+    storage.close();
+
+    const taskFiles = (await readdir(path.join(projectRoot, 'speclinter-tasks', 'reset'))).filter(file => file.startsWith('task_')).sort();
+    expect(taskFiles).toEqual([
+      'task_01_expire-reset-links.md',
+      'task_02_lock-the-account.md',
+      'task_03_send-the-reset-email.md',
+      'task_04_sms-sign-in.md'
+    ]);
+  });
+});
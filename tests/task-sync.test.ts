@@ -0,0 +1,133 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleInitProject, handleSyncTasks } from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
+import { parseTaskMarkdown } from '../src/core/task-markdown.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const cliPath = path.resolve(process.cwd(), 'src/cli.ts');
+const tsxPath = path.resolve(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+describe('task file sync', () => {
+  let projectRoot: string;
+  let featureDir: string;
+
+  async function editTaskFile(fileName: string, edit: (content: string) => string): Promise<void> {
+    const filePath = path.join(featureDir, fileName);
+    await writeFile(filePath, edit(await readFile(filePath, 'utf-8')));
+  }
+
+  async function withStorage<T>(use: (storage: Storage) => Promise<T>): Promise<T> {
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    try {
+      return await use(storage);
+    } finally {
+      storage.close();
+    }
+  }
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-task-sync-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+    featureDir = path.join(projectRoot, 'speclinter-tasks', 'search');
+
+    const tasks = [
+      createTask('task_01', { featureName: 'search', acceptanceCriteria: ['task_01 returns results', 'task_01 handles "empty" queries'] }),
+      createTask('task_02', { featureName: 'search', acceptanceCriteria: ['task_02 returns results', 'task_02 handles "empty" queries'], dependencies: ['task_01'] })
+    ];
+    const parseResult = createParseResult(tasks, {
+      spec: 'As a user, I want to search products so that I can find them quickly.',
+      score: 84
+    });
+    await withStorage(storage => storage.saveFeature('search', tasks, parseResult, { skipSimilarityCheck: true }));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('round-trips rendered task files', async () => {
+    const content = await readFile(path.join(featureDir, 'task_01_task-01.md'), 'utf-8');
+
+    expect(parseTaskMarkdown(content)).toEqual({
+      id: 'task_01',
+      state: { status: 'not_started', notes: '', checkedCriteria: [] },
+      criteria: ['task_01 returns results', 'task_01 handles "empty" queries']
+    });
+  });
+
+  it('applies status, checkbox and note edits from the markdown file', async () => {
+    await editTaskFile('task_01_task-01.md', content => content
+      .replace('**Status**: ⏳ not_started', '**Status**: completed')
+      .replace('- [ ] task_01 handles "empty" queries', '- [x] task_01 handles "empty" queries')
+      .replace('## Implementation Notes\n', '## Implementation Notes\nUses the search index\n'));
+
+    const result = await handleSyncTasks({ project_root: projectRoot, feature_name: 'search' });
+
+    expect(result.success).toBe(true);
+    expect(result.features?.[0].updated_from_files).toEqual([
+      { task_id: 'task_01', fields: ['status', 'notes', 'checkedCriteria'] }
+    ]);
+
+    const task = await withStorage(storage => storage.getTask('search', 'task_01'));
+    expect(task).toMatchObject({ status: 'completed', notes: 'Uses the search index' });
+    expect(task?.criteria?.map(criterion => [criterion.text, criterion.status])).toEqual([
+      ['task_01 returns results', 'unclear'],
+      ['task_01 handles "empty" queries', 'met']
+    ]);
+
+    const history = await withStorage(storage => storage.getTaskHistory('search', 'task_01'));
+    expect(history.at(-1)).toMatchObject({ newStatus: 'completed', source: 'markdown_sync' });
+
+    const rerendered = await readFile(path.join(featureDir, 'task_01_task-01.md'), 'utf-8');
+    expect(rerendered).toContain('**Status**: ✅ completed');
+  });
+
+  it('re-renders files for database changes made since the last render', async () => {
+    await withStorage(storage => storage.updateTaskStatus('search', 'task_02', 'blocked', 'Waiting on API keys'));
+
+    const result = await handleSyncTasks({ project_root: projectRoot, feature_name: 'search' });
+
+    expect(result.features?.[0].rerendered_files).toEqual([path.join(featureDir, 'task_02_task-02.md')]);
+    const content = await readFile(path.join(featureDir, 'task_02_task-02.md'), 'utf-8');
+    expect(content).toContain('**Status**: 🚫 blocked');
+    expect(content).toContain('Waiting on API keys');
+  });
+
+  it('reports fields changed on both sides and resolves them on request', async () => {
+    await withStorage(storage => storage.updateTaskStatus('search', 'task_01', 'in_progress'));
+    await editTaskFile('task_01_task-01.md', content => content.replace('⏳ not_started', '🚫 blocked'));
+
+    const reported = await handleSyncTasks({ project_root: projectRoot, feature_name: 'search' });
+
+    expect(reported.unresolved_conflicts).toBe(1);
+    expect(reported.features?.[0].conflicts).toEqual([{
+      task_id: 'task_01',
+      field: 'status',
+      file_value: 'blocked',
+      database_value: 'in_progress',
+      resolution: 'unresolved'
+    }]);
+    expect(await readFile(path.join(featureDir, 'task_01_task-01.md'), 'utf-8')).toContain('🚫 blocked');
+
+    const resolved = await handleSyncTasks({ project_root: projectRoot, feature_name: 'search', prefer: 'database' });
+
+    expect(resolved.unresolved_conflicts).toBe(0);
+    expect(await readFile(path.join(featureDir, 'task_01_task-01.md'), 'utf-8')).toContain('🔄 in_progress');
+  });
+
+  it('reports unreadable files without overwriting them', async () => {
+    await editTaskFile('task_02_task-02.md', content => content.replace('⏳ not_started', 'done-ish'));
+
+    const result = spawnSync(tsxPath, [cliPath, 'sync', 'search'], { cwd: projectRoot, encoding: 'utf-8' });
+
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain('task_02_task-02.md: Unrecognized status "done-ish"');
+    expect(await readFile(path.join(featureDir, 'task_02_task-02.md'), 'utf-8')).toContain('done-ish');
+  });
+});
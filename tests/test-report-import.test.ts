@@ -0,0 +1,120 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { handleIngestTestResults, handleInitProject } from '../src/tools.js';
+import { handleValidateImplementationPrepare } from '../src/ai/validation/workflow.js';
+import { Storage } from '../src/core/storage.js';
+import { mapTestCasesToTasks, parseTestReport } from '../src/core/test-report-import.js';
+import { createParseResult, createTask } from './helpers/fixtures.js';
+
+const JUNIT_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="vitest tests" tests="4" failures="1">
+  <testsuite name="tests/login-form.test.ts" tests="3">
+    <testcase classname="tests/login-form.test.ts" name="login form &gt; shows an error for a wrong password" time="0.01">
+      <failure message="expected &quot;Invalid&quot; to be visible" type="AssertionError"><![CDATA[AssertionError: stack]]></failure>
+    </testcase>
+    <testcase classname="tests/login-form.test.ts" name="login form &gt; accepts valid credentials" time="0.02"/>
+    <testcase classname="tests/login-form.test.ts" name="login form &gt; remembers the user" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+  <testsuite name="tests/misc.test.ts" tests="1">
+    <testcase classname="tests/misc.test.ts" name="locks the account @ingest_auth_02" time="0.01"/>
+  </testsuite>
+</testsuites>
+`;
+
+const JEST_REPORT = JSON.stringify({
+  numTotalTests: 2,
+  testResults: [{
+    name: '/repo/tests/session.test.ts',
+    status: 'failed',
+    assertionResults: [
+      { ancestorTitles: ['Session'], title: 'Expired sessions are rejected', fullName: 'Session Expired sessions are rejected', status: 'failed', failureMessages: ['Error: got 200\n    at stack'] },
+      { ancestorTitles: ['Session'], title: 'renders a banner', fullName: 'Session renders a banner', status: 'todo', failureMessages: [] }
+    ]
+  }]
+});
+
+describe('test report parsing', () => {
+  it('reads JUnit XML and Jest JSON into passed, failed and skipped cases', () => {
+    const junit = parseTestReport(JUNIT_REPORT);
+    expect(junit.format).toBe('junit');
+    expect(junit.cases.map(testCase => [testCase.name, testCase.status])).toEqual([
+      ['shows an error for a wrong password', 'failed'],
+      ['accepts valid credentials', 'passed'],
+      ['remembers the user', 'skipped'],
+      ['locks the account @ingest_auth_02', 'passed']
+    ]);
+    expect(junit.cases[0]).toMatchObject({ file: 'tests/login-form.test.ts', error: 'expected "Invalid" to be visible' });
+
+    const jest = parseTestReport(JEST_REPORT);
+    expect(jest.format).toBe('json');
+    expect(jest.cases.map(testCase => testCase.status)).toEqual(['failed', 'skipped']);
+    expect(jest.cases[0].error).toBe('Error: got 200');
+  });
+
+  it('prefers tags over scenario names over test file names', () => {
+    const targets = [
+      { featureName: 'auth', taskId: 'ingest_auth_01', slug: 'login', testFile: 'login-form.feature', scenarios: [] },
+      { featureName: 'auth', taskId: 'ingest_auth_02', slug: 'lockout', testFile: 'lockout.feature', scenarios: ['Accepts valid credentials'] }
+    ];
+
+    const { tasks, unmatched } = mapTestCasesToTasks(parseTestReport(JUNIT_REPORT).cases, targets);
+
+    expect(unmatched).toEqual([]);
+    expect(tasks.find(task => task.target.taskId === 'ingest_auth_01')?.cases.map(entry => entry.matchedBy)).toEqual(['test_file', 'test_file']);
+    expect(tasks.find(task => task.target.taskId === 'ingest_auth_02')?.cases.map(entry => entry.matchedBy)).toEqual(['scenario', 'tag']);
+  });
+});
+
+describe('test result ingestion', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-ingest-'));
+    const result = await handleInitProject({ project_root: projectRoot });
+    expect(result.success).toBe(true);
+
+    const tasks = [
+      createTask('ingest_auth_01', { featureName: 'auth', testFile: 'login-form.feature' }),
+      createTask('ingest_auth_02', { featureName: 'auth', testFile: 'session.feature' })
+    ];
+    const parseResult = createParseResult(tasks, { spec: 'Users sign in', score: 80 });
+    const storage = new Storage(projectRoot);
+    await storage.initialize();
+    await storage.saveFeature('auth', tasks, parseResult, { skipSimilarityCheck: true });
+    storage.close();
+
+    await writeFile(
+      path.join(projectRoot, 'speclinter-tasks', 'auth', 'gherkin', 'session.feature'),
+      'Feature: Sessions\n  Scenario: Expired sessions are rejected\n    Given an expired session\n    Then the request is rejected\n'
+    );
+    await writeFile(path.join(projectRoot, 'junit.xml'), JUNIT_REPORT);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('records ingested results per task and shows pass rates in the validation prompt', async () => {
+    const junit = await handleIngestTestResults({ project_root: projectRoot, file_path: 'junit.xml' });
+    expect(junit).toMatchObject({ success: true, format: 'junit', test_case_count: 4, matched_case_count: 4 });
+
+    const jest = await handleIngestTestResults({ project_root: projectRoot, content: JEST_REPORT, feature_name: 'auth' });
+    expect(jest).toMatchObject({
+      success: true,
+      tasks: [{ task_id: 'ingest_auth_02', passed: 0, failed: 1, skipped: 1, matched_by: ['scenario', 'test_file'] }],
+      unmatched: []
+    });
+
+    const prepared = await handleValidateImplementationPrepare({ project_root: projectRoot, feature_name: 'auth' });
+    if (!prepared.success || !('validation_prompt' in prepared)) throw new Error('Expected a validation prompt');
+
+    expect(prepared.feature_context.test_pass_rate).toBe(33);
+    expect(prepared.validation_prompt).toContain('**ingest_auth_01**: 50% pass rate (1 passed, 1 failed, 1 skipped)');
+    expect(prepared.validation_prompt).toContain('**ingest_auth_02**: 0% pass rate (0 passed, 1 failed, 1 skipped)');
+    expect(prepared.validation_prompt).toContain('❌ Session Expired sessions are rejected: Error: got 200');
+  });
+});
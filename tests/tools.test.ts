@@ -1,8 +1,15 @@
 import os from 'os';
 import path from 'path';
 import { access, mkdtemp, rm } from 'fs/promises';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { handleInitProject } from '../src/tools.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  handleExportFeature,
+  handleGetReadyTasks,
+  handleInitProject,
+  handleListFeatures,
+  handleProjectOverview
+} from '../src/tools.js';
+import { Storage } from '../src/core/storage.js';
 
 describe('handleInitProject', () => {
   let projectRoot: string;
@@ -35,3 +42,31 @@ describe('handleInitProject', () => {
     expect(result.message).toContain('already initialized');
   });
 });
+
+describe('tool handlers', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(path.join(os.tmpdir(), 'speclinter-tools-'));
+    await handleInitProject({ project_root: projectRoot });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('close the database they open, also when they fail', async () => {
+    const initialize = vi.spyOn(Storage.prototype, 'initialize');
+    const close = vi.spyOn(Storage.prototype, 'close');
+
+    await handleListFeatures({ project_root: projectRoot });
+    await handleProjectOverview({ project_root: projectRoot });
+    await handleGetReadyTasks({ project_root: projectRoot, feature_name: 'missing' });
+    const failed = await handleExportFeature({ project_root: projectRoot, feature_name: 'missing', format: 'json' });
+
+    expect(failed.success).toBe(false);
+    expect(initialize).toHaveBeenCalledTimes(4);
+    expect(close).toHaveBeenCalledTimes(4);
+  });
+});
@@ -28,6 +28,7 @@ import type {
   AIGherkinAnalysis,
   AIReverseSpecAnalysis
 } from '../src/types/ai-schemas.js';
+import { getContinuationInputs } from './helpers/fixtures.js';
 
 describe('unified workflow regressions', () => {
   let projectRoot: string;
@@ -51,7 +52,7 @@ describe('unified workflow regressions', () => {
 
     expect(prepareResult.success).toBe(true);
     expect(prepareResult.continuation_tool).toBe('speclinter_analyze_codebase');
-    expect(prepareResult.continuation_args.include_reverse_spec).toBe(true);
+    expect((await getContinuationInputs(projectRoot, prepareResult.continuation_id))?.include_reverse_spec).toBe(true);
 
     const processResult = await handleAnalyzeCodebaseUnified({
       ...prepareResult.continuation_args,
@@ -93,7 +94,7 @@ describe('unified workflow regressions', () => {
     });
 
     expect(prepareResult.success).toBe(true);
-    expect(prepareResult.continuation_args.task_id).toBe(task.id);
+    expect((await getContinuationInputs(projectRoot, prepareResult.continuation_id))?.task_id).toBe(task.id);
 
     const processResult = await handleGenerateGherkinUnified({
       ...prepareResult.continuation_args,
@@ -11,6 +11,7 @@ import { handleProcessComprehensiveSpecAnalysis } from '../src/ai-tools.js';
 import { Storage } from '../src/core/storage.js';
 import { SpecParser } from '../src/core/parser.js';
 import { DEFAULT_CONFIG } from '../src/types/config.js';
+import { getContinuationInputs } from './helpers/fixtures.js';
 
 describe('production workflow contracts', () => {
   let projectRoot: string;
@@ -37,8 +38,12 @@ describe('production workflow contracts', () => {
     expect(result.success).toBe(true);
     expect(result.state).toBe('needs_ai_analysis');
     expect(result.continuation_tool).toBe('speclinter_analyze_spec_comprehensive');
-    expect(result.continuation_args.spec).toBe(spec);
-    expect(result.continuation_args.original_spec).toBe(spec);
+    expect(result.continuation_args).toEqual({
+      continuation_id: result.continuation_id,
+      prompt_hash: result.prompt_hash,
+      project_root: projectRoot
+    });
+    expect(await getContinuationInputs(projectRoot, result.continuation_id)).toMatchObject({ spec, original_spec: spec });
     expect(result.follow_up_tool).toBeUndefined();
   });
 